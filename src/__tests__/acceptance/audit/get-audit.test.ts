@@ -0,0 +1,204 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  createTestList,
+} from '../test-helper';
+
+describe('GET /audit', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('records the request, route, actor and diff of each mutation', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+      _lastUpdatedBy: 'user-1',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .set('x-request-id', 'update-request')
+      .send({ description: 'Updated description', _lastUpdatedBy: 'user-2' })
+      .expect(204);
+
+    await client
+      .delete(`/entities/${entityId}`)
+      .query({ deletedBy: 'user-3' })
+      .expect(204);
+
+    const response = await client
+      .get('/audit')
+      .query({ recordId: entityId })
+      .expect(200);
+
+    expect(
+      response.body.map((e: { _operation: string }) => e._operation),
+    ).to.eql(['create', 'update', 'delete']);
+    expect(response.body.map((e: { _actor: string }) => e._actor)).to.eql([
+      'user-1',
+      'user-2',
+      'user-3',
+    ]);
+
+    expect(response.body[1]).to.containDeep({
+      _requestId: 'update-request',
+      _route: `PATCH /entities/${entityId}`,
+      _recordType: 'entity',
+      _kind: 'book',
+    });
+    expect(response.body[1]._changes).to.containDeep([
+      { field: 'description', to: 'Updated description' },
+      { field: '_lastUpdatedBy', from: 'user-1', to: 'user-2' },
+    ]);
+    expect(
+      response.body[1]._changes.map((c: { field: string }) => c.field),
+    ).to.not.containEql('_name');
+    expect(response.body[2]._changes).to.containDeep([
+      { field: '_name', from: 'Original Book' },
+    ]);
+  });
+
+  it('filters the entries by actor, time range and filter', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      list_kinds: 'shelf',
+    });
+    ({ client } = appWithClient);
+
+    const before = new Date().toISOString();
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+      _lastUpdatedBy: 'user-1',
+    });
+    const listId = await createTestList(client, {
+      _name: 'Test Shelf',
+      _kind: 'shelf',
+      _lastUpdatedBy: 'user-2',
+    });
+
+    const byActor = await client
+      .get('/audit')
+      .query({ actor: 'user-2' })
+      .expect(200);
+
+    expect(byActor.body).to.have.length(1);
+    expect(byActor.body[0]).to.containDeep({
+      _recordId: listId,
+      _recordType: 'list',
+    });
+
+    const byFilter = await client
+      .get('/audit')
+      .query({ from: before, filter: { where: { _recordType: 'entity' } } })
+      .expect(200);
+
+    expect(byFilter.body).to.have.length(1);
+    expect(byFilter.body[0]._recordId).to.equal(entityId);
+
+    const inThePast = await client
+      .get('/audit')
+      .query({ to: before })
+      .expect(200);
+
+    expect(inThePast.body).to.have.length(0);
+  });
+
+  it('records relations and the trash moves of their list', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      list_kinds: 'shelf',
+      soft_delete_list: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const listId = await createTestList(client, {
+      _name: 'Test Shelf',
+      _kind: 'shelf',
+    });
+
+    const relation = await client
+      .post('/relations')
+      .send({ _listId: listId, _entityId: entityId })
+      .expect(200);
+
+    await client
+      .delete(`/lists/${listId}`)
+      .query({ deletedBy: 'user-1' })
+      .expect(204);
+
+    const response = await client
+      .get('/audit')
+      .query({ recordId: relation.body._id })
+      .expect(200);
+
+    expect(
+      response.body.map((e: { _operation: string }) => e._operation),
+    ).to.eql(['create', 'delete']);
+    expect(response.body[1]).to.containDeep({
+      _recordType: 'relation',
+      _actor: 'user-1',
+      _changes: [{ field: '_deletedBy', to: 'user-1' }],
+    });
+  });
+
+  it('does not record rejected requests', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      uniqueness_entity_fields: '_name',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, { _name: 'Test Book', _kind: 'book' });
+    await client
+      .post('/entities')
+      .send({ _name: 'Test Book', _kind: 'book' })
+      .expect(409);
+
+    const response = await client.get('/audit').expect(200);
+    expect(response.body).to.have.length(1);
+  });
+});
@@ -0,0 +1,194 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  createTestEntity,
+  setupApplication,
+  teardownApplication,
+} from '../test-helper';
+
+describe('POST /batch', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('creates records across models referring to earlier results', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      list_kinds: 'reading-list',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .post('/batch')
+      .send([
+        {
+          model: 'lists',
+          op: 'create',
+          data: { _name: 'Classics', _kind: 'reading-list' },
+        },
+        {
+          model: 'entities',
+          op: 'create',
+          data: { _name: 'Dune', _kind: 'book' },
+        },
+        {
+          model: 'entities',
+          op: 'create',
+          data: { _name: 'Emma', _kind: 'book' },
+        },
+        {
+          model: 'relations',
+          op: 'create',
+          data: { _listId: '$ref:0._id', _entityId: '$ref:1._id' },
+        },
+        {
+          model: 'relations',
+          op: 'create',
+          data: { _listId: '$ref:0._id', _entityId: '$ref:2._id' },
+        },
+        {
+          model: 'entity-reactions',
+          op: 'create',
+          data: { _entityId: '$ref:1._id', _name: 'Like' },
+        },
+        {
+          model: 'entities',
+          op: 'update',
+          id: '$ref:2._id',
+          data: { description: 'A novel' },
+        },
+      ])
+      .expect(200);
+
+    expect(
+      response.body.map((r: { statusCode: number }) => r.statusCode),
+    ).to.eql([200, 200, 200, 200, 200, 200, 200]);
+
+    const [list, dune, emma] = response.body.map(
+      (r: { data: { _id: string } }) => r.data,
+    );
+    expect(response.body[5].data._entityId).to.equal(dune._id);
+    expect(response.body[6].data).to.containDeep({
+      _id: emma._id,
+      description: 'A novel',
+      _version: 2,
+    });
+
+    const entitiesOfList = await client
+      .get(`/lists/${list._id}/entities`)
+      .expect(200);
+    expect(
+      entitiesOfList.body.map((e: { _name: string }) => e._name).sort(),
+    ).to.eql(['Dune', 'Emma']);
+  });
+
+  it('applies none of the operations if an operation fails', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const existingId = await createTestEntity(client, {
+      _name: 'Existing Book',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .post('/batch')
+      .send([
+        {
+          model: 'entities',
+          op: 'create',
+          data: { _name: 'Dune', _kind: 'book' },
+        },
+        { model: 'entities', op: 'delete', id: existingId },
+        {
+          model: 'entity-reactions',
+          op: 'create',
+          data: { _entityId: 'missing-entity', _name: 'Like' },
+        },
+      ])
+      .expect(404);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 404,
+      code: 'ENTITY-NOT-FOUND',
+      details: [{ path: '/2', code: 'ENTITY-NOT-FOUND' }],
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body.map((e: { _id: string }) => e._id)).to.eql([
+      existingId,
+    ]);
+  });
+
+  it('rejects references that do not point to an earlier result', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .post('/batch')
+      .send([
+        {
+          model: 'entities',
+          op: 'create',
+          data: { _name: 'Dune', _kind: 'book', _parents: ['$ref:1._id'] },
+        },
+        {
+          model: 'entities',
+          op: 'create',
+          data: { _name: 'Emma', _kind: 'book' },
+        },
+      ])
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      code: 'INVALID-BATCH-REFERENCE',
+      details: [{ path: '/0' }],
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(0);
+  });
+
+  it('rejects operations on unknown models', async () => {
+    appWithClient = await setupApplication({});
+    ({ client } = appWithClient);
+
+    await client
+      .post('/batch')
+      .send([{ model: 'users', op: 'create', data: {} }])
+      .expect(422);
+  });
+});
@@ -0,0 +1,348 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  createTestList,
+  createTestEntityReaction,
+} from '../test-helper';
+
+describe('GET /changes', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('records an event for create, update, replace and delete', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+      _lastUpdatedBy: 'user-1',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ description: 'Updated description', _lastUpdatedBy: 'user-2' })
+      .expect(204);
+
+    await client
+      .put(`/entities/${entityId}`)
+      .send({ _name: 'Replaced Book', _kind: 'book', _lastUpdatedBy: 'user-3' })
+      .expect(204);
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    const response = await client.get('/changes').expect(200);
+
+    expect(response.body).to.have.length(4);
+    expect(
+      response.body.map((e: { _operation: string }) => e._operation),
+    ).to.eql(['create', 'update', 'replace', 'delete']);
+    expect(response.body.map((e: { _version: number }) => e._version)).to.eql([
+      1, 2, 3, 3,
+    ]);
+    expect(response.body.map((e: { _actor: string }) => e._actor)).to.eql([
+      'user-1',
+      'user-2',
+      'user-3',
+      'user-3',
+    ]);
+
+    for (const event of response.body) {
+      expect(event).to.have.property('_recordId', entityId);
+      expect(event).to.have.property('_recordType', 'entity');
+      expect(event).to.have.property('_kind', 'book');
+      expect(event).to.have.property('_changeDateTime');
+    }
+
+    expect(response.body[0]._changedFields).to.containDeep(['_name', '_kind']);
+    expect(response.body[1]._changedFields).to.containDeep(['description']);
+    expect(response.body[1]._changedFields).to.not.containEql('_name');
+    // Fields removed by the replace are reported as changed
+    expect(response.body[2]._changedFields).to.containDeep([
+      '_name',
+      'description',
+    ]);
+    expect(response.body[3]._changedFields).to.eql([]);
+  });
+
+  it('resumes the feed after the given cursor', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const firstId = await createTestEntity(client, {
+      _name: 'First Book',
+      _kind: 'book',
+    });
+    const secondId = await createTestEntity(client, {
+      _name: 'Second Book',
+      _kind: 'book',
+    });
+    const thirdId = await createTestEntity(client, {
+      _name: 'Third Book',
+      _kind: 'book',
+    });
+
+    const firstPage = await client
+      .get('/changes')
+      .query({ limit: 2 })
+      .expect(200);
+
+    expect(
+      firstPage.body.map((e: { _recordId: string }) => e._recordId),
+    ).to.eql([firstId, secondId]);
+
+    const secondPage = await client
+      .get('/changes')
+      .query({ after: firstPage.body[1]._id })
+      .expect(200);
+
+    expect(
+      secondPage.body.map((e: { _recordId: string }) => e._recordId),
+    ).to.eql([thirdId]);
+
+    const lastPage = await client
+      .get('/changes')
+      .query({ after: secondPage.body[0]._id })
+      .expect(200);
+
+    expect(lastPage.body).to.be.Array().and.have.length(0);
+  });
+
+  it('filters the feed by model and kind', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book,movie',
+      list_kinds: 'reading',
+      entity_reaction_kinds: 'like',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    await createTestEntity(client, {
+      _name: 'Test Movie',
+      _kind: 'movie',
+    });
+    await createTestList(client, {
+      _name: 'Test List',
+      _kind: 'reading',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Test Reaction',
+      _entityId: bookId,
+      _kind: 'like',
+    });
+
+    const entityResponse = await client
+      .get('/changes')
+      .query({ model: 'entity', kind: 'book' })
+      .expect(200);
+
+    expect(entityResponse.body).to.have.length(1);
+    expect(entityResponse.body[0]._recordId).to.equal(bookId);
+
+    const reactionResponse = await client
+      .get('/changes')
+      .query({ model: 'entityReaction' })
+      .expect(200);
+
+    expect(reactionResponse.body).to.have.length(1);
+    expect(reactionResponse.body[0]._recordId).to.equal(reactionId);
+  });
+
+  it('records the deletion of reactions deleted with their entity', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Test Reaction',
+      _entityId: entityId,
+      _kind: 'like',
+    });
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    const response = await client
+      .get('/changes')
+      .query({ model: 'entityReaction' })
+      .expect(200);
+
+    expect(
+      response.body.map((e: { _operation: string }) => e._operation),
+    ).to.eql(['create', 'delete']);
+    expect(response.body[1]._recordId).to.equal(reactionId);
+  });
+
+  it('records an event for each record updated in bulk', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, { _name: 'First Book', _kind: 'book' });
+    await createTestEntity(client, { _name: 'Second Book', _kind: 'book' });
+
+    await client
+      .patch('/entities')
+      .query({ where: { _kind: 'book' } })
+      .send({ description: 'Bulk description' })
+      .expect(200);
+
+    const response = await client.get('/changes').expect(200);
+
+    const updates = response.body.filter(
+      (e: { _operation: string }) => e._operation === 'update',
+    );
+
+    expect(updates).to.have.length(2);
+    expect(updates[0]._changedFields).to.containDeep(['description']);
+  });
+
+  it('records soft deletes and restores', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    await client
+      .delete(`/entities/${entityId}`)
+      .query({ deletedBy: 'user-1' })
+      .expect(204);
+    await client.post(`/entities/${entityId}/restore`).expect(200);
+
+    const response = await client.get('/changes').expect(200);
+
+    expect(
+      response.body.map((e: { _operation: string }) => e._operation),
+    ).to.eql(['create', 'delete', 'update']);
+    expect(response.body[1]._actor).to.equal('user-1');
+    expect(response.body[1]._changedFields).to.eql([
+      '_deletedDateTime',
+      '_deletedBy',
+    ]);
+  });
+
+  it('records the events of concurrent updates of different records', async () => {
+    appWithClient = await setupApplication({
+      change_feed_read_lag_ms: '0',
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityIds: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      entityIds.push(
+        await createTestEntity(client, { _name: `Book ${i}`, _kind: 'book' }),
+      );
+    }
+
+    await Promise.all(
+      entityIds.map((entityId) =>
+        client
+          .patch(`/entities/${entityId}`)
+          .send({ description: 'Updated in parallel' })
+          .expect(204),
+      ),
+    );
+
+    const response = await client.get('/changes').expect(200);
+
+    const updates = response.body.filter(
+      (e: { _operation: string }) => e._operation === 'update',
+    );
+
+    expect(updates).to.have.length(10);
+    expect(
+      updates.map((e: { _recordId: string }) => e._recordId).sort(),
+    ).to.eql([...entityIds].sort());
+  });
+
+  it('holds back the events recorded within the read lag', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, { _name: 'Test Book', _kind: 'book' });
+
+    const response = await client.get('/changes').expect(200);
+
+    expect(response.body).to.be.Array().and.have.length(0);
+  });
+
+  it('returns 400 for an unknown cursor', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .get('/changes')
+      .query({ after: 'unknown-cursor' })
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 400,
+      name: 'InvalidCursorError',
+      code: 'INVALID-CHANGE-CURSOR',
+      status: 400,
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { expect } from '@loopback/testlab';
+import type { Client } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  createTestEntity,
+  createTestEntityReaction,
+  teardownApplication,
+} from '../test-helper';
+
+describe('POST /entity-reactions/{id}/move', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('moves a reply to another thread of the same entity', async () => {
+    appWithClient = await setupApplication({ entity_kinds: 'book' });
+    ({ client } = appWithClient);
+    const entityId = await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+    });
+    const firstThreadId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+    });
+    const secondThreadId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+    });
+    const replyId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+      _parents: [`tapp://localhost/entity-reactions/${firstThreadId}`],
+    });
+
+    const response = await client
+      .post(`/entity-reactions/${replyId}/move`)
+      .send({ from: firstThreadId, to: secondThreadId })
+      .expect(200);
+
+    expect(response.body._parents).to.eql([
+      `tapp://localhost/entity-reactions/${secondThreadId}`,
+    ]);
+
+    const children = await client
+      .get(`/entity-reactions/${secondThreadId}/children`)
+      .expect(200);
+    expect(children.body).to.have.length(1);
+    expect(children.body[0]._id).to.equal(replyId);
+  });
+
+  it('rejects moving a reply to a thread of another entity', async () => {
+    appWithClient = await setupApplication({ entity_kinds: 'book' });
+    ({ client } = appWithClient);
+    const entityId = await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+    });
+    const otherEntityId = await createTestEntity(client, {
+      _name: 'Book 2',
+      _kind: 'book',
+    });
+    const threadId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+    });
+    const otherThreadId = await createTestEntityReaction(client, {
+      _entityId: otherEntityId,
+      _kind: 'comment',
+    });
+    const replyId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+      _parents: [`tapp://localhost/entity-reactions/${threadId}`],
+    });
+
+    const response = await client
+      .post(`/entity-reactions/${replyId}/move`)
+      .send({ from: threadId, to: otherThreadId })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      name: 'InvalidParentEntityIdError',
+      code: 'ENTITY-REACTION-INVALID-PARENT-ENTITY-ID',
+    });
+
+    // The reply is left in its thread
+    const reply = await client.get(`/entity-reactions/${replyId}`).expect(200);
+    expect(reply.body._parents).to.eql([
+      `tapp://localhost/entity-reactions/${threadId}`,
+    ]);
+  });
+
+  it('rejects a target thread which does not exist', async () => {
+    appWithClient = await setupApplication({ entity_kinds: 'book' });
+    ({ client } = appWithClient);
+    const entityId = await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+    });
+    const threadId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+    });
+    const replyId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+      _parents: [`tapp://localhost/entity-reactions/${threadId}`],
+    });
+
+    const response = await client
+      .post(`/entity-reactions/${replyId}/move`)
+      .send({ from: threadId, to: 'non-existent-id' })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      name: 'InvalidMoveError',
+      code: 'ENTITY-REACTION-MOVE-TARGET-NOT-FOUND',
+    });
+  });
+
+  it('rejects an empty request body', async () => {
+    appWithClient = await setupApplication({ entity_kinds: 'book' });
+    ({ client } = appWithClient);
+    const entityId = await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _entityId: entityId,
+      _kind: 'comment',
+    });
+
+    const response = await client
+      .post(`/entity-reactions/${reactionId}/move`)
+      .send({})
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      code: 'ENTITY-REACTION-EMPTY-MOVE',
+    });
+
+    const reaction = await client
+      .get(`/entity-reactions/${reactionId}`)
+      .expect(200);
+    expect(reaction.body._version).to.equal(1);
+  });
+});
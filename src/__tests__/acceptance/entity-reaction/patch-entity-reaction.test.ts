@@ -240,4 +240,45 @@ describe('PATCH /entity-reactions/{id}', () => {
     );
     expect(response.body).to.have.property('_visibility', 'public');
   });
+
+  it('returns 412 when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      entity_reaction_kinds: 'like',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Entity',
+      _kind: 'book',
+    });
+
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Original Reaction',
+      _entityId: entityId,
+      _kind: 'like',
+    });
+
+    const getResponse = await client
+      .get(`/entity-reactions/${reactionId}`)
+      .expect(200);
+    expect(getResponse.headers).to.have.property('etag', '"1"');
+
+    await client
+      .patch(`/entity-reactions/${reactionId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _name: 'First Update' })
+      .expect(204);
+
+    const errorResponse = await client
+      .patch(`/entity-reactions/${reactionId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _name: 'Second Update' })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.containDeep({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      code: 'ENTITY-REACTION-VERSION-MISMATCH',
+    });
+  });
 });
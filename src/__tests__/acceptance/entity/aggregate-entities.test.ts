@@ -0,0 +1,159 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  cleanupCreatedEntities,
+} from '../test-helper';
+
+describe('GET /entities/aggregate', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      // Clean up created entities
+      await cleanupCreatedEntities(client);
+
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function givenEntities(): Promise<void> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+      status: 'published',
+      price: 10,
+    });
+    await createTestEntity(client, {
+      _name: 'Book 2',
+      _kind: 'book',
+      status: 'published',
+      price: 20,
+    });
+    await createTestEntity(client, {
+      _name: 'Book 3',
+      _kind: 'book',
+      status: 'draft',
+      price: 5,
+    });
+    await createTestEntity(client, {
+      _name: 'Movie 1',
+      _kind: 'movie',
+    });
+  }
+
+  it('counts all entities in a single bucket by default', async () => {
+    await givenEntities();
+
+    const response = await client.get('/entities/aggregate').expect(200);
+
+    expect(response.body).to.eql([{ group: {}, metrics: { count: 4 } }]);
+  });
+
+  it('groups the entities and computes the metrics of each bucket', async () => {
+    await givenEntities();
+
+    const response = await client
+      .get('/entities/aggregate')
+      .query({ groupBy: '_kind,status', metrics: 'count,avg:price,max:price' })
+      .expect(200);
+
+    expect(response.body).to.eql([
+      {
+        group: { _kind: 'book', status: 'draft' },
+        metrics: { count: 1, 'avg:price': 5, 'max:price': 5 },
+      },
+      {
+        group: { _kind: 'book', status: 'published' },
+        metrics: { count: 2, 'avg:price': 15, 'max:price': 20 },
+      },
+      {
+        group: { _kind: 'movie', status: null },
+        metrics: { count: 1, 'avg:price': null, 'max:price': null },
+      },
+    ]);
+  });
+
+  it('aggregates only the entities matching the where clause', async () => {
+    await givenEntities();
+
+    const response = await client
+      .get('/entities/aggregate')
+      .query({
+        groupBy: 'status',
+        metrics: 'sum:price',
+        where: { _kind: 'book' },
+      })
+      .expect(200);
+
+    expect(response.body).to.eql([
+      { group: { status: 'draft' }, metrics: { 'sum:price': 5 } },
+      { group: { status: 'published' }, metrics: { 'sum:price': 30 } },
+    ]);
+  });
+
+  it('builds a date histogram on the creation date', async () => {
+    await givenEntities();
+
+    const response = await client
+      .get('/entities/aggregate')
+      .query({ groupBy: '_createdDateTime:day' })
+      .expect(200);
+
+    const today = new Date();
+    today.setUTCHours(0, 0, 0, 0);
+
+    expect(response.body).to.eql([
+      {
+        group: { '_createdDateTime:day': today.toISOString() },
+        metrics: { count: 4 },
+      },
+    ]);
+  });
+
+  it('rejects unknown metrics', async () => {
+    await givenEntities();
+
+    const response = await client
+      .get('/entities/aggregate')
+      .query({ metrics: 'median:price' })
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 400,
+      code: 'INVALID-AGGREGATE-QUERY',
+    });
+  });
+});
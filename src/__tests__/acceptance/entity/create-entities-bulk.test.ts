@@ -0,0 +1,165 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import { setupApplication, teardownApplication } from '../test-helper';
+
+describe('POST /entities/bulk', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('creates all entities and returns them in order', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .post('/entities/bulk')
+      .send([
+        { _name: 'First Book', _kind: 'book' },
+        { _name: 'Second Book', _kind: 'book' },
+      ])
+      .expect(200);
+
+    expect(response.body).to.have.length(2);
+    expect(response.body[0]).to.containDeep({
+      index: 0,
+      statusCode: 200,
+      data: { _name: 'First Book', _kind: 'book', _version: 1 },
+    });
+    expect(response.body[1]).to.containDeep({
+      index: 1,
+      statusCode: 200,
+      data: { _name: 'Second Book' },
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(2);
+  });
+
+  it('creates none of the entities in atomic mode if an item fails', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      uniqueness_entity_fields: '_name',
+    });
+    ({ client } = appWithClient);
+
+    // The second item conflicts with the first one of the same batch
+    const response = await client
+      .post('/entities/bulk')
+      .send([
+        { _name: 'Same Book', _kind: 'book' },
+        { _name: 'Same Book', _kind: 'book' },
+        { _name: 'Other Book', _kind: 'book' },
+      ])
+      .expect(409);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 409,
+      code: 'ENTITY-UNIQUENESS-VIOLATION',
+      details: [{ path: '/1', code: 'ENTITY-UNIQUENESS-VIOLATION' }],
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(0);
+  });
+
+  it('creates the valid entities in best-effort mode', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      ENTITY_RECORD_LIMITS: '[{"scope":"","limit":2}]',
+    });
+    ({ client } = appWithClient);
+
+    // The third item exceeds the limit together with the first two
+    const response = await client
+      .post('/entities/bulk')
+      .query({ mode: 'best-effort' })
+      .send([
+        { _name: 'First Book', _kind: 'book' },
+        { _name: 'Second Book', _kind: 'book' },
+        { _name: 'Third Book', _kind: 'book' },
+        { _name: 'Invalid Book', _kind: 'unknown' },
+      ])
+      .expect(200);
+
+    expect(
+      response.body.map((r: { statusCode: number }) => r.statusCode),
+    ).to.eql([200, 200, 429, 422]);
+    expect(response.body[2].error).to.containDeep({
+      statusCode: 429,
+      code: 'ENTITY-LIMIT-EXCEEDED',
+    });
+    expect(response.body[3].error).to.containDeep({
+      statusCode: 422,
+      code: 'INVALID-ENTITY-KIND',
+    });
+    expect(response.body[2]).to.not.have.property('data');
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(2);
+  });
+
+  it('returns the existing entity for idempotent items of the same batch', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      idempotency_entity: '_kind,_name',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .post('/entities/bulk')
+      .send([
+        { _name: 'Same Book', _kind: 'book' },
+        { _name: 'Same Book', _kind: 'book' },
+      ])
+      .expect(200);
+
+    expect(response.body[1].data._id).to.equal(response.body[0].data._id);
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(1);
+  });
+
+  it('rejects an unknown mode', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    await client
+      .post('/entities/bulk')
+      .query({ mode: 'partial' })
+      .send([{ _name: 'Book', _kind: 'book' }])
+      .expect(400);
+  });
+});
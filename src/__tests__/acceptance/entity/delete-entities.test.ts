@@ -0,0 +1,200 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import { setupApplication, teardownApplication } from '../test-helper';
+
+describe('DELETE /entities', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function createTestEntities() {
+    const ids: string[] = [];
+
+    for (const entity of [
+      { _name: 'First Book', _kind: 'book' },
+      { _name: 'Second Book', _kind: 'book' },
+      { _name: 'First Movie', _kind: 'movie' },
+    ]) {
+      const response = await client.post('/entities').send(entity).expect(200);
+      ids.push(response.body._id);
+    }
+
+    return ids;
+  }
+
+  it('deletes the entities matching the filter when confirmed', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+    });
+    ({ client } = appWithClient);
+
+    const [firstBookId, secondBookId, movieId] = await createTestEntities();
+
+    const response = await client
+      .del('/entities')
+      .query({ 'filter[where][_kind]': 'book', confirm: true })
+      .expect(200);
+
+    expect(response.body.count).to.equal(2);
+    expect(response.body.ids).to.containDeep([firstBookId, secondBookId]);
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(1);
+    expect(entities.body[0]._id).to.equal(movieId);
+  });
+
+  it('reports the matching entities without deleting them in dry-run mode', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+    });
+    ({ client } = appWithClient);
+
+    const [firstBookId, secondBookId] = await createTestEntities();
+
+    const response = await client
+      .del('/entities')
+      .query({ 'filter[where][_kind]': 'book', dryRun: true })
+      .expect(200);
+
+    expect(response.body).to.containDeep({ count: 2, dryRun: true });
+    expect(response.body.ids).to.containDeep([firstBookId, secondBookId]);
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(3);
+  });
+
+  it('does not match the entities in the trash', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const [firstBookId, secondBookId] = await createTestEntities();
+    await client.del(`/entities/${firstBookId}`).expect(204);
+
+    const deleteds = await client
+      .del('/entities')
+      .query({ 'set[deleteds]': true, confirm: true })
+      .expect(200);
+
+    expect(deleteds.body).to.eql({ count: 0, ids: [] });
+
+    const response = await client
+      .del('/entities')
+      .query({ 'filter[where][_kind]': 'book', confirm: true })
+      .expect(200);
+
+    expect(response.body).to.eql({ count: 1, ids: [secondBookId] });
+  });
+
+  it('rejects the request without confirmation', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntities();
+
+    const response = await client
+      .del('/entities')
+      .query({ 'filter[where][_kind]': 'book' })
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 400,
+      code: 'BULK-DELETE-NOT-CONFIRMED',
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(3);
+  });
+
+  it('rejects a filter matching more entities than the maximum batch size', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      bulk_delete_max_batch_size: '2',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntities();
+
+    const response = await client
+      .del('/entities')
+      .query({ confirm: true })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 422,
+      code: 'BULK-DELETE-LIMIT-EXCEEDED',
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(3);
+  });
+
+  it('applies sets to the entities to delete', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const pastDate = new Date(Date.now() - 86400000).toISOString();
+
+    const activeEntity = await client
+      .post('/entities')
+      .send({
+        _name: 'Active Book',
+        _kind: 'book',
+        _validFromDateTime: pastDate,
+      })
+      .expect(200);
+    await client
+      .post('/entities')
+      .send({ _name: 'Inactive Book', _kind: 'book' })
+      .expect(200);
+
+    const response = await client
+      .del('/entities')
+      .query({ 'set[actives]': true, confirm: true })
+      .expect(200);
+
+    expect(response.body).to.eql({
+      count: 1,
+      ids: [activeEntity.body._id],
+    });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(1);
+    expect(entities.body[0]._name).to.equal('Inactive Book');
+  });
+});
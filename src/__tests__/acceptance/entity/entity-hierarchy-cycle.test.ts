@@ -0,0 +1,122 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+import type { AppWithClient } from '../test-helper';
+
+describe('Entity hierarchy cycles', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  // a -> b -> c
+  async function givenCategoryChain(): Promise<Record<string, string>> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'category',
+    });
+    ({ client } = appWithClient);
+
+    const a = await createTestEntity(client, {
+      _name: 'A',
+      _kind: 'category',
+    });
+    const b = await createTestEntity(client, {
+      _name: 'B',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${a}`],
+    });
+    const c = await createTestEntity(client, {
+      _name: 'C',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${b}`],
+    });
+
+    return { a, b, c };
+  }
+
+  it('rejects an entity as its own parent', async () => {
+    const { a } = await givenCategoryChain();
+
+    const response = await client
+      .patch(`/entities/${a}`)
+      .send({ _parents: [`tapp://localhost/entities/${a}`] })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 422,
+      name: 'HierarchyCycleError',
+      code: 'ENTITY-HIERARCHY-CYCLE',
+    });
+    expect(response.body.error.message).to.containEql(`${a} > ${a}`);
+  });
+
+  it('rejects a descendant as the parent of an entity and names the path', async () => {
+    const { a, b, c } = await givenCategoryChain();
+
+    const response = await client
+      .put(`/entities/${a}`)
+      .send({
+        _name: 'A',
+        _kind: 'category',
+        _parents: [`tapp://localhost/entities/${c}`],
+      })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      code: 'ENTITY-HIERARCHY-CYCLE',
+    });
+    expect(response.body.error.message).to.containEql(
+      `${a} > ${b} > ${c} > ${a}`,
+    );
+
+    // The entity is left unchanged
+    const entity = await client.get(`/entities/${a}`).expect(200);
+    expect(entity.body._parents ?? []).to.eql([]);
+  });
+
+  it('accepts moving an entity under an entity outside its subtree', async () => {
+    const { a, c } = await givenCategoryChain();
+
+    const d = await createTestEntity(client, {
+      _name: 'D',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${a}`],
+    });
+
+    await client
+      .patch(`/entities/${c}`)
+      .send({ _parents: [`tapp://localhost/entities/${d}`] })
+      .expect(204);
+  });
+});
@@ -0,0 +1,124 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+import type { AppWithClient } from '../test-helper';
+
+describe('Entity materialized path', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  // fiction -> fantasy -> epic, science
+  async function givenCategoryTree(): Promise<Record<string, string>> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'category',
+    });
+    ({ client } = appWithClient);
+
+    const fiction = await createTestEntity(client, {
+      _name: 'Fiction',
+      _kind: 'category',
+    });
+    const science = await createTestEntity(client, {
+      _name: 'Science',
+      _kind: 'category',
+    });
+    const fantasy = await createTestEntity(client, {
+      _name: 'Fantasy',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fiction}`],
+    });
+    const epic = await createTestEntity(client, {
+      _name: 'Epic',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fantasy}`],
+    });
+
+    return { fiction, science, fantasy, epic };
+  }
+
+  async function findNamesInSubtree(id: string): Promise<string[]> {
+    const response = await client
+      .get('/entities')
+      .query({
+        filter: {
+          where: { _ancestors: `tapp://localhost/entities/${id}` },
+          order: ['_depth ASC'],
+        },
+      })
+      .expect(200);
+
+    return response.body.map((e: GenericEntity) => e._name);
+  }
+
+  it('returns a whole subtree with a single query', async () => {
+    const { fiction } = await givenCategoryTree();
+
+    expect(await findNamesInSubtree(fiction)).to.eql(['Fantasy', 'Epic']);
+  });
+
+  it('filters the records by their depth', async () => {
+    await givenCategoryTree();
+
+    const response = await client
+      .get('/entities')
+      .query({ filter: { where: { _depth: 2 } } })
+      .expect(200);
+
+    expect(response.body.map((e: GenericEntity) => e._name)).to.eql(['Epic']);
+  });
+
+  it('hides the materialized path in responses', async () => {
+    const { epic } = await givenCategoryTree();
+
+    const response = await client.get(`/entities/${epic}`).expect(200);
+
+    expect(response.body).to.not.have.property('_ancestors');
+    expect(response.body).to.not.have.property('_depth');
+  });
+
+  it('propagates the path to the descendants when a record is moved', async () => {
+    const { fiction, science, fantasy } = await givenCategoryTree();
+
+    await client
+      .patch(`/entities/${fantasy}`)
+      .send({ _parents: [`tapp://localhost/entities/${science}`] })
+      .expect(204);
+
+    expect(await findNamesInSubtree(fiction)).to.eql([]);
+    expect(await findNamesInSubtree(science)).to.eql(['Fantasy', 'Epic']);
+  });
+});
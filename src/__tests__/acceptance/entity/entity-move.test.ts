@@ -0,0 +1,223 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+import type { AppWithClient } from '../test-helper';
+
+describe('POST /entities/{entityId}/move', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  // fiction -> fantasy -> epic, science
+  async function givenCategoryTree(
+    config: Record<string, string> = {},
+  ): Promise<Record<string, string>> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'category,book',
+      ...config,
+    });
+    ({ client } = appWithClient);
+
+    const fiction = await createTestEntity(client, {
+      _name: 'Fiction',
+      _kind: 'category',
+    });
+    const science = await createTestEntity(client, {
+      _name: 'Science',
+      _kind: 'category',
+    });
+    const fantasy = await createTestEntity(client, {
+      _name: 'Fantasy',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fiction}`],
+    });
+    const epic = await createTestEntity(client, {
+      _name: 'Epic',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fantasy}`],
+    });
+
+    return { fiction, science, fantasy, epic };
+  }
+
+  it('moves an entity with its subtree to the new parent', async () => {
+    const { fiction, science, fantasy } = await givenCategoryTree();
+
+    const response = await client
+      .post(`/entities/${fantasy}/move`)
+      .send({ from: fiction, to: science })
+      .expect(200);
+
+    expect(response.body._parents).to.eql([
+      `tapp://localhost/entities/${science}`,
+    ]);
+    expect(response.body._version).to.equal(2);
+
+    const subtree = await client
+      .get('/entities')
+      .query({
+        filter: {
+          where: { _ancestors: `tapp://localhost/entities/${science}` },
+          order: ['_depth ASC'],
+        },
+      })
+      .expect(200);
+    expect(subtree.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Fantasy',
+      'Epic',
+    ]);
+
+    const children = await client
+      .get(`/entities/${fiction}/children`)
+      .expect(200);
+    expect(children.body).to.be.empty();
+  });
+
+  it('detaches an entity from its parent when no target is given', async () => {
+    const { fiction, fantasy } = await givenCategoryTree();
+
+    const response = await client
+      .post(`/entities/${fantasy}/move`)
+      .send({ from: fiction })
+      .expect(200);
+
+    expect(response.body._parents ?? []).to.eql([]);
+  });
+
+  it('rejects moving from a parent the entity does not have', async () => {
+    const { science, fantasy, epic } = await givenCategoryTree();
+
+    const response = await client
+      .post(`/entities/${epic}/move`)
+      .send({ from: science, to: fantasy })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 422,
+      name: 'InvalidMoveError',
+      code: 'ENTITY-INVALID-MOVE',
+    });
+  });
+
+  it('rejects moving an entity under its own descendant', async () => {
+    const { fiction, epic } = await givenCategoryTree();
+
+    const response = await client
+      .post(`/entities/${fiction}/move`)
+      .send({ to: epic })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      code: 'ENTITY-HIERARCHY-CYCLE',
+    });
+
+    // The entity is left unchanged
+    const entity = await client.get(`/entities/${fiction}`).expect(200);
+    expect(entity.body._parents ?? []).to.eql([]);
+  });
+
+  it('rejects a target parent not allowed by the lookup constraints', async () => {
+    const { fiction, fantasy } = await givenCategoryTree({
+      ENTITY_LOOKUP_CONSTRAINT: JSON.stringify([
+        { propertyPath: '_parents', record: 'entity', targetKind: 'category' },
+      ]),
+    });
+    const book = await createTestEntity(client, {
+      _name: 'Dune',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .post(`/entities/${fantasy}/move`)
+      .send({ from: fiction, to: book })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      code: 'ENTITY-INVALID-LOOKUP-KIND',
+    });
+  });
+
+  it('rejects a target parent which does not exist', async () => {
+    const { fiction, fantasy } = await givenCategoryTree();
+
+    const response = await client
+      .post(`/entities/${fantasy}/move`)
+      .send({ from: fiction, to: 'non-existent-id' })
+      .expect(422);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 422,
+      name: 'InvalidMoveError',
+      code: 'ENTITY-MOVE-TARGET-NOT-FOUND',
+    });
+
+    // The entity is left under its parent
+    const entity = await client.get(`/entities/${fantasy}`).expect(200);
+    expect(entity.body._parents).to.eql([
+      `tapp://localhost/entities/${fiction}`,
+    ]);
+  });
+
+  it('returns 404 for a non-existent entity', async () => {
+    const { fiction } = await givenCategoryTree();
+
+    const response = await client
+      .post('/entities/non-existent-id/move')
+      .send({ to: fiction })
+      .expect(404);
+
+    expect(response.body.error).to.containDeep({
+      code: 'ENTITY-NOT-FOUND',
+    });
+  });
+
+  it('rejects an empty request body without changing the entity', async () => {
+    const { fantasy } = await givenCategoryTree();
+
+    const response = await client
+      .post(`/entities/${fantasy}/move`)
+      .send({})
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 400,
+      code: 'ENTITY-EMPTY-MOVE',
+    });
+
+    const entity = await client.get(`/entities/${fantasy}`).expect(200);
+    expect(entity.body._version).to.equal(1);
+  });
+});
@@ -0,0 +1,166 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  createTestEntityReaction,
+  cleanupCreatedEntities,
+  cleanupCreatedEntityReactions,
+} from '../test-helper';
+
+describe('Entity reaction counters', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      // Clean up created entity reactions and entities
+      await cleanupCreatedEntityReactions(client);
+      await cleanupCreatedEntities(client);
+
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function givenLikedBooks(): Promise<{
+    book1Id: string;
+    book2Id: string;
+    likeIds: string[];
+  }> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like,comment',
+    });
+    ({ client } = appWithClient);
+
+    const pastDate = new Date(Date.now() - 60000).toISOString();
+
+    const book1Id = await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+    });
+    const book2Id = await createTestEntity(client, {
+      _name: 'Book 2',
+      _kind: 'book',
+    });
+
+    const likeIds = [
+      await createTestEntityReaction(client, {
+        _entityId: book1Id,
+        _kind: 'like',
+        _validFromDateTime: pastDate,
+      }),
+      await createTestEntityReaction(client, {
+        _entityId: book2Id,
+        _kind: 'like',
+        _validFromDateTime: pastDate,
+      }),
+      await createTestEntityReaction(client, {
+        _entityId: book2Id,
+        _kind: 'like',
+        _validFromDateTime: pastDate,
+      }),
+    ];
+
+    await createTestEntityReaction(client, {
+      _entityId: book2Id,
+      _kind: 'comment',
+      _validFromDateTime: pastDate,
+    });
+
+    // Not active
+    await createTestEntityReaction(client, {
+      _entityId: book1Id,
+      _kind: 'like',
+    });
+
+    return { book1Id, book2Id, likeIds };
+  }
+
+  it('counts the active reactions of each kind on the entity', async () => {
+    const { book1Id, book2Id } = await givenLikedBooks();
+
+    const book1 = await client.get(`/entities/${book1Id}`).expect(200);
+    expect(book1.body._reactionCounts).to.eql({ like: 1 });
+
+    const book2 = await client.get(`/entities/${book2Id}`).expect(200);
+    expect(book2.body._reactionCounts).to.eql({ like: 2, comment: 1 });
+
+    // Counters do not change the version of the entity
+    expect(book2.body._version).to.equal(1);
+  });
+
+  it('filters and sorts entities by their reaction counters', async () => {
+    const { book2Id } = await givenLikedBooks();
+
+    const sorted = await client
+      .get('/entities')
+      .query('filter[order]=_reactionCounts.like DESC')
+      .expect(200);
+
+    expect(sorted.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Book 2',
+      'Book 1',
+    ]);
+
+    const filtered = await client
+      .get('/entities')
+      .query('filter[where][_reactionCounts.like][gt]=1')
+      .expect(200);
+
+    expect(filtered.body).to.be.Array().and.have.length(1);
+    expect(filtered.body[0]._id).to.equal(book2Id);
+  });
+
+  it('updates the counters when reactions are deleted or expire', async () => {
+    const { book2Id, likeIds } = await givenLikedBooks();
+
+    await client.delete(`/entity-reactions/${likeIds[1]}`).expect(204);
+    await client
+      .patch(`/entity-reactions/${likeIds[2]}`)
+      .send({ _validUntilDateTime: new Date(Date.now() - 1000).toISOString() })
+      .expect(204);
+
+    const book2 = await client.get(`/entities/${book2Id}`).expect(200);
+    expect(book2.body._reactionCounts).to.eql({ comment: 1 });
+  });
+
+  it('rebuilds the counters of all entities', async () => {
+    const { book1Id } = await givenLikedBooks();
+
+    const response = await client
+      .post('/entities/rebuild-reaction-counts')
+      .expect(200);
+
+    expect(response.body).to.eql({ count: 2 });
+
+    const book1 = await client.get(`/entities/${book1Id}`).expect(200);
+    expect(book1.body._reactionCounts).to.eql({ like: 1 });
+  });
+});
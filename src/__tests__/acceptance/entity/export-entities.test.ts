@@ -0,0 +1,150 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  cleanupCreatedEntities,
+} from '../test-helper';
+
+describe('GET /entities/export', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await cleanupCreatedEntities(client);
+
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function exportEntities(
+    query: object = {},
+  ): Promise<{ contentType: string; entities: GenericEntity[] }> {
+    const response = await client
+      .get('/entities/export')
+      .query(query)
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (text += chunk));
+        res.on('end', () => callback(null, text));
+      })
+      .expect(200);
+
+    return {
+      contentType: response.headers['content-type'],
+      entities: (response.body as string)
+        .split('\n')
+        .filter((line) => line !== '')
+        .map((line) => JSON.parse(line)),
+    };
+  }
+
+  it('streams all entities regardless of the response limit', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      response_limit_entity: '2',
+    });
+    ({ client } = appWithClient);
+
+    const ids: string[] = [];
+
+    for (const name of ['Book A', 'Book B', 'Book C', 'Book D', 'Book E']) {
+      ids.push(await createTestEntity(client, { _name: name, _kind: 'book' }));
+    }
+
+    const { contentType, entities } = await exportEntities();
+
+    expect(contentType).to.startWith('application/x-ndjson');
+    expect(entities).to.have.length(5);
+    // Entities are exported in ascending order of their ids
+    expect(entities.map((e) => e._id)).to.eql([...ids].sort());
+    expect(entities[0]).to.have.property('_recordType', 'entity');
+  });
+
+  it('exports the entities matching the filter and set', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+    });
+    ({ client } = appWithClient);
+
+    const pastDate = new Date(Date.now() - 60000).toISOString();
+
+    await createTestEntity(client, {
+      _name: 'Active Book',
+      _kind: 'book',
+      _validFromDateTime: pastDate,
+    });
+    await createTestEntity(client, {
+      _name: 'Inactive Book',
+      _kind: 'book',
+    });
+    await createTestEntity(client, {
+      _name: 'Active Movie',
+      _kind: 'movie',
+      _validFromDateTime: pastDate,
+    });
+
+    const { entities } = await exportEntities({
+      set: { actives: true },
+      filter: { where: { _kind: 'book' }, fields: { _name: true } },
+    });
+
+    expect(entities).to.have.length(1);
+    // The id is always exported, as it is the checkpoint of the export
+    expect(Object.keys(entities[0]).sort()).to.eql([
+      '_id',
+      '_name',
+      '_recordType',
+    ]);
+    expect(entities[0]._name).to.equal('Active Book');
+  });
+
+  it('resumes the export after the given id', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    for (const name of ['Book A', 'Book B', 'Book C']) {
+      await createTestEntity(client, { _name: name, _kind: 'book' });
+    }
+
+    const { entities: allEntities } = await exportEntities();
+    const { entities: remainingEntities } = await exportEntities({
+      after: allEntities[0]._id,
+    });
+
+    expect(remainingEntities.map((e) => e._id)).to.eql(
+      allEntities.slice(1).map((e) => e._id),
+    );
+  });
+});
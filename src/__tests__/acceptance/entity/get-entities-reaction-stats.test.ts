@@ -0,0 +1,149 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  createTestEntityReaction,
+  cleanupCreatedEntities,
+  cleanupCreatedEntityReactions,
+} from '../test-helper';
+
+describe('GET /entities with _reactionStats', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      // Clean up created entity reactions and entities
+      await cleanupCreatedEntityReactions(client);
+      await cleanupCreatedEntities(client);
+
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function givenRatedBooks(): Promise<{
+    book1Id: string;
+    book2Id: string;
+  }> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like,rating',
+      entity_reaction_stats_for_rating: 'avg:value,max:value',
+    });
+    ({ client } = appWithClient);
+
+    const pastDate = new Date(Date.now() - 60000).toISOString();
+
+    const book1Id = await createTestEntity(client, {
+      _name: 'Book 1',
+      _kind: 'book',
+    });
+    const book2Id = await createTestEntity(client, {
+      _name: 'Book 2',
+      _kind: 'book',
+    });
+
+    await createTestEntityReaction(client, {
+      _entityId: book1Id,
+      _kind: 'like',
+      _validFromDateTime: pastDate,
+    });
+    await createTestEntityReaction(client, {
+      _entityId: book1Id,
+      _kind: 'like',
+      _validFromDateTime: pastDate,
+    });
+    await createTestEntityReaction(client, {
+      _entityId: book1Id,
+      _kind: 'rating',
+      value: 4,
+      _validFromDateTime: pastDate,
+    });
+    await createTestEntityReaction(client, {
+      _entityId: book1Id,
+      _kind: 'rating',
+      value: 5,
+      _validFromDateTime: pastDate,
+    });
+
+    // Not active
+    await createTestEntityReaction(client, {
+      _entityId: book1Id,
+      _kind: 'rating',
+      value: 1,
+    });
+
+    return { book1Id, book2Id };
+  }
+
+  it('includes the reaction counts and configured metrics by kind', async () => {
+    const { book1Id, book2Id } = await givenRatedBooks();
+
+    const response = await client
+      .get('/entities')
+      .query('filter[include][0][relation]=_reactionStats')
+      .expect(200);
+
+    expect(response.body).to.be.Array().and.have.length(2);
+
+    const book1 = response.body.find((e: GenericEntity) => e._id === book1Id);
+    expect(book1._reactionStats).to.eql({
+      like: { count: 2 },
+      rating: { count: 3, 'avg:value': 10 / 3, 'max:value': 5 },
+    });
+
+    // Entities without reactions have empty stats
+    const book2 = response.body.find((e: GenericEntity) => e._id === book2Id);
+    expect(book2._reactionStats).to.eql({});
+  });
+
+  it('applies the set and where of the inclusion to the reactions first', async () => {
+    const { book1Id } = await givenRatedBooks();
+
+    const response = await client
+      .get(`/entities/${book1Id}`)
+      .query({
+        filter: {
+          include: [
+            {
+              relation: '_reactionStats',
+              set: { actives: true },
+              scope: { where: { _kind: 'rating' } },
+            },
+          ],
+        },
+      })
+      .expect(200);
+
+    expect(response.body._reactionStats).to.eql({
+      rating: { count: 2, 'avg:value': 4.5, 'max:value': 5 },
+    });
+  });
+});
@@ -610,6 +610,145 @@ describe('GET /entities', () => {
     ]);
   });
 
+  it('pagination: supports cursor pagination', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      response_limit_entity: '2',
+    });
+    ({ client } = appWithClient);
+
+    // Two entities share the same name, so their order is decided by _id
+    for (const name of ['Book D', 'Book A', 'Book B', 'Book B', 'Book C']) {
+      await createTestEntity(client, {
+        _name: name,
+        _kind: 'book',
+      });
+    }
+
+    const names: string[] = [];
+    let cursor: string | undefined = '*';
+    let pages = 0;
+
+    while (cursor) {
+      const response: {
+        body: GenericEntity[];
+        headers: Record<string, string>;
+      } = await client
+        .get('/entities')
+        .query({ filter: { order: ['_name ASC'], limit: 5 }, cursor })
+        .expect(200);
+
+      // The page size is still capped by the response limit
+      expect(response.body.length).to.be.belowOrEqual(2);
+      names.push(...response.body.map((e: GenericEntity) => e._name));
+      cursor = response.headers['x-next-cursor'];
+      pages++;
+    }
+
+    expect(names).to.eql(['Book A', 'Book B', 'Book B', 'Book C', 'Book D']);
+    expect(pages).to.equal(3);
+  });
+
+  it('pagination: does not shift cursor pages when entities are created', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, { _name: 'Book B', _kind: 'book' });
+    await createTestEntity(client, { _name: 'Book C', _kind: 'book' });
+    await createTestEntity(client, { _name: 'Book D', _kind: 'book' });
+
+    const firstPage = await client
+      .get('/entities')
+      .query({ filter: { order: ['_name ASC'], limit: 2 }, cursor: '*' })
+      .expect(200);
+
+    expect(firstPage.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Book B',
+      'Book C',
+    ]);
+
+    // An entity sorted before the cursor does not move the next page
+    await createTestEntity(client, { _name: 'Book A', _kind: 'book' });
+
+    const secondPage = await client
+      .get('/entities')
+      .query({
+        filter: { order: ['_name ASC'], limit: 2 },
+        cursor: firstPage.headers['x-next-cursor'],
+      })
+      .expect(200);
+
+    expect(secondPage.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Book D',
+    ]);
+    expect(secondPage.headers).to.not.have.property('x-next-cursor');
+  });
+
+  it('pagination: rejects an invalid cursor', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .get('/entities')
+      .query({ cursor: 'invalid' })
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 400,
+      code: 'INVALID-CURSOR',
+    });
+  });
+
+  it('pagination: describes the page in the response headers', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      response_limit_entity: '2',
+    });
+    ({ client } = appWithClient);
+
+    for (const name of ['Book A', 'Book B', 'Book C', 'Book D', 'Book E']) {
+      await createTestEntity(client, { _name: name, _kind: 'book' });
+    }
+
+    await createTestEntity(client, { _name: 'Movie A', _kind: 'book' });
+
+    const response = await client
+      .get('/entities')
+      .query({
+        filter: { where: { _name: { like: 'Book.*' } }, limit: 5, skip: 2 },
+        pageInfo: true,
+      })
+      .expect(200);
+
+    expect(response.body).to.be.Array().and.have.length(2);
+    expect(response.headers['x-total-count']).to.equal('5');
+    // The requested limit is capped by the response limit
+    expect(response.headers['x-applied-limit']).to.equal('2');
+
+    const links = decodeURIComponent(response.headers['link']);
+    expect(links).to.containEql('filter[skip]=4>; rel="next"');
+    expect(links).to.containEql('filter[skip]=0>; rel="prev"');
+  });
+
+  it('pagination: does not describe the page unless requested', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, { _name: 'Book A', _kind: 'book' });
+
+    const response = await client.get('/entities').expect(200);
+
+    expect(response.headers).to.not.have.property('x-total-count');
+    expect(response.headers).to.not.have.property('x-applied-limit');
+    expect(response.headers).to.not.have.property('link');
+  });
+
   // Set Filter Tests
   it('set-filter: supports set filters via query parameters', async () => {
     // Set up the application
@@ -0,0 +1,153 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+import type { AppWithClient } from '../test-helper';
+
+describe('GET /entities/{entityId}/ancestors and /descendants', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  // root -> fiction -> fantasy -> epic, root -> science
+  async function givenCategoryTree(): Promise<Record<string, string>> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'category',
+    });
+    ({ client } = appWithClient);
+
+    const root = await createTestEntity(client, {
+      _name: 'Root',
+      _kind: 'category',
+    });
+    const fiction = await createTestEntity(client, {
+      _name: 'Fiction',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${root}`],
+    });
+    const science = await createTestEntity(client, {
+      _name: 'Science',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${root}`],
+    });
+    const fantasy = await createTestEntity(client, {
+      _name: 'Fantasy',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fiction}`],
+    });
+    const epic = await createTestEntity(client, {
+      _name: 'Epic',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fantasy}`],
+    });
+
+    return { root, fiction, science, fantasy, epic };
+  }
+
+  it('returns all ancestors, nearest first, annotated with their depth', async () => {
+    const { epic } = await givenCategoryTree();
+
+    const response = await client
+      .get(`/entities/${epic}/ancestors`)
+      .expect(200);
+
+    expect(
+      response.body.map((e: GenericEntity) => [e._name, e._relativeDepth]),
+    ).to.eql([
+      ['Fantasy', 1],
+      ['Fiction', 2],
+      ['Root', 3],
+    ]);
+  });
+
+  it('returns the descendants down to maxDepth', async () => {
+    const { root } = await givenCategoryTree();
+
+    const response = await client
+      .get(`/entities/${root}/descendants`)
+      .query({ maxDepth: 2 })
+      .expect(200);
+
+    expect(response.body).to.have.length(3);
+    expect(
+      response.body.map((e: GenericEntity) => e._relativeDepth).sort(),
+    ).to.eql([1, 1, 2]);
+    expect(
+      response.body.find((e: GenericEntity) => e._name === 'Fantasy')
+        ._relativeDepth,
+    ).to.equal(2);
+  });
+
+  it('applies the filter to the descendants', async () => {
+    const { root } = await givenCategoryTree();
+
+    const response = await client
+      .get(`/entities/${root}/descendants`)
+      .query({ filter: { where: { _name: { inq: ['Science', 'Epic'] } } } })
+      .expect(200);
+
+    expect(
+      response.body.map((e: GenericEntity) => [e._name, e._relativeDepth]),
+    ).to.eql([
+      ['Science', 1],
+      ['Epic', 3],
+    ]);
+  });
+
+  it('returns an empty array for a root entity', async () => {
+    const { root } = await givenCategoryTree();
+
+    const response = await client
+      .get(`/entities/${root}/ancestors`)
+      .expect(200);
+
+    expect(response.body).to.eql([]);
+  });
+
+  it('returns 404 for a non-existent entity', async () => {
+    await givenCategoryTree();
+
+    await client.get('/entities/non-existent-id/descendants').expect(404);
+  });
+
+  it('rejects a maxDepth lower than 1', async () => {
+    const { root } = await givenCategoryTree();
+
+    await client
+      .get(`/entities/${root}/descendants`)
+      .query({ maxDepth: 0 })
+      .expect(400);
+  });
+});
@@ -0,0 +1,308 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  createTestEntityReaction,
+} from '../test-helper';
+
+describe('GET /entities/{id}/revisions', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('returns no revisions when history is not enabled', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book' })
+      .expect(204);
+
+    const response = await client
+      .get(`/entities/${entityId}/revisions`)
+      .expect(200);
+
+    expect(response.body).to.be.Array().and.have.length(0);
+  });
+
+  it('records a revision for create, update, replace and delete', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+      description: 'Original description',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ description: 'Updated description' })
+      .expect(204);
+
+    await client
+      .put(`/entities/${entityId}`)
+      .send({ _name: 'Replaced Book', _kind: 'book' })
+      .expect(204);
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    const response = await client
+      .get(`/entities/${entityId}/revisions`)
+      .expect(200);
+
+    expect(response.body).to.have.length(4);
+    expect(
+      response.body.map((r: { _operation: string }) => r._operation),
+    ).to.eql(['create', 'update', 'replace', 'delete']);
+    expect(response.body.map((r: { _version: number }) => r._version)).to.eql([
+      1, 2, 3, 4,
+    ]);
+
+    for (const revision of response.body) {
+      expect(revision).to.have.property('_recordId', entityId);
+      expect(revision).to.have.property('_recordType', 'entity');
+      expect(revision).to.have.property('_kind', 'book');
+      expect(revision).to.have.property('_revisionDateTime');
+    }
+
+    // Snapshots hold the full state of the record after each operation
+    expect(response.body[0]._snapshot).to.have.property(
+      'description',
+      'Original description',
+    );
+    expect(response.body[1]._snapshot).to.have.property(
+      'description',
+      'Updated description',
+    );
+    expect(response.body[1]._snapshot).to.have.property('_version', 2);
+    expect(response.body[2]._snapshot).to.have.property(
+      '_name',
+      'Replaced Book',
+    );
+    expect(response.body[2]._snapshot).to.not.have.property('description');
+
+    // Deletion keeps the last state of the record
+    expect(response.body[3]._snapshot).to.have.property('_version', 3);
+    expect(response.body[3]._snapshot).to.not.have.property('_recordType');
+  });
+
+  it('returns a single revision by version', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book' })
+      .expect(204);
+
+    const response = await client
+      .get(`/entities/${entityId}/revisions/1`)
+      .expect(200);
+
+    expect(response.body).to.have.property('_version', 1);
+    expect(response.body).to.have.property('_operation', 'create');
+    expect(response.body._snapshot).to.have.property('_name', 'Original Book');
+  });
+
+  it('returns 404 for a version that does not exist', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .get(`/entities/${entityId}/revisions/5`)
+      .expect(404);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 404,
+      name: 'NotFoundError',
+      code: 'ENTITY-REVISION-NOT-FOUND',
+    });
+  });
+
+  it('applies kind specific history configuration', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      history_entity: 'true',
+      history_entity_for_movie: 'false',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const movieId = await createTestEntity(client, {
+      _name: 'Test Movie',
+      _kind: 'movie',
+    });
+
+    const bookRevisions = await client
+      .get(`/entities/${bookId}/revisions`)
+      .expect(200);
+    const movieRevisions = await client
+      .get(`/entities/${movieId}/revisions`)
+      .expect(200);
+
+    expect(bookRevisions.body).to.have.length(1);
+    expect(movieRevisions.body).to.have.length(0);
+  });
+
+  it('records only the kinds enabled when model history is disabled', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      history_entity_for_book: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const movieId = await createTestEntity(client, {
+      _name: 'Test Movie',
+      _kind: 'movie',
+    });
+
+    await client.delete(`/entities/${bookId}`).expect(204);
+    await client.delete(`/entities/${movieId}`).expect(204);
+
+    const bookRevisions = await client
+      .get(`/entities/${bookId}/revisions`)
+      .expect(200);
+    const movieRevisions = await client
+      .get(`/entities/${movieId}/revisions`)
+      .expect(200);
+
+    expect(
+      bookRevisions.body.map((r: { _operation: string }) => r._operation),
+    ).to.eql(['create', 'delete']);
+    expect(movieRevisions.body).to.have.length(0);
+  });
+
+  it('supports filtering revisions', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book' })
+      .expect(204);
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book Again' })
+      .expect(204);
+
+    const response = await client
+      .get(`/entities/${entityId}/revisions`)
+      .query({
+        filter: {
+          where: { _operation: 'update' },
+          order: ['_version DESC'],
+        },
+      })
+      .expect(200);
+
+    expect(response.body.map((r: { _version: number }) => r._version)).to.eql([
+      3, 2,
+    ]);
+  });
+
+  it('records deletion of reactions when the entity is deleted', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like',
+      history_entity_reaction: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Test Reaction',
+      _entityId: entityId,
+      _kind: 'like',
+    });
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    const response = await client
+      .get(`/entity-reactions/${reactionId}/revisions`)
+      .expect(200);
+
+    expect(
+      response.body.map((r: { _operation: string }) => r._operation),
+    ).to.eql(['create', 'delete']);
+    expect(response.body[1]).to.have.property('_recordType', 'entityReaction');
+    expect(response.body[1]._snapshot).to.have.property('_entityId', entityId);
+  });
+});
@@ -0,0 +1,143 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+import type { AppWithClient } from '../test-helper';
+
+describe('GET /entities/tree and /entities/{entityId}/tree', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  // fiction -> fantasy -> epic, science, and a root book
+  async function givenCategoryTree(): Promise<Record<string, string>> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'category,book',
+    });
+    ({ client } = appWithClient);
+
+    const fiction = await createTestEntity(client, {
+      _name: 'Fiction',
+      _kind: 'category',
+    });
+    const science = await createTestEntity(client, {
+      _name: 'Science',
+      _kind: 'category',
+    });
+    const fantasy = await createTestEntity(client, {
+      _name: 'Fantasy',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fiction}`],
+    });
+    const epic = await createTestEntity(client, {
+      _name: 'Epic',
+      _kind: 'category',
+      _parents: [`tapp://localhost/entities/${fantasy}`],
+    });
+    await createTestEntity(client, {
+      _name: 'Dune',
+      _kind: 'book',
+    });
+
+    return { fiction, science, fantasy, epic };
+  }
+
+  // Reduces the nodes of a tree to their names
+  function toNames(nodes: { _name: string; _children?: unknown[] }[]): unknown {
+    return nodes.map((node) =>
+      node._children
+        ? { [node._name]: toNames(node._children as typeof nodes) }
+        : node._name,
+    );
+  }
+
+  it('returns the trees of the roots of the given kind', async () => {
+    await givenCategoryTree();
+
+    const response = await client
+      .get('/entities/tree')
+      .query({
+        rootKind: 'category',
+        filter: { order: ['_name ASC'] },
+      })
+      .expect(200);
+
+    expect(toNames(response.body)).to.eql([
+      { Fiction: [{ Fantasy: [{ Epic: [] }] }] },
+      { Science: [] },
+    ]);
+  });
+
+  it('loads the levels down to maxDepth', async () => {
+    await givenCategoryTree();
+
+    const response = await client
+      .get('/entities/tree')
+      .query({ rootKind: 'category', maxDepth: 1 })
+      .expect(200);
+
+    const fiction = response.body.find(
+      (node: { _name: string }) => node._name === 'Fiction',
+    );
+    expect(toNames([fiction])).to.eql([{ Fiction: ['Fantasy'] }]);
+  });
+
+  it('applies the filter and the fields to every level', async () => {
+    const { fiction } = await givenCategoryTree();
+
+    const response = await client
+      .get(`/entities/${fiction}/tree`)
+      .query({
+        filter: {
+          where: { _name: { neq: 'Epic' } },
+          fields: { _name: true },
+        },
+      })
+      .expect(200);
+
+    expect(toNames([response.body])).to.eql([{ Fiction: [{ Fantasy: [] }] }]);
+    expect(response.body._children[0]).to.have.properties([
+      '_id',
+      '_parents',
+      '_name',
+    ]);
+    expect(response.body._children[0]).to.not.have.property('_slug');
+  });
+
+  it('returns 404 for a non-existent entity', async () => {
+    await givenCategoryTree();
+
+    await client.get('/entities/non-existent-id/tree').expect(404);
+  });
+});
@@ -0,0 +1,169 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { ImportResult } from '../../../models';
+import type { AppWithClient } from '../test-helper';
+import { setupApplication, teardownApplication } from '../test-helper';
+
+describe('POST /entities/import', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function importEntities(
+    contentType: string,
+    body: string,
+    query: object = {},
+  ): Promise<ImportResult[]> {
+    const response = await client
+      .post('/entities/import')
+      .query(query)
+      .set('Content-Type', contentType)
+      .send(body)
+      .buffer(true)
+      .parse((res, callback) => {
+        let text = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => (text += chunk));
+        res.on('end', () => callback(null, text));
+      })
+      .expect(200);
+
+    expect(response.headers['content-type']).to.startWith(
+      'application/x-ndjson',
+    );
+
+    return (response.body as string)
+      .split('\n')
+      .filter((line) => line !== '')
+      .map((line) => JSON.parse(line));
+  }
+
+  it('imports the entities of an NDJSON file and reports each line', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const results = await importEntities(
+      'application/x-ndjson',
+      [
+        JSON.stringify({ _name: 'First Book', _kind: 'book' }),
+        JSON.stringify({ _name: 'Invalid Book', _kind: 'unknown' }),
+        '{"_name":',
+        JSON.stringify({ _name: 'Second Book', _kind: 'book' }),
+      ].join('\n'),
+    );
+
+    expect(results.map((r) => [r.line, r.statusCode])).to.eql([
+      [1, 200],
+      [2, 422],
+      [3, 422],
+      [4, 200],
+    ]);
+    expect(results[2].error).to.containDeep({ code: 'INVALID-IMPORT-LINE' });
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(2);
+    expect(entities.body.map((e: { _id: string }) => e._id).sort()).to.eql(
+      [results[0]._id, results[3]._id].sort(),
+    );
+  });
+
+  it('imports the entities of a CSV file with typed columns', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const results = await importEntities(
+      'text/csv',
+      [
+        '_kind,_name,pages:number,tags:json',
+        'book,"Dune, Part One",412,"[""classic""]"',
+        'book,Emma,,',
+      ].join('\r\n'),
+    );
+
+    expect(results.map((r) => r.statusCode)).to.eql([200, 200]);
+
+    const entity = await client.get(`/entities/${results[0]._id}`).expect(200);
+    expect(entity.body).to.containDeep({
+      _name: 'Dune, Part One',
+      pages: 412,
+      tags: ['classic'],
+    });
+  });
+
+  it('rejects a CSV file with an invalid header', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .post('/entities/import')
+      .set('Content-Type', 'text/csv')
+      .send('_kind,pages:integer\nbook,1\n')
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      code: 'INVALID-IMPORT-HEADER',
+    });
+  });
+
+  it('checks the entities without creating them in dry-run mode', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      uniqueness_entity_fields: '_name',
+    });
+    ({ client } = appWithClient);
+
+    await client
+      .post('/entities')
+      .send({ _name: 'Existing Book', _kind: 'book' })
+      .expect(200);
+
+    const results = await importEntities(
+      'application/x-ndjson',
+      [
+        JSON.stringify({ _name: 'New Book', _kind: 'book' }),
+        JSON.stringify({ _name: 'Existing Book', _kind: 'book' }),
+      ].join('\n'),
+      { dryRun: true },
+    );
+
+    expect(results.map((r) => r.statusCode)).to.eql([200, 409]);
+    expect(results[0]).to.not.have.property('_id');
+
+    const entities = await client.get('/entities').expect(200);
+    expect(entities.body).to.have.length(1);
+  });
+});
@@ -159,4 +159,312 @@ describe('PATCH /entities/{id}', () => {
     );
     expect(response.body).to.have.property('_visibility', 'public');
   });
+
+  it('returns ETag header on GET and accepts PATCH with matching If-Match', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const getResponse = await client.get(`/entities/${entityId}`).expect(200);
+    expect(getResponse.headers).to.have.property('etag', '"1"');
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({
+        _name: 'Updated Book',
+      })
+      .expect(204);
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+    expect(response.headers).to.have.property('etag', '"2"');
+    expect(response.body).to.have.property('_name', 'Updated Book');
+    expect(response.body).to.have.property('_version', 2);
+  });
+
+  it('returns 412 when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    // First client updates the entity, moving it to version 2
+    await client
+      .patch(`/entities/${entityId}`)
+      .set('If-Match', '"1"')
+      .send({ _name: 'First Update' })
+      .expect(204);
+
+    // Second client still holds version 1
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .set('If-Match', '"1"')
+      .send({ _name: 'Second Update' })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.containDeep({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      code: 'ENTITY-VERSION-MISMATCH',
+    });
+
+    // Verify the first update is preserved
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+    expect(response.body).to.have.property('_name', 'First Update');
+    expect(response.body).to.have.property('_version', 2);
+  });
+
+  it('returns 412 when _version in body does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book', _version: 5 })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'ENTITY-VERSION-MISMATCH',
+    );
+  });
+
+  it('returns 400 when If-Match header is malformed', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .set('If-Match', '"not-a-version"')
+      .send({ _name: 'Updated Book' })
+      .expect(400);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'INVALID-IF-MATCH-HEADER',
+    );
+  });
+
+  it('applies a JSON Patch document to the entity', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+      description: 'Original description',
+      chapters: [{ title: 'One' }, { title: 'Two' }, { title: 'Three' }],
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .set('Content-Type', 'application/json-patch+json')
+      .set('If-Match', '"1"')
+      .send([
+        { op: 'test', path: '/chapters/1/title', value: 'Two' },
+        { op: 'replace', path: '/chapters/1/title', value: 'Second' },
+        { op: 'remove', path: '/chapters/2' },
+        { op: 'remove', path: '/description' },
+        { op: 'replace', path: '/_name', value: 'Patched Book' },
+      ])
+      .expect(204);
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+
+    expect(response.body).to.containDeep({
+      _name: 'Patched Book',
+      _slug: 'patched-book',
+      _kind: 'book',
+      _version: 2,
+      chapters: [{ title: 'One' }, { title: 'Second' }],
+    });
+    expect(response.body.chapters).to.have.length(2);
+    expect(response.body.description).to.be.null();
+  });
+
+  it('rejects a JSON Patch document whose test operation fails', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .set('Content-Type', 'application/json-patch+json')
+      .send([
+        { op: 'replace', path: '/_name', value: 'Patched Book' },
+        { op: 'test', path: '/_name', value: 'Original Book' },
+      ])
+      .expect(409);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'JSON-PATCH-TEST-FAILED',
+    );
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+    expect(response.body).to.have.property('_name', 'Original Book');
+    expect(response.body).to.have.property('_version', 1);
+  });
+
+  it('does not allow a JSON Patch document to change _kind', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .set('Content-Type', 'application/json-patch+json')
+      .send([{ op: 'replace', path: '/_kind', value: 'movie' }])
+      .expect(422);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'IMMUTABLE-ENTITY-KIND',
+    );
+  });
+
+  it('rejects a JSON Patch operation on a path that does not exist', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .set('Content-Type', 'application/json-patch+json')
+      .send([{ op: 'remove', path: '/publisher/name' }])
+      .expect(422);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'INVALID-JSON-PATCH',
+    );
+  });
+
+  it('applies update operators to the current values of the entity', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+      _viewerUsers: ['user-1'],
+      tags: ['fiction', 'classic'],
+      stats: { views: 5 },
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({
+        $addToSet: { _viewerUsers: { $each: ['user-1', 'user-2'] } },
+        $pull: { tags: 'classic' },
+        $inc: { 'stats.views': 2 },
+      })
+      .expect(204);
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+
+    expect(response.body).to.containDeep({
+      _viewerUsers: ['user-1', 'user-2'],
+      _viewerUsersCount: 2,
+      tags: ['fiction'],
+      stats: { views: 7 },
+      _version: 2,
+    });
+    expect(response.body._viewerUsers).to.have.length(2);
+    expect(response.body.tags).to.have.length(1);
+  });
+
+  it('rejects update operators on fields managed by the service', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch(`/entities/${entityId}`)
+      .send({ $inc: { _version: 1 } })
+      .expect(422);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'INVALID-UPDATE-OPERATOR',
+    );
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+    expect(response.body).to.have.property('_version', 1);
+  });
+
+  it('rejects update operators when updating many entities', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .patch('/entities')
+      .send({ $addToSet: { tags: 'fiction' } })
+      .expect(422);
+
+    expect(errorResponse.body.error).to.have.property(
+      'code',
+      'INVALID-UPDATE-OPERATOR',
+    );
+  });
 });
@@ -126,4 +126,39 @@ describe('PUT /entities/{id}', () => {
     const getResponse = await client.get(`/entities/${entityId}`).expect(200);
     expect(getResponse.body).to.have.property('_kind', 'book');
   });
+
+  it('returns 412 when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    const errorResponse = await client
+      .put(`/entities/${entityId}`)
+      .set('If-Match', '"2"')
+      .send({ _name: 'Replaced Book', _kind: 'book' })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.containDeep({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      code: 'ENTITY-VERSION-MISMATCH',
+    });
+
+    // Replace with the correct version succeeds
+    await client
+      .put(`/entities/${entityId}`)
+      .set('If-Match', '"1"')
+      .send({ _name: 'Replaced Book', _kind: 'book' })
+      .expect(204);
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+    expect(response.headers).to.have.property('etag', '"2"');
+    expect(response.body).to.have.property('_name', 'Replaced Book');
+  });
 });
@@ -0,0 +1,181 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+
+describe('POST /entities/{id}/revisions/{version}/restore', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('restores entity to a previous revision with a new version', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+      description: 'Original description',
+    });
+
+    await client
+      .put(`/entities/${entityId}`)
+      .send({ _name: 'Replaced Book', author: 'Someone' })
+      .expect(204);
+
+    const response = await client
+      .post(`/entities/${entityId}/revisions/1/restore`)
+      .expect(200);
+
+    expect(response.body).to.have.property('_id', entityId);
+    expect(response.body).to.have.property('_name', 'Original Book');
+    expect(response.body).to.have.property('_slug', 'original-book');
+    expect(response.body).to.have.property(
+      'description',
+      'Original description',
+    );
+    expect(response.body).to.not.have.property('author');
+    expect(response.body).to.have.property('_version', 3);
+
+    // The restore itself is kept as a new revision
+    const revisions = await client
+      .get(`/entities/${entityId}/revisions`)
+      .expect(200);
+
+    expect(
+      revisions.body.map((r: { _operation: string }) => r._operation),
+    ).to.eql(['create', 'replace', 'replace']);
+    expect(revisions.body[2]._snapshot).to.have.property(
+      '_name',
+      'Original Book',
+    );
+  });
+
+  it('returns 404 when revision does not exist', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .post(`/entities/${entityId}/revisions/7/restore`)
+      .expect(404);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 404,
+      code: 'ENTITY-REVISION-NOT-FOUND',
+    });
+  });
+
+  it('rejects restore when the restored data violates uniqueness', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+      ENTITY_UNIQUENESS: 'where[_slug]=${_slug}&where[_kind]=${_kind}',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'The Great Gatsby',
+      _kind: 'book',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Tender Is the Night' })
+      .expect(204);
+
+    // Another entity takes over the original name
+    await createTestEntity(client, {
+      _name: 'The Great Gatsby',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .post(`/entities/${entityId}/revisions/1/restore`)
+      .expect(409);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 409,
+      code: 'ENTITY-UNIQUENESS-VIOLATION',
+    });
+
+    // Entity is left untouched
+    const entity = await client.get(`/entities/${entityId}`).expect(200);
+    expect(entity.body).to.have.property('_name', 'Tender Is the Night');
+    expect(entity.body).to.have.property('_version', 2);
+  });
+
+  it('rejects restore when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      history_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Original Book',
+      _kind: 'book',
+    });
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book' })
+      .expect(204);
+
+    const response = await client
+      .post(`/entities/${entityId}/revisions/1/restore`)
+      .set('If-Match', '"1"')
+      .expect(412);
+
+    expect(response.body.error).to.containDeep({
+      code: 'ENTITY-VERSION-MISMATCH',
+    });
+
+    await client
+      .post(`/entities/${entityId}/revisions/1/restore`)
+      .set('If-Match', '"2"')
+      .expect(200);
+  });
+});
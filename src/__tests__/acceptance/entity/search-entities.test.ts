@@ -0,0 +1,152 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { GenericEntity } from '../../../models';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  cleanupCreatedEntities,
+} from '../test-helper';
+
+describe('GET /entities?search', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      // Clean up created entities
+      await cleanupCreatedEntities(client);
+
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  async function givenSearchableBooks(): Promise<void> {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      entity_search_fields_for_book: '_name:10,description:2',
+    });
+    ({ client } = appWithClient);
+
+    const pastDate = new Date(Date.now() - 60000).toISOString();
+
+    await createTestEntity(client, {
+      _name: 'Winter Garden',
+      _kind: 'book',
+      description: 'A story about dune sailors',
+      _validFromDateTime: pastDate,
+    });
+    await createTestEntity(client, {
+      _name: 'Dune',
+      _kind: 'book',
+      description: 'The desert planet',
+      _validFromDateTime: pastDate,
+    });
+    await createTestEntity(client, {
+      _name: 'Silent Harbor',
+      _kind: 'book',
+      description: 'Nothing to see here',
+    });
+    await createTestEntity(client, {
+      _name: 'Dune',
+      _kind: 'movie',
+      description: 'The movie of the desert planet',
+    });
+  }
+
+  it('returns the matching entities ordered by relevance', async () => {
+    await givenSearchableBooks();
+
+    const response = await client
+      .get('/entities')
+      .query({ search: 'dune' })
+      .expect(200);
+
+    // Matches in _name weigh more than matches in description, and movies
+    // are not searched as search fields are only configured for books
+    expect(response.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Dune',
+      'Winter Garden',
+    ]);
+  });
+
+  it('combines search with filter, set and paging', async () => {
+    await givenSearchableBooks();
+
+    // Not active, so excluded by the set
+    await createTestEntity(client, {
+      _name: 'Dune Messiah',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .get('/entities')
+      .query({
+        search: 'dune desert',
+        set: { actives: true },
+        filter: { where: { _kind: 'book' }, limit: 1, skip: 1 },
+        pageInfo: true,
+      })
+      .expect(200);
+
+    expect(response.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Winter Garden',
+    ]);
+    expect(response.headers['x-total-count']).to.equal('2');
+  });
+
+  it('applies the order of the filter instead of relevance', async () => {
+    await givenSearchableBooks();
+
+    const response = await client
+      .get('/entities')
+      .query({ search: 'dune', filter: { order: ['_name DESC'] } })
+      .expect(200);
+
+    expect(response.body.map((e: GenericEntity) => e._name)).to.eql([
+      'Winter Garden',
+      'Dune',
+    ]);
+  });
+
+  it('rejects the search when no search fields are configured', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .get('/entities')
+      .query({ search: 'dune' })
+      .expect(400);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 400,
+      code: 'SEARCH-NOT-CONFIGURED',
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+  createTestList,
+  createTestEntityReaction,
+} from '../test-helper';
+
+describe('Soft delete of entities', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('deletes the entity permanently when soft delete is not enabled', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    const response = await client
+      .get('/entities')
+      .query({ set: { deleteds: true } })
+      .expect(200);
+
+    expect(response.body).to.be.Array().and.have.length(0);
+  });
+
+  it('moves the entity to the trash and hides it from queries', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const deletedId = await createTestEntity(client, {
+      _name: 'Deleted Book',
+      _kind: 'book',
+    });
+    const keptId = await createTestEntity(client, {
+      _name: 'Kept Book',
+      _kind: 'book',
+    });
+
+    await client
+      .delete(`/entities/${deletedId}`)
+      .query({ deletedBy: 'user-1' })
+      .expect(204);
+
+    await client.get(`/entities/${deletedId}`).expect(404);
+
+    const listResponse = await client.get('/entities').expect(200);
+    expect(listResponse.body).to.have.length(1);
+    expect(listResponse.body[0]._id).to.equal(keptId);
+
+    const countResponse = await client.get('/entities/count').expect(200);
+    expect(countResponse.body.count).to.equal(1);
+
+    // The trash can be listed with the deleteds set
+    const trashResponse = await client
+      .get('/entities')
+      .query({ set: { deleteds: true } })
+      .expect(200);
+
+    expect(trashResponse.body).to.have.length(1);
+    expect(trashResponse.body[0]._id).to.equal(deletedId);
+    expect(trashResponse.body[0]).to.have.property('_deletedBy', 'user-1');
+    expect(trashResponse.body[0]).to.have.property('_deletedDateTime');
+  });
+
+  it('deletes the entity permanently when soft delete is disabled for its kind', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      soft_delete_entity: 'true',
+      soft_delete_entity_for_movie: 'false',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const movieId = await createTestEntity(client, {
+      _name: 'Test Movie',
+      _kind: 'movie',
+    });
+
+    await client.delete(`/entities/${bookId}`).expect(204);
+    await client.delete(`/entities/${movieId}`).expect(204);
+
+    const trashResponse = await client
+      .get('/entities')
+      .query({ set: { deleteds: true } })
+      .expect(200);
+
+    expect(trashResponse.body).to.have.length(1);
+    expect(trashResponse.body[0]._id).to.equal(bookId);
+  });
+
+  it('restores the entity together with its reactions and relations', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      list_kinds: 'reading',
+      entity_reaction_kinds: 'like',
+      soft_delete_entity: 'true',
+      autoapprove_list_entity_relations: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const listId = await createTestList(client, {
+      _name: 'Test List',
+      _kind: 'reading',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Test Reaction',
+      _entityId: entityId,
+      _kind: 'like',
+    });
+    const relationResponse = await client
+      .post('/relations')
+      .send({
+        _listId: listId,
+        _entityId: entityId,
+      })
+      .expect(200);
+    const relationId = relationResponse.body._id;
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    // Reactions and relations are moved to the trash with the entity
+    await client.get(`/entity-reactions/${reactionId}`).expect(404);
+    await client.get(`/relations/${relationId}`).expect(404);
+
+    const entitiesOfList = await client
+      .get(`/lists/${listId}/entities`)
+      .expect(200);
+    expect(entitiesOfList.body).to.have.length(0);
+
+    const restoreResponse = await client
+      .post(`/entities/${entityId}/restore`)
+      .expect(200);
+
+    expect(restoreResponse.body).to.have.property('_id', entityId);
+    expect(restoreResponse.body).to.have.property('_name', 'Test Book');
+    expect(restoreResponse.body._deletedDateTime).to.be.oneOf(null, undefined);
+
+    await client.get(`/entities/${entityId}`).expect(200);
+    await client.get(`/entity-reactions/${reactionId}`).expect(200);
+    await client.get(`/relations/${relationId}`).expect(200);
+
+    const restoredEntitiesOfList = await client
+      .get(`/lists/${listId}/entities`)
+      .expect(200);
+    expect(restoredEntitiesOfList.body).to.have.length(1);
+  });
+
+  it('does not restore reactions which were deleted before the entity', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Test Reaction',
+      _entityId: entityId,
+      _kind: 'like',
+    });
+
+    await client.delete(`/entity-reactions/${reactionId}`).expect(204);
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    await client.post(`/entities/${entityId}/restore`).expect(200);
+
+    await client.get(`/entity-reactions/${reactionId}`).expect(404);
+  });
+
+  it('returns 409 when restoring an entity which is not in the trash', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .post(`/entities/${entityId}/restore`)
+      .expect(409);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 409,
+      name: 'NotDeletedError',
+      code: 'ENTITY-NOT-DELETED',
+      status: 409,
+    });
+  });
+
+  it('returns 404 when restoring an entity which does not exist', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const response = await client
+      .post('/entities/non-existent-id/restore')
+      .expect(404);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 404,
+      code: 'ENTITY-NOT-FOUND',
+    });
+  });
+
+  it('checks uniqueness before restoring an entity', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      soft_delete_entity: 'true',
+      uniqueness_entity_fields: '_name',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    // Records in the trash do not block new records
+    await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const response = await client
+      .post(`/entities/${entityId}/restore`)
+      .expect(409);
+
+    expect(response.body.error).to.containDeep({
+      statusCode: 409,
+      code: 'ENTITY-UNIQUENESS-VIOLATION',
+    });
+  });
+
+  it('ignores deletion fields sent when creating, updating and replacing an entity', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const managedFields = {
+      _deletedDateTime: '2000-01-01T00:00:00.000Z',
+      _deletedBy: 'user-1',
+      _depth: 5,
+      _hierarchyVersion: 9,
+    };
+
+    const createResponse = await client
+      .post('/entities')
+      .send({ _name: 'Test Book', _kind: 'book', ...managedFields })
+      .expect(200);
+    const entityId = createResponse.body._id;
+    expect(createResponse.body).to.not.have.property('_deletedDateTime');
+    expect(createResponse.body).to.not.have.property('_deletedBy');
+
+    await client
+      .patch(`/entities/${entityId}`)
+      .send({ _name: 'Updated Book', ...managedFields })
+      .expect(204);
+    await client
+      .put(`/entities/${entityId}`)
+      .send({ _name: 'Replaced Book', _kind: 'book', ...managedFields })
+      .expect(204);
+    await client
+      .patch('/entities')
+      .query({ where: { _id: entityId } })
+      .send({ description: 'Updated by filter', ...managedFields })
+      .expect(200);
+
+    const response = await client.get(`/entities/${entityId}`).expect(200);
+    expect(response.body).to.containDeep({
+      _name: 'Replaced Book',
+      description: 'Updated by filter',
+    });
+    expect(response.body).to.not.have.property('_deletedDateTime');
+    expect(response.body).to.not.have.property('_deletedBy');
+
+    const trashResponse = await client
+      .get('/entities')
+      .query({ set: { deleteds: true } })
+      .expect(200);
+    expect(trashResponse.body).to.have.length(0);
+
+    // Nothing was moved to the trash, so nothing is purged
+    const purgeResponse = await client
+      .post('/entities/purge')
+      .query({ retentionDays: 0 })
+      .expect(200);
+    expect(purgeResponse.body.count).to.equal(0);
+  });
+
+  it('ignores deletion fields sent when creating, updating and replacing a reaction', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const managedFields = {
+      _deletedDateTime: '2000-01-01T00:00:00.000Z',
+      _deletedBy: 'user-1',
+    };
+
+    const createResponse = await client
+      .post('/entity-reactions')
+      .send({ _entityId: entityId, _kind: 'like', ...managedFields })
+      .expect(200);
+    const reactionId = createResponse.body._id;
+
+    await client
+      .patch(`/entity-reactions/${reactionId}`)
+      .send({ _name: 'Updated Reaction', ...managedFields })
+      .expect(204);
+    await client
+      .put(`/entity-reactions/${reactionId}`)
+      .send({
+        _entityId: entityId,
+        _kind: 'like',
+        _name: 'Replaced Reaction',
+        ...managedFields,
+      })
+      .expect(204);
+
+    const response = await client
+      .get(`/entity-reactions/${reactionId}`)
+      .expect(200);
+    expect(response.body).to.have.property('_name', 'Replaced Reaction');
+    expect(response.body).to.not.have.property('_deletedDateTime');
+    expect(response.body).to.not.have.property('_deletedBy');
+  });
+
+  it('purges entities which are in the trash longer than the retention period', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      entity_reaction_kinds: 'like',
+      soft_delete_entity: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    const reactionId = await createTestEntityReaction(client, {
+      _name: 'Test Reaction',
+      _entityId: entityId,
+      _kind: 'like',
+    });
+
+    await client.delete(`/entities/${entityId}`).expect(204);
+
+    // The configured retention period has not passed yet
+    const keptResponse = await client.post('/entities/purge').expect(200);
+    expect(keptResponse.body.count).to.equal(0);
+
+    const purgeResponse = await client
+      .post('/entities/purge')
+      .query({ retentionDays: 0 })
+      .expect(200);
+    expect(purgeResponse.body.count).to.equal(1);
+
+    const trashResponse = await client
+      .get('/entities')
+      .query({ set: { deleteds: true } })
+      .expect(200);
+    expect(trashResponse.body).to.have.length(0);
+
+    const reactionTrashResponse = await client
+      .get('/entity-reactions')
+      .query({ set: { deleteds: true } })
+      .expect(200);
+    expect(reactionTrashResponse.body).to.have.length(0);
+
+    await client.post(`/entities/${entityId}/restore`).expect(404);
+    await client.get(`/entity-reactions/${reactionId}`).expect(404);
+  });
+});
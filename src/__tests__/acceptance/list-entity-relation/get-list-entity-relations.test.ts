@@ -808,6 +808,97 @@ describe('GET /relations', () => {
     ).to.eql([3, 2, 1]);
   });
 
+  it('pagination: supports cursor pagination', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      list_kinds: 'reading-list',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const listId = await createTestList(client, {
+      _name: 'Reading List',
+      _kind: 'reading-list',
+    });
+
+    // The relation without an order comes last in descending order
+    for (const order of [2, undefined, 3, 1]) {
+      await createTestRelation({
+        _listId: listId,
+        _entityId: bookId,
+        _kind: 'reading-list-book',
+        ...(order !== undefined ? { order } : {}),
+      });
+    }
+
+    const orders: (number | undefined)[] = [];
+    let cursor: string | undefined = '*';
+
+    while (cursor) {
+      const response: {
+        body: ListToEntityRelation[];
+        headers: Record<string, string>;
+      } = await client
+        .get('/relations')
+        .query({ filter: { order: ['order DESC'], limit: 2 }, cursor })
+        .expect(200);
+
+      orders.push(...response.body.map((r: ListToEntityRelation) => r.order));
+      cursor = response.headers['x-next-cursor'];
+    }
+
+    expect(orders).to.eql([3, 2, 1, undefined]);
+  });
+
+  it('pagination: describes cursor pages in the response headers', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      list_kinds: 'reading-list',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const listId = await createTestList(client, {
+      _name: 'Reading List',
+      _kind: 'reading-list',
+    });
+
+    for (const order of [1, 2, 3]) {
+      await createTestRelation({
+        _listId: listId,
+        _entityId: bookId,
+        _kind: 'reading-list-book',
+        order,
+      });
+    }
+
+    const response = await client
+      .get('/relations')
+      .query({
+        filter: { order: ['order ASC'], limit: 2 },
+        cursor: '*',
+        pageInfo: true,
+      })
+      .expect(200);
+
+    expect(response.headers['x-total-count']).to.equal('3');
+    expect(response.headers['x-applied-limit']).to.equal('2');
+
+    // Cursors only lead forward, so there is only a link to the next page
+    const nextCursor = response.headers['x-next-cursor'];
+    expect(decodeURIComponent(response.headers['link'])).to.endWith(
+      `cursor=${nextCursor}>; rel="next"`,
+    );
+  });
+
   it('set-filter: supports set filters via query parameters', async () => {
     // Set up the application with default configuration
     appWithClient = await setupApplication({
@@ -210,4 +210,55 @@ describe('PATCH /relations/{id}', () => {
     expect(response.body).to.have.property('_kind', 'relation');
     expect(response.body).to.have.property('_visibility', 'public');
   });
+
+  it('returns 412 when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      list_kinds: 'reading',
+      entity_kinds: 'book',
+    });
+    ({ client } = appWithClient);
+
+    const listId = await createTestList(client, {
+      _name: 'Test List',
+      _kind: 'reading',
+    });
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const relationResponse = await client
+      .post('/relations')
+      .send({
+        _listId: listId,
+        _entityId: entityId,
+      })
+      .expect(200);
+
+    const relationId = relationResponse.body._id;
+
+    const getResponse = await client
+      .get(`/relations/${relationId}`)
+      .expect(200);
+    expect(getResponse.headers).to.have.property('etag', '"1"');
+
+    await client
+      .patch(`/relations/${relationId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _visibility: 'public' })
+      .expect(204);
+
+    const errorResponse = await client
+      .patch(`/relations/${relationId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _visibility: 'private' })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.containDeep({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      code: 'RELATION-VERSION-MISMATCH',
+    });
+  });
 });
@@ -240,4 +240,45 @@ describe('PATCH /list-reactions/{id}', () => {
     );
     expect(response.body).to.have.property('_visibility', 'public');
   });
+
+  it('returns 412 when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      list_reaction_kinds: 'like',
+    });
+    ({ client } = appWithClient);
+
+    const listId = await createTestList(client, {
+      _name: 'Test List',
+      _kind: 'reading',
+    });
+
+    const reactionId = await createTestListReaction(client, {
+      _name: 'Original Reaction',
+      _listId: listId,
+      _kind: 'like',
+    });
+
+    const getResponse = await client
+      .get(`/list-reactions/${reactionId}`)
+      .expect(200);
+    expect(getResponse.headers).to.have.property('etag', '"1"');
+
+    await client
+      .patch(`/list-reactions/${reactionId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _name: 'First Update' })
+      .expect(204);
+
+    const errorResponse = await client
+      .patch(`/list-reactions/${reactionId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _name: 'Second Update' })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.containDeep({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      code: 'LIST-REACTION-VERSION-MISMATCH',
+    });
+  });
 });
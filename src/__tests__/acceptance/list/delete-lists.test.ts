@@ -0,0 +1,121 @@
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestList,
+} from '../test-helper';
+
+describe('DELETE /lists', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  it('deletes the lists matching the filter when confirmed', async () => {
+    appWithClient = await setupApplication({
+      list_kinds: 'reading,watching',
+    });
+    ({ client } = appWithClient);
+
+    const readingListId = await createTestList(client, {
+      _name: 'Reading List',
+      _kind: 'reading',
+    });
+    const watchingListId = await createTestList(client, {
+      _name: 'Watching List',
+      _kind: 'watching',
+    });
+
+    const response = await client
+      .del('/lists')
+      .query({ 'filter[where][_kind]': 'reading', confirm: true })
+      .expect(200);
+
+    expect(response.body).to.eql({ count: 1, ids: [readingListId] });
+
+    const lists = await client.get('/lists').expect(200);
+    expect(lists.body).to.have.length(1);
+    expect(lists.body[0]._id).to.equal(watchingListId);
+  });
+
+  it('moves the matching lists to the trash when soft delete is enabled', async () => {
+    appWithClient = await setupApplication({
+      list_kinds: 'reading',
+      soft_delete_list: 'true',
+    });
+    ({ client } = appWithClient);
+
+    const listId = await createTestList(client, {
+      _name: 'Reading List',
+      _kind: 'reading',
+    });
+
+    await client
+      .del('/lists')
+      .query({ confirm: true, deletedBy: 'user1' })
+      .expect(200);
+
+    const lists = await client.get('/lists').expect(200);
+    expect(lists.body).to.have.length(0);
+
+    const trash = await client
+      .get('/lists')
+      .query({ 'set[deleteds]': true })
+      .expect(200);
+    expect(trash.body).to.have.length(1);
+    expect(trash.body[0]).to.containDeep({ _id: listId, _deletedBy: 'user1' });
+  });
+
+  it('requires confirmation unless it is a dry run', async () => {
+    appWithClient = await setupApplication({
+      list_kinds: 'reading',
+    });
+    ({ client } = appWithClient);
+
+    const listId = await createTestList(client, {
+      _name: 'Reading List',
+      _kind: 'reading',
+    });
+
+    const rejected = await client.del('/lists').expect(400);
+    expect(rejected.body.error.code).to.equal('BULK-DELETE-NOT-CONFIRMED');
+
+    const dryRun = await client
+      .del('/lists')
+      .query({ dryRun: true })
+      .expect(200);
+    expect(dryRun.body).to.eql({ count: 1, ids: [listId], dryRun: true });
+
+    const lists = await client.get('/lists').expect(200);
+    expect(lists.body).to.have.length(1);
+  });
+});
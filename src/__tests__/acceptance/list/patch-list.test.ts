@@ -156,4 +156,37 @@ describe('PATCH /lists/{id}', () => {
     );
     expect(response.body).to.have.property('_visibility', 'public');
   });
+
+  it('returns 412 when If-Match does not match the current version', async () => {
+    appWithClient = await setupApplication({
+      list_kinds: 'reading',
+    });
+    ({ client } = appWithClient);
+
+    const listId = await createTestList(client, {
+      _name: 'Original List',
+      _kind: 'reading',
+    });
+
+    const getResponse = await client.get(`/lists/${listId}`).expect(200);
+    expect(getResponse.headers).to.have.property('etag', '"1"');
+
+    await client
+      .patch(`/lists/${listId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _name: 'First Update' })
+      .expect(204);
+
+    const errorResponse = await client
+      .patch(`/lists/${listId}`)
+      .set('If-Match', getResponse.headers.etag)
+      .send({ _name: 'Second Update' })
+      .expect(412);
+
+    expect(errorResponse.body.error).to.containDeep({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      code: 'LIST-VERSION-MISMATCH',
+    });
+  });
 });
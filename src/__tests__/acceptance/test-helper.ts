@@ -22,6 +22,14 @@ import {
   ResponseLimitConfigurationReader,
   KindBindings,
   KindConfigurationReader,
+  HistoryConfigBindings,
+  HistoryConfigurationReader,
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
+  SearchConfigBindings,
+  SearchConfigurationReader,
+  ReactionStatsConfigBindings,
+  ReactionStatsConfigurationReader,
 } from '../../extensions';
 import { EnvConfigHelper } from '../../extensions/config-helpers/env-config-helper';
 import {
@@ -45,10 +53,26 @@ import {
   CustomReactionThroughListRepository,
   CustomRepositoriesBindings,
 } from '../../repositories';
+import { AggregateBindings } from '../../services/aggregate.bindings';
+import { AggregateService } from '../../services/aggregate.service';
+import { AuditLogBindings } from '../../services/audit-log.bindings';
+import { AuditLogService } from '../../services/audit-log.service';
+import { BatchBindings } from '../../services/batch.bindings';
+import { BatchService } from '../../services/batch.service';
+import { BulkCreateBindings } from '../../services/bulk-create.bindings';
+import { BulkCreateService } from '../../services/bulk-create.service';
+import { BulkDeleteBindings } from '../../services/bulk-delete.bindings';
+import { BulkDeleteService } from '../../services/bulk-delete.service';
+import { ChangeFeedBindings } from '../../services/change-feed.bindings';
+import { ChangeFeedService } from '../../services/change-feed.service';
 import { LookupConstraintBindings } from '../../services/lookup-constraint.bindings';
 import { LookupConstraintService } from '../../services/lookup-constraint.service';
 import { RecordLimitCheckerBindings } from '../../services/record-limit-checker.bindings';
 import { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
+import { RevisionHistoryBindings } from '../../services/revision-history.bindings';
+import { RevisionHistoryService } from '../../services/revision-history.service';
+import { WebhookBindings } from '../../services/webhook.bindings';
+import { WebhookService } from '../../services/webhook.service';
 
 /**
  * Utility function to verify that all fields in two responses match exactly
@@ -136,11 +160,36 @@ export interface TestEnvironmentVariables {
   visibility_entity_reaction?: string;
   visibility_list_reaction?: string;
 
+  // Revision History Configuration
+  history_entity?: string;
+  history_list?: string;
+  history_entity_reaction?: string;
+  history_list_reaction?: string;
+
+  // Soft Delete Configuration
+  soft_delete_entity?: string;
+  soft_delete_list?: string;
+  soft_delete_retention_days?: string;
+
+  // Webhook Configuration
+  WEBHOOKS?: string;
+  webhook_max_attempts?: string;
+  webhook_retry_delay_ms?: string;
+  webhook_timeout_ms?: string;
+  webhook_dispatch_interval_ms?: string;
+
+  // Change Feed Configuration
+  change_feed_read_lag_ms?: string;
+
+  // Bulk Delete Configuration
+  bulk_delete_max_batch_size?: string;
+
   // Response Limits Configuration
   response_limit_entity?: string;
   response_limit_list_entity_rel?: string;
   response_limit_entity_reaction?: string;
   response_limit_list_reaction?: string;
+  response_limit_audit?: string;
 
   // Record Limits Configuration
   ENTITY_RECORD_LIMITS?: string;
@@ -184,6 +233,14 @@ export interface TestEnvironmentVariables {
   [key: `autoapprove_list_reaction_for_${string}`]: string;
   [key: `autoapprove_tag_for_${string}`]: string;
 
+  [key: `history_entity_for_${string}`]: string;
+  [key: `history_list_for_${string}`]: string;
+  [key: `history_entity_reaction_for_${string}`]: string;
+  [key: `history_list_reaction_for_${string}`]: string;
+
+  [key: `soft_delete_entity_for_${string}`]: string;
+  [key: `soft_delete_list_for_${string}`]: string;
+
   [key: `response_limit_entity_for_${string}`]: string;
   [key: `response_limit_list_for_${string}`]: string;
   [key: `response_limit_list_entity_rel_for_${string}`]: string;
@@ -426,6 +483,11 @@ export async function setupApplication(
       extensions: ['.interceptor.js', '.interceptor.ts'],
       nested: true,
     },
+    observers: {
+      dirs: ['../../observers'],
+      extensions: ['.observer.js', '.observer.ts'],
+      nested: true,
+    },
   };
 
   // Configure the app to use the in-memory MongoDB
@@ -475,6 +537,26 @@ export async function setupApplication(
     .bind(ValidFromConfigBindings.CONFIG_READER)
     .toClass(ValidfromConfigurationReader);
 
+  // add revision history configuration reader to context
+  app
+    .bind(HistoryConfigBindings.CONFIG_READER)
+    .toClass(HistoryConfigurationReader);
+
+  // add soft delete configuration reader to context
+  app
+    .bind(SoftDeleteConfigBindings.CONFIG_READER)
+    .toClass(SoftDeleteConfigurationReader);
+
+  // add search configuration reader to context
+  app
+    .bind(SearchConfigBindings.CONFIG_READER)
+    .toClass(SearchConfigurationReader);
+
+  // add reaction stats configuration reader to context
+  app
+    .bind(ReactionStatsConfigBindings.CONFIG_READER)
+    .toClass(ReactionStatsConfigurationReader);
+
   // add response limit configuration reader to context
   app
     .bind(ResponseLimitConfigBindings.CONFIG_READER)
@@ -491,6 +573,30 @@ export async function setupApplication(
   // add lookup constraint service to context
   app.bind(LookupConstraintBindings.SERVICE).toClass(LookupConstraintService);
 
+  // add revision history service to context
+  app.bind(RevisionHistoryBindings.SERVICE).toClass(RevisionHistoryService);
+
+  // add change feed service to context
+  app.bind(ChangeFeedBindings.SERVICE).toClass(ChangeFeedService);
+
+  // add webhook service to context
+  app.bind(WebhookBindings.SERVICE).toClass(WebhookService);
+
+  // add audit log service to context
+  app.bind(AuditLogBindings.SERVICE).toClass(AuditLogService);
+
+  // add bulk create service to context
+  app.bind(BulkCreateBindings.SERVICE).toClass(BulkCreateService);
+
+  // add bulk delete service to context
+  app.bind(BulkDeleteBindings.SERVICE).toClass(BulkDeleteService);
+
+  // add batch service to context
+  app.bind(BatchBindings.SERVICE).toClass(BatchService);
+
+  // add aggregate service to context
+  app.bind(AggregateBindings.SERVICE).toClass(AggregateService);
+
   // add mongo pipeline helper to context
   app.bind(MongoPipelineHelperBindings.HELPER).toClass(MongoPipelineHelper);
 
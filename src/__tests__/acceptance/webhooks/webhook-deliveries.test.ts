@@ -0,0 +1,265 @@
+import type { AnyObject } from '@loopback/repository';
+import type { Client } from '@loopback/testlab';
+import { expect } from '@loopback/testlab';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { AppWithClient } from '../test-helper';
+import {
+  setupApplication,
+  teardownApplication,
+  createTestEntity,
+} from '../test-helper';
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('Webhook deliveries', () => {
+  let client: Client;
+  let appWithClient: AppWithClient | undefined;
+  let receiver: http.Server;
+  let receiverUrl: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+
+  before(async () => {
+    receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    receiverUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}`;
+  });
+
+  beforeEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+    received = [];
+    responseStatus = 204;
+
+    // Clear all environment variables
+    Object.keys(process.env).forEach((key) => {
+      delete process.env[key];
+    });
+  });
+
+  afterEach(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+  });
+
+  after(async () => {
+    if (appWithClient) {
+      await teardownApplication(appWithClient);
+    }
+
+    appWithClient = undefined;
+
+    await new Promise((resolve) => receiver.close(resolve));
+  });
+
+  /**
+   * Polls the given endpoint until the expected number of records is returned
+   */
+  async function waitForRecords(
+    path: string,
+    filter: object,
+    count: number,
+  ): Promise<AnyObject[]> {
+    for (let i = 0; i < 50; i++) {
+      const response = await client.get(path).query({ filter }).expect(200);
+
+      if (response.body.length >= count) {
+        return response.body;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    throw new Error(`Expected ${count} record(s) at ${path}`);
+  }
+
+  it('posts the signed change event to the matching subscriptions', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book,movie',
+      WEBHOOKS: JSON.stringify([
+        {
+          id: 'books',
+          url: `${receiverUrl}/books`,
+          secret: 'books-secret',
+          models: ['entity'],
+          kinds: ['book'],
+          operations: ['create'],
+        },
+      ]),
+      webhook_dispatch_interval_ms: '100',
+    });
+    ({ client } = appWithClient);
+
+    const bookId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+    await createTestEntity(client, {
+      _name: 'Test Movie',
+      _kind: 'movie',
+    });
+
+    const deliveries = await waitForRecords(
+      '/webhooks/deliveries',
+      { where: { _status: 'delivered' } },
+      1,
+    );
+
+    expect(deliveries).to.have.length(1);
+    expect(deliveries[0]).to.containDeep({
+      _webhookId: 'books',
+      _recordId: bookId,
+      _operation: 'create',
+      _attempts: 1,
+      _lastResponseStatus: 204,
+    });
+
+    expect(received).to.have.length(1);
+
+    const payload = JSON.parse(received[0].body);
+    expect(payload.event).to.containDeep({
+      _recordId: bookId,
+      _recordType: 'entity',
+      _kind: 'book',
+      _operation: 'create',
+    });
+    expect(payload.record).to.containDeep({ _id: bookId, _name: 'Test Book' });
+
+    const expectedSignature = crypto
+      .createHmac('sha256', 'books-secret')
+      .update(received[0].body)
+      .digest('hex');
+    expect(received[0].headers['x-webhook-signature']).to.equal(
+      `sha256=${expectedSignature}`,
+    );
+    expect(received[0].headers['x-webhook-delivery']).to.equal(
+      deliveries[0]._id,
+    );
+  });
+
+  it('only delivers the records matching the scope of the subscription', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      WEBHOOKS: JSON.stringify([
+        {
+          id: 'public-books',
+          url: `${receiverUrl}/public`,
+          secret: 'public-secret',
+          scope: 'set[publics]=true',
+        },
+      ]),
+      webhook_dispatch_interval_ms: '100',
+    });
+    ({ client } = appWithClient);
+
+    const publicId = await createTestEntity(client, {
+      _name: 'Public Book',
+      _kind: 'book',
+      _visibility: 'public',
+    });
+    const privateId = await createTestEntity(client, {
+      _name: 'Private Book',
+      _kind: 'book',
+      _visibility: 'private',
+    });
+
+    // The scope is evaluated against the state of the record after the update
+    await client
+      .patch(`/entities/${privateId}`)
+      .send({ _visibility: 'public' })
+      .expect(204);
+
+    const deliveries = await waitForRecords(
+      '/webhooks/deliveries',
+      { order: ['_createdDateTime ASC'] },
+      2,
+    );
+
+    expect(deliveries.map((d) => [d._recordId, d._operation])).to.eql([
+      [publicId, 'create'],
+      [privateId, 'update'],
+    ]);
+  });
+
+  it('moves the delivery to the dead letters after the last failed attempt', async () => {
+    responseStatus = 500;
+
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      WEBHOOKS: JSON.stringify([
+        {
+          id: 'failing',
+          url: `${receiverUrl}/failing`,
+          secret: 'failing-secret',
+        },
+      ]),
+      webhook_max_attempts: '3',
+      webhook_retry_delay_ms: '50',
+      webhook_dispatch_interval_ms: '100',
+    });
+    ({ client } = appWithClient);
+
+    const entityId = await createTestEntity(client, {
+      _name: 'Test Book',
+      _kind: 'book',
+    });
+
+    const deadLetters = await waitForRecords('/webhooks/dead-letters', {}, 1);
+
+    expect(deadLetters[0]).to.containDeep({
+      _webhookId: 'failing',
+      _recordId: entityId,
+      _status: 'failed',
+      _attempts: 3,
+      _lastResponseStatus: 500,
+    });
+    expect(received).to.have.length(3);
+
+    const deliveries = await client.get('/webhooks/deliveries').expect(200);
+    expect(deliveries.body).to.have.length(0);
+  });
+
+  it('does not queue deliveries for rejected requests', async () => {
+    appWithClient = await setupApplication({
+      entity_kinds: 'book',
+      uniqueness_entity_fields: '_name',
+      WEBHOOKS: JSON.stringify([
+        {
+          id: 'all',
+          url: `${receiverUrl}/all`,
+          secret: 'all-secret',
+        },
+      ]),
+    });
+    ({ client } = appWithClient);
+
+    await createTestEntity(client, { _name: 'Test Book', _kind: 'book' });
+    await client
+      .post('/entities')
+      .send({ _name: 'Test Book', _kind: 'book' })
+      .expect(409);
+
+    const deliveries = await client.get('/webhooks/deliveries').expect(200);
+    expect(deliveries.body).to.have.length(1);
+  });
+});
@@ -1,12 +1,24 @@
 import type { DataObject } from '@loopback/repository';
-import type { Request } from '@loopback/rest';
+import type { Request, Response } from '@loopback/rest';
 import { expect, sinon } from '@loopback/testlab';
+import { PassThrough } from 'stream';
 import { setupApplication, teardownApplication } from './test-helper';
 import type { EntityPersistenceApplication } from '../../..';
 import { EntitiesController } from '../../../controllers';
+import { EnvConfigHelper } from '../../../extensions/config-helpers/env-config-helper';
+import { ResponseLimitConfigurationReader } from '../../../extensions/config-helpers/response-limit-config-helper';
+import { SearchConfigurationReader } from '../../../extensions/config-helpers/search-config-helper';
+import { NEXT_CURSOR_HEADER } from '../../../extensions/utils/cursor-helper';
+import {
+  APPLIED_LIMIT_HEADER,
+  TOTAL_COUNT_HEADER,
+} from '../../../extensions/utils/page-info-helper';
 import type { Set } from '../../../extensions/utils/set-helper';
-import { GenericEntity } from '../../../models';
+import { AggregateBucket, GenericEntity } from '../../../models';
 import { EntityRepository } from '../../../repositories';
+import { AggregateService } from '../../../services/aggregate.service';
+import { BulkCreateService } from '../../../services/bulk-create.service';
+import { BulkDeleteService } from '../../../services/bulk-delete.service';
 import { LoggingService } from '../../../services/logging.service';
 
 /**
@@ -20,6 +32,9 @@ describe('EntitiesController', () => {
   let repository: sinon.SinonStubbedInstance<EntityRepository>;
   let mockRequest: Partial<Request> & { requestId?: string };
   let mockLogger: sinon.SinonStubbedInstance<LoggingService>;
+  let bulkCreateService: sinon.SinonStubbedInstance<BulkCreateService>;
+  let bulkDeleteService: sinon.SinonStubbedInstance<BulkDeleteService>;
+  let aggregateService: sinon.SinonStubbedInstance<AggregateService>;
   let originalEntityKinds: string | undefined;
 
   before(async () => {
@@ -43,10 +58,19 @@ describe('EntitiesController', () => {
     };
     mockLogger = sinon.createStubInstance(LoggingService);
 
+    bulkCreateService = sinon.createStubInstance(BulkCreateService);
+    bulkDeleteService = sinon.createStubInstance(BulkDeleteService);
+    aggregateService = sinon.createStubInstance(AggregateService);
+
     controller = new EntitiesController(
       repository,
       mockRequest as Request,
       mockLogger,
+      bulkCreateService,
+      bulkDeleteService,
+      new ResponseLimitConfigurationReader(),
+      new SearchConfigurationReader(),
+      aggregateService,
     );
   });
 
@@ -137,6 +161,77 @@ describe('EntitiesController', () => {
     });
   });
 
+  /**
+   * Tests for the bulk create operation
+   */
+  describe('createBulk()', () => {
+    it('should create each item through EntityRepository.create()', async () => {
+      const inputEntities = [
+        { _name: 'first', _kind: 'book' },
+        { _name: 'second', _kind: 'book' },
+      ];
+      const options = { session: 'test-session' };
+      bulkCreateService.createAll.resolves([]);
+
+      await controller.createBulk(inputEntities, 'best-effort', options);
+
+      const [items, mode, create, passedOptions] =
+        bulkCreateService.createAll.firstCall.args;
+
+      expect(items).to.equal(inputEntities);
+      expect(mode).to.equal('best-effort');
+      expect(passedOptions).to.equal(options);
+
+      await create(inputEntities[0], options);
+      sinon.assert.calledWithExactly(
+        repository.create,
+        inputEntities[0],
+        options,
+      );
+    });
+
+    it('should default to atomic mode', async () => {
+      bulkCreateService.createAll.resolves([]);
+
+      await controller.createBulk([]);
+
+      expect(bulkCreateService.createAll.firstCall.args[1]).to.equal('atomic');
+    });
+  });
+
+  /**
+   * Tests for the bulk delete operation
+   */
+  describe('deleteAll()', () => {
+    it('should delete the entities matching the filter and set', async () => {
+      const set: Set = { actives: 'true' };
+      const options = { session: 'test-session' };
+      bulkDeleteService.deleteAll.resolves();
+
+      await controller.deleteAll(
+        set,
+        { where: { _kind: 'book' } },
+        true,
+        undefined,
+        'user1',
+        options,
+      );
+
+      const [passedRepository, where, bulkDeleteOptions, passedOptions] =
+        bulkDeleteService.deleteAll.firstCall.args;
+
+      expect(passedRepository).to.equal(repository);
+      expect(where).to.have.property('and');
+      expect(JSON.stringify(where)).to.containEql('"_kind":"book"');
+      expect(bulkDeleteOptions).to.eql({
+        confirm: true,
+        dryRun: undefined,
+        deletedBy: 'user1',
+      });
+      expect(passedOptions).to.equal(options);
+    });
+  });
+
   describe('findById()', () => {
     it('should retrieve an entity by id', async () => {
       const expectedEntity = new GenericEntity({
@@ -270,6 +365,188 @@ describe('EntitiesController', () => {
       // Assert
       sinon.assert.calledWithMatch(repository.find, filter);
     });
+
+    it('should return the cursor of the next page when the page is full', async () => {
+      const response = { setHeader: sinon.stub() };
+      repository.find.resolves([
+        new GenericEntity({ _id: '1', _name: 'book1' }),
+        new GenericEntity({ _id: '2', _name: 'book2' }),
+      ]);
+
+      await controller.find(
+        undefined,
+        { order: ['_name ASC'], limit: 2 },
+        '*',
+        undefined,
+        undefined,
+        response as unknown as Response,
+      );
+
+      sinon.assert.calledWithMatch(repository.find, {
+        order: ['_name ASC', '_id ASC'],
+        limit: 2,
+      });
+      sinon.assert.calledWith(
+        response.setHeader,
+        NEXT_CURSOR_HEADER,
+        sinon.match.string,
+      );
+
+      // The cursor narrows the next page down to the records after book2
+      const nextCursor = response.setHeader.firstCall.args[1];
+      repository.find.resolves([]);
+
+      await controller.find(
+        undefined,
+        { order: ['_name ASC'], limit: 2 },
+        nextCursor,
+        undefined,
+        undefined,
+        response as unknown as Response,
+      );
+
+      sinon.assert.calledWithMatch(repository.find, {
+        where: {
+          or: [
+            { _name: { gt: 'book2' } },
+            { and: [{ _name: { eq: 'book2' } }, { _id: { gt: '2' } }] },
+          ],
+        },
+      });
+      sinon.assert.calledOnce(response.setHeader);
+    });
+
+    it('should describe the page in the response headers when page info is requested', async () => {
+      const response = {
+        setHeader: sinon.stub(),
+        req: { originalUrl: '/entities?filter[limit]=2&filter[skip]=2' },
+      };
+      repository.find.resolves([
+        new GenericEntity({ _id: '3', _name: 'book3' }),
+        new GenericEntity({ _id: '4', _name: 'book4' }),
+      ]);
+      repository.count.resolves({ count: 5 });
+
+      await controller.find(
+        undefined,
+        { where: { _kind: 'book' }, limit: 2, skip: 2 },
+        undefined,
+        true,
+        undefined,
+        response as unknown as Response,
+      );
+
+      sinon.assert.calledWith(repository.count, { _kind: 'book' });
+      sinon.assert.calledWith(response.setHeader, TOTAL_COUNT_HEADER, '5');
+      sinon.assert.calledWith(response.setHeader, APPLIED_LIMIT_HEADER, '2');
+      sinon.assert.calledWith(
+        response.setHeader,
+        'Link',
+        '</entities?filter%5Blimit%5D=2&filter%5Bskip%5D=4>; rel="next", ' +
+          '</entities?filter%5Blimit%5D=2&filter%5Bskip%5D=0>; rel="prev"',
+      );
+    });
+
+    it('should not count the records when page info is not requested', async () => {
+      repository.find.resolves([]);
+
+      await controller.find(undefined, { limit: 2 });
+
+      sinon.assert.notCalled(repository.count);
+    });
+
+    it('should return the matching entities of a search by relevance', async () => {
+      process.env.entity_search_fields = '_name:10,description';
+      EnvConfigHelper.reset();
+      controller = new EntitiesController(
+        repository,
+        mockRequest as Request,
+        mockLogger,
+        bulkCreateService,
+        bulkDeleteService,
+        new ResponseLimitConfigurationReader(),
+        new SearchConfigurationReader(),
+        aggregateService,
+      );
+      repository.findSearchPage.resolves(['3', '1']);
+      repository.countSearchMatches.resolves({ count: 3 });
+      repository.find.resolves([
+        new GenericEntity({ _id: '1', _name: 'book1' }),
+        new GenericEntity({ _id: '3', _name: 'book3' }),
+      ]);
+      const response = {
+        setHeader: sinon.stub(),
+        req: { originalUrl: '/entities?search=dune' },
+      };
+
+      try {
+        const result = await controller.find(
+          undefined,
+          { where: { _kind: 'book' }, skip: 2, limit: 2 },
+          undefined,
+          true,
+          'dune',
+          response as unknown as Response,
+        );
+
+        sinon.assert.calledWith(
+          repository.findSearchPage,
+          'dune',
+          { where: { _kind: 'book' }, skip: 2, limit: 2 },
+          undefined,
+        );
+        sinon.assert.calledWith(repository.find, {
+          where: { and: [{ _kind: 'book' }, { _id: { inq: ['3', '1'] } }] },
+          limit: 2,
+        });
+        sinon.assert.calledWith(repository.countSearchMatches, 'dune', {
+          _kind: 'book',
+        });
+        sinon.assert.notCalled(repository.count);
+        sinon.assert.calledWith(response.setHeader, TOTAL_COUNT_HEADER, '3');
+        expect(result.map((entity) => entity._id)).to.eql(['3', '1']);
+      } finally {
+        delete process.env.entity_search_fields;
+        EnvConfigHelper.reset();
+      }
+    });
+  });
+
+  describe('export()', () => {
+    it('should stream the entities matching the filter and set', async () => {
+      const response = Object.assign(new PassThrough(), {
+        status: sinon.stub().returnsThis(),
+        setHeader: sinon.stub(),
+      });
+      const set: Set = { actives: 'true' };
+      const filter = { where: { _kind: 'book' } };
+
+      repository.iterate.callsFake(async function* () {
+        yield new GenericEntity({ _id: '2', _kind: 'book' });
+        yield new GenericEntity({ _id: '3', _kind: 'book' });
+      });
+
+      await controller.export(
+        response as unknown as Response,
+        set,
+        filter,
+        '1',
+      );
+
+      sinon.assert.calledWithMatch(
+        repository.iterate,
+        sinon.match.has('where'),
+        '1',
+      );
+      expect(
+        response
+          .read()
+          .toString()
+          .trim()
+          .split('\n')
+          .map((line: string) => JSON.parse(line)._id),
+      ).to.eql(['2', '3']);
+    });
   });
 
   /**
@@ -385,6 +662,36 @@ describe('EntitiesController', () => {
     });
   });
 
+  describe('aggregate()', () => {
+    it('should aggregate the entities matching the where clause and set', async () => {
+      const buckets = [
+        new AggregateBucket({
+          group: { _kind: 'book' },
+          metrics: { count: 3 },
+        }),
+      ];
+      aggregateService.aggregate.resolves(buckets);
+
+      const result = await controller.aggregate(
+        { actives: 'true' },
+        { _kind: 'book' },
+        '_kind',
+        'count,avg:price',
+      );
+
+      expect(result).to.equal(buckets);
+
+      const [passedRepository, where, groupBy, metrics] =
+        aggregateService.aggregate.firstCall.args;
+
+      expect(passedRepository).to.equal(repository);
+      expect(JSON.stringify(where)).to.containEql('"_kind":"book"');
+      expect(JSON.stringify(where)).to.containEql('_validFromDateTime');
+      expect(groupBy).to.equal('_kind');
+      expect(metrics).to.equal('count,avg:price');
+    });
+  });
+
   describe('updateAll()', () => {
     it('should update all matching entities', async () => {
       const updateData = {
@@ -440,7 +747,12 @@ describe('EntitiesController', () => {
 
       await controller.replaceById(id, replaceData);
       sinon.assert.calledOnce(repository.replaceById);
-      sinon.assert.calledWithExactly(repository.replaceById, id, replaceData, {});
+      sinon.assert.calledWithExactly(
+        repository.replaceById,
+        id,
+        replaceData,
+        {},
+      );
     });
 
     it('should throw 404 when entity to replace not found', async () => {
@@ -618,6 +930,79 @@ describe('EntitiesController', () => {
     });
   });
 
+  describe('findDescendants()', () => {
+    it('should retrieve descendants of an entity down to the given depth', async () => {
+      // Arrange
+      const rootId = '123';
+      const set = { actives: 'true' };
+      const filter = { where: { _kind: 'book' } };
+      const expectedDescendants = [
+        new GenericEntity({ _id: '456', _kind: 'book', _relativeDepth: 1 }),
+        new GenericEntity({ _id: '789', _kind: 'book', _relativeDepth: 2 }),
+      ];
+      repository.findDescendants.resolves(expectedDescendants);
+
+      // Act
+      const result = await controller.findDescendants(rootId, set, filter, 2);
+
+      // Assert
+      expect(result).to.eql(expectedDescendants);
+      sinon.assert.calledWithMatch(
+        repository.findDescendants,
+        rootId,
+        sinon.match.has('where'),
+        2,
+      );
+    });
+  });
+
+  describe('findTree()', () => {
+    it('should retrieve the entity tree from the roots of the given kind', async () => {
+      // Arrange
+      const set = { actives: 'true' };
+      const filter = { fields: { _name: true } };
+      const expectedTree = [
+        new GenericEntity({
+          _id: '123',
+          _kind: 'category',
+          _children: [new GenericEntity({ _id: '456', _kind: 'category' })],
+        }),
+      ];
+      repository.findTree.resolves(expectedTree);
+
+      // Act
+      const result = await controller.findTree(set, filter, 'category', 3);
+
+      // Assert
+      expect(result).to.eql(expectedTree);
+      sinon.assert.calledWithMatch(
+        repository.findTree,
+        sinon.match.has('where').and(sinon.match.has('fields')),
+        'category',
+        3,
+      );
+    });
+  });
+
+  describe('move()', () => {
+    it('should move the entity to its new parent', async () => {
+      // Arrange
+      const expectedEntity = new GenericEntity({
+        _id: '123',
+        _kind: 'category',
+        _parents: ['tapp://localhost/entities/789'],
+      });
+      repository.move.resolves(expectedEntity);
+
+      // Act
+      const result = await controller.move('123', { from: '456', to: '789' });
+
+      // Assert
+      expect(result).to.eql(expectedEntity);
+      sinon.assert.calledWith(repository.move, '123', '456', '789');
+    });
+  });
+
   describe('createChild()', () => {
     it('should create a child entity under a parent', async () => {
       // Arrange
@@ -644,7 +1029,7 @@ describe('EntitiesController', () => {
         repository.createChild,
         parentId,
         childData,
-        {}
+        {},
       );
     });
 
@@ -4,9 +4,14 @@ import { expect, sinon } from '@loopback/testlab';
 import { setupApplication, teardownApplication } from './test-helper';
 import type { EntityPersistenceApplication } from '../../..';
 import { ListsController } from '../../../controllers';
+import { ResponseLimitConfigurationReader } from '../../../extensions/config-helpers/response-limit-config-helper';
+import { SearchConfigurationReader } from '../../../extensions/config-helpers/search-config-helper';
 import type { Set } from '../../../extensions/utils/set-helper';
 import { List } from '../../../models';
 import { ListRepository } from '../../../repositories';
+import { AggregateService } from '../../../services/aggregate.service';
+import { BulkCreateService } from '../../../services/bulk-create.service';
+import { BulkDeleteService } from '../../../services/bulk-delete.service';
 import { LoggingService } from '../../../services/logging.service';
 
 /**
@@ -41,6 +46,11 @@ describe('ListsController', () => {
       repository,
       mockLogger,
       mockRequest as Request,
+      sinon.createStubInstance(BulkCreateService),
+      sinon.createStubInstance(BulkDeleteService),
+      new ResponseLimitConfigurationReader(),
+      new SearchConfigurationReader(),
+      sinon.createStubInstance(AggregateService),
     );
   });
 
@@ -417,7 +427,12 @@ describe('ListsController', () => {
 
       await controller.replaceById(id, replaceData);
       sinon.assert.calledOnce(repository.replaceById);
-      sinon.assert.calledWithExactly(repository.replaceById, id, replaceData, {});
+      sinon.assert.calledWithExactly(
+        repository.replaceById,
+        id,
+        replaceData,
+        {},
+      );
     });
 
     it('should throw 404 when list to replace not found', async () => {
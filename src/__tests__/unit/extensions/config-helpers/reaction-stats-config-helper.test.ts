@@ -0,0 +1,61 @@
+import { expect } from '@loopback/testlab';
+import { EnvConfigHelper } from '../../../../extensions/config-helpers/env-config-helper';
+import { ReactionStatsConfigurationReader } from '../../../../extensions/config-helpers/reaction-stats-config-helper';
+
+describe('Utilities: ReactionStatsConfigurationReader', () => {
+  const statsEnvKeys = [
+    'entity_reaction_stats',
+    'entity_reaction_stats_for_rating',
+    'entity_reaction_stats_for_like',
+  ];
+
+  beforeEach(() => {
+    statsEnvKeys.forEach((key) => delete process.env[key]);
+    EnvConfigHelper.reset();
+  });
+
+  afterEach(() => {
+    statsEnvKeys.forEach((key) => delete process.env[key]);
+    EnvConfigHelper.reset();
+  });
+
+  it('should replace the metrics of the model with the metrics of the kind', () => {
+    process.env.entity_reaction_stats = 'sum:value';
+    process.env.entity_reaction_stats_for_rating = 'avg:value,max:value';
+
+    const reader = new ReactionStatsConfigurationReader();
+
+    expect(reader.getMetrics('entity-reaction', 'rating')).to.eql([
+      { operator: 'avg', field: 'value' },
+      { operator: 'max', field: 'value' },
+    ]);
+    expect(reader.getMetrics('entity-reaction', 'like')).to.eql([
+      { operator: 'sum', field: 'value' },
+    ]);
+    expect(reader.getMetrics('list-reaction')).to.eql([]);
+  });
+
+  it('should merge the metrics of the model and all its kinds', () => {
+    process.env.entity_reaction_stats = 'avg:value';
+    process.env.entity_reaction_stats_for_rating = 'avg:value,max:value';
+    process.env.entity_reaction_stats_for_like = '';
+
+    const reader = new ReactionStatsConfigurationReader();
+
+    expect(reader.getAllMetrics('entity-reaction')).to.eql([
+      { operator: 'avg', field: 'value' },
+      { operator: 'max', field: 'value' },
+    ]);
+  });
+
+  it('should reject invalid metrics', () => {
+    for (const value of ['count', 'median:value', 'avg', 'avg:$value']) {
+      process.env.entity_reaction_stats = value;
+      EnvConfigHelper.reset();
+
+      expect(() =>
+        new ReactionStatsConfigurationReader().getMetrics('entity-reaction'),
+      ).to.throw(/Invalid reaction stats configuration/);
+    }
+  });
+});
@@ -0,0 +1,215 @@
+import { expect } from '@loopback/testlab';
+import {
+  applyCursor,
+  FIRST_PAGE_CURSOR,
+  getNextCursor,
+} from '../../../../extensions/utils/cursor-helper';
+import { HttpErrorResponse } from '../../../../models';
+
+describe('Utilities: CursorHelper', () => {
+  describe('applyCursor', () => {
+    it('should complete the order with _id for the first page', () => {
+      const filter = applyCursor(
+        { where: { _kind: 'book' }, order: ['_name DESC'] },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+
+      expect(filter).to.eql({
+        where: { _kind: 'book' },
+        order: ['_name DESC', '_id ASC'],
+        limit: 50,
+      });
+    });
+
+    it('should accept comma separated order strings', () => {
+      const filter = applyCursor(
+        { order: '_name, _createdDateTime desc' as unknown as string[] },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+
+      expect(filter.order).to.eql([
+        '_name ASC',
+        '_createdDateTime DESC',
+        '_id ASC',
+      ]);
+    });
+
+    it('should ignore order keys after _id', () => {
+      const filter = applyCursor(
+        { order: ['_id DESC', '_name ASC'] },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+
+      expect(filter.order).to.eql(['_id DESC']);
+    });
+
+    it('should cap the limit with the response limit', () => {
+      expect(applyCursor({ limit: 500 }, FIRST_PAGE_CURSOR, 50).limit).to.equal(
+        50,
+      );
+      expect(applyCursor({ limit: 10 }, FIRST_PAGE_CURSOR, 50).limit).to.equal(
+        10,
+      );
+    });
+
+    it('should keep the sort fields in the response', () => {
+      expect(
+        applyCursor(
+          { fields: { _kind: true }, order: ['_name ASC'] },
+          FIRST_PAGE_CURSOR,
+          50,
+        ).fields,
+      ).to.eql({ _kind: true, _name: true, _id: true });
+
+      expect(
+        applyCursor(
+          { fields: { _name: false, description: false }, order: ['_name'] },
+          FIRST_PAGE_CURSOR,
+          50,
+        ).fields,
+      ).to.eql({ description: false });
+    });
+
+    it('should narrow the where clause down to the records after the cursor', () => {
+      const firstPage = applyCursor(
+        { where: { _kind: 'book' }, order: ['_name ASC'], limit: 1 },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+      const cursor = getNextCursor(
+        [{ _id: 'id-1', _name: 'Book' }],
+        firstPage,
+      )!;
+
+      const nextPage = applyCursor(
+        { where: { _kind: 'book' }, order: ['_name ASC'], limit: 1 },
+        cursor,
+        50,
+      );
+
+      expect(nextPage.where).to.eql({
+        and: [
+          { _kind: 'book' },
+          {
+            or: [
+              { _name: { gt: 'Book' } },
+              { and: [{ _name: { eq: 'Book' } }, { _id: { gt: 'id-1' } }] },
+            ],
+          },
+        ],
+      });
+    });
+
+    it('should sort missing values before any other value', () => {
+      const firstPage = applyCursor(
+        { order: ['rank DESC'], limit: 1 },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+      const cursor = getNextCursor([{ _id: 'id-1', rank: 3 }], firstPage)!;
+
+      expect(
+        applyCursor({ order: ['rank DESC'], limit: 1 }, cursor, 50).where,
+      ).to.eql({
+        or: [
+          { or: [{ rank: { lt: 3 } }, { rank: null }] },
+          { and: [{ rank: { eq: 3 } }, { _id: { gt: 'id-1' } }] },
+        ],
+      });
+
+      const nullCursor = getNextCursor([{ _id: 'id-2' }], firstPage)!;
+
+      expect(
+        applyCursor({ order: ['rank DESC'], limit: 1 }, nullCursor, 50).where,
+      ).to.eql({
+        or: [{ and: [{ rank: null }, { _id: { gt: 'id-2' } }] }],
+      });
+    });
+
+    it('should reject a cursor issued for a different order', () => {
+      const firstPage = applyCursor(
+        { order: ['_name ASC'], limit: 1 },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+      const cursor = getNextCursor(
+        [{ _id: 'id-1', _name: 'Book' }],
+        firstPage,
+      )!;
+
+      expectInvalidCursor(() =>
+        applyCursor({ order: ['_name DESC'], limit: 1 }, cursor, 50),
+      );
+    });
+
+    it('should reject malformed cursors', () => {
+      expectInvalidCursor(() => applyCursor({}, 'not-a-cursor', 50));
+    });
+
+    it('should reject skip together with a cursor', () => {
+      expectInvalidCursor(() =>
+        applyCursor({ skip: 10 }, FIRST_PAGE_CURSOR, 50),
+      );
+    });
+
+    it('should reject invalid order directions', () => {
+      expectInvalidCursor(() =>
+        applyCursor({ order: ['_name UP'] }, FIRST_PAGE_CURSOR, 50),
+      );
+    });
+  });
+
+  describe('getNextCursor', () => {
+    it('should return undefined when the page is not full', () => {
+      const filter = applyCursor({ limit: 2 }, FIRST_PAGE_CURSOR, 50);
+
+      expect(getNextCursor([{ _id: 'id-1' }], filter)).to.be.undefined();
+      expect(getNextCursor([], filter)).to.be.undefined();
+    });
+
+    it('should encode dates as ISO strings', () => {
+      const filter = applyCursor(
+        { order: ['_createdDateTime DESC'], limit: 1 },
+        FIRST_PAGE_CURSOR,
+        50,
+      );
+      const cursor = getNextCursor(
+        [
+          {
+            _id: 'id-1',
+            _createdDateTime: new Date('2024-01-01T00:00:00.000Z'),
+          },
+        ],
+        filter,
+      )!;
+
+      expect(
+        applyCursor({ order: ['_createdDateTime DESC'], limit: 1 }, cursor, 50)
+          .where,
+      ).to.containDeep({
+        or: [
+          {
+            or: [{ _createdDateTime: { lt: '2024-01-01T00:00:00.000Z' } }],
+          },
+        ],
+      });
+    });
+  });
+});
+
+function expectInvalidCursor(fn: () => unknown): void {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).to.be.instanceOf(HttpErrorResponse);
+    expect(error).to.have.property('statusCode', 400);
+    expect(error).to.have.property('code', 'INVALID-CURSOR');
+
+    return;
+  }
+
+  throw new Error('Expected an INVALID-CURSOR error');
+}
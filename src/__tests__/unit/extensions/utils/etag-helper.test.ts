@@ -0,0 +1,77 @@
+import { expect } from '@loopback/testlab';
+import {
+  applyIfMatchVersion,
+  buildEtag,
+  parseIfMatchVersion,
+} from '../../../../extensions/utils/etag-helper';
+import { HttpErrorResponse } from '../../../../models';
+
+describe('Utilities: EtagHelper', () => {
+  describe('buildEtag', () => {
+    it('should build a strong etag from the version', () => {
+      expect(buildEtag(3)).to.equal('"3"');
+    });
+
+    it('should return undefined when version is missing', () => {
+      expect(buildEtag(undefined)).to.be.undefined();
+      expect(buildEtag(null)).to.be.undefined();
+    });
+  });
+
+  describe('parseIfMatchVersion', () => {
+    it('should parse strong etags', () => {
+      expect(parseIfMatchVersion('"5"')).to.equal(5);
+    });
+
+    it('should parse weak etags', () => {
+      expect(parseIfMatchVersion('W/"5"')).to.equal(5);
+    });
+
+    it('should parse bare version numbers', () => {
+      expect(parseIfMatchVersion(' 12 ')).to.equal(12);
+    });
+
+    it('should return undefined for missing header or wildcard', () => {
+      expect(parseIfMatchVersion(undefined)).to.be.undefined();
+      expect(parseIfMatchVersion('')).to.be.undefined();
+      expect(parseIfMatchVersion('*')).to.be.undefined();
+    });
+
+    it('should throw 400 for malformed values', () => {
+      try {
+        parseIfMatchVersion('"abc"');
+        throw new Error('Expected error was not thrown');
+      } catch (error) {
+        expect(error).to.be.instanceOf(HttpErrorResponse);
+        expect(error.statusCode).to.equal(400);
+        expect(error.code).to.equal('INVALID-IF-MATCH-HEADER');
+      }
+    });
+  });
+
+  describe('applyIfMatchVersion', () => {
+    it('should set _version from the header', () => {
+      const data: { _name: string; _version?: number } = { _name: 'test' };
+
+      applyIfMatchVersion(data, '"2"');
+
+      expect(data._version).to.equal(2);
+    });
+
+    it('should let the header take precedence over the body version', () => {
+      const data = { _version: 1 };
+
+      applyIfMatchVersion(data, '"4"');
+
+      expect(data._version).to.equal(4);
+    });
+
+    it('should leave data untouched when header is not given', () => {
+      const data = { _version: 1 };
+
+      applyIfMatchVersion(data, undefined);
+
+      expect(data).to.deepEqual({ _version: 1 });
+    });
+  });
+});
@@ -414,6 +414,30 @@ describe('Utilities: FilterHelper', () => {
       });
     });
 
+    it('should convert reaction counters to numbers without type hint', () => {
+      const filter = {
+        where: {
+          '_reactionCounts.like': {
+            gt: '10',
+          },
+          '_reactionCounts.love': '3',
+          '_reactionCounts.wow': 'null',
+        },
+      };
+
+      sanitizeFilterFields(filter);
+
+      expect(filter).to.deepEqual({
+        where: {
+          '_reactionCounts.like': {
+            gt: 10,
+          },
+          '_reactionCounts.love': 3,
+          '_reactionCounts.wow': null,
+        },
+      });
+    });
+
     it('should handle type conversion in nested lookup filters', () => {
       const filter = {
         lookup: [
@@ -0,0 +1,166 @@
+import { expect } from '@loopback/testlab';
+import { Readable } from 'stream';
+import type { ImportLine } from '../../../../extensions/utils/import-helper';
+import {
+  CSV_CONTENT_TYPE,
+  readImportLines,
+} from '../../../../extensions/utils/import-helper';
+import { NDJSON_CONTENT_TYPE } from '../../../../extensions/utils/ndjson-helper';
+
+describe('Utilities: ImportHelper', () => {
+  describe('NDJSON', () => {
+    it('should read a record from each line and skip empty lines', async () => {
+      const lines = await readLines(
+        ['{"_name":"Book A","_kind":"book"}\n\n', '{"_name":"Book B"}\n'],
+        `${NDJSON_CONTENT_TYPE}; charset=utf-8`,
+      );
+
+      expect(lines).to.eql([
+        { line: 1, record: { _name: 'Book A', _kind: 'book' } },
+        { line: 3, record: { _name: 'Book B' } },
+      ]);
+    });
+
+    it('should read lines split across chunks', async () => {
+      const lines = await readLines([
+        '{"_name":',
+        '"Book A"}\r\n{"_na',
+        'me":"Book B"}',
+      ]);
+
+      expect(lines.map((l) => l.record)).to.eql([
+        { _name: 'Book A' },
+        { _name: 'Book B' },
+      ]);
+    });
+
+    it('should report invalid lines and keep reading', async () => {
+      const lines = await readLines(['{"_name":\n[1,2]\n{"_name":"Book A"}\n']);
+
+      expect(lines[0].error).to.containDeep({
+        statusCode: 422,
+        code: 'INVALID-IMPORT-LINE',
+        message: 'Line 1 is not valid JSON.',
+      });
+      expect(lines[1].error).to.containDeep({
+        code: 'INVALID-IMPORT-LINE',
+        message: 'Line 2 is not a JSON object.',
+      });
+      expect(lines[2]).to.eql({ line: 3, record: { _name: 'Book A' } });
+    });
+  });
+
+  describe('CSV', () => {
+    it('should read a record from each row by the header', async () => {
+      const lines = await readLines(
+        [
+          '\uFEFF_name,_kind,pages:number,published:boolean,metadata:json\n',
+          'Book A,book,120,true,"{""isbn"":""123""}"\n',
+          'Book B,book,,FALSE,\n',
+        ],
+        CSV_CONTENT_TYPE,
+      );
+
+      expect(lines).to.eql([
+        {
+          line: 2,
+          record: {
+            _name: 'Book A',
+            _kind: 'book',
+            pages: 120,
+            published: true,
+            metadata: { isbn: '123' },
+          },
+        },
+        // Empty cells are left out of the record
+        {
+          line: 3,
+          record: { _name: 'Book B', _kind: 'book', published: false },
+        },
+      ]);
+    });
+
+    it('should read quoted values with commas, quotes and line breaks', async () => {
+      const lines = await readLines(
+        [
+          '_name,description\r\n',
+          '"Book, ""A""","First line\r\nsecond',
+          ' line"\r\nBook B,plain\r\n',
+        ],
+        CSV_CONTENT_TYPE,
+      );
+
+      expect(lines).to.eql([
+        {
+          line: 2,
+          record: {
+            _name: 'Book, "A"',
+            description: 'First line\r\nsecond line',
+          },
+        },
+        { line: 4, record: { _name: 'Book B', description: 'plain' } },
+      ]);
+    });
+
+    it('should report rows which cannot be read and keep reading', async () => {
+      const lines = await readLines(
+        ['_name,pages:number\n', 'Book A\n', 'Book B,many\n', 'Book C,3\n'],
+        CSV_CONTENT_TYPE,
+      );
+
+      expect(lines[0].error).to.containDeep({
+        statusCode: 422,
+        code: 'INVALID-IMPORT-LINE',
+        message: 'Line 2 has 1 values, while the header has 2 columns.',
+      });
+      expect(lines[1].error).to.containDeep({
+        code: 'INVALID-IMPORT-LINE',
+        message: "Value of 'pages' on line 3 is not a number.",
+      });
+      expect(lines[2]).to.eql({
+        line: 4,
+        record: { _name: 'Book C', pages: 3 },
+      });
+    });
+
+    it('should report an unterminated quoted value on the last row', async () => {
+      const lines = await readLines(['_name\n', '"Book A\n'], CSV_CONTENT_TYPE);
+
+      expect(lines[0].error).to.containDeep({
+        code: 'INVALID-IMPORT-LINE',
+        message: 'Line 2 has an unterminated quoted value.',
+      });
+    });
+
+    it('should fail the whole import on an invalid header', async () => {
+      for (const header of [
+        '_name,pages:integer',
+        '_name,_name',
+        '__proto__',
+      ]) {
+        await expect(
+          readLines([`${header}\nBook A\n`], CSV_CONTENT_TYPE),
+        ).to.be.rejectedWith({
+          statusCode: 400,
+          code: 'INVALID-IMPORT-HEADER',
+        });
+      }
+    });
+  });
+});
+
+async function readLines(
+  chunks: string[],
+  contentType?: string,
+): Promise<ImportLine[]> {
+  const lines: ImportLine[] = [];
+
+  for await (const line of readImportLines(
+    Readable.from(chunks),
+    contentType,
+  )) {
+    lines.push(line);
+  }
+
+  return lines;
+}
@@ -0,0 +1,129 @@
+import { expect } from '@loopback/testlab';
+import type { JsonPatchOperation } from '../../../../extensions/utils/json-patch-helper';
+import {
+  applyJsonPatch,
+  getPatchedFields,
+  parseJsonPointer,
+} from '../../../../extensions/utils/json-patch-helper';
+
+describe('Utilities: JsonPatchHelper', () => {
+  const document = {
+    _name: 'Book',
+    author: { name: 'Jane', tags: ['a', 'b', 'c'] },
+    description: 'First edition',
+  };
+
+  function expectPatchError(
+    operations: JsonPatchOperation[],
+    expected: { statusCode: number; code: string },
+  ) {
+    try {
+      applyJsonPatch(document, operations);
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.containDeep(expected);
+    }
+  }
+
+  describe('parseJsonPointer', () => {
+    it('should split the pointer and unescape its tokens', () => {
+      expect(parseJsonPointer('/a~1b/c~0d/0')).to.eql(['a/b', 'c~d', '0']);
+      expect(parseJsonPointer('')).to.eql([]);
+    });
+
+    it('should reject pointers not starting with a slash', () => {
+      expect(() => parseJsonPointer('author')).to.throw(/must start with '\/'/);
+    });
+  });
+
+  describe('applyJsonPatch', () => {
+    it('should apply the operations in order without modifying the document', () => {
+      const patched = applyJsonPatch(document, [
+        { op: 'replace', path: '/author/tags/1', value: 'x' },
+        { op: 'add', path: '/author/tags/-', value: 'd' },
+        { op: 'add', path: '/author/tags/0', value: 'z' },
+        { op: 'remove', path: '/description' },
+        { op: 'copy', from: '/author/name', path: '/editor' },
+        { op: 'move', from: '/_name', path: '/title' },
+        { op: 'test', path: '/editor', value: 'Jane' },
+      ]);
+
+      expect(patched).to.eql({
+        author: { name: 'Jane', tags: ['z', 'a', 'x', 'c', 'd'] },
+        editor: 'Jane',
+        title: 'Book',
+      });
+      expect(document.author.tags).to.eql(['a', 'b', 'c']);
+      expect(document).to.have.property('description');
+    });
+
+    it('should fail with a conflict when a test operation fails', () => {
+      expectPatchError(
+        [
+          { op: 'replace', path: '/_name', value: 'Other' },
+          { op: 'test', path: '/author/name', value: 'John' },
+        ],
+        { statusCode: 409, code: 'JSON-PATCH-TEST-FAILED' },
+      );
+    });
+
+    it('should reject paths which do not exist', () => {
+      expectPatchError([{ op: 'remove', path: '/publisher' }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+      expectPatchError([{ op: 'add', path: '/publisher/name', value: 'x' }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+      expectPatchError([{ op: 'add', path: '/author/tags/5', value: 'x' }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+    });
+
+    it('should reject malformed operations', () => {
+      expectPatchError(
+        [{ op: 'merge', path: '/_name' } as unknown as JsonPatchOperation],
+        { statusCode: 422, code: 'INVALID-JSON-PATCH' },
+      );
+      expectPatchError([{ op: 'replace', path: '/_name' }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+      expectPatchError([{ op: 'move', path: '/_name' }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+      expectPatchError([{ op: 'replace', path: '', value: {} }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+      expectPatchError([{ op: 'move', from: '/author', path: '/author/x' }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+    });
+
+    it('should not allow reaching the prototype of the document', () => {
+      expectPatchError([{ op: 'add', path: '/__proto__', value: {} }], {
+        statusCode: 422,
+        code: 'INVALID-JSON-PATCH',
+      });
+    });
+  });
+
+  describe('getPatchedFields', () => {
+    it('should return the changed top level fields and null for removed ones', () => {
+      const patched = applyJsonPatch(document, [
+        { op: 'add', path: '/author/tags/-', value: 'd' },
+        { op: 'remove', path: '/description' },
+      ]);
+
+      expect(getPatchedFields(document, patched)).to.eql({
+        author: { name: 'Jane', tags: ['a', 'b', 'c', 'd'] },
+        description: null,
+      });
+    });
+  });
+});
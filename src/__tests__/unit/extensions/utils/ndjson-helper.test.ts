@@ -0,0 +1,111 @@
+import type { Response } from '@loopback/rest';
+import { expect, sinon } from '@loopback/testlab';
+import { PassThrough } from 'stream';
+import {
+  NDJSON_CONTENT_TYPE,
+  writeNdjson,
+} from '../../../../extensions/utils/ndjson-helper';
+
+describe('Utilities: NdjsonHelper', () => {
+  it('should write one record per line', async () => {
+    const response = givenResponse();
+
+    await writeNdjson(response, toAsyncIterable([{ _id: '1' }, { _id: '2' }]));
+
+    sinon.assert.calledWith(
+      response.setHeader as sinon.SinonStub,
+      'Content-Type',
+      NDJSON_CONTENT_TYPE,
+    );
+    expect(readBody(response)).to.equal('{"_id":"1"}\n{"_id":"2"}\n');
+    expect(response.writableEnded).to.be.true();
+  });
+
+  it('should end an empty stream without records', async () => {
+    const response = givenResponse();
+
+    await writeNdjson(response, toAsyncIterable([]));
+
+    expect(readBody(response)).to.equal('');
+    expect(response.writableEnded).to.be.true();
+  });
+
+  it('should throw errors raised before the first record', async () => {
+    const response = givenResponse();
+
+    const failingRecords = {
+      [Symbol.asyncIterator]: () => ({
+        next: () => Promise.reject(new Error('invalid query')),
+      }),
+    };
+
+    await expect(writeNdjson(response, failingRecords)).to.be.rejectedWith(
+      'invalid query',
+    );
+    sinon.assert.notCalled(response.setHeader as sinon.SinonStub);
+  });
+
+  it('should end the response abruptly on errors raised while streaming', async () => {
+    const response = givenResponse();
+
+    async function* failingRecords(): AsyncGenerator<object> {
+      yield { _id: '1' };
+      throw new Error('connection lost');
+    }
+
+    await writeNdjson(response, failingRecords());
+
+    expect(response.destroyed).to.be.true();
+    expect(response.writableEnded).to.be.false();
+  });
+
+  it('should stop reading the records when the client disconnects', async () => {
+    const response = givenResponse();
+    const read: string[] = [];
+    let closed = false;
+
+    async function* records(): AsyncGenerator<object> {
+      try {
+        for (const id of ['1', '2', '3']) {
+          read.push(id);
+          yield { _id: id };
+
+          response.destroy();
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    await writeNdjson(response, records());
+
+    expect(read).to.eql(['1', '2']);
+    expect(closed).to.be.true();
+  });
+});
+
+function givenResponse(): Response {
+  const stream = new PassThrough();
+
+  // Swallow the errors of destroyed responses
+  stream.on('error', () => undefined);
+
+  return Object.assign(stream, {
+    status: sinon.stub().returnsThis(),
+    setHeader: sinon.stub(),
+  }) as unknown as Response;
+}
+
+function readBody(response: Response): string {
+  return (
+    (
+      (response as unknown as PassThrough).read() as Buffer | null
+    )?.toString() ?? ''
+  );
+}
+
+async function* toAsyncIterable(records: object[]): AsyncGenerator<object> {
+  for (const record of records) {
+    yield record;
+  }
+}
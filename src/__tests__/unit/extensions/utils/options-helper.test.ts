@@ -0,0 +1,35 @@
+import { expect } from '@loopback/testlab';
+import { extendOptions } from '../../../../extensions/utils/options-helper';
+
+describe('Utilities: OptionsHelper', () => {
+  describe('extendOptions', () => {
+    it('should add the fields to a copy of the options', () => {
+      const options = { deletedBy: 'user-1' };
+
+      const extended = extendOptions(options, { dryRun: true });
+
+      expect(extended).to.eql({ deletedBy: 'user-1', dryRun: true });
+      expect(options).to.eql({ deletedBy: 'user-1' });
+    });
+
+    it('should keep the session of the transaction out of sight', () => {
+      const session = { id: 'session-1' };
+      const options = {};
+      Object.defineProperty(options, 'session', {
+        value: session,
+        enumerable: false,
+      });
+
+      const extended = extendOptions(options, { deletedBy: 'user-1' });
+
+      expect(extended.session).to.equal(session);
+      expect(Object.keys(extended)).to.eql(['deletedBy']);
+    });
+
+    it('should accept missing options', () => {
+      expect(extendOptions(undefined, { deletedBy: 'user-1' })).to.eql({
+        deletedBy: 'user-1',
+      });
+    });
+  });
+});
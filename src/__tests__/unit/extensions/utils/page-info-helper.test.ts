@@ -0,0 +1,123 @@
+import type { Response } from '@loopback/rest';
+import { expect, sinon } from '@loopback/testlab';
+import {
+  APPLIED_LIMIT_HEADER,
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+  TOTAL_COUNT_HEADER,
+} from '../../../../extensions/utils/page-info-helper';
+
+describe('Utilities: PageInfoHelper', () => {
+  describe('getAppliedLimit', () => {
+    it('should cap the requested limit with the response limit', () => {
+      expect(getAppliedLimit({ limit: 500 }, 50)).to.equal(50);
+      expect(getAppliedLimit({ limit: 10 }, 50)).to.equal(10);
+    });
+
+    it('should use the response limit when no limit is requested', () => {
+      expect(getAppliedLimit(undefined, 50)).to.equal(50);
+      expect(getAppliedLimit({}, 50)).to.equal(50);
+    });
+  });
+
+  describe('getSkip', () => {
+    it('should read skip or offset from the filter', () => {
+      expect(getSkip({ skip: 20 })).to.equal(20);
+      expect(getSkip({ offset: 10 })).to.equal(10);
+      expect(getSkip()).to.equal(0);
+    });
+  });
+
+  describe('setPageInfoHeaders', () => {
+    it('should link to the next and previous pages', () => {
+      const response = givenResponse(
+        '/entities?filter[limit]=10&filter[skip]=10&pageInfo=true',
+      );
+
+      setPageInfoHeaders(response, {
+        appliedLimit: 10,
+        totalCount: 35,
+        skip: 10,
+      });
+
+      sinon.assert.calledWith(
+        response.setHeader as sinon.SinonStub,
+        TOTAL_COUNT_HEADER,
+        '35',
+      );
+      sinon.assert.calledWith(
+        response.setHeader as sinon.SinonStub,
+        APPLIED_LIMIT_HEADER,
+        '10',
+      );
+      expect(getLinks(response)).to.eql([
+        '</entities?filter[limit]=10&pageInfo=true&filter[skip]=20>; rel="next"',
+        '</entities?filter[limit]=10&pageInfo=true&filter[skip]=0>; rel="prev"',
+      ]);
+    });
+
+    it('should not link to a next page after the last page', () => {
+      const response = givenResponse('/entities?pageInfo=true');
+
+      setPageInfoHeaders(response, {
+        appliedLimit: 50,
+        totalCount: 35,
+        skip: 0,
+      });
+
+      sinon.assert.neverCalledWith(
+        response.setHeader as sinon.SinonStub,
+        'Link',
+      );
+    });
+
+    it('should set skip in a filter given as JSON', () => {
+      const response = givenResponse(
+        `/lists?filter=${encodeURIComponent('{"limit":5,"offset":5}')}`,
+      );
+
+      setPageInfoHeaders(response, {
+        appliedLimit: 5,
+        totalCount: 20,
+        skip: 5,
+      });
+
+      expect(getLinks(response)).to.eql([
+        `</lists?filter=${JSON.stringify({ limit: 5, skip: 10 })}>; rel="next"`,
+        `</lists?filter=${JSON.stringify({ limit: 5, skip: 0 })}>; rel="prev"`,
+      ]);
+    });
+
+    it('should only link to the next page in cursor pagination', () => {
+      const response = givenResponse('/entities?cursor=abc&pageInfo=true');
+
+      setPageInfoHeaders(response, {
+        appliedLimit: 10,
+        totalCount: 35,
+        skip: 0,
+        cursorMode: true,
+        nextCursor: 'def',
+      });
+
+      expect(getLinks(response)).to.eql([
+        '</entities?pageInfo=true&cursor=def>; rel="next"',
+      ]);
+    });
+  });
+});
+
+function givenResponse(originalUrl: string): Response {
+  return {
+    setHeader: sinon.stub(),
+    req: { originalUrl },
+  } as unknown as Response;
+}
+
+function getLinks(response: Response): string[] {
+  const call = (response.setHeader as sinon.SinonStub)
+    .getCalls()
+    .find((c) => c.args[0] === 'Link');
+
+  return decodeURIComponent(call?.args[1] ?? '').split(', ');
+}
@@ -0,0 +1,192 @@
+import { expect, sinon } from '@loopback/testlab';
+import { EnvConfigHelper } from '../../../../extensions/config-helpers/env-config-helper';
+import { SearchConfigurationReader } from '../../../../extensions/config-helpers/search-config-helper';
+import {
+  applySearchPage,
+  buildSearchSort,
+  countSearchMatches,
+  findSearchPage,
+  sortBySearchPage,
+} from '../../../../extensions/utils/search-helper';
+
+describe('Utilities: SearchHelper', () => {
+  const searchEnvKeys = [
+    'entity_search_fields',
+    'entity_search_fields_for_book',
+    'entity_search_fields_for_movie',
+  ];
+
+  beforeEach(() => {
+    searchEnvKeys.forEach((key) => delete process.env[key]);
+    EnvConfigHelper.reset();
+  });
+
+  afterEach(() => {
+    searchEnvKeys.forEach((key) => delete process.env[key]);
+    EnvConfigHelper.reset();
+  });
+
+  describe('SearchConfigurationReader', () => {
+    it('should merge the fields of the model and its kinds with their highest weights', () => {
+      process.env.entity_search_fields = '_name:5,description';
+      process.env.entity_search_fields_for_book = '_name:10,author:3';
+      process.env.entity_search_fields_for_movie = 'description:2';
+
+      const reader = new SearchConfigurationReader();
+
+      expect(reader.getIndexWeights('entity')).to.eql({
+        _name: 10,
+        description: 2,
+        author: 3,
+      });
+      expect(reader.getSearchableKinds('entity')).to.be.undefined();
+      expect(reader.isSearchConfigured('entity')).to.be.true();
+    });
+
+    it('should only search the configured kinds when no model fields are set', () => {
+      process.env.entity_search_fields_for_book = '_name:10,description:2';
+
+      const reader = new SearchConfigurationReader();
+
+      expect(reader.getSearchableKinds('entity')).to.eql(['book']);
+      expect(reader.isSearchConfigured('list')).to.be.false();
+    });
+
+    it('should reject weights MongoDB does not accept', () => {
+      process.env.entity_search_fields = '_name:0';
+
+      expect(() =>
+        new SearchConfigurationReader().getIndexWeights('entity'),
+      ).to.throw(/Weights must be integers from 1 to 99999/);
+    });
+  });
+
+  describe('findSearchPage', () => {
+    it('should restrict the search to the configured kinds and limit the page', async () => {
+      process.env.entity_search_fields_for_book = '_name:10';
+      const repository = {
+        findSearchPage: sinon.stub().resolves(['2']),
+        countSearchMatches: sinon.stub(),
+      };
+
+      const page = await findSearchPage(
+        repository,
+        new SearchConfigurationReader(),
+        'entity',
+        'dune',
+        { where: { _visibility: 'public' }, skip: 10 },
+        50,
+      );
+
+      expect(page).to.eql(['2']);
+      sinon.assert.calledWith(
+        repository.findSearchPage,
+        'dune',
+        {
+          where: {
+            and: [{ _visibility: 'public' }, { _kind: { inq: ['book'] } }],
+          },
+          skip: 10,
+          limit: 50,
+        },
+        undefined,
+      );
+    });
+
+    it('should reject the search when no fields are configured', async () => {
+      const repository = {
+        findSearchPage: sinon.stub(),
+        countSearchMatches: sinon.stub(),
+      };
+
+      await expect(
+        findSearchPage(
+          repository,
+          new SearchConfigurationReader(),
+          'entity',
+          'dune',
+          undefined,
+          50,
+        ),
+      ).to.be.rejectedWith({
+        statusCode: 400,
+        code: 'SEARCH-NOT-CONFIGURED',
+      });
+      sinon.assert.notCalled(repository.findSearchPage);
+    });
+  });
+
+  describe('countSearchMatches', () => {
+    it('should count the matches of the configured kinds', async () => {
+      process.env.entity_search_fields_for_book = '_name:10';
+      const repository = {
+        findSearchPage: sinon.stub(),
+        countSearchMatches: sinon.stub().resolves({ count: 3 }),
+      };
+
+      const { count } = await countSearchMatches(
+        repository,
+        new SearchConfigurationReader(),
+        'entity',
+        'dune',
+        undefined,
+        { _kind: 'novel' },
+      );
+
+      expect(count).to.equal(3);
+      sinon.assert.calledWith(
+        repository.countSearchMatches,
+        'dune',
+        { _kind: { inq: ['book'] } },
+        { _kind: 'novel' },
+      );
+    });
+  });
+
+  describe('applySearchPage', () => {
+    it('should restrict the filter to the records of the page', () => {
+      expect(
+        applySearchPage({ where: { _kind: 'book' }, skip: 5, limit: 5 }, [
+          '1',
+          '2',
+        ]),
+      ).to.eql({
+        where: { and: [{ _kind: 'book' }, { _id: { inq: ['1', '2'] } }] },
+        limit: 5,
+      });
+      expect(applySearchPage(undefined, [])).to.eql({
+        where: { _id: { inq: [] } },
+      });
+    });
+  });
+
+  describe('sortBySearchPage', () => {
+    it('should order the records in the order of the page', () => {
+      const records = [{ _id: '1' }, { _id: '3' }];
+
+      expect(sortBySearchPage(records, ['3', '1'])).to.eql([
+        { _id: '3' },
+        { _id: '1' },
+      ]);
+      expect(sortBySearchPage(records, undefined)).to.equal(records);
+    });
+  });
+
+  describe('buildSearchSort', () => {
+    it('should sort by relevance when no order is given', () => {
+      expect(buildSearchSort()).to.eql({
+        score: { $meta: 'textScore' },
+        _id: 1,
+      });
+    });
+
+    it('should sort by the order of the filter', () => {
+      expect(buildSearchSort(['_name DESC', '_kind'])).to.eql({
+        _name: -1,
+        _kind: 1,
+        _id: 1,
+      });
+      expect(buildSearchSort('_id DESC')).to.eql({ _id: -1 });
+    });
+  });
+});
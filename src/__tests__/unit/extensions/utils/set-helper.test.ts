@@ -66,6 +66,31 @@ describe('Utilities: SetHelper', () => {
       ).to.be.false();
     });
 
+    it('should build filter for deleted set', () => {
+      const set: Set = {
+        deleteds: 'true',
+      };
+      const builder = new SetFilterBuilder(set);
+      const filter = builder.build();
+
+      expect(filter.where).to.deepEqual({
+        _deletedDateTime: {
+          neq: null,
+        },
+      });
+
+      // Verify filter matches expected records
+      expect(
+        FilterMatcher.matches(
+          { _deletedDateTime: '2024-01-01T00:00:00.000Z' },
+          filter.where,
+        ),
+      ).to.be.true();
+      expect(
+        FilterMatcher.matches({ _deletedDateTime: null }, filter.where),
+      ).to.be.false();
+    });
+
     it('should build filter for active set', () => {
       // Create a mock SetFilterBuilder that returns a predefined filter
       const mockBuilder = {
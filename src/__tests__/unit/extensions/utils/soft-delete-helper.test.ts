@@ -0,0 +1,61 @@
+import { expect } from '@loopback/testlab';
+import {
+  excludeDeleted,
+  referencesDeletedDateTime,
+} from '../../../../extensions/utils/soft-delete-helper';
+
+describe('Utilities: SoftDeleteHelper', () => {
+  describe('referencesDeletedDateTime', () => {
+    it('should detect top level conditions', () => {
+      expect(
+        referencesDeletedDateTime({ _deletedDateTime: { neq: null } }),
+      ).to.be.true();
+    });
+
+    it('should detect conditions nested in and/or clauses', () => {
+      expect(
+        referencesDeletedDateTime({
+          and: [
+            { _kind: 'book' },
+            { or: [{ _deletedDateTime: { lt: '2024-01-01' } }] },
+          ],
+        }),
+      ).to.be.true();
+    });
+
+    it('should return false for other where clauses', () => {
+      expect(referencesDeletedDateTime(undefined)).to.be.false();
+      expect(referencesDeletedDateTime({})).to.be.false();
+      expect(
+        referencesDeletedDateTime({ and: [{ _kind: 'book' }] }),
+      ).to.be.false();
+    });
+  });
+
+  describe('excludeDeleted', () => {
+    it('should return the condition alone for empty where clauses', () => {
+      expect(excludeDeleted(undefined)).to.deepEqual({
+        _deletedDateTime: null,
+      });
+      expect(excludeDeleted({})).to.deepEqual({ _deletedDateTime: null });
+    });
+
+    it('should combine the condition with the given where clause', () => {
+      expect(excludeDeleted({ _kind: 'book' })).to.deepEqual({
+        and: [{ _kind: 'book' }, { _deletedDateTime: null }],
+      });
+    });
+
+    it('should append the condition to a single and clause', () => {
+      expect(excludeDeleted({ and: [{ _kind: 'book' }] })).to.deepEqual({
+        and: [{ _kind: 'book' }, { _deletedDateTime: null }],
+      });
+    });
+
+    it('should leave queries on deleted records untouched', () => {
+      const where = { _deletedDateTime: { neq: null } };
+
+      expect(excludeDeleted(where)).to.equal(where);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { expect } from '@loopback/testlab';
+import {
+  applyUpdateOperators,
+  buildNativeUpdate,
+  hasUpdateOperators,
+  rejectUpdateOperators,
+} from '../../../../extensions/utils/update-operators-helper';
+
+describe('Utilities: UpdateOperatorsHelper', () => {
+  const existingData = {
+    _name: 'Book',
+    _viewerUsers: ['user1', 'user2'],
+    tags: ['a', 'b', 'a'],
+    stats: { views: 10, likes: 2 },
+  };
+
+  function expectOperatorError(data: object) {
+    try {
+      applyUpdateOperators(existingData, data);
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.containDeep({
+        statusCode: 422,
+        code: 'INVALID-UPDATE-OPERATOR',
+      });
+    }
+  }
+
+  describe('hasUpdateOperators', () => {
+    it('should detect the operators of the update data', () => {
+      expect(hasUpdateOperators({ $inc: { count: 1 } })).to.be.true();
+      expect(hasUpdateOperators({ _name: 'Book' })).to.be.false();
+      expect(hasUpdateOperators(undefined)).to.be.false();
+    });
+  });
+
+  describe('applyUpdateOperators', () => {
+    it('should return the data as is when there are no operators', () => {
+      const data = { _name: 'Other' };
+
+      expect(applyUpdateOperators(existingData, data)).to.equal(data);
+    });
+
+    it('should resolve the operators against the current values', () => {
+      const result = applyUpdateOperators(existingData, {
+        _name: 'Other',
+        $addToSet: { _viewerUsers: { $each: ['user2', 'user3'] } },
+        $pull: { tags: 'a' },
+        $push: { chapters: 'One' },
+        $inc: { 'stats.views': 5 },
+      });
+
+      expect(result).to.eql({
+        _name: 'Other',
+        _viewerUsers: ['user1', 'user2', 'user3'],
+        tags: ['b'],
+        chapters: ['One'],
+        stats: { views: 15, likes: 2 },
+      });
+      expect(existingData.stats.views).to.equal(10);
+    });
+
+    it('should modify different paths of the same field', () => {
+      const result = applyUpdateOperators(existingData, {
+        $inc: { 'stats.views': 1, 'stats.likes': -1 },
+        $pull: { tags: { $in: ['a', 'b'] } },
+      });
+
+      expect(result).to.eql({ stats: { views: 11, likes: 1 }, tags: [] });
+    });
+
+    it('should reject operators on values of the wrong type', () => {
+      expectOperatorError({ $inc: { _name: 1 } });
+      expectOperatorError({ $inc: { 'stats.views': '1' } });
+      expectOperatorError({ $push: { stats: 'x' } });
+      expectOperatorError({ $push: { tags: { $each: 'x' } } });
+    });
+
+    it('should reject conflicting modifications of the same field', () => {
+      expectOperatorError({ tags: ['x'], $push: { tags: 'y' } });
+      expectOperatorError({
+        $push: { tags: 'x' },
+        $pull: { tags: 'a' },
+      });
+      expectOperatorError({ $inc: { 'stats.views': 1, stats: 1 } });
+    });
+
+    it('should reject operators on managed fields', () => {
+      expectOperatorError({ $inc: { _version: 1 } });
+      expectOperatorError({ $push: { _kind: 'x' } });
+      expectOperatorError({ $inc: { '__proto__.polluted': 1 } });
+    });
+  });
+
+  describe('buildNativeUpdate', () => {
+    it('should return undefined when there are no operators', () => {
+      expect(
+        buildNativeUpdate(existingData, { _name: 'Other' }),
+      ).to.be.undefined();
+    });
+
+    it('should translate the operators into native operators', () => {
+      const nativeUpdate = buildNativeUpdate(existingData, {
+        _name: 'Other',
+        $addToSet: { _viewerUsers: 'user3' },
+        $pull: { tags: { $in: ['a', 'b'] } },
+        $push: { chapters: { $each: ['One', 'Two'] } },
+        $inc: { 'stats.views': 5, 'stats.likes': -1 },
+      });
+
+      expect(nativeUpdate).to.eql({
+        update: {
+          $addToSet: { _viewerUsers: { $each: ['user3'] } },
+          $pullAll: { tags: ['a', 'b'] },
+          $push: { chapters: { $each: ['One', 'Two'] } },
+          $inc: { 'stats.views': 5, 'stats.likes': -1 },
+        },
+        fields: ['chapters', '_viewerUsers', 'tags', 'stats'],
+      });
+    });
+
+    it('should leave out fields with null values on the path', () => {
+      const nativeUpdate = buildNativeUpdate(
+        { ...existingData, tags: null, stats: { views: null } },
+        {
+          $push: { tags: 'a', _viewerUsers: 'user3' },
+          $inc: { 'stats.views': 1 },
+        },
+      );
+
+      expect(nativeUpdate).to.eql({
+        update: { $push: { _viewerUsers: { $each: ['user3'] } } },
+        fields: ['_viewerUsers'],
+      });
+    });
+  });
+
+  describe('rejectUpdateOperators', () => {
+    it('should reject operators in updates of many records', () => {
+      expect(() => rejectUpdateOperators({ $inc: { count: 1 } })).to.throw(
+        /only supported when updating a single record/,
+      );
+      expect(() => rejectUpdateOperators({ count: 1 })).to.not.throw();
+    });
+  });
+});
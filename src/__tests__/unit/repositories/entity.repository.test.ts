@@ -1,4 +1,5 @@
 import { Getter } from '@loopback/core';
+import type { DataObject } from '@loopback/repository';
 import { expect, sinon } from '@loopback/testlab';
 import {
   setupRepositoryTest,
@@ -15,6 +16,7 @@ import type {
   ListReaction,
 } from '../../../models';
 import { HttpErrorResponse, SingleError } from '../../../models';
+import type { ReactionStats } from '../../../models/base-types/reaction-stats.type';
 import {
   ListEntityRelationRepository,
   ListRepository,
@@ -22,13 +24,17 @@ import {
   CustomListThroughEntityRepository,
 } from '../../../repositories';
 import { EntityRepository } from '../../../repositories/core/entity.repository';
+import { AuditLogService } from '../../../services/audit-log.service';
+import { ChangeFeedService } from '../../../services/change-feed.service';
 import { LoggingService } from '../../../services/logging.service';
 import { LookupConstraintService } from '../../../services/lookup-constraint.service';
 import { RecordLimitCheckerService } from '../../../services/record-limit-checker.service';
+import { RevisionHistoryService } from '../../../services/revision-history.service';
 
 describe('EntityRepository', () => {
   let app: EntityPersistenceApplication;
   let repository: EntityRepository;
+  let entityReactionsRepoStub: sinon.SinonStubbedInstance<EntityReactionsRepository>;
 
   before(async () => {
     // Set up test environment
@@ -36,7 +42,7 @@ describe('EntityRepository', () => {
     app = testSetup.app;
 
     // Create stubs for related repositories
-    const reactionsRepoStub = sinon.createStubInstance(
+    entityReactionsRepoStub = sinon.createStubInstance(
       EntityReactionsRepository,
     );
     const listEntityRelationRepoStub = sinon.createStubInstance(
@@ -50,6 +56,11 @@ describe('EntityRepository', () => {
     const lookupConstraintServiceStub = sinon.createStubInstance(
       LookupConstraintService,
     );
+    const revisionHistoryServiceStub = sinon.createStubInstance(
+      RevisionHistoryService,
+    );
+    const changeFeedServiceStub = sinon.createStubInstance(ChangeFeedService);
+    const auditLogServiceStub = sinon.createStubInstance(AuditLogService);
 
     // Create a mock lookup helper
     const mockLookupHelper = sinon.createStubInstance(LookupHelper);
@@ -70,13 +81,14 @@ describe('EntityRepository', () => {
     repository = new EntityRepository(
       testSetup.dataSource,
       Getter.fromValue(listRepoStub),
-      Getter.fromValue(reactionsRepoStub),
+      Getter.fromValue(entityReactionsRepoStub),
       Getter.fromValue(listEntityRelationRepoStub),
       Getter.fromValue(
         new CustomListThroughEntityRepository(
           testSetup.dataSource,
           Getter.fromValue(listRepoStub),
           Getter.fromValue(listEntityRelationRepoStub),
+          testSetup.configReaders.softDeleteConfigReader,
         ),
       ),
       testSetup.configReaders.kindConfigReader,
@@ -88,6 +100,10 @@ describe('EntityRepository', () => {
       loggingServiceStub,
       recordLimitCheckerStub,
       lookupConstraintServiceStub,
+      revisionHistoryServiceStub,
+      testSetup.configReaders.softDeleteConfigReader,
+      changeFeedServiceStub,
+      auditLogServiceStub,
     );
   });
 
@@ -103,6 +119,689 @@ describe('EntityRepository', () => {
     expect(repository.reactions).to.not.be.undefined();
   });
 
+  describe('_reactionStats inclusion', () => {
+    it('should include the reaction stats of all entities from a single query', async () => {
+      entityReactionsRepoStub.findReactionStats.resolves(
+        new Map<string, ReactionStats>([
+          ['entity-1', { rating: { count: 2, 'avg:value': 4.5 } }],
+          ['entity-2', {}],
+        ]),
+      );
+
+      const resolver = repository.inclusionResolvers.get('_reactionStats');
+      const stats = await resolver!(
+        [{ _id: 'entity-1' }, { _id: 'entity-2' }] as GenericEntity[],
+        { relation: '_reactionStats', scope: { where: { _kind: 'rating' } } },
+      );
+
+      expect(stats).to.eql([{ rating: { count: 2, 'avg:value': 4.5 } }, {}]);
+      sinon.assert.calledOnceWithExactly(
+        entityReactionsRepoStub.findReactionStats,
+        ['entity-1', 'entity-2'],
+        { _kind: 'rating' },
+        undefined,
+      );
+    });
+  });
+
+  describe('rebuildReactionCounts', () => {
+    let session: {
+      startTransaction: sinon.SinonStub;
+      commitTransaction: sinon.SinonStub;
+      abortTransaction: sinon.SinonStub;
+      endSession: sinon.SinonStub;
+    };
+
+    beforeEach(() => {
+      session = {
+        startTransaction: sinon.stub(),
+        commitTransaction: sinon.stub().resolves(),
+        abortTransaction: sinon.stub().resolves(),
+        endSession: sinon.stub().resolves(),
+      };
+      // The memory connector has no MongoDB client to start sessions with
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (repository.dataSource.connector as any).client = {
+        startSession: () => session,
+      };
+      // A fresh stub, as the stubs of the instance are restored after each test
+      entityReactionsRepoStub.refreshReactionCounts = sinon
+        .stub()
+        .resolves() as typeof entityReactionsRepoStub.refreshReactionCounts;
+    });
+
+    afterEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (repository.dataSource.connector as any).client;
+      sinon.restore();
+    });
+
+    it('should refresh the reaction counters of all entities in a transaction', async () => {
+      sinon.stub(repository, 'iterate').callsFake(async function* () {
+        yield { _id: 'entity-1' } as GenericEntity;
+        yield { _id: 'entity-2' } as GenericEntity;
+      });
+
+      const result = await repository.rebuildReactionCounts();
+
+      expect(result).to.eql({ count: 2 });
+      sinon.assert.calledOnceWithMatch(
+        entityReactionsRepoStub.refreshReactionCounts,
+        ['entity-1', 'entity-2'],
+        sinon.match.has('session', session),
+      );
+      sinon.assert.calledOnce(session.commitTransaction);
+      sinon.assert.notCalled(session.abortTransaction);
+      sinon.assert.calledOnce(session.endSession);
+    });
+
+    it('should roll back the batch which failed', async () => {
+      sinon.stub(repository, 'iterate').callsFake(async function* () {
+        yield { _id: 'entity-1' } as GenericEntity;
+      });
+      entityReactionsRepoStub.refreshReactionCounts.rejects(
+        new Error('failed'),
+      );
+
+      await expect(repository.rebuildReactionCounts()).to.be.rejectedWith(
+        'failed',
+      );
+      sinon.assert.notCalled(session.commitTransaction);
+      sinon.assert.calledOnce(session.abortTransaction);
+      sinon.assert.calledOnce(session.endSession);
+    });
+  });
+
+  describe('purgeDeleted', () => {
+    let sessions: {
+      startTransaction: sinon.SinonStub;
+      commitTransaction: sinon.SinonStub;
+      abortTransaction: sinon.SinonStub;
+      endSession: sinon.SinonStub;
+    }[];
+
+    beforeEach(() => {
+      sessions = [];
+      // The memory connector has no MongoDB client to start sessions with
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (repository.dataSource.connector as any).client = {
+        startSession: () => {
+          const session = {
+            startTransaction: sinon.stub(),
+            commitTransaction: sinon.stub().resolves(),
+            abortTransaction: sinon.stub().resolves(),
+            endSession: sinon.stub().resolves(),
+          };
+          sessions.push(session);
+
+          return session;
+        },
+      };
+    });
+
+    afterEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (repository.dataSource.connector as any).client;
+      sinon.restore();
+    });
+
+    it('should purge the expired records in batches, each in a transaction', async () => {
+      const firstBatch = Array.from({ length: 500 }, (_value, index) => ({
+        _id: `entity-${index}`,
+      }));
+      const findStub = sinon
+        .stub(getBaseRepoPrototype(), 'find')
+        .onFirstCall()
+        .resolves(firstBatch)
+        .onSecondCall()
+        .resolves([{ _id: 'entity-500' }]);
+      const deleteAllStub = sinon
+        .stub(repository, 'deleteAll')
+        .callsFake(async (where) => ({
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          count: (where as any).and[0]._id.inq.length,
+        }));
+
+      const result = await repository.purgeDeleted(0);
+
+      expect(result).to.eql({ count: 501 });
+      sinon.assert.calledTwice(findStub);
+      expect(findStub.firstCall.args[0]).to.containDeep({ limit: 500 });
+      sinon.assert.calledTwice(deleteAllStub);
+      expect(deleteAllStub.secondCall.args[0]).to.containDeep({
+        and: [{ _id: { inq: ['entity-500'] } }],
+      });
+      expect(deleteAllStub.secondCall.args[1]!.session).to.equal(sessions[1]);
+      expect(sessions).to.have.length(2);
+      for (const session of sessions) {
+        sinon.assert.calledOnce(session.commitTransaction);
+        sinon.assert.calledOnce(session.endSession);
+      }
+    });
+
+    it('should keep the batches purged before a failed batch', async () => {
+      sinon
+        .stub(getBaseRepoPrototype(), 'find')
+        .onFirstCall()
+        .resolves(
+          Array.from({ length: 500 }, (_value, index) => ({
+            _id: `entity-${index}`,
+          })),
+        )
+        .onSecondCall()
+        .resolves([{ _id: 'entity-500' }]);
+      sinon
+        .stub(repository, 'deleteAll')
+        .onFirstCall()
+        .resolves({ count: 500 })
+        .onSecondCall()
+        .rejects(new Error('failed'));
+
+      await expect(repository.purgeDeleted(0)).to.be.rejectedWith('failed');
+      sinon.assert.calledOnce(sessions[0].commitTransaction);
+      sinon.assert.notCalled(sessions[1].commitTransaction);
+      sinon.assert.calledOnce(sessions[1].abortTransaction);
+    });
+  });
+
+  describe('findDescendants', () => {
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should find the descendants in a single query and annotate their depth', async () => {
+      sinon.stub(repository, 'findById').resolves({
+        _id: 'root',
+      } as GenericEntity);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const depthsStub = sinon.stub(repository as any, 'findHierarchyDepths');
+      depthsStub.resolves(
+        new Map([
+          ['grandchild', 2],
+          ['child', 1],
+        ]),
+      );
+      const findStub = sinon
+        .stub(repository, 'find')
+        .resolves([{ _id: 'grandchild' }, { _id: 'child' }] as GenericEntity[]);
+
+      const result = await repository.findDescendants(
+        'root',
+        { where: { _kind: 'category' } },
+        2,
+      );
+
+      expect(result).to.eql([
+        { _id: 'child', _relativeDepth: 1 },
+        { _id: 'grandchild', _relativeDepth: 2 },
+      ]);
+      sinon.assert.calledOnceWithExactly(
+        depthsStub,
+        'root',
+        'descendants',
+        'tapp://localhost/entities/',
+        2,
+        undefined,
+      );
+      sinon.assert.calledOnceWithExactly(
+        findStub,
+        {
+          where: {
+            and: [
+              { _id: { inq: ['grandchild', 'child'] } },
+              { _kind: 'category' },
+            ],
+          },
+        },
+        undefined,
+      );
+    });
+  });
+
+  describe('findTree', () => {
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should nest the descendants of the roots one level at a time', async () => {
+      const findStub = sinon.stub(repository, 'find');
+      findStub.onFirstCall().resolves([{ _id: 'root' }] as GenericEntity[]);
+      findStub
+        .onSecondCall()
+        .resolves([
+          { _id: 'child', _parents: ['tapp://localhost/entities/root'] },
+        ] as GenericEntity[]);
+      findStub
+        .onThirdCall()
+        .resolves([
+          { _id: 'grandchild', _parents: ['tapp://localhost/entities/child'] },
+        ] as GenericEntity[]);
+
+      const result = await repository.findTree(
+        { where: { _visibility: 'public' }, fields: { _name: true } },
+        'category',
+        2,
+      );
+
+      expect(result).to.eql([
+        {
+          _id: 'root',
+          _children: [
+            {
+              _id: 'child',
+              _parents: ['tapp://localhost/entities/root'],
+              _children: [
+                {
+                  _id: 'grandchild',
+                  _parents: ['tapp://localhost/entities/child'],
+                },
+              ],
+            },
+          ],
+        },
+      ]);
+      sinon.assert.calledThrice(findStub);
+      expect(findStub.firstCall.args[0]).to.eql({
+        where: {
+          and: [
+            { _parentsCount: 0 },
+            { _kind: 'category' },
+            { _visibility: 'public' },
+          ],
+        },
+        fields: { _name: true, _id: true, _parents: true },
+      });
+      expect(findStub.thirdCall.args[0]).to.eql({
+        where: {
+          and: [
+            { _parents: { inq: ['tapp://localhost/entities/child'] } },
+            { _visibility: 'public' },
+          ],
+        },
+        fields: { _name: true, _id: true, _parents: true },
+        limit: 50,
+      });
+    });
+
+    it('should only skip the roots and mark the parents of a full level', async () => {
+      const findStub = sinon.stub(repository, 'find');
+      findStub
+        .onFirstCall()
+        .resolves([{ _id: 'a' }, { _id: 'b' }] as GenericEntity[]);
+      findStub.onSecondCall().resolves([
+        { _id: 'a1', _parents: ['tapp://localhost/entities/a'] },
+        { _id: 'a2', _parents: ['tapp://localhost/entities/a'] },
+      ] as GenericEntity[]);
+
+      const result = await repository.findTree(
+        { order: ['_name ASC'], skip: 2, limit: 2 },
+        undefined,
+        1,
+      );
+
+      expect(result).to.eql([
+        {
+          _id: 'a',
+          _childrenTruncated: true,
+          _children: [
+            { _id: 'a1', _parents: ['tapp://localhost/entities/a'] },
+            { _id: 'a2', _parents: ['tapp://localhost/entities/a'] },
+          ],
+        },
+        { _id: 'b', _childrenTruncated: true, _children: [] },
+      ]);
+      expect(findStub.firstCall.args[0]).to.containDeep({
+        order: ['_name ASC'],
+        skip: 2,
+        limit: 2,
+      });
+      expect(findStub.secondCall.args[0]).to.eql({
+        where: {
+          and: [
+            {
+              _parents: {
+                inq: [
+                  'tapp://localhost/entities/a',
+                  'tapp://localhost/entities/b',
+                ],
+              },
+            },
+          ],
+        },
+        order: ['_name ASC'],
+        limit: 2,
+      });
+    });
+  });
+
+  describe('move', () => {
+    const uri = (id: string) => `tapp://localhost/entities/${id}`;
+
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should replace the from parent with the to parent', async () => {
+      const entity = { _id: 'a', _parents: [uri('b'), uri('c')] };
+      const findByIdStub = sinon.stub(repository, 'findById');
+      findByIdStub.onFirstCall().resolves(entity as GenericEntity);
+      findByIdStub.onSecondCall().resolves({ _id: 'd' } as GenericEntity);
+      findByIdStub.onThirdCall().resolves({ _id: 'a' } as GenericEntity);
+      const updateByIdStub = sinon.stub(repository, 'updateById').resolves();
+
+      await repository.move('a', 'b', 'd');
+
+      sinon.assert.calledWith(findByIdStub.secondCall, 'd');
+      sinon.assert.calledWith(updateByIdStub, 'a', {
+        _parents: [uri('c'), uri('d')],
+      });
+    });
+
+    it('should reject moving from a parent the entity does not have', async () => {
+      sinon
+        .stub(repository, 'findById')
+        .resolves({ _id: 'a', _parents: [uri('c')] } as GenericEntity);
+      const updateByIdStub = sinon.stub(repository, 'updateById').resolves();
+
+      await expect(repository.move('a', 'b', 'd')).to.be.rejectedWith({
+        statusCode: 422,
+        name: 'InvalidMoveError',
+        code: 'ENTITY-INVALID-MOVE',
+      });
+      sinon.assert.notCalled(updateByIdStub);
+    });
+
+    it('should reject moving to a parent which does not exist', async () => {
+      const findByIdStub = sinon.stub(repository, 'findById');
+      findByIdStub
+        .onFirstCall()
+        .resolves({ _id: 'a', _parents: [uri('b')] } as GenericEntity);
+      findByIdStub.onSecondCall().rejects(
+        new HttpErrorResponse({
+          statusCode: 404,
+          name: 'NotFoundError',
+          message: "Entity with id 'd' could not be found.",
+          code: 'ENTITY-NOT-FOUND',
+        }),
+      );
+      const updateByIdStub = sinon.stub(repository, 'updateById').resolves();
+
+      await expect(repository.move('a', 'b', 'd')).to.be.rejectedWith({
+        statusCode: 422,
+        name: 'InvalidMoveError',
+        code: 'ENTITY-MOVE-TARGET-NOT-FOUND',
+      });
+      sinon.assert.notCalled(updateByIdStub);
+    });
+
+    it('should reject a move without a from or a to parent', async () => {
+      const findByIdStub = sinon.stub(repository, 'findById');
+      const updateByIdStub = sinon.stub(repository, 'updateById').resolves();
+
+      await expect(repository.move('a')).to.be.rejectedWith({
+        statusCode: 400,
+        code: 'ENTITY-EMPTY-MOVE',
+      });
+      sinon.assert.notCalled(findByIdStub);
+      sinon.assert.notCalled(updateByIdStub);
+    });
+  });
+
+  describe('ensureHierarchyView', () => {
+    afterEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (repository.dataSource.connector as any).db;
+      sinon.restore();
+    });
+
+    it('should create the view once and redefine a view left by an earlier run', async () => {
+      const existsError = Object.assign(new Error('exists'), { code: 48 });
+      const db = {
+        databaseName: 'hierarchy-view-test',
+        createCollection: sinon.stub().rejects(existsError),
+        command: sinon.stub().resolves(),
+        collection: sinon.stub().returns({ collectionName: 'entities' }),
+      };
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (repository.dataSource.connector as any).db = db;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'getNativeCollection').returns({
+        collectionName: 'entities',
+      });
+
+      await Promise.all([
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (repository as any).ensureHierarchyView('tapp://localhost/entities/'),
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (repository as any).ensureHierarchyView('tapp://localhost/entities/'),
+      ]);
+
+      sinon.assert.calledOnce(db.createCollection);
+      sinon.assert.calledOnceWithMatch(db.command, {
+        collMod: 'entities_hierarchy',
+        viewOn: 'entities',
+      });
+      sinon.assert.calledWith(db.collection, 'entities_hierarchy');
+    });
+
+    it('should create the view again after a failure', async () => {
+      const db = {
+        databaseName: 'hierarchy-view-failure-test',
+        createCollection: sinon.stub(),
+        collection: sinon.stub(),
+      };
+      db.createCollection.onFirstCall().rejects(new Error('unreachable'));
+      db.createCollection.resolves();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (repository.dataSource.connector as any).db = db;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'getNativeCollection').returns({
+        collectionName: 'entities',
+      });
+
+      await expect(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (repository as any).ensureHierarchyView('tapp://localhost/entities/'),
+      ).to.be.rejectedWith('unreachable');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      await (repository as any).ensureHierarchyView(
+        'tapp://localhost/entities/',
+      );
+
+      sinon.assert.calledTwice(db.createCollection);
+    });
+  });
+
+  describe('findHierarchyCycle', () => {
+    const uri = (id: string) => `tapp://localhost/entities/${id}`;
+
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should touch the parents and their ancestors when there is no cycle', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'traverseHierarchy').resolves([
+        { _id: 'b', depth: 0, _parentIds: ['c'] },
+        { _id: 'c', depth: 1, _parentIds: [] },
+      ]);
+      const updateManyStub = sinon.stub().resolves();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'getNativeCollection').returns({
+        updateMany: updateManyStub,
+      });
+      const session = {};
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const path = await (repository as any).findHierarchyCycle(
+        ['x'],
+        [uri('a')],
+        uri(''),
+        { session },
+      );
+
+      expect(path).to.be.undefined();
+      sinon.assert.calledOnceWithExactly(
+        updateManyStub,
+        { _id: { $in: ['a', 'b', 'c'] } },
+        { $inc: { _hierarchyVersion: 1 } },
+        { session },
+      );
+    });
+
+    it('should not touch any record when a cycle is found', async () => {
+      sinon
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .stub(repository as any, 'traverseHierarchy')
+        .resolves([{ _id: 'x', depth: 0, _parentIds: [] }]);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const nativeStub = sinon.stub(repository as any, 'getNativeCollection');
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const path = await (repository as any).findHierarchyCycle(
+        ['x'],
+        [uri('a')],
+        uri(''),
+        { session: {} },
+      );
+
+      expect(path).to.eql(['x', 'a', 'x']);
+      sinon.assert.notCalled(nativeStub);
+    });
+  });
+
+  describe('propagateMaterializedPaths', () => {
+    afterEach(() => {
+      sinon.restore();
+    });
+
+    it('should recompute the paths of the descendants from the top down', async () => {
+      const uri = (id: string) => `tapp://localhost/entities/${id}`;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'traverseHierarchy').resolves([
+        { _id: 'c', depth: 1, _parentIds: ['b', 'x'] },
+        { _id: 'b', depth: 0, _parentIds: ['a'] },
+      ]);
+      const findStub = sinon.stub().returns({
+        toArray: sinon.stub().resolves([
+          { _id: 'a', _ancestors: [uri('root')], _depth: 1 },
+          { _id: 'x', _ancestors: [], _depth: 0 },
+        ]),
+      });
+      const bulkWriteStub = sinon.stub().resolves();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'getNativeCollection').returns({
+        find: findStub,
+        bulkWrite: bulkWriteStub,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const count = await (repository as any).propagateMaterializedPaths(
+        ['a'],
+        uri(''),
+      );
+
+      expect(count).to.equal(2);
+      expect(findStub.firstCall.args[0]).to.eql({
+        _id: { $in: ['x', 'a', 'c', 'b'] },
+      });
+      expect(bulkWriteStub.firstCall.args[0]).to.eql([
+        {
+          updateOne: {
+            filter: { _id: 'c' },
+            update: {
+              $set: {
+                _ancestors: [uri('b'), uri('x'), uri('a'), uri('root')],
+                _depth: 3,
+              },
+            },
+          },
+        },
+        {
+          updateOne: {
+            filter: { _id: 'b' },
+            update: {
+              $set: { _ancestors: [uri('a'), uri('root')], _depth: 2 },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should only write the descendants whose paths have changed', async () => {
+      const uri = (id: string) => `tapp://localhost/entities/${id}`;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'traverseHierarchy').resolves([
+        { _id: 'c', depth: 1, _parentIds: ['b', 'x'] },
+        { _id: 'b', depth: 0, _parentIds: ['a'] },
+      ]);
+      const findStub = sinon.stub().returns({
+        toArray: sinon.stub().resolves([
+          { _id: 'a', _ancestors: [], _depth: 0 },
+          { _id: 'x', _ancestors: [uri('root')], _depth: 1 },
+          { _id: 'b', _ancestors: [uri('a')], _depth: 1 },
+          { _id: 'c', _ancestors: [uri('b'), uri('x'), uri('a')], _depth: 2 },
+        ]),
+      });
+      const bulkWriteStub = sinon.stub().resolves();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'getNativeCollection').returns({
+        find: findStub,
+        bulkWrite: bulkWriteStub,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const count = await (repository as any).propagateMaterializedPaths(
+        ['x'],
+        uri(''),
+      );
+
+      expect(count).to.equal(1);
+      expect(bulkWriteStub.firstCall.args[0]).to.eql([
+        {
+          updateOne: {
+            filter: { _id: 'c' },
+            update: {
+              $set: {
+                _ancestors: [uri('b'), uri('x'), uri('a'), uri('root')],
+                _depth: 2,
+              },
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should not write anything when no path has changed', async () => {
+      const uri = (id: string) => `tapp://localhost/entities/${id}`;
+      sinon
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .stub(repository as any, 'traverseHierarchy')
+        .resolves([{ _id: 'b', depth: 0, _parentIds: ['a'] }]);
+      const findStub = sinon.stub().returns({
+        toArray: sinon.stub().resolves([
+          { _id: 'a', _ancestors: [], _depth: 0 },
+          { _id: 'b', _ancestors: [uri('a')], _depth: 1 },
+        ]),
+      });
+      const bulkWriteStub = sinon.stub().resolves();
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      sinon.stub(repository as any, 'getNativeCollection').returns({
+        find: findStub,
+        bulkWrite: bulkWriteStub,
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const count = await (repository as any).propagateMaterializedPaths(
+        ['a'],
+        uri(''),
+      );
+
+      expect(count).to.equal(0);
+      sinon.assert.notCalled(bulkWriteStub);
+    });
+  });
+
   // Helper to get DefaultTransactionalRepository prototype (4 levels up)
   // Inheritance: EntityRepository -> EntityPersistenceBusinessRepository -> EntityPersistenceBaseRepository -> DefaultTransactionalRepository
   const getBaseRepoPrototype = () =>
@@ -339,6 +1038,30 @@ describe('EntityRepository', () => {
         });
       });
 
+      it('should leave out the managed fields sent by the client', async () => {
+        const result = await repository.create({
+          _name: 'Test Entity',
+          _kind: 'test-kind',
+          _version: 5,
+          _deletedDateTime: '2000-01-01T00:00:00.000Z',
+          _deletedBy: 'user1',
+          _depth: 3,
+          _hierarchyVersion: 7,
+        } as DataObject<GenericEntity>);
+
+        expect(result._version).to.equal(1);
+
+        for (const field of [
+          '_deletedDateTime',
+          '_deletedBy',
+          '_hierarchyVersion',
+        ]) {
+          expect(superCreateStub.firstCall.args[0]).to.not.have.property(field);
+        }
+
+        expect(superCreateStub.firstCall.args[0]._depth).to.equal(0);
+      });
+
       it('should enrich entity with managed fields for empty arrays', async () => {
         const inputData = {
           _name: 'Test Entity',
@@ -485,7 +1208,7 @@ describe('EntityRepository', () => {
         const [modelClass, data, repo] =
           recordLimitCheckerStub.checkLimits.firstCall.args;
         expect(modelClass.modelName).to.equal('GenericEntity');
-        expect(data).to.deepEqual(inputData);
+        expect(data).to.containDeep({ ...inputData, _version: 1 });
         expect(repo).to.equal(repository);
       });
 
@@ -535,7 +1258,7 @@ describe('EntityRepository', () => {
         const [modelClass, data, repo] =
           recordLimitCheckerStub.checkUniqueness.firstCall.args;
         expect(modelClass.modelName).to.equal('GenericEntity');
-        expect(data).to.deepEqual(inputData);
+        expect(data).to.containDeep({ ...inputData, _version: 1 });
         expect(repo).to.equal(repository);
       });
 
@@ -582,6 +1305,8 @@ describe('EntityRepository', () => {
           _name: 'Original Name',
           _createdDateTime: '2023-01-01T00:00:00.000Z',
           _lastUpdatedDateTime: '2023-01-01T00:00:00.000Z',
+          _ancestors: [],
+          _depth: 0,
         });
     });
 
@@ -691,6 +1416,42 @@ describe('EntityRepository', () => {
         expect(replacedData._lastUpdatedDateTime).to.equal(now);
       });
 
+      it('should throw 412 when expected version does not match', async () => {
+        const updateData = {
+          _name: 'Updated Name',
+          _kind: 'test-kind',
+          _version: 3,
+        };
+
+        try {
+          await repository.replaceById(existingId, updateData);
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(412);
+          expect(error.code).to.equal('ENTITY-VERSION-MISMATCH');
+          expect(error.message).to.match(
+            /Expected version is '3' but current version is '1'/,
+          );
+        }
+
+        expect(superReplaceByIdStub.called).to.be.false();
+      });
+
+      it('should replace when expected version matches', async () => {
+        const updateData = {
+          _name: 'Updated Name',
+          _kind: 'test-kind',
+          _version: 1,
+        };
+
+        await repository.replaceById(existingId, updateData);
+
+        expect(superReplaceByIdStub.calledOnce).to.be.true();
+        const replacedData = superReplaceByIdStub.firstCall.args[1];
+        expect(replacedData._version).to.equal(2);
+      });
+
       it('should generate new slug when name is updated', async () => {
         const updateData = {
           _name: 'Updated Entity Name',
@@ -713,6 +1474,8 @@ describe('EntityRepository', () => {
           _slug: 'custom-slug',
           _createdDateTime: '2023-01-01T00:00:00.000Z',
           _lastUpdatedDateTime: '2023-01-01T00:00:00.000Z',
+          _ancestors: [],
+          _depth: 0,
         };
         superFindByIdStub.resolves(existingData);
 
@@ -764,6 +1527,8 @@ describe('EntityRepository', () => {
           _ownerGroups: ['group1'],
           _viewerUsers: ['user2'],
           _viewerGroups: ['group2'],
+          _ancestors: [],
+          _depth: 0,
         };
         superFindByIdStub.resolves(existingData);
 
@@ -796,6 +1561,8 @@ describe('EntityRepository', () => {
           _createdDateTime: '2023-01-01T00:00:00.000Z',
           _lastUpdatedDateTime: '2023-01-01T00:00:00.000Z',
           _idempotencyKey: existingIdempotencyKey,
+          _ancestors: [],
+          _depth: 0,
         };
         superFindByIdStub.resolves(existingData);
 
@@ -822,6 +1589,42 @@ describe('EntityRepository', () => {
         expect(typeof replacedData._idempotencyKey).to.equal('string');
       });
 
+      it('should materialize the path from the parents and propagate it', async () => {
+        const parentUri = 'tapp://localhost/entities/parent-id';
+        const rootUri = 'tapp://localhost/entities/root-id';
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        sinon.stub(repository as any, 'traverseHierarchy').resolves([]);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        sinon.stub(repository as any, 'getNativeCollection').returns({
+          find: sinon.stub().returns({
+            toArray: sinon
+              .stub()
+              .resolves([
+                { _id: 'parent-id', _ancestors: [rootUri], _depth: 1 },
+              ]),
+          }),
+        });
+        const propagateStub = sinon
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          .stub(repository as any, 'propagateMaterializedPaths')
+          .resolves(1);
+
+        await repository.replaceById(existingId, {
+          _name: 'Updated Name',
+          _kind: 'test-kind',
+          _parents: [parentUri],
+        });
+
+        const replacedData = superReplaceByIdStub.firstCall.args[1];
+        expect(replacedData._ancestors).to.eql([parentUri, rootUri]);
+        expect(replacedData._depth).to.equal(2);
+        expect(propagateStub.calledOnce).to.be.true();
+        expect(propagateStub.firstCall.args.slice(0, 2)).to.eql([
+          [existingId],
+          'tapp://localhost/entities/',
+        ]);
+      });
+
       it('should throw error when trying to change kind field', async () => {
         const updateData = { _kind: 'different-kind' };
 
@@ -1158,6 +1961,181 @@ describe('EntityRepository', () => {
         expect(calledId).to.equal(existingId);
         expect(calledData._idempotencyKey).to.equal(existingIdempotencyKey);
       });
+
+      it('should throw 412 when expected version does not match', async () => {
+        try {
+          await repository.updateById(existingId, {
+            _name: 'Updated Name',
+            _version: 2,
+          });
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(412);
+          expect(error.code).to.equal('ENTITY-VERSION-MISMATCH');
+        }
+
+        expect(superUpdateByIdStub.called).to.be.false();
+      });
+
+      it('should update when expected version matches', async () => {
+        await repository.updateById(existingId, {
+          _name: 'Updated Name',
+          _version: 1,
+        });
+
+        expect(superUpdateByIdStub.calledOnce).to.be.true();
+        const calledData = superUpdateByIdStub.firstCall.args[1];
+        expect(calledData._version).to.equal(2);
+      });
+
+      it('should leave out the managed fields sent by the client', async () => {
+        await repository.updateById(existingId, {
+          _name: 'Updated Name',
+          _version: 1,
+          _deletedDateTime: '2000-01-01T00:00:00.000Z',
+          _deletedBy: 'user1',
+          _depth: 3,
+          _hierarchyVersion: 7,
+        } as DataObject<GenericEntity>);
+
+        const calledData = superUpdateByIdStub.firstCall.args[1];
+        expect(calledData).to.containDeep({
+          _name: 'Updated Name',
+          _version: 2,
+        });
+
+        for (const field of [
+          '_deletedDateTime',
+          '_deletedBy',
+          '_depth',
+          '_hierarchyVersion',
+        ]) {
+          expect(calledData).to.not.have.property(field);
+        }
+      });
+
+      it('should check the expected version again when the update is retried', async () => {
+        const data = { _name: 'Updated Name', _version: 1 };
+
+        await repository.updateById(existingId, data);
+
+        expect(data).to.deepEqual({ _name: 'Updated Name', _version: 1 });
+
+        // The transaction is retried with the same request body, after a
+        // concurrent update committed version 2
+        superFindByIdStub.resolves({ ...existingEntity, _version: 2 });
+
+        await expect(
+          repository.updateById(existingId, data),
+        ).to.be.rejectedWith({
+          statusCode: 412,
+          code: 'ENTITY-VERSION-MISMATCH',
+        });
+        expect(superUpdateByIdStub.calledOnce).to.be.true();
+      });
+
+      it('should resolve update operators and recompute count fields', async () => {
+        await repository.updateById(existingId, {
+          $addToSet: { _viewerUsers: { $each: ['user2', 'user3'] } },
+          $pull: { _ownerUsers: 'user1' },
+        } as DataObject<GenericEntity>);
+
+        expect(superUpdateByIdStub.calledOnce).to.be.true();
+        const calledData = superUpdateByIdStub.firstCall.args[1];
+        expect(calledData).to.containDeep({
+          _viewerUsers: ['user2', 'user3'],
+          _viewerUsersCount: 2,
+          _ownerUsers: [],
+          _ownerUsersCount: 0,
+        });
+        expect(calledData).to.not.have.property('$addToSet');
+        expect(calledData).to.not.have.property('$pull');
+        expect(superUpdateByIdStub.firstCall.args[2]).to.containDeep({
+          nativeUpdate: {
+            update: {
+              $addToSet: { _viewerUsers: { $each: ['user2', 'user3'] } },
+              $pullAll: { _ownerUsers: ['user1'] },
+            },
+            fields: ['_viewerUsers', '_ownerUsers'],
+          },
+        });
+      });
+
+      it('should reject update operators when updating many entities', async () => {
+        try {
+          await repository.updateAll(
+            { $inc: { views: 1 } } as DataObject<GenericEntity>,
+            { _kind: 'test-kind' },
+          );
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(422);
+          expect(error.code).to.equal('INVALID-UPDATE-OPERATOR');
+        }
+      });
+
+      it('should apply a JSON Patch document through updateById', async () => {
+        const updateOneStub = sinon.stub().resolves({ modifiedCount: 1 });
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        sinon.stub(repository as any, 'getNativeCollection').returns({
+          updateOne: updateOneStub,
+        });
+
+        await repository.patchById(
+          existingId,
+          [
+            { op: 'test', path: '/_name', value: 'Original Name' },
+            { op: 'add', path: '/_ownerUsers/-', value: 'user3' },
+            { op: 'remove', path: '/_viewerGroups' },
+          ],
+          1,
+        );
+
+        expect(superUpdateByIdStub.calledOnce).to.be.true();
+        const calledData = superUpdateByIdStub.firstCall.args[1];
+        expect(calledData).to.containDeep({
+          _ownerUsers: ['user1', 'user3'],
+          _viewerGroups: null,
+          _version: 2,
+        });
+        expect(calledData).to.not.have.property('_name');
+        expect(updateOneStub.calledOnce).to.be.true();
+        expect(updateOneStub.firstCall.args[1]).to.eql({
+          $unset: { _viewerGroups: '', _viewerGroupsCount: '' },
+        });
+      });
+
+      it('should not allow a JSON Patch document to change _kind', async () => {
+        try {
+          await repository.patchById(existingId, [
+            { op: 'replace', path: '/_kind', value: 'other-kind' },
+          ]);
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(422);
+          expect(error.code).to.equal('IMMUTABLE-ENTITY-KIND');
+        }
+
+        expect(superUpdateByIdStub.called).to.be.false();
+      });
+
+      it('should not allow a JSON Patch document to change managed fields', async () => {
+        try {
+          await repository.patchById(existingId, [
+            { op: 'replace', path: '/_version', value: 5 },
+          ]);
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(422);
+          expect(error.code).to.equal('INVALID-JSON-PATCH');
+        }
+
+        expect(superUpdateByIdStub.called).to.be.false();
+      });
     });
   });
 
@@ -1241,6 +2219,10 @@ describe('EntityRepository', () => {
       superUpdateAllStub = sinon
         .stub(getBaseRepoPrototype(), 'updateAll')
         .resolves({ count: 2 });
+
+      // Stub DefaultTransactionalRepository.find, which reads the records to
+      // append to the change feed
+      sinon.stub(getBaseRepoPrototype(), 'find').resolves([]);
     });
 
     afterEach(() => {
@@ -1263,6 +2245,35 @@ describe('EntityRepository', () => {
       expect(result.count).to.equal(2);
     });
 
+    it('should leave out the managed fields sent by the client', async () => {
+      await repository.updateAll(
+        {
+          _name: 'Updated Name',
+          _version: 5,
+          _idempotencyKey: 'key',
+          _deletedDateTime: '2000-01-01T00:00:00.000Z',
+          _deletedBy: 'user1',
+          _depth: 3,
+          _hierarchyVersion: 7,
+        } as DataObject<GenericEntity>,
+        { _kind: 'test-kind' },
+      );
+
+      const [calledData] = superUpdateAllStub.firstCall.args;
+      expect(calledData).to.containDeep({ _name: 'Updated Name' });
+
+      for (const field of [
+        '_version',
+        '_idempotencyKey',
+        '_deletedDateTime',
+        '_deletedBy',
+        '_depth',
+        '_hierarchyVersion',
+      ]) {
+        expect(calledData).to.not.have.property(field);
+      }
+    });
+
     it('should pass options to super.updateAll', async () => {
       const where = { _kind: 'test-kind' };
       const updateData = { _name: 'Updated Name' };
@@ -1292,6 +2303,52 @@ describe('EntityRepository', () => {
 
       expect(superUpdateAllStub.called).to.be.false();
     });
+
+    it('should reject parents making an entity its own parent', async () => {
+      getBaseRepoPrototype().find.resolves([{ _id: 'a' }]);
+
+      await expect(
+        repository.updateAll(
+          { _parents: ['tapp://localhost/entities/a'] },
+          { _id: 'a' },
+        ),
+      ).to.be.rejectedWith({
+        statusCode: 422,
+        code: 'ENTITY-HIERARCHY-CYCLE',
+        message: /a > a/,
+      });
+      expect(superUpdateAllStub.called).to.be.false();
+    });
+
+    it('should reject parents making an entity its own ancestor', async () => {
+      getBaseRepoPrototype().find.resolves([{ _id: 'a' }]);
+      // Ancestors of c: its parent b, whose parent is a
+      const traverseStub = sinon
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .stub(repository as any, 'traverseHierarchy')
+        .resolves([
+          { _id: 'b', depth: 0, _parentIds: ['a'] },
+          { _id: 'a', depth: 1, _parentIds: [] },
+        ]);
+
+      await expect(
+        repository.updateAll(
+          { _parents: ['tapp://localhost/entities/c'] },
+          { _id: 'a' },
+        ),
+      ).to.be.rejectedWith({
+        statusCode: 422,
+        code: 'ENTITY-HIERARCHY-CYCLE',
+        message: /a > b > c > a/,
+      });
+      sinon.assert.calledWith(
+        traverseStub,
+        'c',
+        'ancestors',
+        'tapp://localhost/entities/',
+      );
+      expect(superUpdateAllStub.called).to.be.false();
+    });
   });
 
   describe('deleteAll', () => {
@@ -21,9 +21,12 @@ import {
   ListReactionsRepository,
 } from '../../../repositories';
 import { ListRepository } from '../../../repositories/core/list.repository';
+import { AuditLogService } from '../../../services/audit-log.service';
+import { ChangeFeedService } from '../../../services/change-feed.service';
 import { LoggingService } from '../../../services/logging.service';
 import { LookupConstraintService } from '../../../services/lookup-constraint.service';
 import { RecordLimitCheckerService } from '../../../services/record-limit-checker.service';
+import { RevisionHistoryService } from '../../../services/revision-history.service';
 
 describe('ListRepository', () => {
   let app: EntityPersistenceApplication;
@@ -53,6 +56,11 @@ describe('ListRepository', () => {
     const lookupConstraintServiceStub = sinon.createStubInstance(
       LookupConstraintService,
     );
+    const revisionHistoryServiceStub = sinon.createStubInstance(
+      RevisionHistoryService,
+    );
+    const changeFeedServiceStub = sinon.createStubInstance(ChangeFeedService);
+    const auditLogServiceStub = sinon.createStubInstance(AuditLogService);
 
     // Create a mock lookup helper
     const mockLookupHelper = sinon.createStubInstance(LookupHelper);
@@ -87,6 +95,10 @@ describe('ListRepository', () => {
       loggingServiceStub,
       recordLimitCheckerStub,
       lookupConstraintServiceStub,
+      revisionHistoryServiceStub,
+      testSetup.configReaders.softDeleteConfigReader,
+      changeFeedServiceStub,
+      auditLogServiceStub,
     );
   });
 
@@ -401,7 +413,7 @@ describe('ListRepository', () => {
         const [modelClass, data, repo] =
           recordLimitCheckerStub.checkUniqueness.firstCall.args;
         expect(modelClass.modelName).to.equal('List');
-        expect(data).to.deepEqual(inputData);
+        expect(data).to.containDeep({ ...inputData, _version: 1 });
         expect(repo).to.equal(repository);
 
         expect(superCreateStub.called).to.be.false();
@@ -475,6 +487,8 @@ describe('ListRepository', () => {
           _name: 'Original Name',
           _createdDateTime: '2023-01-01T00:00:00.000Z',
           _lastUpdatedDateTime: '2023-01-01T00:00:00.000Z',
+          _ancestors: [],
+          _depth: 0,
         });
     });
 
@@ -592,6 +606,42 @@ describe('ListRepository', () => {
         expect(replacedData._lastUpdatedDateTime).to.equal(now);
       });
 
+      it('should throw 412 when expected version does not match', async () => {
+        const updateData = {
+          _name: 'Updated Name',
+          _kind: 'test-kind',
+          _version: 3,
+        };
+
+        try {
+          await repository.replaceById(existingId, updateData);
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(412);
+          expect(error.code).to.equal('LIST-VERSION-MISMATCH');
+          expect(error.message).to.match(
+            /Expected version is '3' but current version is '1'/,
+          );
+        }
+
+        expect(superReplaceByIdStub.called).to.be.false();
+      });
+
+      it('should replace when expected version matches', async () => {
+        const updateData = {
+          _name: 'Updated Name',
+          _kind: 'test-kind',
+          _version: 1,
+        };
+
+        await repository.replaceById(existingId, updateData);
+
+        expect(superReplaceByIdStub.calledOnce).to.be.true();
+        const replacedData = superReplaceByIdStub.firstCall.args[1];
+        expect(replacedData._version).to.equal(2);
+      });
+
       it('should generate new slug when name is updated', async () => {
         const updateData = {
           _name: 'Updated List Name',
@@ -614,6 +664,8 @@ describe('ListRepository', () => {
           _slug: 'custom-slug',
           _createdDateTime: '2023-01-01T00:00:00.000Z',
           _lastUpdatedDateTime: '2023-01-01T00:00:00.000Z',
+          _ancestors: [],
+          _depth: 0,
         };
         superFindByIdStub.resolves(existingData);
 
@@ -665,6 +717,8 @@ describe('ListRepository', () => {
           _ownerGroups: ['group1'],
           _viewerUsers: ['user2'],
           _viewerGroups: ['group2'],
+          _ancestors: [],
+          _depth: 0,
         };
         superFindByIdStub.resolves(existingData);
 
@@ -698,6 +752,8 @@ describe('ListRepository', () => {
           _createdDateTime: '2023-01-01T00:00:00.000Z',
           _lastUpdatedDateTime: '2023-01-01T00:00:00.000Z',
           _idempotencyKey: existingIdempotencyKey,
+          _ancestors: [],
+          _depth: 0,
         };
         superFindByIdStub.resolves(existingData);
 
@@ -1006,6 +1062,33 @@ describe('ListRepository', () => {
         expect(calledId).to.equal(existingId);
         expect(calledData._idempotencyKey).to.equal(existingIdempotencyKey);
       });
+
+      it('should throw 412 when expected version does not match', async () => {
+        try {
+          await repository.updateById(existingId, {
+            _name: 'Updated Name',
+            _version: 2,
+          });
+          throw new Error('Expected error was not thrown');
+        } catch (error) {
+          expect(error).to.be.instanceOf(HttpErrorResponse);
+          expect(error.statusCode).to.equal(412);
+          expect(error.code).to.equal('LIST-VERSION-MISMATCH');
+        }
+
+        expect(superUpdateByIdStub.called).to.be.false();
+      });
+
+      it('should update when expected version matches', async () => {
+        await repository.updateById(existingId, {
+          _name: 'Updated Name',
+          _version: 1,
+        });
+
+        expect(superUpdateByIdStub.calledOnce).to.be.true();
+        const calledData = superUpdateByIdStub.firstCall.args[1];
+        expect(calledData._version).to.equal(2);
+      });
     });
   });
 
@@ -1095,6 +1178,10 @@ describe('ListRepository', () => {
       superUpdateAllStub = sinon
         .stub(getBaseRepoPrototype(), 'updateAll')
         .resolves({ count: 2 });
+
+      // Stub DefaultTransactionalRepository.find, which reads the records to
+      // append to the change feed
+      sinon.stub(getBaseRepoPrototype(), 'find').resolves([]);
     });
 
     afterEach(() => {
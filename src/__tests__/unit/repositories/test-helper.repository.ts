@@ -5,6 +5,7 @@ import {
   IdempotencyConfigurationReader,
   KindConfigurationReader,
   ResponseLimitConfigurationReader,
+  SoftDeleteConfigurationReader,
   ValidfromConfigurationReader,
   VisibilityConfigurationReader,
 } from '../../../extensions';
@@ -22,6 +23,7 @@ export async function setupRepositoryTest(): Promise<{
     validfromConfigReader: ValidfromConfigurationReader;
     idempotencyConfigReader: IdempotencyConfigurationReader;
     responseLimitConfigReader: ResponseLimitConfigurationReader;
+    softDeleteConfigReader: SoftDeleteConfigurationReader;
   };
 }> {
   // Set test environment
@@ -44,6 +46,7 @@ export async function setupRepositoryTest(): Promise<{
   const validfromConfigReader = new ValidfromConfigurationReader();
   const idempotencyConfigReader = new IdempotencyConfigurationReader();
   const responseLimitConfigReader = new ResponseLimitConfigurationReader();
+  const softDeleteConfigReader = new SoftDeleteConfigurationReader();
 
   // Add lookup helper binding for tests
   app.bind(LookupBindings.HELPER).toClass(LookupHelper);
@@ -57,6 +60,7 @@ export async function setupRepositoryTest(): Promise<{
       validfromConfigReader,
       idempotencyConfigReader,
       responseLimitConfigReader,
+      softDeleteConfigReader,
     },
   };
 }
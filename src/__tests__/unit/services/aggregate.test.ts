@@ -0,0 +1,139 @@
+import { expect, sinon } from '@loopback/testlab';
+import { MongoPipelineHelper } from '../../../extensions/utils/mongo-pipeline-helper';
+import type { PipelineStage } from '../../../extensions/utils/mongo-pipeline-helper';
+import { AggregateService } from '../../../services/aggregate.service';
+import { LoggingService } from '../../../services/logging.service';
+
+describe('Utilities: AggregateService', () => {
+  let service: AggregateService;
+  let repository: { aggregate: sinon.SinonStub };
+  let pipeline: PipelineStage[];
+
+  function givenDocuments(documents: object[]): void {
+    repository.aggregate.callsFake(
+      async (
+        where: object,
+        buildPipeline: (where?: object) => PipelineStage[],
+      ) => {
+        pipeline = buildPipeline(where);
+
+        return documents;
+      },
+    );
+  }
+
+  beforeEach(() => {
+    repository = { aggregate: sinon.stub() };
+    service = new AggregateService(
+      new MongoPipelineHelper(undefined),
+      sinon.createStubInstance(LoggingService),
+    );
+  });
+
+  it('should group the matching records and compute the metrics of each bucket', async () => {
+    givenDocuments([
+      { _id: { g0: 'book', g1: 'active' }, m0: 3, m1: 12.5 },
+      { _id: { g0: 'book' }, m0: 1, m1: null },
+    ]);
+
+    const buckets = await service.aggregate(
+      repository,
+      { _kind: 'book' },
+      '_kind,status',
+      'count,avg:price',
+    );
+
+    expect(pipeline).to.eql([
+      { $match: { _kind: 'book' } },
+      {
+        $group: {
+          _id: { g0: '$_kind', g1: '$status' },
+          m0: { $sum: 1 },
+          m1: { $avg: '$price' },
+        },
+      },
+      { $sort: { _id: 1 } },
+      { $limit: AggregateService.MAX_BUCKETS + 1 },
+    ]);
+    expect(buckets.map((bucket) => bucket.toJSON())).to.eql([
+      {
+        group: { _kind: 'book', status: 'active' },
+        metrics: { count: 3, 'avg:price': 12.5 },
+      },
+      {
+        group: { _kind: 'book', status: null },
+        metrics: { count: 1, 'avg:price': null },
+      },
+    ]);
+  });
+
+  it('should count all records in a single bucket by default', async () => {
+    givenDocuments([{ _id: null, m0: 7 }]);
+
+    const buckets = await service.aggregate(repository, undefined);
+
+    expect(pipeline).to.containDeep([
+      { $group: { _id: null, m0: { $sum: 1 } } },
+    ]);
+    expect(buckets.map((bucket) => bucket.toJSON())).to.eql([
+      { group: {}, metrics: { count: 7 } },
+    ]);
+  });
+
+  it('should build date histograms on the managed dates', async () => {
+    const month = new Date('2024-05-01T00:00:00.000Z');
+    givenDocuments([{ _id: { g0: month }, m0: 2 }]);
+
+    const buckets = await service.aggregate(
+      repository,
+      undefined,
+      '_createdDateTime:month',
+    );
+
+    expect(pipeline).to.containDeep([
+      {
+        $group: {
+          _id: {
+            g0: { $dateTrunc: { date: '$_createdDateTime', unit: 'month' } },
+          },
+        },
+      },
+    ]);
+    expect(buckets[0].group).to.eql({ '_createdDateTime:month': month });
+  });
+
+  it('should reject malformed groupBy fields and metrics', async () => {
+    for (const [groupBy, metrics] of [
+      ['$where', undefined],
+      ['status:month', undefined],
+      ['_createdDateTime:minute', undefined],
+      [undefined, 'median:price'],
+      [undefined, 'avg'],
+    ]) {
+      await expect(
+        service.aggregate(repository, undefined, groupBy, metrics),
+      ).to.be.rejectedWith({
+        statusCode: 400,
+        code: 'INVALID-AGGREGATE-QUERY',
+      });
+    }
+
+    sinon.assert.notCalled(repository.aggregate);
+  });
+
+  it('should reject aggregations with too many buckets', async () => {
+    givenDocuments(
+      Array.from({ length: AggregateService.MAX_BUCKETS + 1 }, (_, index) => ({
+        _id: { g0: index },
+        m0: 1,
+      })),
+    );
+
+    await expect(
+      service.aggregate(repository, undefined, 'price'),
+    ).to.be.rejectedWith({
+      statusCode: 400,
+      code: 'TOO-MANY-AGGREGATE-BUCKETS',
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import type { Request } from '@loopback/rest';
+import { expect, sinon } from '@loopback/testlab';
+import { ResponseLimitConfigurationReader } from '../../../extensions/config-helpers/response-limit-config-helper';
+import type { RequestContext } from '../../../providers/request-context.provider';
+import { AuditEntryRepository } from '../../../repositories/core/audit-entry.repository';
+import { AuditLogService } from '../../../services/audit-log.service';
+import { LoggingService } from '../../../services/logging.service';
+
+describe('Utilities: AuditLogService', () => {
+  let service: AuditLogService;
+  let repositoryStub: sinon.SinonStubbedInstance<AuditEntryRepository>;
+
+  beforeEach(() => {
+    repositoryStub = sinon.createStubInstance(AuditEntryRepository);
+    service = new AuditLogService(
+      sinon.createStubInstance(LoggingService),
+      repositoryStub as unknown as AuditEntryRepository,
+      new ResponseLimitConfigurationReader(),
+      { requestId: 'request-1' } as RequestContext,
+      { method: 'PATCH', path: '/entities/1' } as Request,
+    );
+  });
+
+  describe('recordChanges', () => {
+    it('should write an entry with the request, route, actor and diff', async () => {
+      const options = { session: 'test-session' };
+
+      await service.recordChanges(
+        'entity',
+        'update',
+        [
+          {
+            before: { _id: '1', _kind: 'book', _name: 'Old', _version: 1 },
+            after: {
+              _id: '1',
+              _kind: 'book',
+              _name: 'New',
+              _version: 2,
+              _lastUpdatedBy: 'user1',
+            },
+          },
+        ],
+        options,
+      );
+
+      const [entries, passedOptions] = repositoryStub.createAll.firstCall.args;
+
+      expect(passedOptions).to.equal(options);
+      expect(entries[0]).to.containDeep({
+        _requestId: 'request-1',
+        _actor: 'user1',
+        _operation: 'update',
+        _route: 'PATCH /entities/1',
+        _recordType: 'entity',
+        _kind: 'book',
+        _recordId: '1',
+        _changes: [
+          { field: '_name', from: 'Old', to: 'New' },
+          { field: '_version', from: 1, to: 2 },
+          { field: '_lastUpdatedBy', to: 'user1' },
+        ],
+      });
+      expect(entries[0]).to.have.property('_auditDateTime');
+    });
+
+    it('should take the actor of a deletion from the change if given', async () => {
+      await service.recordChanges('list', 'delete', [
+        {
+          before: { _id: '1', _kind: 'shelf', _lastUpdatedBy: 'user1' },
+          actor: 'user2',
+        },
+        { before: { _id: '2', _kind: 'shelf', _lastUpdatedBy: 'user1' } },
+      ]);
+
+      const [entries] = repositoryStub.createAll.firstCall.args;
+
+      expect(entries.map((entry) => entry._actor)).to.eql(['user2', 'user1']);
+      expect(entries[0]._recordId).to.equal('1');
+      expect(entries[0]._changes).to.containDeep([
+        { field: '_kind', from: 'shelf' },
+      ]);
+    });
+
+    it('should not write anything when there are no changes', async () => {
+      await service.recordChanges('entity', 'delete', []);
+
+      expect(repositoryStub.createAll.called).to.be.false();
+    });
+  });
+
+  describe('getFieldChanges', () => {
+    it('should leave out virtual fields, the id and the idempotency key', () => {
+      const changes = service.getFieldChanges(
+        { _id: '1', _name: 'Old', _idempotencyKey: 'a' },
+        {
+          _id: '1',
+          _name: 'Old',
+          _idempotencyKey: 'b',
+          _recordType: 'entity',
+          _relationMetadata: {},
+        },
+      );
+
+      expect(changes).to.eql([]);
+    });
+
+    it('should compare dates by their JSON representation', () => {
+      const changes = service.getFieldChanges(
+        { _lastUpdatedDateTime: new Date('2024-01-01T00:00:00.000Z') },
+        { _lastUpdatedDateTime: '2024-01-01T00:00:00.000Z' },
+      );
+
+      expect(changes).to.eql([]);
+    });
+  });
+
+  describe('findEntries', () => {
+    it('should combine the query with the where clause of the filter', async () => {
+      repositoryStub.find.resolves([]);
+
+      await service.findEntries(
+        {
+          recordId: '1',
+          actor: 'user1',
+          from: '2024-01-01T00:00:00.000Z',
+          to: '2024-02-01T00:00:00.000Z',
+        },
+        { where: { _operation: 'delete' }, limit: 10 },
+      );
+
+      expect(repositoryStub.find.firstCall.args[0]).to.eql({
+        where: {
+          and: [
+            { _recordId: '1' },
+            { _actor: 'user1' },
+            { _auditDateTime: { gte: '2024-01-01T00:00:00.000Z' } },
+            { _auditDateTime: { lte: '2024-02-01T00:00:00.000Z' } },
+            { _operation: 'delete' },
+          ],
+        },
+        limit: 10,
+        order: ['_auditDateTime ASC', '_id ASC'],
+      });
+    });
+
+    it('should cap the number of entries by the response limit', async () => {
+      repositoryStub.find.resolves([]);
+
+      await service.findEntries({}, { limit: 1000 });
+      await service.findEntries({});
+
+      expect(repositoryStub.find.firstCall.args[0]?.limit).to.equal(50);
+      expect(repositoryStub.find.secondCall.args[0]?.limit).to.equal(50);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import { expect, sinon } from '@loopback/testlab';
+import type { BatchModel } from '../../../models';
+import { BatchOperation, HttpErrorResponse } from '../../../models';
+import type { BatchRepository } from '../../../services/batch.service';
+import { BatchService } from '../../../services/batch.service';
+import { LoggingService } from '../../../services/logging.service';
+
+type StubbedRepository = { [K in keyof BatchRepository]: sinon.SinonStub };
+
+describe('Utilities: BatchService', () => {
+  let service: BatchService;
+  let repositories: Record<BatchModel, StubbedRepository>;
+
+  function givenRepository(prefix: string): StubbedRepository {
+    let created = 0;
+
+    return {
+      create: sinon.stub().callsFake(async (data: object) => ({
+        _id: `${prefix}-${++created}`,
+        ...data,
+      })),
+      findById: sinon.stub().callsFake(async (id: string) => ({
+        _id: id,
+        _version: 2,
+      })),
+      updateById: sinon.stub().resolves(),
+      replaceById: sinon.stub().resolves(),
+      deleteById: sinon.stub().resolves(),
+    };
+  }
+
+  function givenOperations(operations: object[]): BatchOperation[] {
+    return operations.map((o) => new BatchOperation(o));
+  }
+
+  beforeEach(() => {
+    repositories = {
+      entities: givenRepository('entity'),
+      lists: givenRepository('list'),
+      relations: givenRepository('relation'),
+      'entity-reactions': givenRepository('entity-reaction'),
+      'list-reactions': givenRepository('list-reaction'),
+    };
+    service = new BatchService(sinon.createStubInstance(LoggingService));
+  });
+
+  it('should apply the operations in order with the options of the request', async () => {
+    const options = { session: 'request-session' };
+
+    const results = await service.executeAll(
+      givenOperations([
+        { model: 'lists', op: 'create', data: { _name: 'Reading List' } },
+        { model: 'entities', op: 'update', id: 'entity-9', data: { a: 1 } },
+        { model: 'entity-reactions', op: 'delete', id: 'reaction-1' },
+      ]),
+      repositories,
+      options,
+    );
+
+    expect(results.map((r) => r.toJSON())).to.eql([
+      {
+        index: 0,
+        statusCode: 200,
+        data: { _id: 'list-1', _name: 'Reading List' },
+      },
+      { index: 1, statusCode: 200, data: { _id: 'entity-9', _version: 2 } },
+      { index: 2, statusCode: 204 },
+    ]);
+    sinon.assert.calledWithExactly(
+      repositories.entities.updateById,
+      'entity-9',
+      { a: 1 },
+      options,
+    );
+    sinon.assert.calledWithExactly(
+      repositories['entity-reactions'].deleteById,
+      'reaction-1',
+      options,
+    );
+  });
+
+  it('should resolve references to the results of earlier operations', async () => {
+    const results = await service.executeAll(
+      givenOperations([
+        { model: 'lists', op: 'create', data: { _name: 'Reading List' } },
+        { model: 'entities', op: 'create', data: { _name: 'Dune' } },
+        {
+          model: 'relations',
+          op: 'create',
+          data: {
+            _listId: '$ref:0._id',
+            _entityId: '$ref:1._id',
+            names: ['$ref:0._name', '$ref:1._name'],
+          },
+        },
+        {
+          model: 'entity-reactions',
+          op: 'replace',
+          id: '$ref:2._id',
+          data: { note: 'kept as is: $ref:0._id' },
+        },
+      ]),
+      repositories,
+    );
+
+    expect(repositories.relations.create.firstCall.args[0]).to.eql({
+      _listId: 'list-1',
+      _entityId: 'entity-1',
+      names: ['Reading List', 'Dune'],
+    });
+    sinon.assert.calledWith(
+      repositories['entity-reactions'].replaceById,
+      'relation-1',
+      { note: 'kept as is: $ref:0._id' },
+    );
+    expect(results[3].data).to.eql({ _id: 'relation-1', _version: 2 });
+  });
+
+  it('should reject references to the same or later operations', async () => {
+    try {
+      await service.executeAll(
+        givenOperations([
+          { model: 'entities', op: 'create', data: { _name: 'Dune' } },
+          { model: 'lists', op: 'create', data: { _ownerId: '$ref:1._id' } },
+        ]),
+        repositories,
+      );
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.containDeep({
+        statusCode: 422,
+        code: 'INVALID-BATCH-REFERENCE',
+        details: [{ path: '/1', code: 'INVALID-BATCH-REFERENCE' }],
+      });
+    }
+
+    expect(repositories.lists.create.called).to.be.false();
+  });
+
+  it('should require an id for update, replace and delete', async () => {
+    await expect(
+      service.executeAll(
+        givenOperations([{ model: 'lists', op: 'delete' }]),
+        repositories,
+      ),
+    ).to.be.rejectedWith({
+      statusCode: 422,
+      code: 'INVALID-BATCH-OPERATION',
+    });
+  });
+
+  it('should reject data setting fields managed by the service', async () => {
+    for (const operation of [
+      { model: 'entities', op: 'create', data: { _id: 'chosen-id' } },
+      { model: 'entities', op: 'create', data: { _version: 1 } },
+      {
+        model: 'lists',
+        op: 'update',
+        id: 'list-1',
+        data: { _deletedDateTime: '2024-01-01T00:00:00.000Z' },
+      },
+      {
+        model: 'lists',
+        op: 'replace',
+        id: 'list-1',
+        data: { _idempotencyKey: 'key' },
+      },
+    ]) {
+      await expect(
+        service.executeAll(givenOperations([operation]), repositories),
+      ).to.be.rejectedWith({
+        statusCode: 422,
+        code: 'INVALID-BATCH-OPERATION',
+      });
+    }
+
+    expect(repositories.entities.create.called).to.be.false();
+    expect(repositories.lists.updateById.called).to.be.false();
+    expect(repositories.lists.replaceById.called).to.be.false();
+  });
+
+  it('should accept the version an update is based on', async () => {
+    await service.executeAll(
+      givenOperations([
+        { model: 'lists', op: 'update', id: 'list-1', data: { _version: 2 } },
+      ]),
+      repositories,
+    );
+
+    expect(repositories.lists.updateById.firstCall.args[1]).to.eql({
+      _version: 2,
+    });
+  });
+
+  it('should fail the batch with the error of the first failed operation', async () => {
+    repositories.entities.create.onSecondCall().rejects(
+      new HttpErrorResponse({
+        statusCode: 409,
+        name: 'UniquenessViolationError',
+        message: 'Entity already exists.',
+        code: 'ENTITY-UNIQUENESS-VIOLATION',
+      }),
+    );
+
+    try {
+      await service.executeAll(
+        givenOperations([
+          { model: 'entities', op: 'create', data: { _name: 'Dune' } },
+          { model: 'entities', op: 'create', data: { _name: 'Dune' } },
+          { model: 'lists', op: 'create', data: { _name: 'Reading List' } },
+        ]),
+        repositories,
+      );
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.containDeep({
+        statusCode: 409,
+        name: 'UniquenessViolationError',
+        code: 'ENTITY-UNIQUENESS-VIOLATION',
+        details: [{ path: '/1', code: 'ENTITY-UNIQUENESS-VIOLATION' }],
+      });
+    }
+
+    expect(repositories.lists.create.called).to.be.false();
+  });
+
+  it('should rethrow internal errors as they are', async () => {
+    const writeConflict = Object.assign(new Error('WriteConflict'), {
+      code: 112,
+    });
+    repositories.lists.create.rejects(writeConflict);
+
+    try {
+      await service.executeAll(
+        givenOperations([{ model: 'lists', op: 'create', data: {} }]),
+        repositories,
+      );
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.equal(writeConflict);
+    }
+  });
+});
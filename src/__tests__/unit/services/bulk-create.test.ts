@@ -0,0 +1,422 @@
+import type { AnyObject } from '@loopback/repository';
+import type { Request } from '@loopback/rest';
+import { expect, sinon } from '@loopback/testlab';
+import type { EntityDbDataSource } from '../../../datasources/entity-db.datasource';
+import type { ImportLine } from '../../../extensions/utils/import-helper';
+import type { ImportResult } from '../../../models';
+import { HttpErrorResponse } from '../../../models';
+import { BulkCreateService } from '../../../services/bulk-create.service';
+import { LoggingService } from '../../../services/logging.service';
+import type { EntityModelClass } from '../../../services/record-limit-checker.service';
+import { RecordLimitCheckerService } from '../../../services/record-limit-checker.service';
+
+describe('Utilities: BulkCreateService', () => {
+  let service: BulkCreateService;
+  let recordLimitChecker: sinon.SinonStubbedInstance<RecordLimitCheckerService>;
+  let sessions: {
+    startTransaction: sinon.SinonStub;
+    commitTransaction: sinon.SinonStub;
+    abortTransaction: sinon.SinonStub;
+    endSession: sinon.SinonStub;
+  }[];
+
+  const conflict = new HttpErrorResponse({
+    statusCode: 409,
+    name: 'UniquenessViolationError',
+    message: 'Entity already exists.',
+    code: 'ENTITY-UNIQUENESS-VIOLATION',
+  });
+
+  /**
+   * Creates the items named 'ok' and rejects the others with a conflict
+   */
+  const modelClass = { modelName: 'GenericEntity' } as EntityModelClass;
+
+  const create = sinon.stub().callsFake(async (item: { _name: string }) => {
+    if (item._name !== 'ok') {
+      throw conflict;
+    }
+
+    return { _id: `id-${create.callCount}`, _name: item._name };
+  });
+
+  beforeEach(() => {
+    sessions = [];
+    create.resetHistory();
+
+    const client = {
+      startSession: () => {
+        const session = {
+          startTransaction: sinon.stub(),
+          commitTransaction: sinon.stub().resolves(),
+          abortTransaction: sinon.stub().resolves(),
+          endSession: sinon.stub().resolves(),
+        };
+        sessions.push(session);
+
+        return session;
+      },
+    };
+
+    recordLimitChecker = sinon.createStubInstance(RecordLimitCheckerService);
+    recordLimitChecker.getUniquenessKeys.returns([]);
+    recordLimitChecker.createUniquenessViolationError.returns(conflict);
+
+    service = new BulkCreateService(
+      sinon.createStubInstance(LoggingService),
+      { connector: { client } } as unknown as EntityDbDataSource,
+      recordLimitChecker,
+      { requestId: 'request-1' } as unknown as Request,
+    );
+  });
+
+  describe('atomic mode', () => {
+    it('should create all items with the options of the request', async () => {
+      const options = { session: 'request-session' };
+
+      const results = await service.createAll(
+        [{ _name: 'ok' }, { _name: 'ok' }],
+        'atomic',
+        create,
+        options,
+      );
+
+      expect(results.map((r) => r.toJSON())).to.eql([
+        { index: 0, statusCode: 200, data: { _id: 'id-1', _name: 'ok' } },
+        { index: 1, statusCode: 200, data: { _id: 'id-2', _name: 'ok' } },
+      ]);
+      expect(create.secondCall.args[1]).to.equal(options);
+      expect(sessions).to.have.length(0);
+    });
+
+    it('should fail the request with the error of the first failed item', async () => {
+      try {
+        await service.createAll(
+          [{ _name: 'ok' }, { _name: 'duplicate' }, { _name: 'ok' }],
+          'atomic',
+          create,
+        );
+        throw new Error('Expected error was not thrown');
+      } catch (error) {
+        expect(error).to.containDeep({
+          statusCode: 409,
+          name: 'UniquenessViolationError',
+          code: 'ENTITY-UNIQUENESS-VIOLATION',
+          details: [{ path: '/1', code: 'ENTITY-UNIQUENESS-VIOLATION' }],
+        });
+      }
+
+      expect(create.callCount).to.equal(2);
+    });
+
+    it('should rethrow internal errors as they are', async () => {
+      const writeConflict = Object.assign(new Error('WriteConflict'), {
+        code: 112,
+      });
+
+      try {
+        await service.createAll(
+          [{ _name: 'ok' }],
+          'atomic',
+          sinon.stub().rejects(writeConflict),
+        );
+        throw new Error('Expected error was not thrown');
+      } catch (error) {
+        expect(error).to.equal(writeConflict);
+      }
+    });
+  });
+
+  describe('best-effort mode', () => {
+    it('should create each item in its own transaction and report failures', async () => {
+      const results = await service.createAll(
+        [{ _name: 'ok' }, { _name: 'duplicate' }, { _name: 'ok' }],
+        'best-effort',
+        create,
+      );
+
+      expect(results.map((r) => r.statusCode)).to.eql([200, 409, 200]);
+      expect(results[1].error).to.containDeep({
+        statusCode: 409,
+        code: 'ENTITY-UNIQUENESS-VIOLATION',
+        requestId: 'request-1',
+      });
+      expect(results[2].data).to.eql({ _id: 'id-3', _name: 'ok' });
+
+      expect(sessions).to.have.length(3);
+      expect(sessions[0].commitTransaction.calledOnce).to.be.true();
+      expect(sessions[1].abortTransaction.calledOnce).to.be.true();
+      expect(sessions[1].commitTransaction.called).to.be.false();
+      expect(sessions.every((s) => s.endSession.calledOnce)).to.be.true();
+      expect(create.firstCall.args[1].session).to.equal(sessions[0]);
+    });
+
+    it('should report a failed commit without rolling the transaction back', async () => {
+      const results = await service.createAll(
+        [{ _name: 'ok' }],
+        'best-effort',
+        async (item, options) => {
+          const session = options.session as (typeof sessions)[number];
+          session.commitTransaction.rejects(conflict);
+          session.abortTransaction.rejects(new Error('already committed'));
+
+          return create(item, options);
+        },
+      );
+
+      expect(results[0].error).to.containDeep({
+        statusCode: 409,
+        code: 'ENTITY-UNIQUENESS-VIOLATION',
+      });
+      expect(sessions[0].abortTransaction.called).to.be.false();
+      expect(sessions[0].endSession.calledOnce).to.be.true();
+    });
+
+    it('should report the error of an item if the rollback fails as well', async () => {
+      const results = await service.createAll(
+        [{ _name: 'duplicate' }],
+        'best-effort',
+        async (item, options) => {
+          const session = options.session as (typeof sessions)[number];
+          session.abortTransaction.rejects(new Error('connection lost'));
+
+          return create(item, options);
+        },
+      );
+
+      expect(results[0].error).to.containDeep({
+        statusCode: 409,
+        code: 'ENTITY-UNIQUENESS-VIOLATION',
+      });
+      expect(sessions[0].abortTransaction.calledOnce).to.be.true();
+    });
+
+    it('should mask internal errors of an item', async () => {
+      const results = await service.createAll(
+        [{ _name: 'ok' }],
+        'best-effort',
+        sinon.stub().rejects(new Error('connection lost')),
+      );
+
+      expect(results[0].error).to.containDeep({
+        statusCode: 500,
+        code: 'INTERNAL-SERVER-ERROR',
+        message: 'An internal error occurred.',
+      });
+    });
+  });
+
+  describe('importAll', () => {
+    async function importLines(
+      lines: ImportLine[],
+      dryRun?: boolean,
+    ): Promise<ImportResult[]> {
+      const results: ImportResult[] = [];
+
+      for await (const result of service.importAll(
+        toAsyncIterable(lines),
+        modelClass,
+        create,
+        dryRun,
+      )) {
+        results.push(result);
+      }
+
+      return results;
+    }
+
+    it('should create each record in its own transaction and report each line', async () => {
+      const results = await importLines([
+        { line: 1, record: { _name: 'ok' } },
+        { line: 2, record: { _name: 'duplicate' } },
+        { line: 4, record: { _name: 'ok' } },
+      ]);
+
+      expect(results.map((r) => r.toJSON())).to.containDeep([
+        { line: 1, statusCode: 200, _id: 'id-1' },
+        {
+          line: 2,
+          statusCode: 409,
+          error: {
+            code: 'ENTITY-UNIQUENESS-VIOLATION',
+            requestId: 'request-1',
+          },
+        },
+        { line: 4, statusCode: 200, _id: 'id-3' },
+      ]);
+      expect(sessions).to.have.length(3);
+      expect(sessions[0].commitTransaction.calledOnce).to.be.true();
+      expect(sessions[1].abortTransaction.calledOnce).to.be.true();
+    });
+
+    it('should leave the fields managed by the service out of each record', async () => {
+      await importLines([
+        {
+          line: 1,
+          record: {
+            _id: 'exported-id',
+            _name: 'ok',
+            _version: 3,
+            _deletedDateTime: '2024-01-01T00:00:00.000Z',
+            _deletedBy: 'user1',
+          },
+        },
+      ]);
+
+      expect(create.firstCall.args[0]).to.eql({ _name: 'ok' });
+    });
+
+    it('should report the lines which could not be read without creating them', async () => {
+      const invalidLine = new HttpErrorResponse({
+        statusCode: 422,
+        name: 'InvalidImportLineError',
+        message: 'Line 1 is not valid JSON.',
+        code: 'INVALID-IMPORT-LINE',
+      });
+
+      const results = await importLines([{ line: 1, error: invalidLine }]);
+
+      expect(results[0]).to.containDeep({
+        line: 1,
+        statusCode: 422,
+        error: { code: 'INVALID-IMPORT-LINE', requestId: 'request-1' },
+      });
+      expect(create.called).to.be.false();
+      expect(sessions).to.have.length(0);
+    });
+
+    it('should check all records in a single transaction in dry-run mode', async () => {
+      const results = await importLines(
+        [
+          { line: 1, record: { _name: 'ok' } },
+          { line: 2, record: { _name: 'duplicate' } },
+          { line: 3, record: { _name: 'ok' } },
+        ],
+        true,
+      );
+
+      expect(results.map((r) => r.statusCode)).to.eql([200, 409, 200]);
+      expect(results[0]._id).to.be.undefined();
+      expect(sessions).to.have.length(1);
+      expect(create.firstCall.args[1].session).to.equal(sessions[0]);
+      expect(create.thirdCall.args[1].session).to.equal(sessions[0]);
+      expect(sessions[0].commitTransaction.called).to.be.false();
+      expect(sessions[0].abortTransaction.calledOnce).to.be.true();
+      expect(sessions[0].endSession.calledOnce).to.be.true();
+    });
+
+    it('should check the records in chunks, each in its own transaction, in dry-run mode', async () => {
+      const lines = Array.from(
+        { length: BulkCreateService.DRY_RUN_CHUNK_SIZE + 1 },
+        (_, index) => ({ line: index + 1, record: { _name: 'ok' } }),
+      );
+
+      const results = await importLines(lines, true);
+
+      expect(results).to.have.length(lines.length);
+      expect(sessions).to.have.length(1);
+      expect(sessions[0].startTransaction.calledTwice).to.be.true();
+      expect(sessions[0].abortTransaction.calledTwice).to.be.true();
+      expect(sessions[0].commitTransaction.called).to.be.false();
+      expect(
+        sessions[0].abortTransaction.secondCall.calledAfter(create.lastCall),
+      ).to.be.true();
+      expect(
+        sessions[0].startTransaction.secondCall.calledBefore(create.lastCall),
+      ).to.be.true();
+      expect(
+        sessions[0].startTransaction.secondCall.calledAfter(
+          create.getCall(BulkCreateService.DRY_RUN_CHUNK_SIZE - 1),
+        ),
+      ).to.be.true();
+    });
+
+    it('should start the dry-run transaction over after an internal error', async () => {
+      const results: ImportResult[] = [];
+
+      for await (const result of service.importAll(
+        toAsyncIterable([
+          { line: 1, record: { _name: 'ok' } },
+          { line: 2, record: { _name: 'ok' } },
+        ]),
+        modelClass,
+        sinon
+          .stub()
+          .onFirstCall()
+          .rejects(new Error('Transaction aborted'))
+          .onSecondCall()
+          .resolves({ _id: 'id-1' }),
+        true,
+      )) {
+        results.push(result);
+      }
+
+      expect(results.map((r) => r.statusCode)).to.eql([500, 200]);
+      expect(sessions).to.have.length(1);
+      expect(sessions[0].startTransaction.calledTwice).to.be.true();
+      expect(sessions[0].abortTransaction.calledTwice).to.be.true();
+    });
+
+    it('should check the records against the uniqueness of the earlier chunks in dry-run mode', async () => {
+      const lines = Array.from(
+        { length: BulkCreateService.DRY_RUN_CHUNK_SIZE + 1 },
+        (_, index) => ({ line: index + 1, record: { _name: 'ok' } }),
+      );
+      const lastId = `id-${lines.length}`;
+      recordLimitChecker.getUniquenessKeys.callsFake((_, { _id }: AnyObject) =>
+        _id === 'id-1' || _id === lastId
+          ? ['where[_name]=duplicate']
+          : [`where[_name]=${_id}`],
+      );
+
+      const results = await importLines(lines, true);
+
+      expect(results[0].statusCode).to.equal(200);
+      expect(results[lines.length - 1]).to.containDeep({
+        line: lines.length,
+        statusCode: 409,
+        error: { code: 'ENTITY-UNIQUENESS-VIOLATION' },
+      });
+      expect(
+        results.filter((result) => result.statusCode !== 200),
+      ).to.have.length(1);
+      expect(
+        recordLimitChecker.createUniquenessViolationError.calledOnceWithExactly(
+          'GenericEntity',
+          'where[_name]=duplicate',
+        ),
+      ).to.be.true();
+    });
+
+    it('should not check a record against the earlier line with the same idempotency key in dry-run mode', async () => {
+      recordLimitChecker.getUniquenessKeys.returns(['where[_name]=duplicate']);
+
+      const results: ImportResult[] = [];
+
+      for await (const result of service.importAll(
+        toAsyncIterable([
+          { line: 1, record: { _name: 'ok' } },
+          { line: 2, record: { _name: 'ok' } },
+        ]),
+        modelClass,
+        sinon
+          .stub()
+          .onFirstCall()
+          .resolves({ _id: 'id-1', _idempotencyKey: 'key-1' })
+          .onSecondCall()
+          .resolves({ _id: 'id-2', _idempotencyKey: 'key-1' }),
+        true,
+      )) {
+        results.push(result);
+      }
+
+      expect(results.map((r) => r.statusCode)).to.eql([200, 200]);
+    });
+  });
+});
+
+async function* toAsyncIterable<T>(items: T[]): AsyncGenerator<T> {
+  for (const item of items) {
+    yield item;
+  }
+}
@@ -0,0 +1,128 @@
+import { expect, sinon } from '@loopback/testlab';
+import { EnvConfigHelper } from '../../../extensions/config-helpers/env-config-helper';
+import { BulkDeleteService } from '../../../services/bulk-delete.service';
+import { LoggingService } from '../../../services/logging.service';
+
+describe('Utilities: BulkDeleteService', () => {
+  let service: BulkDeleteService;
+  let repository: {
+    count: sinon.SinonStub;
+    findIds: sinon.SinonStub;
+    deleteAll: sinon.SinonStub;
+  };
+
+  beforeEach(() => {
+    delete process.env.bulk_delete_max_batch_size;
+    EnvConfigHelper.reset();
+
+    repository = {
+      count: sinon.stub().resolves({ count: 2 }),
+      findIds: sinon.stub().resolves(['1', '2']),
+      deleteAll: sinon.stub().resolves({ count: 2 }),
+    };
+    service = new BulkDeleteService(sinon.createStubInstance(LoggingService));
+  });
+
+  afterEach(() => {
+    delete process.env.bulk_delete_max_batch_size;
+    EnvConfigHelper.reset();
+  });
+
+  it('should delete exactly the matched records when confirmed', async () => {
+    // The session is bound as a non-enumerable property, as in a request
+    const options = {};
+    Object.defineProperty(options, 'session', {
+      value: 'test-session',
+      enumerable: false,
+    });
+
+    const result = await service.deleteAll(
+      repository,
+      { _kind: 'book' },
+      { confirm: true, deletedBy: 'user1' },
+      options,
+    );
+
+    expect(result.toJSON()).to.eql({ count: 2, ids: ['1', '2'] });
+    sinon.assert.calledWithExactly(
+      repository.findIds,
+      { and: [{ _kind: 'book' }, { _deletedDateTime: null }] },
+      options,
+    );
+    expect(repository.deleteAll.firstCall.args[0]).to.eql({
+      _id: { inq: ['1', '2'] },
+    });
+    expect(repository.deleteAll.firstCall.args[1]).to.containDeep({
+      deletedBy: 'user1',
+    });
+    expect(repository.deleteAll.firstCall.args[1].session).to.equal(
+      'test-session',
+    );
+  });
+
+  it('should report the number of records the repository deleted', async () => {
+    repository.deleteAll.resolves({ count: 1 });
+
+    const result = await service.deleteAll(
+      repository,
+      { _kind: 'book' },
+      { confirm: true },
+    );
+
+    expect(result.toJSON()).to.eql({ count: 1, ids: ['1', '2'] });
+  });
+
+  it('should leave the records in the trash out, even if the filter queries them', async () => {
+    const deleteds = { _deletedDateTime: { neq: null } };
+
+    await service.deleteAll(repository, deleteds, { dryRun: true });
+
+    const notInTrash = { and: [deleteds, { _deletedDateTime: null }] };
+    sinon.assert.calledWith(repository.count, notInTrash);
+    sinon.assert.calledWith(repository.findIds, notInTrash);
+  });
+
+  it('should only report the matched records in dry-run mode', async () => {
+    const result = await service.deleteAll(
+      repository,
+      { _kind: 'book' },
+      { dryRun: true },
+    );
+
+    expect(result.toJSON()).to.eql({ count: 2, ids: ['1', '2'], dryRun: true });
+    expect(repository.deleteAll.called).to.be.false();
+  });
+
+  it('should reject an unconfirmed delete', async () => {
+    try {
+      await service.deleteAll(repository, { _kind: 'book' }, {});
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.containDeep({
+        statusCode: 400,
+        code: 'BULK-DELETE-NOT-CONFIRMED',
+      });
+    }
+
+    expect(repository.count.called).to.be.false();
+    expect(repository.findIds.called).to.be.false();
+  });
+
+  it('should reject a filter matching more records than the maximum batch size', async () => {
+    process.env.bulk_delete_max_batch_size = '1';
+    EnvConfigHelper.reset();
+
+    try {
+      await service.deleteAll(repository, undefined, { confirm: true });
+      throw new Error('Expected error was not thrown');
+    } catch (error) {
+      expect(error).to.containDeep({
+        statusCode: 422,
+        code: 'BULK-DELETE-LIMIT-EXCEEDED',
+      });
+    }
+
+    expect(repository.findIds.called).to.be.false();
+    expect(repository.deleteAll.called).to.be.false();
+  });
+});
@@ -0,0 +1,303 @@
+import { expect, sinon } from '@loopback/testlab';
+import { EnvConfigHelper } from '../../../extensions/config-helpers/env-config-helper';
+import { ChangeEvent, HttpErrorResponse } from '../../../models';
+import { ChangeEventRepository } from '../../../repositories/core/change-event.repository';
+import { ChangeFeedService } from '../../../services/change-feed.service';
+import { LoggingService } from '../../../services/logging.service';
+import { WebhookService } from '../../../services/webhook.service';
+
+describe('Utilities: ChangeFeedService', () => {
+  let service: ChangeFeedService;
+  let repositoryStub: sinon.SinonStubbedInstance<ChangeEventRepository>;
+  let webhookServiceStub: sinon.SinonStubbedInstance<WebhookService>;
+
+  beforeEach(() => {
+    repositoryStub = sinon.createStubInstance(ChangeEventRepository);
+    webhookServiceStub = sinon.createStubInstance(WebhookService);
+    service = new ChangeFeedService(
+      sinon.createStubInstance(LoggingService),
+      repositoryStub as unknown as ChangeEventRepository,
+      webhookServiceStub as unknown as WebhookService,
+    );
+  });
+
+  afterEach(() => {
+    EnvConfigHelper.reset();
+  });
+
+  describe('recordChanges', () => {
+    it('should write an event for each record', async () => {
+      const options = { session: 'test-session' };
+
+      await service.recordChanges(
+        'entity',
+        'update',
+        [
+          { _id: '1', _kind: 'book', _version: 2, _lastUpdatedBy: 'user1' },
+          { _id: '2', _kind: 'book', _version: 5 },
+        ],
+        ['_name'],
+        options,
+      );
+
+      expect(repositoryStub.createAll.calledOnce).to.be.true();
+
+      const [events, passedOptions] = repositoryStub.createAll.firstCall.args;
+
+      expect(passedOptions).to.equal(options);
+      expect(events).to.have.length(2);
+      expect(events[0]).to.containDeep({
+        _recordType: 'entity',
+        _kind: 'book',
+        _recordId: '1',
+        _version: 2,
+        _operation: 'update',
+        _changedFields: ['_name'],
+        _actor: 'user1',
+      });
+      expect(events[0]).to.have.property('_changeDateTime');
+      expect(events[1]._actor).to.be.undefined();
+    });
+
+    it('should position the events by the time they were recorded', async () => {
+      // Later than the events recorded by the other tests
+      const systemTime = Date.now() + 60 * 60 * 1000;
+      const clock = sinon.useFakeTimers(systemTime);
+
+      try {
+        await service.recordChanges(
+          'entity',
+          'create',
+          [{ _id: '1' }, { _id: '2' }],
+          [],
+        );
+
+        const [events] = repositoryStub.createAll.firstCall.args;
+        expect(events.map((event) => event._sequence)).to.eql([
+          systemTime * 1000,
+          systemTime * 1000 + 1,
+        ]);
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it('should keep the order of the events recorded within a millisecond', async () => {
+      const clock = sinon.useFakeTimers(Date.now());
+
+      try {
+        // Concurrent operations on different records, without a transaction
+        await Promise.all([
+          service.recordChanges('entity', 'update', [{ _id: '1' }], []),
+          service.recordChanges('entity', 'update', [{ _id: '2' }], []),
+          service.recordChanges(
+            'list',
+            'update',
+            [{ _id: '3' }, { _id: '4' }],
+            [],
+          ),
+        ]);
+
+        const positions = repositoryStub.createAll
+          .getCalls()
+          .flatMap((call) => call.args[0].map((event) => event._sequence));
+        expect(positions).to.have.length(4);
+        expect(new Set(positions).size).to.equal(4);
+        expect(positions).to.eql([...positions].sort((a, b) => a! - b!));
+      } finally {
+        clock.restore();
+      }
+    });
+
+    it('should hand the written events and the records to the webhook service', async () => {
+      const options = { session: 'test-session' };
+      const record = { _id: '1', _kind: 'book', _name: 'Test Book' };
+      const created = [new ChangeEvent({ _id: 'event-1', _recordId: '1' })];
+      repositoryStub.createAll.resolves(created);
+
+      await service.recordChanges('entity', 'create', [record], [], options);
+
+      expect(
+        webhookServiceStub.enqueueDeliveries.calledOnceWithExactly(
+          created,
+          [record],
+          options,
+        ),
+      ).to.be.true();
+    });
+
+    it('should not write anything when there are no records', async () => {
+      await service.recordChanges('entity', 'delete', [], []);
+
+      expect(repositoryStub.createAll.called).to.be.false();
+      expect(webhookServiceStub.enqueueDeliveries.called).to.be.false();
+    });
+  });
+
+  describe('getChangedFields', () => {
+    it('should report all fields of created records except internal ones', () => {
+      expect(
+        service.getChangedFields(
+          undefined,
+          {
+            _id: '1',
+            _kind: 'book',
+            _name: 'Test Book',
+            _idempotencyKey: 'abc',
+          },
+          'create',
+        ),
+      ).to.eql(['_kind', '_name']);
+    });
+
+    it('should only compare the updated fields for updates', () => {
+      expect(
+        service.getChangedFields(
+          { _kind: 'book', _name: 'Old Name', description: 'Same' },
+          { _name: 'New Name', description: 'Same' },
+          'update',
+        ),
+      ).to.eql(['_name']);
+    });
+
+    it('should report removed fields for replaces', () => {
+      expect(
+        service.getChangedFields(
+          { _kind: 'book', _name: 'Test Book', description: 'Removed' },
+          { _kind: 'book', _name: 'Test Book', author: 'Added' },
+          'replace',
+        ),
+      ).to.eql(['description', 'author']);
+    });
+
+    it('should compare dates given as strings and Date objects as equal', () => {
+      expect(
+        service.getChangedFields(
+          { _validFromDateTime: new Date('2024-01-01T00:00:00.000Z') },
+          { _validFromDateTime: '2024-01-01T00:00:00.000Z' },
+          'update',
+        ),
+      ).to.eql([]);
+    });
+  });
+
+  describe('findChanges', () => {
+    it('should read the events recorded before the read lag in the order they were recorded', async () => {
+      const clock = sinon.useFakeTimers(new Date('2024-01-01T00:00:10.000Z'));
+      repositoryStub.find.resolves([]);
+
+      try {
+        await service.findChanges({ model: 'entity', kind: 'book' });
+      } finally {
+        clock.restore();
+      }
+
+      expect(repositoryStub.find.firstCall.args[0]).to.deepEqual({
+        where: {
+          and: [
+            { _recordType: 'entity' },
+            { _kind: 'book' },
+            {
+              _sequence: {
+                lte:
+                  (Date.parse('2024-01-01T00:00:10.000Z') -
+                    ChangeFeedService.DEFAULT_READ_LAG_MS) *
+                  1000,
+              },
+            },
+          ],
+        },
+        order: ['_sequence ASC', '_id ASC'],
+        limit: ChangeFeedService.DEFAULT_LIMIT,
+      });
+    });
+
+    it('should hold the events back for at least the transaction lifetime by default', () => {
+      expect(ChangeFeedService.DEFAULT_READ_LAG_MS).to.be.aboveOrEqual(
+        ChangeFeedService.MAX_TRANSACTION_LIFETIME_MS,
+      );
+    });
+
+    it('should accept a read lag of 0', async () => {
+      EnvConfigHelper.getInstance().set('CHANGE_FEED_READ_LAG_MS', '0');
+      const clock = sinon.useFakeTimers(new Date('2024-01-01T00:00:10.000Z'));
+      repositoryStub.find.resolves([]);
+
+      try {
+        await service.findChanges({});
+      } finally {
+        clock.restore();
+      }
+
+      expect(repositoryStub.find.firstCall.args[0]?.where).to.deepEqual({
+        and: [
+          {
+            _sequence: {
+              lte: Date.parse('2024-01-01T00:00:10.000Z') * 1000,
+            },
+          },
+        ],
+      });
+    });
+
+    it('should read the events recorded after the cursor', async () => {
+      EnvConfigHelper.getInstance().set('CHANGE_FEED_READ_LAG_MS', '1000');
+      const clock = sinon.useFakeTimers(new Date('2024-01-01T00:00:10.000Z'));
+      repositoryStub.findOne.resolves(
+        new ChangeEvent({ _id: 'cursor-id', _sequence: 7 }),
+      );
+      repositoryStub.find.resolves([]);
+
+      try {
+        await service.findChanges({ after: 'cursor-id', limit: 10 });
+      } finally {
+        clock.restore();
+      }
+
+      expect(repositoryStub.find.firstCall.args[0]).to.deepEqual({
+        where: {
+          and: [
+            {
+              or: [
+                { _sequence: { gt: 7 } },
+                { _sequence: 7, _id: { gt: 'cursor-id' } },
+              ],
+            },
+            {
+              _sequence: {
+                lte: Date.parse('2024-01-01T00:00:09.000Z') * 1000,
+              },
+            },
+          ],
+        },
+        order: ['_sequence ASC', '_id ASC'],
+        limit: 10,
+      });
+    });
+
+    it('should not return more events than the maximum limit', async () => {
+      repositoryStub.find.resolves([]);
+
+      await service.findChanges({ limit: 5000 });
+
+      expect(repositoryStub.find.firstCall.args[0]?.limit).to.equal(
+        ChangeFeedService.MAX_LIMIT,
+      );
+    });
+
+    it('should reject unknown cursors', async () => {
+      repositoryStub.findOne.resolves(null);
+
+      try {
+        await service.findChanges({ after: 'unknown' });
+        throw new Error('Expected error was not thrown');
+      } catch (error) {
+        expect(error).to.be.instanceOf(HttpErrorResponse);
+        expect(error.statusCode).to.equal(400);
+        expect(error.code).to.equal('INVALID-CHANGE-CURSOR');
+      }
+
+      expect(repositoryStub.find.called).to.be.false();
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Getter } from '@loopback/core';
 import { expect, sinon } from '@loopback/testlab';
 import { EnvConfigHelper } from '../../../extensions/config-helpers/env-config-helper';
+import { EntityReaction } from '../../../models/entity-reactions.model';
 import { GenericEntity } from '../../../models/entity.model';
 import { HttpErrorResponse } from '../../../models/http-error-response.model';
 import { List } from '../../../models/list.model';
@@ -1790,5 +1791,42 @@ describe('Utilities: LookupConstraint', () => {
         });
       });
     });
+
+    describe('entity reaction parents', () => {
+      it('should validate parent reactions of the same entity', async () => {
+        const reaction = new EntityReaction({
+          _kind: 'comment',
+          _entityId: 'entity-1',
+          _parents: ['tapp://localhost/entity-reactions/1'],
+        });
+
+        mockEntityReactionsRepository.find.resolves([
+          new EntityReaction({ _kind: 'comment', _entityId: 'entity-1' }),
+        ]);
+
+        await expect(
+          service.validateLookupConstraints(reaction, EntityReaction),
+        ).to.not.be.rejected();
+      });
+
+      it('should reject parent reactions of another entity without targetKind', async () => {
+        const reaction = new EntityReaction({
+          _kind: 'comment',
+          _entityId: 'entity-1',
+          _parents: ['tapp://localhost/entity-reactions/1'],
+        });
+
+        mockEntityReactionsRepository.find.resolves([
+          new EntityReaction({ _kind: 'comment', _entityId: 'entity-2' }),
+        ]);
+
+        await expect(
+          service.validateLookupConstraints(reaction, EntityReaction),
+        ).to.be.rejectedWith({
+          name: 'InvalidParentEntityIdError',
+          code: 'ENTITY-REACTION-INVALID-PARENT-ENTITY-ID',
+        });
+      });
+    });
   });
 });
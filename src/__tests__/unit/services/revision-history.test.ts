@@ -0,0 +1,211 @@
+import { expect, sinon } from '@loopback/testlab';
+import { EnvConfigHelper } from '../../../extensions/config-helpers/env-config-helper';
+import { HistoryConfigurationReader } from '../../../extensions/config-helpers/history-config-helper';
+import { RecordRevision } from '../../../models';
+import { RecordRevisionRepository } from '../../../repositories/core/record-revision.repository';
+import { LoggingService } from '../../../services/logging.service';
+import { RevisionHistoryService } from '../../../services/revision-history.service';
+
+describe('Utilities: RevisionHistoryService', () => {
+  let service: RevisionHistoryService;
+  let repositoryStub: sinon.SinonStubbedInstance<RecordRevisionRepository>;
+  let processEnvBackup: NodeJS.ProcessEnv;
+
+  const createService = () => {
+    EnvConfigHelper.reset();
+    repositoryStub = sinon.createStubInstance(RecordRevisionRepository);
+    service = new RevisionHistoryService(
+      sinon.createStubInstance(LoggingService),
+      new HistoryConfigurationReader(),
+      repositoryStub as unknown as RecordRevisionRepository,
+    );
+  };
+
+  beforeEach(() => {
+    processEnvBackup = { ...process.env };
+    Object.keys(process.env)
+      .filter((key) => key.toLowerCase().startsWith('history_'))
+      .forEach((key) => delete process.env[key]);
+  });
+
+  afterEach(() => {
+    process.env = processEnvBackup;
+    EnvConfigHelper.reset();
+  });
+
+  describe('configuration', () => {
+    it('should disable history by default', () => {
+      createService();
+
+      expect(service.isHistoryEnabled('entity', 'book')).to.be.false();
+    });
+
+    it('should enable history for the whole model', () => {
+      process.env.history_list = 'true';
+      createService();
+
+      expect(service.isHistoryEnabled('list', 'reading')).to.be.true();
+      expect(service.isHistoryEnabled('entity', 'book')).to.be.false();
+    });
+
+    it('should let kind configuration override the model configuration', () => {
+      process.env.history_entity = 'true';
+      process.env.history_entity_for_movie = 'false';
+      createService();
+
+      expect(service.isHistoryEnabled('entity', 'book')).to.be.true();
+      expect(service.isHistoryEnabled('entity', 'movie')).to.be.false();
+    });
+
+    it('should enable history for a single kind', () => {
+      process.env.HISTORY_ENTITY_REACTION_FOR_LIKE = 'true';
+      createService();
+
+      expect(service.isHistoryEnabled('entityReaction', 'like')).to.be.true();
+      expect(
+        service.isHistoryEnabled('entityReaction', 'comment'),
+      ).to.be.false();
+    });
+
+    it('should never enable history for unknown record types', () => {
+      process.env.history_entity = 'true';
+      createService();
+
+      expect(service.isHistoryEnabled('relation')).to.be.false();
+    });
+  });
+
+  describe('recordRevisions', () => {
+    it('should not write anything when history is disabled', async () => {
+      createService();
+
+      await service.recordRevision('entity', 'create', {
+        _id: '1',
+        _kind: 'book',
+        _version: 1,
+      });
+
+      expect(repositoryStub.createAll.called).to.be.false();
+    });
+
+    it('should write a snapshot without virtual and internal fields', async () => {
+      process.env.history_entity = 'true';
+      createService();
+
+      const options = { session: 'test-session' };
+
+      await service.recordRevision(
+        'entity',
+        'update',
+        {
+          _id: '1',
+          _kind: 'book',
+          _version: 2,
+          _name: 'Test Book',
+          _recordType: 'entity',
+          _idempotencyKey: 'abc',
+        },
+        options,
+      );
+
+      expect(repositoryStub.createAll.calledOnce).to.be.true();
+
+      const [revisions, passedOptions] =
+        repositoryStub.createAll.firstCall.args;
+
+      expect(passedOptions).to.equal(options);
+      expect(revisions).to.have.length(1);
+      expect(revisions[0]).to.containDeep({
+        _recordId: '1',
+        _recordType: 'entity',
+        _kind: 'book',
+        _version: 2,
+        _operation: 'update',
+        _snapshot: { _id: '1', _kind: 'book', _version: 2, _name: 'Test Book' },
+      });
+      expect(revisions[0]._snapshot).to.not.have.property('_recordType');
+      expect(revisions[0]._snapshot).to.not.have.property('_idempotencyKey');
+    });
+
+    it('should number deletion revisions after the last version', async () => {
+      process.env.history_entity = 'true';
+      createService();
+
+      await service.recordRevisions('entity', 'delete', [
+        { _id: '1', _kind: 'book', _version: 3 },
+        { _id: '2', _kind: 'book' },
+      ]);
+
+      const [revisions] = repositoryStub.createAll.firstCall.args;
+
+      expect(revisions.map((r) => r._version)).to.eql([4, 2]);
+    });
+
+    it('should only write revisions for kinds with history enabled', async () => {
+      process.env.history_entity_for_book = 'true';
+      createService();
+
+      await service.recordRevisions('entity', 'delete', [
+        { _id: '1', _kind: 'book', _version: 1 },
+        { _id: '2', _kind: 'movie', _version: 1 },
+      ]);
+
+      const [revisions] = repositoryStub.createAll.firstCall.args;
+
+      expect(revisions.map((r) => r._recordId)).to.eql(['1']);
+    });
+  });
+
+  describe('toRestoreData', () => {
+    it('should leave out server managed fields of the snapshot', () => {
+      createService();
+
+      const data = service.toRestoreData(
+        new RecordRevision({
+          _recordId: '1',
+          _version: 2,
+          _snapshot: {
+            _id: '1',
+            _kind: 'book',
+            _name: 'Test Book',
+            _version: 2,
+            _ownerUsersCount: 1,
+            _lastUpdatedDateTime: '2024-01-01T00:00:00.000Z',
+            _createdDateTime: '2023-01-01T00:00:00.000Z',
+            _ownerUsers: ['user1'],
+          },
+        }),
+      );
+
+      expect(data).to.deepEqual({
+        _kind: 'book',
+        _name: 'Test Book',
+        _createdDateTime: '2023-01-01T00:00:00.000Z',
+        _ownerUsers: ['user1'],
+      });
+    });
+  });
+
+  describe('findRevisions', () => {
+    it('should scope the query to the record and order by version', async () => {
+      createService();
+      repositoryStub.find.resolves([]);
+
+      await service.findRevisions('list', 'abc', {
+        where: { _operation: 'update' },
+        limit: 10,
+      });
+
+      expect(repositoryStub.find.firstCall.args[0]).to.deepEqual({
+        where: {
+          and: [
+            { _recordType: 'list', _recordId: 'abc' },
+            { _operation: 'update' },
+          ],
+        },
+        limit: 10,
+        order: ['_version ASC'],
+      });
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import { expect, sinon } from '@loopback/testlab';
+import * as crypto from 'crypto';
+import { EnvConfigHelper } from '../../../extensions/config-helpers/env-config-helper';
+import { ChangeEvent, WebhookDelivery } from '../../../models';
+import { WebhookDeadLetterRepository } from '../../../repositories/core/webhook-dead-letter.repository';
+import { WebhookDeliveryRepository } from '../../../repositories/core/webhook-delivery.repository';
+import { LoggingService } from '../../../services/logging.service';
+import { WebhookService } from '../../../services/webhook.service';
+
+describe('Utilities: WebhookService', () => {
+  let service: WebhookService;
+  let deliveryRepositoryStub: sinon.SinonStubbedInstance<WebhookDeliveryRepository>;
+  let deadLetterRepositoryStub: sinon.SinonStubbedInstance<WebhookDeadLetterRepository>;
+  let processEnvBackup: NodeJS.ProcessEnv;
+
+  const subscriptions = [
+    {
+      id: 'all-books',
+      url: 'http://localhost/books',
+      secret: 'books-secret',
+      models: ['entity'],
+      kinds: ['book'],
+    },
+    {
+      id: 'public-deletions',
+      url: 'http://localhost/deletions',
+      secret: 'deletions-secret',
+      operations: ['delete'],
+      scope: 'where[_visibility]=public',
+    },
+  ];
+
+  function createService(): WebhookService {
+    EnvConfigHelper.reset();
+
+    return new WebhookService(
+      sinon.createStubInstance(LoggingService),
+      deliveryRepositoryStub as unknown as WebhookDeliveryRepository,
+      deadLetterRepositoryStub as unknown as WebhookDeadLetterRepository,
+    );
+  }
+
+  function createEvent(data: Partial<ChangeEvent>): ChangeEvent {
+    return new ChangeEvent({
+      _id: 'event-1',
+      _recordType: 'entity',
+      _kind: 'book',
+      _recordId: 'record-1',
+      _operation: 'create',
+      _changeDateTime: '2024-01-01T00:00:00.000Z',
+      ...data,
+    });
+  }
+
+  beforeEach(() => {
+    processEnvBackup = { ...process.env };
+    process.env.WEBHOOKS = JSON.stringify(subscriptions);
+    process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+    process.env.WEBHOOK_RETRY_DELAY_MS = '100';
+
+    deliveryRepositoryStub = sinon.createStubInstance(
+      WebhookDeliveryRepository,
+    );
+    deadLetterRepositoryStub = sinon.createStubInstance(
+      WebhookDeadLetterRepository,
+    );
+    service = createService();
+  });
+
+  afterEach(() => {
+    process.env = processEnvBackup;
+    EnvConfigHelper.reset();
+    sinon.restore();
+  });
+
+  describe('configuration parsing', () => {
+    it('should not have subscriptions when WEBHOOKS is not set', () => {
+      delete process.env.WEBHOOKS;
+
+      expect(createService().hasSubscriptions()).to.be.false();
+    });
+
+    it('should skip subscriptions without a url or secret', () => {
+      process.env.WEBHOOKS = JSON.stringify([
+        { id: 'no-secret', url: 'http://localhost' },
+      ]);
+
+      expect(createService().hasSubscriptions()).to.be.false();
+    });
+
+    it('should throw for malformed JSON', () => {
+      process.env.WEBHOOKS = '[{';
+
+      expect(() => createService()).to.throw('Invalid configuration');
+    });
+  });
+
+  describe('enqueueDeliveries', () => {
+    it('should queue a delivery for each matching subscription', async () => {
+      const options = { session: 'test-session' };
+
+      await service.enqueueDeliveries(
+        [createEvent({ _operation: 'delete' })],
+        [{ _id: 'record-1', _kind: 'book', _visibility: 'public' }],
+        options,
+      );
+
+      const [deliveries, passedOptions] =
+        deliveryRepositoryStub.createAll.firstCall.args;
+
+      expect(passedOptions).to.equal(options);
+      expect(deliveries.map((d) => d._webhookId)).to.eql([
+        'all-books',
+        'public-deletions',
+      ]);
+      expect(deliveries[0]).to.containDeep({
+        _url: 'http://localhost/books',
+        _eventId: 'event-1',
+        _recordId: 'record-1',
+        _operation: 'delete',
+        _status: 'pending',
+        _attempts: 0,
+        _payload: {
+          event: { _id: 'event-1', _operation: 'delete' },
+          record: { _id: 'record-1', _visibility: 'public' },
+        },
+      });
+    });
+
+    it('should filter the subscriptions by model, kind, operation and scope', async () => {
+      await service.enqueueDeliveries(
+        [
+          createEvent({ _kind: 'movie' }),
+          createEvent({ _recordType: 'list', _operation: 'delete' }),
+        ],
+        [
+          { _id: 'record-1', _kind: 'movie' },
+          { _id: 'record-1', _kind: 'book', _visibility: 'private' },
+        ],
+      );
+
+      expect(deliveryRepositoryStub.createAll.called).to.be.false();
+    });
+
+    it('should not send the idempotency key of the record', async () => {
+      await service.enqueueDeliveries(
+        [createEvent({})],
+        [{ _id: 'record-1', _kind: 'book', _idempotencyKey: 'abc' }],
+      );
+
+      const [deliveries] = deliveryRepositoryStub.createAll.firstCall.args;
+
+      expect(
+        (deliveries[0]._payload as { record: object }).record,
+      ).to.not.have.property('_idempotencyKey');
+    });
+  });
+
+  describe('sign', () => {
+    it('should compute the HMAC-SHA256 of the body', () => {
+      const expected = crypto
+        .createHmac('sha256', 'secret')
+        .update('{"a":1}')
+        .digest('hex');
+
+      expect(service.sign('{"a":1}', 'secret')).to.equal(`sha256=${expected}`);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay with each failed attempt', () => {
+      expect(service.getRetryDelay(1)).to.equal(100);
+      expect(service.getRetryDelay(2)).to.equal(200);
+      expect(service.getRetryDelay(3)).to.equal(400);
+    });
+  });
+
+  describe('dispatchPendingDeliveries', () => {
+    let fetchStub: sinon.SinonStub;
+
+    function givenPendingDelivery(attempts: number): WebhookDelivery {
+      const delivery = new WebhookDelivery({
+        _id: 'delivery-1',
+        _webhookId: 'all-books',
+        _url: 'http://localhost/books',
+        _payload: { event: { _id: 'event-1' } },
+        _status: 'pending',
+        _attempts: attempts,
+        _nextAttemptDateTime: '2024-01-01T00:00:00.000Z',
+      });
+
+      deliveryRepositoryStub.find.resolves([delivery]);
+      deliveryRepositoryStub.updateAll.resolves({ count: 1 });
+
+      return delivery;
+    }
+
+    beforeEach(() => {
+      fetchStub = sinon.stub(global, 'fetch');
+    });
+
+    it('should post the signed payload and mark the delivery as delivered', async () => {
+      givenPendingDelivery(0);
+      fetchStub.resolves(new Response(null, { status: 204 }));
+
+      const attempted = await service.dispatchPendingDeliveries();
+
+      expect(attempted).to.equal(1);
+
+      const [url, init] = fetchStub.firstCall.args;
+      expect(url).to.equal('http://localhost/books');
+      expect(init.body).to.equal('{"event":{"_id":"event-1"}}');
+      expect(init.headers[WebhookService.SIGNATURE_HEADER]).to.equal(
+        service.sign(init.body, 'books-secret'),
+      );
+
+      expect(
+        deliveryRepositoryStub.updateById.firstCall.args[1],
+      ).to.containDeep({
+        _status: 'delivered',
+        _attempts: 1,
+        _lastResponseStatus: 204,
+      });
+    });
+
+    it('should schedule a retry when the subscriber fails', async () => {
+      givenPendingDelivery(1);
+      fetchStub.resolves(new Response(null, { status: 500 }));
+
+      const before = Date.now();
+      await service.dispatchPendingDeliveries();
+
+      const update = deliveryRepositoryStub.updateById.firstCall.args[1];
+      expect(update).to.containDeep({
+        _attempts: 2,
+        _lastResponseStatus: 500,
+      });
+      expect(
+        new Date(update._nextAttemptDateTime as string).getTime(),
+      ).to.be.aboveOrEqual(before + 200);
+      expect(deadLetterRepositoryStub.create.called).to.be.false();
+    });
+
+    it('should move the delivery to the dead letters after the last attempt', async () => {
+      givenPendingDelivery(2);
+      fetchStub.rejects(new Error('connect ECONNREFUSED'));
+
+      await service.dispatchPendingDeliveries();
+
+      expect(deadLetterRepositoryStub.create.firstCall.args[0]).to.containDeep({
+        _id: 'delivery-1',
+        _status: 'failed',
+        _attempts: 3,
+        _lastError: 'connect ECONNREFUSED',
+      });
+      expect(
+        deliveryRepositoryStub.deleteById.calledOnceWithExactly('delivery-1'),
+      ).to.be.true();
+    });
+
+    it('should take the lease of each delivery at the time it is claimed', async () => {
+      const first = givenPendingDelivery(0);
+      const second = new WebhookDelivery({
+        ...first.toJSON(),
+        _id: 'delivery-2',
+      });
+      deliveryRepositoryStub.find.resolves([first, second]);
+      // The first delivery takes a while to respond
+      fetchStub.onFirstCall().callsFake(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+
+        return new Response(null, { status: 204 });
+      });
+      fetchStub.resolves(new Response(null, { status: 204 }));
+
+      await service.dispatchPendingDeliveries();
+
+      const [firstLease, secondLease] = deliveryRepositoryStub.updateAll
+        .getCalls()
+        .map((call) =>
+          new Date(call.args[0]._nextAttemptDateTime as string).getTime(),
+        );
+      expect(secondLease - firstLease).to.be.aboveOrEqual(20);
+    });
+
+    it('should skip deliveries claimed by another instance', async () => {
+      givenPendingDelivery(0);
+      deliveryRepositoryStub.updateAll.resolves({ count: 0 });
+
+      const attempted = await service.dispatchPendingDeliveries();
+
+      expect(attempted).to.equal(0);
+      expect(fetchStub.called).to.be.false();
+    });
+  });
+});
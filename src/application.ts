@@ -90,6 +90,11 @@ export class EntityPersistenceApplication extends BootMixin(
         extensions: ['.interceptor.js'],
         nested: true,
       },
+      observers: {
+        dirs: ['observers'],
+        extensions: ['.observer.js'],
+        nested: true,
+      },
     };
   }
 }
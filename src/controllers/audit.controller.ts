@@ -0,0 +1,86 @@
+import { inject } from '@loopback/context';
+import type { Filter } from '@loopback/repository';
+import { get, getJsonSchema, getModelSchemaRef, param } from '@loopback/rest';
+import { AuditEntry, HttpErrorResponse } from '../models';
+import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { AuditLogBindings } from '../services/audit-log.bindings';
+import { AuditLogService } from '../services/audit-log.service';
+
+export class AuditController {
+  constructor(
+    @inject(AuditLogBindings.SERVICE)
+    private auditLogService: AuditLogService,
+  ) {}
+
+  @get('/audit', {
+    operationId: 'findAuditEntries',
+    responses: {
+      '200': {
+        description:
+          'Array of audit entries, in the order they were recorded unless the filter specifies another order',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(AuditEntry),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async find(
+    @param.query.string('recordId', {
+      description: 'Id of the changed record.',
+    })
+    recordId?: string,
+    @param.query.string('actor', {
+      description: 'Id of the user who performed the operation.',
+    })
+    actor?: string,
+    @param.query.dateTime('from', {
+      description: 'Only return the entries recorded at or after this time.',
+    })
+    from?: Date,
+    @param.query.dateTime('to', {
+      description: 'Only return the entries recorded at or before this time.',
+    })
+    to?: Date,
+    @param.query.object('filter', getFilterSchemaFor(AuditEntry))
+    filter?: Filter<AuditEntry>,
+  ): Promise<AuditEntry[]> {
+    return this.auditLogService.findEntries(
+      {
+        recordId,
+        actor,
+        from: from?.toISOString(),
+        to: to?.toISOString(),
+      },
+      filter,
+    );
+  }
+}
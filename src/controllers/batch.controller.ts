@@ -0,0 +1,171 @@
+import { inject } from '@loopback/context';
+import { Options, repository } from '@loopback/repository';
+import {
+  getJsonSchema,
+  getModelSchemaRef,
+  post,
+  requestBody,
+} from '@loopback/rest';
+import { transactional } from '../decorators';
+import { BatchOperation, BatchResult, HttpErrorResponse } from '../models';
+import {
+  EntityReactionsRepository,
+  EntityRepository,
+  ListEntityRelationRepository,
+  ListReactionsRepository,
+  ListRepository,
+} from '../repositories';
+import { BatchBindings } from '../services/batch.bindings';
+import { BatchService } from '../services/batch.service';
+
+export class BatchController {
+  constructor(
+    @repository(EntityRepository)
+    public entityRepository: EntityRepository,
+    @repository(ListRepository)
+    public listRepository: ListRepository,
+    @repository(ListEntityRelationRepository)
+    public listEntityRelationRepository: ListEntityRelationRepository,
+    @repository(EntityReactionsRepository)
+    public entityReactionsRepository: EntityReactionsRepository,
+    @repository(ListReactionsRepository)
+    public listReactionsRepository: ListReactionsRepository,
+    @inject(BatchBindings.SERVICE)
+    private batchService: BatchService,
+  ) {}
+
+  @post('/batch', {
+    operationId: 'executeBatch',
+    responses: {
+      '200': {
+        description:
+          'Result of each operation, in the order of the operations in the request body',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(BatchResult),
+            },
+          },
+        },
+      },
+      '429': {
+        description: 'Record limit is exceeded by an operation',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '412': {
+        description: 'Precondition failed - version mismatch in an operation',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Uniqueness is violated by an operation',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'Record of an operation not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'Unprocessable entity - an operation is invalid or refers to an unknown result',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed request body',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @transactional()
+  async executeBatch(
+    @requestBody({
+      description:
+        'Operations to apply in order, all or none. Later operations can refer to the results of earlier ones with `$ref:<index>.<path>`, e.g. `$ref:0._id`.',
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            minItems: 1,
+            maxItems: BatchService.MAX_OPERATIONS,
+            items: getModelSchemaRef(BatchOperation),
+          },
+        },
+      },
+    })
+    operations: BatchOperation[],
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BatchResult[]> {
+    return this.batchService.executeAll(
+      operations,
+      {
+        entities: this.entityRepository,
+        lists: this.listRepository,
+        relations: this.listEntityRelationRepository,
+        'entity-reactions': this.entityReactionsRepository,
+        'list-reactions': this.listReactionsRepository,
+      },
+      options,
+    );
+  }
+}
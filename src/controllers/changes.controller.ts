@@ -0,0 +1,85 @@
+import { inject } from '@loopback/context';
+import { get, getJsonSchema, getModelSchemaRef, param } from '@loopback/rest';
+import { ChangeEvent, HttpErrorResponse } from '../models';
+import { ChangeFeedBindings } from '../services/change-feed.bindings';
+import { ChangeFeedService } from '../services/change-feed.service';
+
+export class ChangesController {
+  constructor(
+    @inject(ChangeFeedBindings.SERVICE)
+    private changeFeedService: ChangeFeedService,
+  ) {}
+
+  @get('/changes', {
+    operationId: 'findChanges',
+    responses: {
+      '200': {
+        description:
+          'Array of change events recorded after the cursor, in the order they were recorded',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(ChangeEvent),
+            },
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - unknown cursor or malformed query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async find(
+    @param.query.string('after', {
+      description:
+        'Id of the last change event processed by the caller. Only the events recorded after it are returned.',
+    })
+    after?: string,
+    @param.query.string('model', {
+      description: 'Type of the changed records.',
+      schema: {
+        type: 'string',
+        enum: ['entity', 'list', 'entityReaction', 'listReaction'],
+      },
+    })
+    model?: string,
+    @param.query.string('kind', {
+      description: 'Kind of the changed records.',
+    })
+    kind?: string,
+    @param.query.number('limit', {
+      description: `Maximum number of events to return. Defaults to ${ChangeFeedService.DEFAULT_LIMIT}.`,
+      schema: {
+        type: 'number',
+        minimum: 1,
+        maximum: ChangeFeedService.MAX_LIMIT,
+      },
+    })
+    limit?: number,
+  ): Promise<ChangeEvent[]> {
+    return this.changeFeedService.findChanges({ after, model, kind, limit });
+  }
+}
@@ -20,9 +20,24 @@ import {
   requestBody,
   RestBindings,
   Request,
+  Response,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
 import {
   GenericEntity,
@@ -46,6 +61,8 @@ export class EntitiesThroughListController {
     protected listRepository: ListRepository,
     @inject(RestBindings.Http.REQUEST) private req: Request,
     @inject('services.LoggingService') private logger: LoggingService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
   ) {}
 
   @get('/lists/{id}/entities', {
@@ -110,6 +127,17 @@ export class EntitiesThroughListController {
     @param.query.object('setThrough') setThrough?: Set,
     @param.query.object('filterThrough')
     filterThrough?: Filter<ListToEntityRelation>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<GenericEntity[]> {
     if (set) {
       filter = new SetFilterBuilder<GenericEntity>(set, {
@@ -128,7 +156,33 @@ export class EntitiesThroughListController {
 
     const repo = await this.listRepository.entities(id);
 
-    return repo.find(filter, filterThrough);
+    const responseLimit =
+      this.responseLimitConfigReader.getEntityResponseLimit();
+    const pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const entities = await repo.find(pageFilter, filterThrough);
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(entities, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = await repo.count(filter?.where, filterThrough?.where);
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return entities;
   }
 
   @transactional()
@@ -21,13 +21,58 @@ import {
   requestBody,
   RestBindings,
   Request,
+  Response,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  SearchConfigBindings,
+  SearchConfigurationReader,
+} from '../extensions/config-helpers/search-config-helper';
 import { processIncludes } from '../extensions/types/sets-in-inclusions';
 import { processLookups } from '../extensions/types/sets-in-lookups';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
+import {
+  applyIfMatchVersion,
+  buildEtag,
+  parseIfMatchVersion,
+} from '../extensions/utils/etag-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import { readImportLines } from '../extensions/utils/import-helper';
+import type { JsonPatchOperation } from '../extensions/utils/json-patch-helper';
+import {
+  NDJSON_CONTENT_TYPE,
+  writeNdjson,
+} from '../extensions/utils/ndjson-helper';
+import { extendOptions } from '../extensions/utils/options-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
+import {
+  applySearchPage,
+  countSearchMatches,
+  findSearchPage,
+  sortBySearchPage,
+} from '../extensions/utils/search-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
-import { GenericEntity, HttpErrorResponse } from '../models';
+import {
+  AggregateBucket,
+  BulkCreateResult,
+  BulkDeleteResult,
+  GenericEntity,
+  HttpErrorResponse,
+  ImportResult,
+  RecordRevision,
+} from '../models';
 import {
   ALWAYS_HIDDEN_FIELDS,
   STRICTLY_INTERNAL_FIELDS,
@@ -36,7 +81,21 @@ import {
   UpdateExcludedFields,
 } from '../models/base-types/unmodifiable-common-fields';
 import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { getImportRequestBodyContent } from '../openapi/import-schemas';
+import {
+  getJsonPatchSchema,
+  JSON_PATCH_CONTENT_TYPE,
+} from '../openapi/json-patch-schemas';
 import { EntityRepository } from '../repositories';
+import { AggregateBindings } from '../services/aggregate.bindings';
+import { AggregateService } from '../services/aggregate.service';
+import { BulkCreateBindings } from '../services/bulk-create.bindings';
+import {
+  BulkCreateMode,
+  BulkCreateService,
+} from '../services/bulk-create.service';
+import { BulkDeleteBindings } from '../services/bulk-delete.bindings';
+import { BulkDeleteService } from '../services/bulk-delete.service';
 import { LoggingService } from '../services/logging.service';
 
 export class EntitiesController {
@@ -45,6 +104,16 @@ export class EntitiesController {
     public entityRepository: EntityRepository,
     @inject(RestBindings.Http.REQUEST) private req: Request,
     @inject('services.LoggingService') private logger: LoggingService,
+    @inject(BulkCreateBindings.SERVICE)
+    private bulkCreateService: BulkCreateService,
+    @inject(BulkDeleteBindings.SERVICE)
+    private bulkDeleteService: BulkDeleteService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
+    @inject(SearchConfigBindings.CONFIG_READER)
+    private searchConfigReader: SearchConfigurationReader,
+    @inject(AggregateBindings.SERVICE)
+    private aggregateService: AggregateService,
   ) {}
 
   @post('/entities', {
@@ -142,6 +211,186 @@ export class EntitiesController {
     return this.entityRepository.create(entity, options);
   }
 
+  @post('/entities/bulk', {
+    operationId: 'createEntities',
+    responses: {
+      '200': {
+        description:
+          'Result of each item, in the order of the items in the request body',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(BulkCreateResult),
+            },
+          },
+        },
+      },
+      '429': {
+        description: 'Entity limit is exceeded by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Entity uniqueness is violated by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'Unprocessable entity - an item is invalid, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed request body or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @transactional()
+  async createBulk(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            maxItems: BulkCreateService.MAX_ITEMS,
+            items: getModelSchemaRef(GenericEntity, {
+              title: 'NewEntity',
+              exclude: STRICTLY_INTERNAL_FIELDS as (keyof GenericEntity)[],
+              includeRelations: false,
+            }),
+          },
+        },
+      },
+    })
+    entities: Omit<GenericEntity, StrictlyInternalFields>[],
+    @param.query.string('mode', {
+      description:
+        'atomic: if an item cannot be created, none of the items are created. best-effort: the items that can be created are created, and the others are reported with their errors. Defaults to atomic.',
+      schema: {
+        type: 'string',
+        enum: ['atomic', 'best-effort'],
+      },
+    })
+    mode: BulkCreateMode = 'atomic',
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkCreateResult[]> {
+    return this.bulkCreateService.createAll(
+      entities,
+      mode,
+      (item, itemOptions) => this.entityRepository.create(item, itemOptions),
+      options,
+    );
+  }
+
+  @post('/entities/import', {
+    operationId: 'importEntities',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the result of each line, in the order of the lines in the import file',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ImportResult),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed CSV header or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async import(
+    @requestBody({
+      description:
+        'The entities to create, either as newline-delimited JSON with one entity on each line, or as CSV with a header row',
+      required: true,
+      content: getImportRequestBodyContent(),
+    })
+    body: Request,
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.boolean('dryRun', {
+      description:
+        'Checks each line as if the entity was created, without creating any entities.',
+    })
+    dryRun?: boolean,
+  ): Promise<Response> {
+    const results = this.bulkCreateService.importAll(
+      readImportLines(body, body.headers['content-type']),
+      this.entityRepository.entityClass,
+      (record, recordOptions) =>
+        this.entityRepository.create(record, recordOptions),
+      dryRun,
+    );
+
+    return writeNdjson(response, results);
+  }
+
   @get('/entities/count', {
     operationId: 'countEntities',
     responses: {
@@ -198,6 +447,86 @@ export class EntitiesController {
     return this.entityRepository.count(filter.where);
   }
 
+  @get('/entities/aggregate', {
+    operationId: 'aggregateEntities',
+    responses: {
+      '200': {
+        description:
+          'Buckets of the matching Entity model instances, with the requested metrics',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(AggregateBucket),
+            },
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed where, groupBy or metrics query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async aggregate(
+    @param.query.object('set') set?: Set,
+    @param.where(GenericEntity) where?: Where<GenericEntity>,
+    @param.query.string('groupBy', {
+      description:
+        'Comma separated fields to group the records by, e.g. `_kind,status`. A date field followed by an interval builds a date histogram, e.g. `_createdDateTime:month`.',
+    })
+    groupBy?: string,
+    @param.query.string('metrics', {
+      description:
+        'Comma separated metrics to compute for each bucket: `count`, or `sum`, `avg`, `min` and `max` of a field, e.g. `count,avg:price`. Defaults to `count`.',
+    })
+    metrics?: string,
+  ): Promise<AggregateBucket[]> {
+    const filterBuilder = new FilterBuilder<GenericEntity>();
+
+    if (where) {
+      filterBuilder.where(where);
+    }
+
+    let filter = filterBuilder.build();
+
+    if (set) {
+      filter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return this.aggregateService.aggregate(
+      this.entityRepository,
+      filter.where,
+      groupBy,
+      metrics,
+    );
+  }
+
   @get('/entities', {
     operationId: 'findEntities',
     responses: {
@@ -245,6 +574,22 @@ export class EntitiesController {
     @param.query.object('set') set?: Set,
     @param.query.object('filter', getFilterSchemaFor(GenericEntity))
     filter?: Filter<GenericEntity>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @param.query.string('search', {
+      description:
+        'Full-text search on the fields configured for search. Matching records are ordered by relevance unless filter[order] is given.',
+    })
+    search?: string,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<GenericEntity[]> {
     if (set) {
       filter = new SetFilterBuilder<GenericEntity>(set, {
@@ -256,7 +601,124 @@ export class EntitiesController {
     processIncludes<GenericEntity>(filter);
     processLookups<GenericEntity>(filter);
 
-    return this.entityRepository.find(filter);
+    const responseLimit =
+      this.responseLimitConfigReader.getEntityResponseLimit();
+    let pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const searchPage = search
+      ? await findSearchPage(
+          this.entityRepository,
+          this.searchConfigReader,
+          'entity',
+          search,
+          pageFilter,
+          responseLimit,
+        )
+      : undefined;
+
+    if (searchPage) {
+      pageFilter = applySearchPage(pageFilter, searchPage);
+    }
+
+    const entities = sortBySearchPage(
+      await this.entityRepository.find(pageFilter),
+      searchPage,
+    );
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(entities, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = search
+        ? await countSearchMatches(
+            this.entityRepository,
+            this.searchConfigReader,
+            'entity',
+            search,
+            filter?.where,
+          )
+        : await this.entityRepository.count(filter?.where);
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return entities;
+  }
+
+  @get('/entities/export', {
+    operationId: 'exportEntities',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the matching Entity model instances, in ascending order of their ids',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(GenericEntity, {
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof GenericEntity)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async export(
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(GenericEntity))
+    filter?: Filter<GenericEntity>,
+    @param.query.string('after', {
+      description:
+        'Resumes an interrupted export after the entity with this id. Use the _id of the last entity received.',
+    })
+    after?: string,
+  ): Promise<Response> {
+    if (set) {
+      filter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return writeNdjson(response, this.entityRepository.iterate(filter, after));
   }
 
   @transactional()
@@ -331,17 +793,115 @@ export class EntitiesController {
     return this.entityRepository.updateAll(entity, filter.where, options);
   }
 
-  @get('/entities/{id}', {
-    operationId: 'findEntityById',
+  @transactional()
+  @del('/entities', {
+    operationId: 'deleteEntities',
     responses: {
       '200': {
-        description: 'Entity model instance',
+        description:
+          'Number and ids of the matched entities. Nothing is deleted in dry-run mode.',
         content: {
           'application/json': {
-            schema: getModelSchemaRef(GenericEntity, {
-              includeRelations: true,
-              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof GenericEntity)[],
-            }),
+            schema: getModelSchemaRef(BulkDeleteResult),
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed filter or query parameter, or the delete is not confirmed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Filter matches more entities than the maximum batch size',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async deleteAll(
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(GenericEntity))
+    filter?: Filter<GenericEntity>,
+    @param.query.boolean('confirm', {
+      description:
+        'Must be true to delete the matched entities. Not required in dry-run mode.',
+    })
+    confirm?: boolean,
+    @param.query.boolean('dryRun', {
+      description:
+        'Returns the number and ids of the matched entities without deleting them.',
+    })
+    dryRun?: boolean,
+    @param.query.string('deletedBy', {
+      description:
+        'Id of the user deleting the entities. Kept in `_deletedBy` when the entities are moved to the trash.',
+    })
+    deletedBy?: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkDeleteResult> {
+    const filterBuilder = new FilterBuilder<GenericEntity>();
+
+    if (filter?.where) {
+      filterBuilder.where(filter.where);
+    }
+
+    let whereFilter = filterBuilder.build();
+
+    if (set) {
+      whereFilter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: whereFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(whereFilter);
+
+    return this.bulkDeleteService.deleteAll(
+      this.entityRepository,
+      whereFilter.where,
+      { confirm, dryRun, deletedBy },
+      options,
+    );
+  }
+
+  @get('/entities/{id}', {
+    operationId: 'findEntityById',
+    responses: {
+      '200': {
+        description: 'Entity model instance',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(GenericEntity, {
+              includeRelations: true,
+              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof GenericEntity)[],
+            }),
           },
         },
       },
@@ -387,12 +947,20 @@ export class EntitiesController {
     @param.path.string('id') id: string,
     @param.query.object('filter', getFilterSchemaFor(GenericEntity))
     filter?: FilterExcludingWhere<GenericEntity>,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<GenericEntity> {
     sanitizeFilterFields(filter);
     processIncludes<GenericEntity>(filter);
     processLookups<GenericEntity>(filter);
 
-    return this.entityRepository.findById(id, filter);
+    const record = await this.entityRepository.findById(id, filter);
+    const etag = buildEtag(record._version);
+
+    if (etag) {
+      response?.setHeader('ETag', etag);
+    }
+
+    return record;
   }
 
   @transactional()
@@ -402,6 +970,30 @@ export class EntitiesController {
       '204': {
         description: 'Entity PATCH success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Test operation of the JSON Patch failed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'Entity not found',
         content: {
@@ -455,6 +1047,8 @@ export class EntitiesController {
   async updateById(
     @param.path.string('id') id: string,
     @requestBody({
+      description:
+        'Fields to update. Arrays and numbers can also be modified relative to their current value with the `$push`, `$addToSet`, `$pull` and `$inc` operators.',
       content: {
         'application/json': {
           schema: getModelSchemaRef(GenericEntity, {
@@ -464,12 +1058,30 @@ export class EntitiesController {
             includeRelations: false,
           }),
         },
+        [JSON_PATCH_CONTENT_TYPE]: {
+          schema: getJsonPatchSchema(),
+        },
       },
     })
-    entity: Omit<GenericEntity, UpdateExcludedFields>,
+    entity: Omit<GenericEntity, UpdateExcludedFields> | JsonPatchOperation[],
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: any = {},
   ): Promise<void> {
+    // A JSON Patch document is the only array accepted as the body
+    if (Array.isArray(entity)) {
+      await this.entityRepository.patchById(
+        id,
+        entity,
+        parseIfMatchVersion(ifMatch),
+        options,
+      );
+
+      return;
+    }
+
+    applyIfMatchVersion(entity, ifMatch);
+
     await this.entityRepository.updateById(id, entity, options);
   }
 
@@ -480,6 +1092,18 @@ export class EntitiesController {
       '204': {
         description: 'Entity PUT success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'Entity not found',
         content: {
@@ -544,9 +1168,12 @@ export class EntitiesController {
       },
     })
     entity: Omit<GenericEntity, UpdateExcludedFields>,
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    applyIfMatchVersion(entity, ifMatch);
+
     await this.entityRepository.replaceById(id, entity, options);
   }
 
@@ -597,10 +1224,18 @@ export class EntitiesController {
   })
   async deleteById(
     @param.path.string('id') id: string,
+    @param.query.string('deletedBy', {
+      description:
+        'Id of the user deleting the entity. Kept in `_deletedBy` when the entity is moved to the trash.',
+    })
+    deletedBy?: string,
     @inject('active.transaction.options', { optional: true })
     options: any = {},
   ): Promise<void> {
-    await this.entityRepository.deleteById(id, options);
+    await this.entityRepository.deleteById(
+      id,
+      deletedBy ? extendOptions(options, { deletedBy }) : options,
+    );
   }
 
   @get('/entities/{id}/parents', {
@@ -751,21 +1386,43 @@ export class EntitiesController {
     return this.entityRepository.findChildren(id, filter);
   }
 
-  @post('/entities/{id}/children', {
-    operationId: 'createChildEntity',
+  @get('/entities/{id}/ancestors', {
+    operationId: 'findAncestorsByEntityId',
     responses: {
       '200': {
-        description: 'Child Entity model instance',
+        description:
+          'Array of ancestor Entity model instances, annotated with their distance to the given record in _relativeDepth',
         content: {
           'application/json': {
-            schema: getModelSchemaRef(GenericEntity, {
-              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof GenericEntity)[],
-            }),
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(GenericEntity, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof GenericEntity)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given Entity, 1 for its parents, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
           },
         },
       },
-      '429': {
-        description: 'Entity limit is exceeded',
+      '404': {
+        description: 'Entity not found',
         content: {
           'application/json': {
             schema: {
@@ -776,8 +1433,8 @@ export class EntitiesController {
           },
         },
       },
-      '409': {
-        description: 'Entity name already exists.',
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
         content: {
           'application/json': {
             schema: {
@@ -788,8 +1445,8 @@ export class EntitiesController {
           },
         },
       },
-      '422': {
-        description: 'Unprocessable entity',
+      '500': {
+        description: 'Internal server error',
         content: {
           'application/json': {
             schema: {
@@ -800,8 +1457,70 @@ export class EntitiesController {
           },
         },
       },
+    },
+  })
+  async findAncestors(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(GenericEntity))
+    filter?: Filter<GenericEntity>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go up the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<GenericEntity[]> {
+    if (set) {
+      filter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<GenericEntity>(filter);
+    processLookups<GenericEntity>(filter);
+
+    return this.entityRepository.findAncestors(id, filter, maxDepth);
+  }
+
+  @get('/entities/{id}/descendants', {
+    operationId: 'findDescendantsByEntityId',
+    responses: {
+      '200': {
+        description:
+          'Array of descendant Entity model instances, annotated with their distance to the given record in _relativeDepth',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(GenericEntity, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof GenericEntity)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given Entity, 1 for its children, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
       '404': {
-        description: 'Parent entity not found',
+        description: 'Entity not found',
         content: {
           'application/json': {
             schema: {
@@ -838,27 +1557,720 @@ export class EntitiesController {
       },
     },
   })
-  @transactional()
-  async createChild(
+  async findDescendants(
     @param.path.string('id') id: string,
-    @requestBody({
-      content: {
-        'application/json': {
-          schema: getModelSchemaRef(GenericEntity, {
-            title: 'NewChildEntity',
-            exclude: [
-              ...STRICTLY_INTERNAL_FIELDS,
-              '_parents',
-            ] as (keyof GenericEntity)[],
-            includeRelations: false,
-          }),
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(GenericEntity))
+    filter?: Filter<GenericEntity>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go down the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<GenericEntity[]> {
+    if (set) {
+      filter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<GenericEntity>(filter);
+    processLookups<GenericEntity>(filter);
+
+    return this.entityRepository.findDescendants(id, filter, maxDepth);
+  }
+
+  @get('/entities/tree', {
+    operationId: 'findEntityTree',
+    responses: {
+      '200': {
+        description:
+          'Array of Entity model instances without parents, with their descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(GenericEntity, {
+                includeRelations: true,
+                exclude: [
+                  ...ALWAYS_HIDDEN_FIELDS,
+                  '_relationMetadata',
+                ] as (keyof GenericEntity)[],
+              }),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
         },
       },
+    },
+  })
+  async findTree(
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(GenericEntity))
+    filter?: Filter<GenericEntity>,
+    @param.query.string('rootKind', {
+      description:
+        'Kind of the records at the top of the tree. All records without parents are at the top if not given.',
     })
-    entity: Omit<GenericEntity, StrictlyInternalFields | '_parents'>,
-    @inject('active.transaction.options', { optional: true })
-    options: Options = {},
-  ): Promise<GenericEntity> {
-    return this.entityRepository.createChild(id, entity, options);
+    rootKind?: string,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the top of the tree. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<GenericEntity[]> {
+    if (set) {
+      filter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<GenericEntity>(filter);
+    processLookups<GenericEntity>(filter);
+
+    return this.entityRepository.findTree(filter, rootKind, maxDepth);
+  }
+
+  @get('/entities/{id}/tree', {
+    operationId: 'findEntityTreeById',
+    responses: {
+      '200': {
+        description:
+          'Entity model instance with its descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(GenericEntity, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof GenericEntity)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Entity not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findTreeById(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(GenericEntity))
+    filter?: Filter<GenericEntity>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the record. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<GenericEntity> {
+    if (set) {
+      filter = new SetFilterBuilder<GenericEntity>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<GenericEntity>(filter);
+    processLookups<GenericEntity>(filter);
+
+    return this.entityRepository.findTreeById(id, filter, maxDepth);
+  }
+
+  @post('/entities/{id}/children', {
+    operationId: 'createChildEntity',
+    responses: {
+      '200': {
+        description: 'Child Entity model instance',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(GenericEntity, {
+              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof GenericEntity)[],
+            }),
+          },
+        },
+      },
+      '429': {
+        description: 'Entity limit is exceeded',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Entity name already exists.',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'Parent entity not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @transactional()
+  async createChild(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: getModelSchemaRef(GenericEntity, {
+            title: 'NewChildEntity',
+            exclude: [
+              ...STRICTLY_INTERNAL_FIELDS,
+              '_parents',
+            ] as (keyof GenericEntity)[],
+            includeRelations: false,
+          }),
+        },
+      },
+    })
+    entity: Omit<GenericEntity, StrictlyInternalFields | '_parents'>,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<GenericEntity> {
+    return this.entityRepository.createChild(id, entity, options);
+  }
+
+  @transactional()
+  @post('/entities/{id}/move', {
+    operationId: 'moveEntity',
+    responses: {
+      '200': {
+        description: 'Entity moved to its new parent',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(GenericEntity, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof GenericEntity)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Neither a from nor a to parent is given',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'Entity not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'The entity does not have the from parent, the to parent does not exist, or the new parents violate a lookup constraint or form a cycle',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async move(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            title: 'MoveEntity',
+            properties: {
+              from: {
+                type: 'string',
+                description: 'ID of the parent to detach the entity from',
+              },
+              to: {
+                type: 'string',
+                description: 'ID of the parent to attach the entity to',
+              },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+          },
+        },
+      },
+    })
+    body: { from?: string; to?: string },
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<GenericEntity> {
+    return this.entityRepository.move(id, body.from, body.to, options);
+  }
+
+  @get('/entities/{id}/revisions', {
+    operationId: 'findEntityRevisions',
+    responses: {
+      '200': {
+        description: 'Array of revisions of the entity, ordered by version',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(RecordRevision),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisions(
+    @param.path.string('id') id: string,
+    @param.query.object('filter', getFilterSchemaFor(RecordRevision))
+    filter?: Filter<RecordRevision>,
+  ): Promise<RecordRevision[]> {
+    sanitizeFilterFields(filter);
+
+    return this.entityRepository.findRevisions(id, filter);
+  }
+
+  @get('/entities/{id}/revisions/{version}', {
+    operationId: 'findEntityRevisionByVersion',
+    responses: {
+      '200': {
+        description: 'Revision of the entity with the given version',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(RecordRevision),
+          },
+        },
+      },
+      '404': {
+        description: 'Revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisionByVersion(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+  ): Promise<RecordRevision> {
+    return this.entityRepository.findRevisionByVersion(id, version);
+  }
+
+  @transactional()
+  @post('/entities/{id}/revisions/{version}/restore', {
+    operationId: 'restoreEntityRevision',
+    responses: {
+      '200': {
+        description: 'Entity restored to the given revision',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(GenericEntity, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof GenericEntity)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Entity or revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Restored data violates a uniqueness constraint',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async restoreRevision(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+    @param.header.string('If-Match') ifMatch?: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<GenericEntity> {
+    return this.entityRepository.restoreRevision(
+      id,
+      version,
+      parseIfMatchVersion(ifMatch),
+      options,
+    );
+  }
+
+  @transactional()
+  @post('/entities/{id}/restore', {
+    operationId: 'restoreEntity',
+    responses: {
+      '200': {
+        description: 'Entity taken out of the trash',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(GenericEntity, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof GenericEntity)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Entity not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description:
+          'Entity is not in the trash or violates a uniqueness constraint',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async restore(
+    @param.path.string('id') id: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<GenericEntity> {
+    return this.entityRepository.restoreDeletedById(id, options);
+  }
+
+  @post('/entities/purge', {
+    operationId: 'purgeEntityTrash',
+    responses: {
+      '200': {
+        description: 'Number of entities permanently deleted from the trash',
+        content: { 'application/json': { schema: CountSchema } },
+      },
+      '400': {
+        description: 'Bad request - malformed query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async purge(
+    @param.query.number('retentionDays', {
+      description:
+        'Purge entities that have been in the trash for longer than this number of days. Defaults to the configured retention window.',
+      schema: { type: 'number', minimum: 0 },
+    })
+    retentionDays?: number,
+  ): Promise<Count> {
+    return this.entityRepository.purgeDeleted(retentionDays);
+  }
+
+  @post('/entities/rebuild-reaction-counts', {
+    operationId: 'rebuildEntityReactionCounts',
+    responses: {
+      '200': {
+        description:
+          'Number of entities whose reaction counters were recomputed',
+        content: { 'application/json': { schema: CountSchema } },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async rebuildReactionCounts(): Promise<Count> {
+    return this.entityRepository.rebuildReactionCounts();
   }
 }
@@ -18,11 +18,56 @@ import {
   put,
   del,
   requestBody,
+  Request,
+  Response,
+  RestBindings,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  SearchConfigBindings,
+  SearchConfigurationReader,
+} from '../extensions/config-helpers/search-config-helper';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
+import {
+  applyIfMatchVersion,
+  buildEtag,
+  parseIfMatchVersion,
+} from '../extensions/utils/etag-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import { readImportLines } from '../extensions/utils/import-helper';
+import type { JsonPatchOperation } from '../extensions/utils/json-patch-helper';
+import {
+  NDJSON_CONTENT_TYPE,
+  writeNdjson,
+} from '../extensions/utils/ndjson-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
+import {
+  applySearchPage,
+  countSearchMatches,
+  findSearchPage,
+  sortBySearchPage,
+} from '../extensions/utils/search-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
-import { EntityReaction, HttpErrorResponse } from '../models';
+import {
+  AggregateBucket,
+  BulkCreateResult,
+  EntityReaction,
+  HttpErrorResponse,
+  ImportResult,
+  RecordRevision,
+} from '../models';
 import {
   STRICTLY_INTERNAL_FIELDS,
   UPDATE_EXCLUDED_FIELDS,
@@ -31,7 +76,19 @@ import {
   ALWAYS_HIDDEN_FIELDS,
 } from '../models/base-types/unmodifiable-common-fields';
 import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { getImportRequestBodyContent } from '../openapi/import-schemas';
+import {
+  getJsonPatchSchema,
+  JSON_PATCH_CONTENT_TYPE,
+} from '../openapi/json-patch-schemas';
 import { EntityReactionsRepository } from '../repositories';
+import { AggregateBindings } from '../services/aggregate.bindings';
+import { AggregateService } from '../services/aggregate.service';
+import { BulkCreateBindings } from '../services/bulk-create.bindings';
+import {
+  BulkCreateMode,
+  BulkCreateService,
+} from '../services/bulk-create.service';
 import { LoggingService } from '../services/logging.service';
 
 export class EntityReactionsController {
@@ -40,6 +97,14 @@ export class EntityReactionsController {
     public entityReactionsRepository: EntityReactionsRepository,
     @inject('services.LoggingService')
     private logger: LoggingService,
+    @inject(BulkCreateBindings.SERVICE)
+    private bulkCreateService: BulkCreateService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
+    @inject(SearchConfigBindings.CONFIG_READER)
+    private searchConfigReader: SearchConfigurationReader,
+    @inject(AggregateBindings.SERVICE)
+    private aggregateService: AggregateService,
   ) {}
 
   @transactional()
@@ -137,6 +202,189 @@ export class EntityReactionsController {
     return this.entityReactionsRepository.create(entityReaction, options);
   }
 
+  @transactional()
+  @post('/entity-reactions/bulk', {
+    operationId: 'createEntityReactions',
+    responses: {
+      '200': {
+        description:
+          'Result of each item, in the order of the items in the request body',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(BulkCreateResult),
+            },
+          },
+        },
+      },
+      '429': {
+        description:
+          'Entity reaction limit is exceeded by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description:
+          'Entity reaction uniqueness is violated by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'Unprocessable entity - an item is invalid, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed request body or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async createBulk(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            maxItems: BulkCreateService.MAX_ITEMS,
+            items: getModelSchemaRef(EntityReaction, {
+              title: 'NewEntityReaction',
+              exclude: STRICTLY_INTERNAL_FIELDS as (keyof EntityReaction)[],
+              includeRelations: false,
+            }),
+          },
+        },
+      },
+    })
+    entityReactions: Omit<EntityReaction, StrictlyInternalFields>[],
+    @param.query.string('mode', {
+      description:
+        'atomic: if an item cannot be created, none of the items are created. best-effort: the items that can be created are created, and the others are reported with their errors. Defaults to atomic.',
+      schema: {
+        type: 'string',
+        enum: ['atomic', 'best-effort'],
+      },
+    })
+    mode: BulkCreateMode = 'atomic',
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkCreateResult[]> {
+    return this.bulkCreateService.createAll(
+      entityReactions,
+      mode,
+      (item, itemOptions) =>
+        this.entityReactionsRepository.create(item, itemOptions),
+      options,
+    );
+  }
+
+  @post('/entity-reactions/import', {
+    operationId: 'importEntityReactions',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the result of each line, in the order of the lines in the import file',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ImportResult),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed CSV header or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async import(
+    @requestBody({
+      description:
+        'The entity reactions to create, either as newline-delimited JSON with one entity reaction on each line, or as CSV with a header row',
+      required: true,
+      content: getImportRequestBodyContent(),
+    })
+    body: Request,
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.boolean('dryRun', {
+      description:
+        'Checks each line as if the entity reaction was created, without creating any entity reactions.',
+    })
+    dryRun?: boolean,
+  ): Promise<Response> {
+    const results = this.bulkCreateService.importAll(
+      readImportLines(body, body.headers['content-type']),
+      this.entityReactionsRepository.entityClass,
+      (record, recordOptions) =>
+        this.entityReactionsRepository.create(record, recordOptions),
+      dryRun,
+    );
+
+    return writeNdjson(response, results);
+  }
+
   @get('/entity-reactions/count', {
     operationId: 'countEntityReactions',
     responses: {
@@ -212,6 +460,86 @@ export class EntityReactionsController {
     );
   }
 
+  @get('/entity-reactions/aggregate', {
+    operationId: 'aggregateEntityReactions',
+    responses: {
+      '200': {
+        description:
+          'Buckets of the matching EntityReaction model instances, with the requested metrics',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(AggregateBucket),
+            },
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed where, groupBy or metrics query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async aggregate(
+    @param.query.object('set') set?: Set,
+    @param.where(EntityReaction) where?: Where<EntityReaction>,
+    @param.query.string('groupBy', {
+      description:
+        'Comma separated fields to group the records by, e.g. `_kind,status`. A date field followed by an interval builds a date histogram, e.g. `_createdDateTime:month`.',
+    })
+    groupBy?: string,
+    @param.query.string('metrics', {
+      description:
+        'Comma separated metrics to compute for each bucket: `count`, or `sum`, `avg`, `min` and `max` of a field, e.g. `count,avg:price`. Defaults to `count`.',
+    })
+    metrics?: string,
+  ): Promise<AggregateBucket[]> {
+    const filterBuilder = new FilterBuilder<EntityReaction>();
+
+    if (where) {
+      filterBuilder.where(where);
+    }
+
+    let filter = filterBuilder.build();
+
+    if (set) {
+      filter = new SetFilterBuilder<EntityReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return this.aggregateService.aggregate(
+      this.entityReactionsRepository,
+      filter.where,
+      groupBy,
+      metrics,
+    );
+  }
+
   @get('/entity-reactions', {
     operationId: 'findEntityReactions',
     responses: {
@@ -262,6 +590,22 @@ export class EntityReactionsController {
     @param.query.object('entitySet') entitySet?: Set,
     @param.query.object('entityFilter', getFilterSchemaFor(EntityReaction))
     entityFilter?: Filter<EntityReaction>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @param.query.string('search', {
+      description:
+        'Full-text search on the fields configured for search. Matching records are ordered by relevance unless filter[order] is given.',
+    })
+    search?: string,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<EntityReaction[]> {
     if (set) {
       filter = new SetFilterBuilder<EntityReaction>(set, {
@@ -278,9 +622,134 @@ export class EntityReactionsController {
     sanitizeFilterFields(filter);
     sanitizeFilterFields(entityFilter);
 
-    return this.entityReactionsRepository.find(filter, entityFilter, {
-      useMongoPipeline: true,
-    });
+    const responseLimit =
+      this.responseLimitConfigReader.getEntityReactionResponseLimit();
+    let pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const searchPage = search
+      ? await findSearchPage(
+          this.entityReactionsRepository,
+          this.searchConfigReader,
+          'entity-reaction',
+          search,
+          pageFilter,
+          responseLimit,
+          entityFilter?.where,
+        )
+      : undefined;
+
+    if (searchPage) {
+      pageFilter = applySearchPage(pageFilter, searchPage);
+    }
+
+    const reactions = sortBySearchPage(
+      await this.entityReactionsRepository.find(pageFilter, entityFilter, {
+        useMongoPipeline: true,
+      }),
+      searchPage,
+    );
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(reactions, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = search
+        ? await countSearchMatches(
+            this.entityReactionsRepository,
+            this.searchConfigReader,
+            'entity-reaction',
+            search,
+            filter?.where,
+            entityFilter?.where,
+          )
+        : await this.entityReactionsRepository.count(
+            filter?.where,
+            entityFilter?.where,
+          );
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return reactions;
+  }
+
+  @get('/entity-reactions/export', {
+    operationId: 'exportEntityReactions',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the matching EntityReaction model instances, in ascending order of their ids',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(EntityReaction, {
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof EntityReaction)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async export(
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(EntityReaction))
+    filter?: Filter<EntityReaction>,
+    @param.query.string('after', {
+      description:
+        'Resumes an interrupted export after the entity reaction with this id. Use the _id of the last entity reaction received.',
+    })
+    after?: string,
+  ): Promise<Response> {
+    if (set) {
+      filter = new SetFilterBuilder<EntityReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return writeNdjson(
+      response,
+      this.entityReactionsRepository.iterate(filter, after),
+    );
   }
 
   @transactional()
@@ -433,19 +902,51 @@ export class EntityReactionsController {
     @param.path.string('id') id: string,
     @param.query.object('filter', getFilterSchemaFor(EntityReaction))
     filter?: FilterExcludingWhere<EntityReaction>,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<EntityReaction> {
     sanitizeFilterFields(filter);
 
-    return this.entityReactionsRepository.findById(id, filter);
-  }
+    const record = await this.entityReactionsRepository.findById(id, filter);
+    const etag = buildEtag(record._version);
 
-  @transactional()
+    if (etag) {
+      response?.setHeader('ETag', etag);
+    }
+
+    return record;
+  }
+
+  @transactional()
   @patch('/entity-reactions/{id}', {
     operationId: 'updateEntityReactionById',
     responses: {
       '204': {
         description: 'EntityReaction PATCH success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Test operation of the JSON Patch failed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'Entity reaction not found',
         content: {
@@ -499,6 +1000,8 @@ export class EntityReactionsController {
   async updateById(
     @param.path.string('id') id: string,
     @requestBody({
+      description:
+        'Fields to update. Arrays and numbers can also be modified relative to their current value with the `$push`, `$addToSet`, `$pull` and `$inc` operators.',
       content: {
         'application/json': {
           schema: getModelSchemaRef(EntityReaction, {
@@ -509,12 +1012,31 @@ export class EntityReactionsController {
             optional: ['_entityId'],
           }),
         },
+        [JSON_PATCH_CONTENT_TYPE]: {
+          schema: getJsonPatchSchema(),
+        },
       },
     })
-    entityReaction: Omit<EntityReaction, UpdateExcludedFields>,
+    entityReaction:
+      Omit<EntityReaction, UpdateExcludedFields> | JsonPatchOperation[],
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    // A JSON Patch document is the only array accepted as the body
+    if (Array.isArray(entityReaction)) {
+      await this.entityReactionsRepository.patchById(
+        id,
+        entityReaction,
+        parseIfMatchVersion(ifMatch),
+        options,
+      );
+
+      return;
+    }
+
+    applyIfMatchVersion(entityReaction, ifMatch);
+
     await this.entityReactionsRepository.updateById(
       id,
       entityReaction,
@@ -529,6 +1051,18 @@ export class EntityReactionsController {
       '204': {
         description: 'EntityReaction PUT success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'Entity reaction not found',
         content: {
@@ -593,9 +1127,12 @@ export class EntityReactionsController {
       },
     })
     entityReaction: Omit<EntityReaction, UpdateExcludedFields>,
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    applyIfMatchVersion(entityReaction, ifMatch);
+
     await this.entityReactionsRepository.replaceById(
       id,
       entityReaction,
@@ -830,21 +1367,43 @@ export class EntityReactionsController {
     );
   }
 
-  @post('/entity-reactions/{id}/children', {
-    operationId: 'createChildEntityReaction',
+  @get('/entity-reactions/{id}/ancestors', {
+    operationId: 'findAncestorsByEntityReactionId',
     responses: {
       '200': {
-        description: 'EntityReaction model instance',
+        description:
+          'Array of ancestor EntityReaction model instances, annotated with their distance to the given record in _relativeDepth',
         content: {
           'application/json': {
-            schema: getModelSchemaRef(EntityReaction, {
-              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof EntityReaction)[],
-            }),
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(EntityReaction, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof EntityReaction)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given EntityReaction, 1 for its parents, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
           },
         },
       },
-      '429': {
-        description: 'Entity reaction limit is exceeded',
+      '404': {
+        description: 'Entity reaction not found',
         content: {
           'application/json': {
             schema: {
@@ -855,8 +1414,8 @@ export class EntityReactionsController {
           },
         },
       },
-      '409': {
-        description: 'Entity reaction already exists.',
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
         content: {
           'application/json': {
             schema: {
@@ -867,8 +1426,8 @@ export class EntityReactionsController {
           },
         },
       },
-      '422': {
-        description: 'Unprocessable entity',
+      '500': {
+        description: 'Internal server error',
         content: {
           'application/json': {
             schema: {
@@ -879,8 +1438,84 @@ export class EntityReactionsController {
           },
         },
       },
+    },
+  })
+  async findAncestors(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(EntityReaction))
+    filter?: Filter<EntityReaction>,
+    @param.query.object('entitySet') entitySet?: Set,
+    @param.query.object('entityFilter', getFilterSchemaFor(EntityReaction))
+    entityFilter?: Filter<EntityReaction>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go up the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<EntityReaction[]> {
+    if (set) {
+      filter = new SetFilterBuilder<EntityReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (entitySet) {
+      entityFilter = new SetFilterBuilder<EntityReaction>(entitySet, {
+        filter: entityFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(entityFilter);
+
+    return this.entityReactionsRepository.findAncestors(
+      id,
+      filter,
+      entityFilter,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @get('/entity-reactions/{id}/descendants', {
+    operationId: 'findDescendantsByEntityReactionId',
+    responses: {
+      '200': {
+        description:
+          'Array of descendant EntityReaction model instances, annotated with their distance to the given record in _relativeDepth',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(EntityReaction, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof EntityReaction)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given EntityReaction, 1 for its children, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
       '404': {
-        description: 'Parent entity reaction not found',
+        description: 'Entity reaction not found',
         content: {
           'application/json': {
             schema: {
@@ -917,30 +1552,633 @@ export class EntityReactionsController {
       },
     },
   })
-  @transactional()
-  async createChild(
+  async findDescendants(
     @param.path.string('id') id: string,
-    @requestBody({
-      content: {
-        'application/json': {
-          schema: getModelSchemaRef(EntityReaction, {
-            title: 'NewChildEntityReaction',
-            exclude: [
-              ...STRICTLY_INTERNAL_FIELDS,
-              '_parents',
-            ] as (keyof EntityReaction)[],
-            includeRelations: false,
-          }),
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(EntityReaction))
+    filter?: Filter<EntityReaction>,
+    @param.query.object('entitySet') entitySet?: Set,
+    @param.query.object('entityFilter', getFilterSchemaFor(EntityReaction))
+    entityFilter?: Filter<EntityReaction>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go down the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<EntityReaction[]> {
+    if (set) {
+      filter = new SetFilterBuilder<EntityReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (entitySet) {
+      entityFilter = new SetFilterBuilder<EntityReaction>(entitySet, {
+        filter: entityFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(entityFilter);
+
+    return this.entityReactionsRepository.findDescendants(
+      id,
+      filter,
+      entityFilter,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @get('/entity-reactions/tree', {
+    operationId: 'findEntityReactionTree',
+    responses: {
+      '200': {
+        description:
+          'Array of EntityReaction model instances without parents, with their descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(EntityReaction, {
+                includeRelations: true,
+                exclude: [
+                  ...ALWAYS_HIDDEN_FIELDS,
+                  '_relationMetadata',
+                ] as (keyof EntityReaction)[],
+              }),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
         },
       },
+    },
+  })
+  async findTree(
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(EntityReaction))
+    filter?: Filter<EntityReaction>,
+    @param.query.object('entitySet') entitySet?: Set,
+    @param.query.object('entityFilter', getFilterSchemaFor(EntityReaction))
+    entityFilter?: Filter<EntityReaction>,
+    @param.query.string('rootKind', {
+      description:
+        'Kind of the records at the top of the tree. All records without parents are at the top if not given.',
     })
-    entityReaction: Omit<EntityReaction, StrictlyInternalFields | '_parents'>,
-    @inject('active.transaction.options', { optional: true })
-    options: Options = {},
-  ): Promise<EntityReaction> {
-    return this.entityReactionsRepository.createChild(
-      id,
-      entityReaction,
+    rootKind?: string,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the top of the tree. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<EntityReaction[]> {
+    if (set) {
+      filter = new SetFilterBuilder<EntityReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (entitySet) {
+      entityFilter = new SetFilterBuilder<EntityReaction>(entitySet, {
+        filter: entityFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(entityFilter);
+
+    return this.entityReactionsRepository.findTree(
+      filter,
+      entityFilter,
+      rootKind,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @get('/entity-reactions/{id}/tree', {
+    operationId: 'findEntityReactionTreeById',
+    responses: {
+      '200': {
+        description:
+          'EntityReaction model instance with its descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(EntityReaction, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof EntityReaction)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Entity reaction not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findTreeById(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(EntityReaction))
+    filter?: Filter<EntityReaction>,
+    @param.query.object('entitySet') entitySet?: Set,
+    @param.query.object('entityFilter', getFilterSchemaFor(EntityReaction))
+    entityFilter?: Filter<EntityReaction>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the record. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<EntityReaction> {
+    if (set) {
+      filter = new SetFilterBuilder<EntityReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (entitySet) {
+      entityFilter = new SetFilterBuilder<EntityReaction>(entitySet, {
+        filter: entityFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(entityFilter);
+
+    return this.entityReactionsRepository.findTreeById(
+      id,
+      filter,
+      entityFilter,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @post('/entity-reactions/{id}/children', {
+    operationId: 'createChildEntityReaction',
+    responses: {
+      '200': {
+        description: 'EntityReaction model instance',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(EntityReaction, {
+              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof EntityReaction)[],
+            }),
+          },
+        },
+      },
+      '429': {
+        description: 'Entity reaction limit is exceeded',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Entity reaction already exists.',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'Parent entity reaction not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @transactional()
+  async createChild(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: getModelSchemaRef(EntityReaction, {
+            title: 'NewChildEntityReaction',
+            exclude: [
+              ...STRICTLY_INTERNAL_FIELDS,
+              '_parents',
+            ] as (keyof EntityReaction)[],
+            includeRelations: false,
+          }),
+        },
+      },
+    })
+    entityReaction: Omit<EntityReaction, StrictlyInternalFields | '_parents'>,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<EntityReaction> {
+    return this.entityReactionsRepository.createChild(
+      id,
+      entityReaction,
+      options,
+    );
+  }
+
+  @transactional()
+  @post('/entity-reactions/{id}/move', {
+    operationId: 'moveEntityReaction',
+    responses: {
+      '200': {
+        description: 'Entity reaction moved to its new parent',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(EntityReaction, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof EntityReaction)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Neither a from nor a to parent is given',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'Entity reaction not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'The entity reaction does not have the from parent, the to parent does not exist, or the new parents violate a lookup constraint or form a cycle',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async move(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            title: 'MoveEntityReaction',
+            properties: {
+              from: {
+                type: 'string',
+                description:
+                  'ID of the parent to detach the entity reaction from',
+              },
+              to: {
+                type: 'string',
+                description:
+                  'ID of the parent to attach the entity reaction to',
+              },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+          },
+        },
+      },
+    })
+    body: { from?: string; to?: string },
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<EntityReaction> {
+    return this.entityReactionsRepository.move(id, body.from, body.to, options);
+  }
+
+  @get('/entity-reactions/{id}/revisions', {
+    operationId: 'findEntityReactionRevisions',
+    responses: {
+      '200': {
+        description:
+          'Array of revisions of the entity reaction, ordered by version',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(RecordRevision),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisions(
+    @param.path.string('id') id: string,
+    @param.query.object('filter', getFilterSchemaFor(RecordRevision))
+    filter?: Filter<RecordRevision>,
+  ): Promise<RecordRevision[]> {
+    sanitizeFilterFields(filter);
+
+    return this.entityReactionsRepository.findRevisions(id, filter);
+  }
+
+  @get('/entity-reactions/{id}/revisions/{version}', {
+    operationId: 'findEntityReactionRevisionByVersion',
+    responses: {
+      '200': {
+        description: 'Revision of the entity reaction with the given version',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(RecordRevision),
+          },
+        },
+      },
+      '404': {
+        description: 'Revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisionByVersion(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+  ): Promise<RecordRevision> {
+    return this.entityReactionsRepository.findRevisionByVersion(id, version);
+  }
+
+  @transactional()
+  @post('/entity-reactions/{id}/revisions/{version}/restore', {
+    operationId: 'restoreEntityReactionRevision',
+    responses: {
+      '200': {
+        description: 'Entity reaction restored to the given revision',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(EntityReaction, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof EntityReaction)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'Entity reaction or revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Restored data violates a uniqueness constraint',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async restoreRevision(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+    @param.header.string('If-Match') ifMatch?: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<EntityReaction> {
+    return this.entityReactionsRepository.restoreRevision(
+      id,
+      version,
+      parseIfMatchVersion(ifMatch),
       options,
     );
   }
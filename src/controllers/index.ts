@@ -9,3 +9,7 @@ export * from './ping.controller';
 export * from './entity-reactions.controller';
 export * from './list-reactions.controller';
 export * from './system-info.controller';
+export * from './changes.controller';
+export * from './webhooks.controller';
+export * from './audit.controller';
+export * from './batch.controller';
@@ -20,12 +20,44 @@ import {
   put,
   requestBody,
   Request,
+  Response,
   RestBindings,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
+import {
+  applyIfMatchVersion,
+  buildEtag,
+  parseIfMatchVersion,
+} from '../extensions/utils/etag-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import { readImportLines } from '../extensions/utils/import-helper';
+import type { JsonPatchOperation } from '../extensions/utils/json-patch-helper';
+import {
+  NDJSON_CONTENT_TYPE,
+  writeNdjson,
+} from '../extensions/utils/ndjson-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
-import { ListToEntityRelation, HttpErrorResponse } from '../models';
+import {
+  AggregateBucket,
+  BulkCreateResult,
+  ListToEntityRelation,
+  HttpErrorResponse,
+  ImportResult,
+} from '../models';
 import {
   STRICTLY_INTERNAL_FIELDS,
   UPDATE_EXCLUDED_FIELDS,
@@ -34,7 +66,19 @@ import {
   ALWAYS_HIDDEN_FIELDS,
 } from '../models/base-types/unmodifiable-common-fields';
 import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { getImportRequestBodyContent } from '../openapi/import-schemas';
+import {
+  getJsonPatchSchema,
+  JSON_PATCH_CONTENT_TYPE,
+} from '../openapi/json-patch-schemas';
 import { ListEntityRelationRepository } from '../repositories';
+import { AggregateBindings } from '../services/aggregate.bindings';
+import { AggregateService } from '../services/aggregate.service';
+import { BulkCreateBindings } from '../services/bulk-create.bindings';
+import {
+  BulkCreateMode,
+  BulkCreateService,
+} from '../services/bulk-create.service';
 import { LoggingService } from '../services/logging.service';
 
 export class ListEntityRelsController {
@@ -45,6 +89,12 @@ export class ListEntityRelsController {
     private logger: LoggingService,
     @inject(RestBindings.Http.REQUEST)
     private req: Request,
+    @inject(BulkCreateBindings.SERVICE)
+    private bulkCreateService: BulkCreateService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
+    @inject(AggregateBindings.SERVICE)
+    private aggregateService: AggregateService,
   ) {}
 
   @transactional()
@@ -158,6 +208,189 @@ export class ListEntityRelsController {
     );
   }
 
+  @transactional()
+  @post('/relations/bulk', {
+    operationId: 'createRelations',
+    responses: {
+      '200': {
+        description:
+          'Result of each item, in the order of the items in the request body',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(BulkCreateResult),
+            },
+          },
+        },
+      },
+      '429': {
+        description: 'Relation limit is exceeded by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description:
+          'Relation uniqueness is violated by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'Unprocessable entity - an item is invalid, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed request body or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async createBulk(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            maxItems: BulkCreateService.MAX_ITEMS,
+            items: getModelSchemaRef(ListToEntityRelation, {
+              title: 'NewListEntityRelation',
+              exclude:
+                STRICTLY_INTERNAL_FIELDS as (keyof ListToEntityRelation)[],
+              includeRelations: false,
+            }),
+          },
+        },
+      },
+    })
+    listEntityRelations: Omit<ListToEntityRelation, StrictlyInternalFields>[],
+    @param.query.string('mode', {
+      description:
+        'atomic: if an item cannot be created, none of the items are created. best-effort: the items that can be created are created, and the others are reported with their errors. Defaults to atomic.',
+      schema: {
+        type: 'string',
+        enum: ['atomic', 'best-effort'],
+      },
+    })
+    mode: BulkCreateMode = 'atomic',
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkCreateResult[]> {
+    return this.bulkCreateService.createAll(
+      listEntityRelations,
+      mode,
+      (item, itemOptions) =>
+        this.listEntityRelationRepository.create(item, itemOptions),
+      options,
+    );
+  }
+
+  @post('/relations/import', {
+    operationId: 'importRelations',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the result of each line, in the order of the lines in the import file',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ImportResult),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed CSV header or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async import(
+    @requestBody({
+      description:
+        'The relations to create, either as newline-delimited JSON with one relation on each line, or as CSV with a header row',
+      required: true,
+      content: getImportRequestBodyContent(),
+    })
+    body: Request,
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.boolean('dryRun', {
+      description:
+        'Checks each line as if the relation was created, without creating any relations.',
+    })
+    dryRun?: boolean,
+  ): Promise<Response> {
+    const results = this.bulkCreateService.importAll(
+      readImportLines(body, body.headers['content-type']),
+      this.listEntityRelationRepository.entityClass,
+      (record, recordOptions) =>
+        this.listEntityRelationRepository.create(record, recordOptions),
+      dryRun,
+    );
+
+    return writeNdjson(response, results);
+  }
+
   @get('/relations/count', {
     operationId: 'countRelations',
     responses: {
@@ -255,6 +488,86 @@ export class ListEntityRelsController {
     );
   }
 
+  @get('/relations/aggregate', {
+    operationId: 'aggregateRelations',
+    responses: {
+      '200': {
+        description:
+          'Buckets of the matching ListEntityRelation model instances, with the requested metrics',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(AggregateBucket),
+            },
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed where, groupBy or metrics query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async aggregate(
+    @param.query.object('set') set?: Set,
+    @param.where(ListToEntityRelation) where?: Where<ListToEntityRelation>,
+    @param.query.string('groupBy', {
+      description:
+        'Comma separated fields to group the records by, e.g. `_kind,status`. A date field followed by an interval builds a date histogram, e.g. `_createdDateTime:month`.',
+    })
+    groupBy?: string,
+    @param.query.string('metrics', {
+      description:
+        'Comma separated metrics to compute for each bucket: `count`, or `sum`, `avg`, `min` and `max` of a field, e.g. `count,avg:price`. Defaults to `count`.',
+    })
+    metrics?: string,
+  ): Promise<AggregateBucket[]> {
+    const filterBuilder = new FilterBuilder<ListToEntityRelation>();
+
+    if (where) {
+      filterBuilder.where(where);
+    }
+
+    let filter = filterBuilder.build();
+
+    if (set) {
+      filter = new SetFilterBuilder<ListToEntityRelation>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return this.aggregateService.aggregate(
+      this.listEntityRelationRepository,
+      filter.where,
+      groupBy,
+      metrics,
+    );
+  }
+
   @get('/relations', {
     operationId: 'findRelations',
     responses: {
@@ -313,6 +626,17 @@ export class ListEntityRelsController {
     entityFilter?: Filter<ListToEntityRelation>,
     @param.query.object('entitySet')
     entitySet?: Set,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<ListToEntityRelation[]> {
     if (set) {
       filter = new SetFilterBuilder<ListToEntityRelation>(set, {
@@ -336,11 +660,106 @@ export class ListEntityRelsController {
     sanitizeFilterFields(entityFilter);
     sanitizeFilterFields(listFilter);
 
-    return this.listEntityRelationRepository.find(
-      filter,
+    const responseLimit =
+      this.responseLimitConfigReader.getListEntityRelResponseLimit();
+    const pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const relations = await this.listEntityRelationRepository.find(
+      pageFilter,
       entityFilter,
       listFilter,
     );
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(relations, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = await this.listEntityRelationRepository.count(
+        filter?.where,
+        listFilter?.where,
+        entityFilter?.where,
+      );
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return relations;
+  }
+
+  @get('/relations/export', {
+    operationId: 'exportRelations',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the matching ListEntityRelation model instances, in ascending order of their ids',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ListToEntityRelation, {
+              exclude: ALWAYS_HIDDEN_FIELDS as (keyof ListToEntityRelation)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async export(
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(ListToEntityRelation))
+    filter?: Filter<ListToEntityRelation>,
+    @param.query.string('after', {
+      description:
+        'Resumes an interrupted export after the relation with this id. Use the _id of the last relation received.',
+    })
+    after?: string,
+  ): Promise<Response> {
+    if (set) {
+      filter = new SetFilterBuilder<ListToEntityRelation>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return writeNdjson(
+      response,
+      this.listEntityRelationRepository.iterate(filter, after),
+    );
   }
 
   @transactional()
@@ -474,10 +893,18 @@ export class ListEntityRelsController {
     @param.path.string('id') id: string,
     @param.query.object('filter', getFilterSchemaFor(ListToEntityRelation))
     filter?: FilterExcludingWhere<ListToEntityRelation>,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<ListToEntityRelation> {
     sanitizeFilterFields(filter);
 
-    return this.listEntityRelationRepository.findById(id, filter);
+    const record = await this.listEntityRelationRepository.findById(id, filter);
+    const etag = buildEtag(record._version);
+
+    if (etag) {
+      response?.setHeader('ETag', etag);
+    }
+
+    return record;
   }
 
   @transactional()
@@ -487,6 +914,30 @@ export class ListEntityRelsController {
       '204': {
         description: 'ListEntityRelation PATCH success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Test operation of the JSON Patch failed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'List-entity relation not found',
         content: {
@@ -550,12 +1001,31 @@ export class ListEntityRelsController {
             partial: true,
           }),
         },
+        [JSON_PATCH_CONTENT_TYPE]: {
+          schema: getJsonPatchSchema(),
+        },
       },
     })
-    listEntityRelation: Omit<ListToEntityRelation, UpdateExcludedFields>,
+    listEntityRelation:
+      Omit<ListToEntityRelation, UpdateExcludedFields> | JsonPatchOperation[],
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    // A JSON Patch document is the only array accepted as the body
+    if (Array.isArray(listEntityRelation)) {
+      await this.listEntityRelationRepository.patchById(
+        id,
+        listEntityRelation,
+        parseIfMatchVersion(ifMatch),
+        options,
+      );
+
+      return;
+    }
+
+    applyIfMatchVersion(listEntityRelation, ifMatch);
+
     await this.listEntityRelationRepository.updateById(
       id,
       listEntityRelation,
@@ -570,6 +1040,18 @@ export class ListEntityRelsController {
       '204': {
         description: 'ListEntityRelation PUT success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'List-entity relation not found',
         content: {
@@ -635,9 +1117,12 @@ export class ListEntityRelsController {
       },
     })
     listEntityRelation: Omit<ListToEntityRelation, UpdateExcludedFields>,
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    applyIfMatchVersion(listEntityRelation, ifMatch);
+
     await this.listEntityRelationRepository.replaceById(
       id,
       listEntityRelation,
@@ -5,6 +5,7 @@ import {
   Filter,
   FilterBuilder,
   FilterExcludingWhere,
+  Options,
   repository,
   Where,
 } from '@loopback/repository';
@@ -17,11 +18,56 @@ import {
   put,
   del,
   requestBody,
+  Request,
+  Response,
+  RestBindings,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  SearchConfigBindings,
+  SearchConfigurationReader,
+} from '../extensions/config-helpers/search-config-helper';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
+import {
+  applyIfMatchVersion,
+  buildEtag,
+  parseIfMatchVersion,
+} from '../extensions/utils/etag-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import { readImportLines } from '../extensions/utils/import-helper';
+import type { JsonPatchOperation } from '../extensions/utils/json-patch-helper';
+import {
+  NDJSON_CONTENT_TYPE,
+  writeNdjson,
+} from '../extensions/utils/ndjson-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
+import {
+  applySearchPage,
+  countSearchMatches,
+  findSearchPage,
+  sortBySearchPage,
+} from '../extensions/utils/search-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
-import { ListReaction, HttpErrorResponse } from '../models';
+import {
+  AggregateBucket,
+  BulkCreateResult,
+  ListReaction,
+  HttpErrorResponse,
+  ImportResult,
+  RecordRevision,
+} from '../models';
 import {
   STRICTLY_INTERNAL_FIELDS,
   UPDATE_EXCLUDED_FIELDS,
@@ -30,7 +76,19 @@ import {
   ALWAYS_HIDDEN_FIELDS,
 } from '../models/base-types/unmodifiable-common-fields';
 import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { getImportRequestBodyContent } from '../openapi/import-schemas';
+import {
+  getJsonPatchSchema,
+  JSON_PATCH_CONTENT_TYPE,
+} from '../openapi/json-patch-schemas';
 import { ListReactionsRepository } from '../repositories';
+import { AggregateBindings } from '../services/aggregate.bindings';
+import { AggregateService } from '../services/aggregate.service';
+import { BulkCreateBindings } from '../services/bulk-create.bindings';
+import {
+  BulkCreateMode,
+  BulkCreateService,
+} from '../services/bulk-create.service';
 import { LoggingService } from '../services/logging.service';
 
 export class ListReactionsController {
@@ -39,6 +97,14 @@ export class ListReactionsController {
     public listReactionsRepository: ListReactionsRepository,
     @inject('services.LoggingService')
     private logger: LoggingService,
+    @inject(BulkCreateBindings.SERVICE)
+    private bulkCreateService: BulkCreateService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
+    @inject(SearchConfigBindings.CONFIG_READER)
+    private searchConfigReader: SearchConfigurationReader,
+    @inject(AggregateBindings.SERVICE)
+    private aggregateService: AggregateService,
   ) {}
 
   @transactional()
@@ -136,6 +202,189 @@ export class ListReactionsController {
     return this.listReactionsRepository.create(listReaction, options);
   }
 
+  @transactional()
+  @post('/list-reactions/bulk', {
+    operationId: 'createListReactions',
+    responses: {
+      '200': {
+        description:
+          'Result of each item, in the order of the items in the request body',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(BulkCreateResult),
+            },
+          },
+        },
+      },
+      '429': {
+        description:
+          'List reaction limit is exceeded by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description:
+          'List reaction uniqueness is violated by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'Unprocessable entity - an item is invalid, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed request body or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async createBulk(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            maxItems: BulkCreateService.MAX_ITEMS,
+            items: getModelSchemaRef(ListReaction, {
+              title: 'NewListReaction',
+              exclude: STRICTLY_INTERNAL_FIELDS as (keyof ListReaction)[],
+              includeRelations: false,
+            }),
+          },
+        },
+      },
+    })
+    listReactions: Omit<ListReaction, StrictlyInternalFields>[],
+    @param.query.string('mode', {
+      description:
+        'atomic: if an item cannot be created, none of the items are created. best-effort: the items that can be created are created, and the others are reported with their errors. Defaults to atomic.',
+      schema: {
+        type: 'string',
+        enum: ['atomic', 'best-effort'],
+      },
+    })
+    mode: BulkCreateMode = 'atomic',
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkCreateResult[]> {
+    return this.bulkCreateService.createAll(
+      listReactions,
+      mode,
+      (item, itemOptions) =>
+        this.listReactionsRepository.create(item, itemOptions),
+      options,
+    );
+  }
+
+  @post('/list-reactions/import', {
+    operationId: 'importListReactions',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the result of each line, in the order of the lines in the import file',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ImportResult),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed CSV header or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async import(
+    @requestBody({
+      description:
+        'The list reactions to create, either as newline-delimited JSON with one list reaction on each line, or as CSV with a header row',
+      required: true,
+      content: getImportRequestBodyContent(),
+    })
+    body: Request,
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.boolean('dryRun', {
+      description:
+        'Checks each line as if the list reaction was created, without creating any list reactions.',
+    })
+    dryRun?: boolean,
+  ): Promise<Response> {
+    const results = this.bulkCreateService.importAll(
+      readImportLines(body, body.headers['content-type']),
+      this.listReactionsRepository.entityClass,
+      (record, recordOptions) =>
+        this.listReactionsRepository.create(record, recordOptions),
+      dryRun,
+    );
+
+    return writeNdjson(response, results);
+  }
+
   @get('/list-reactions/count', {
     operationId: 'countListReactions',
     responses: {
@@ -208,6 +457,86 @@ export class ListReactionsController {
     return this.listReactionsRepository.count(filter.where, listFilter.where);
   }
 
+  @get('/list-reactions/aggregate', {
+    operationId: 'aggregateListReactions',
+    responses: {
+      '200': {
+        description:
+          'Buckets of the matching ListReaction model instances, with the requested metrics',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(AggregateBucket),
+            },
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed where, groupBy or metrics query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async aggregate(
+    @param.query.object('set') set?: Set,
+    @param.where(ListReaction) where?: Where<ListReaction>,
+    @param.query.string('groupBy', {
+      description:
+        'Comma separated fields to group the records by, e.g. `_kind,status`. A date field followed by an interval builds a date histogram, e.g. `_createdDateTime:month`.',
+    })
+    groupBy?: string,
+    @param.query.string('metrics', {
+      description:
+        'Comma separated metrics to compute for each bucket: `count`, or `sum`, `avg`, `min` and `max` of a field, e.g. `count,avg:price`. Defaults to `count`.',
+    })
+    metrics?: string,
+  ): Promise<AggregateBucket[]> {
+    const filterBuilder = new FilterBuilder<ListReaction>();
+
+    if (where) {
+      filterBuilder.where(where);
+    }
+
+    let filter = filterBuilder.build();
+
+    if (set) {
+      filter = new SetFilterBuilder<ListReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return this.aggregateService.aggregate(
+      this.listReactionsRepository,
+      filter.where,
+      groupBy,
+      metrics,
+    );
+  }
+
   @get('/list-reactions', {
     operationId: 'findListReactions',
     responses: {
@@ -258,6 +587,22 @@ export class ListReactionsController {
     @param.query.object('listSet') listSet?: Set,
     @param.query.object('listFilter', getFilterSchemaFor(ListReaction))
     listFilter?: Filter<ListReaction>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @param.query.string('search', {
+      description:
+        'Full-text search on the fields configured for search. Matching records are ordered by relevance unless filter[order] is given.',
+    })
+    search?: string,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<ListReaction[]> {
     if (set) {
       filter = new SetFilterBuilder<ListReaction>(set, {
@@ -274,9 +619,134 @@ export class ListReactionsController {
     sanitizeFilterFields(filter);
     sanitizeFilterFields(listFilter);
 
-    return this.listReactionsRepository.find(filter, listFilter, {
-      useMongoPipeline: true,
-    });
+    const responseLimit =
+      this.responseLimitConfigReader.getListReactionResponseLimit();
+    let pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const searchPage = search
+      ? await findSearchPage(
+          this.listReactionsRepository,
+          this.searchConfigReader,
+          'list-reaction',
+          search,
+          pageFilter,
+          responseLimit,
+          listFilter?.where,
+        )
+      : undefined;
+
+    if (searchPage) {
+      pageFilter = applySearchPage(pageFilter, searchPage);
+    }
+
+    const reactions = sortBySearchPage(
+      await this.listReactionsRepository.find(pageFilter, listFilter, {
+        useMongoPipeline: true,
+      }),
+      searchPage,
+    );
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(reactions, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = search
+        ? await countSearchMatches(
+            this.listReactionsRepository,
+            this.searchConfigReader,
+            'list-reaction',
+            search,
+            filter?.where,
+            listFilter?.where,
+          )
+        : await this.listReactionsRepository.count(
+            filter?.where,
+            listFilter?.where,
+          );
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return reactions;
+  }
+
+  @get('/list-reactions/export', {
+    operationId: 'exportListReactions',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the matching ListReaction model instances, in ascending order of their ids',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ListReaction, {
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof ListReaction)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async export(
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(ListReaction))
+    filter?: Filter<ListReaction>,
+    @param.query.string('after', {
+      description:
+        'Resumes an interrupted export after the list reaction with this id. Use the _id of the last list reaction received.',
+    })
+    after?: string,
+  ): Promise<Response> {
+    if (set) {
+      filter = new SetFilterBuilder<ListReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return writeNdjson(
+      response,
+      this.listReactionsRepository.iterate(filter, after),
+    );
   }
 
   @transactional()
@@ -429,11 +899,19 @@ export class ListReactionsController {
     @param.path.string('id') id: string,
     @param.query.object('filter', getFilterSchemaFor(ListReaction))
     filter?: FilterExcludingWhere<ListReaction>,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<ListReaction> {
     sanitizeFilterFields(filter);
 
-    return this.listReactionsRepository.findById(id, filter);
-  }
+    const record = await this.listReactionsRepository.findById(id, filter);
+    const etag = buildEtag(record._version);
+
+    if (etag) {
+      response?.setHeader('ETag', etag);
+    }
+
+    return record;
+  }
 
   @transactional()
   @patch('/list-reactions/{id}', {
@@ -442,6 +920,30 @@ export class ListReactionsController {
       '204': {
         description: 'ListReaction PATCH success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Test operation of the JSON Patch failed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'List reaction not found',
         content: {
@@ -495,6 +997,8 @@ export class ListReactionsController {
   async updateById(
     @param.path.string('id') id: string,
     @requestBody({
+      description:
+        'Fields to update. Arrays and numbers can also be modified relative to their current value with the `$push`, `$addToSet`, `$pull` and `$inc` operators.',
       content: {
         'application/json': {
           schema: getModelSchemaRef(ListReaction, {
@@ -505,12 +1009,31 @@ export class ListReactionsController {
             optional: ['_listId'],
           }),
         },
+        [JSON_PATCH_CONTENT_TYPE]: {
+          schema: getJsonPatchSchema(),
+        },
       },
     })
-    listReaction: Omit<ListReaction, UpdateExcludedFields>,
+    listReaction:
+      Omit<ListReaction, UpdateExcludedFields> | JsonPatchOperation[],
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: any = {},
   ): Promise<void> {
+    // A JSON Patch document is the only array accepted as the body
+    if (Array.isArray(listReaction)) {
+      await this.listReactionsRepository.patchById(
+        id,
+        listReaction,
+        parseIfMatchVersion(ifMatch),
+        options,
+      );
+
+      return;
+    }
+
+    applyIfMatchVersion(listReaction, ifMatch);
+
     await this.listReactionsRepository.updateById(id, listReaction, options);
   }
 
@@ -521,6 +1044,18 @@ export class ListReactionsController {
       '204': {
         description: 'ListReaction PUT success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'List reaction not found',
         content: {
@@ -585,9 +1120,12 @@ export class ListReactionsController {
       },
     })
     listReaction: Omit<ListReaction, UpdateExcludedFields>,
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: any = {},
   ): Promise<void> {
+    applyIfMatchVersion(listReaction, ifMatch);
+
     await this.listReactionsRepository.replaceById(id, listReaction, options);
   }
 
@@ -812,22 +1350,43 @@ export class ListReactionsController {
     });
   }
 
-  @transactional()
-  @post('/list-reactions/{id}/children', {
-    operationId: 'createChildListReaction',
+  @get('/list-reactions/{id}/ancestors', {
+    operationId: 'findAncestorsByListReactionId',
     responses: {
       '200': {
-        description: 'ListReaction model instance',
+        description:
+          'Array of ancestor ListReaction model instances, annotated with their distance to the given record in _relativeDepth',
         content: {
           'application/json': {
-            schema: getModelSchemaRef(ListReaction, {
-              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof ListReaction)[],
-            }),
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(ListReaction, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof ListReaction)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given ListReaction, 1 for its parents, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
           },
         },
       },
-      '429': {
-        description: 'List reaction limit is exceeded',
+      '404': {
+        description: 'List reaction not found',
         content: {
           'application/json': {
             schema: {
@@ -838,8 +1397,8 @@ export class ListReactionsController {
           },
         },
       },
-      '409': {
-        description: 'List reaction already exists.',
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
         content: {
           'application/json': {
             schema: {
@@ -850,8 +1409,8 @@ export class ListReactionsController {
           },
         },
       },
-      '422': {
-        description: 'Unprocessable entity',
+      '500': {
+        description: 'Internal server error',
         content: {
           'application/json': {
             schema: {
@@ -862,8 +1421,84 @@ export class ListReactionsController {
           },
         },
       },
+    },
+  })
+  async findAncestors(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(ListReaction))
+    filter?: Filter<ListReaction>,
+    @param.query.object('listSet') listSet?: Set,
+    @param.query.object('listFilter', getFilterSchemaFor(ListReaction))
+    listFilter?: Filter<ListReaction>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go up the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<ListReaction[]> {
+    if (set) {
+      filter = new SetFilterBuilder<ListReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (listSet) {
+      listFilter = new SetFilterBuilder<ListReaction>(listSet, {
+        filter: listFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(listFilter);
+
+    return this.listReactionsRepository.findAncestors(
+      id,
+      filter,
+      listFilter,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @get('/list-reactions/{id}/descendants', {
+    operationId: 'findDescendantsByListReactionId',
+    responses: {
+      '200': {
+        description:
+          'Array of descendant ListReaction model instances, annotated with their distance to the given record in _relativeDepth',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(ListReaction, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof ListReaction)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given ListReaction, 1 for its children, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
       '404': {
-        description: 'Parent list reaction not found',
+        description: 'List reaction not found',
         content: {
           'application/json': {
             schema: {
@@ -900,26 +1535,629 @@ export class ListReactionsController {
       },
     },
   })
-  async createChild(
+  async findDescendants(
     @param.path.string('id') id: string,
-    @requestBody({
-      content: {
-        'application/json': {
-          schema: getModelSchemaRef(ListReaction, {
-            title: 'NewChildListReaction',
-            exclude: [
-              ...STRICTLY_INTERNAL_FIELDS,
-              '_parents',
-            ] as (keyof ListReaction)[],
-            includeRelations: false,
-          }),
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(ListReaction))
+    filter?: Filter<ListReaction>,
+    @param.query.object('listSet') listSet?: Set,
+    @param.query.object('listFilter', getFilterSchemaFor(ListReaction))
+    listFilter?: Filter<ListReaction>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go down the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<ListReaction[]> {
+    if (set) {
+      filter = new SetFilterBuilder<ListReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (listSet) {
+      listFilter = new SetFilterBuilder<ListReaction>(listSet, {
+        filter: listFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(listFilter);
+
+    return this.listReactionsRepository.findDescendants(
+      id,
+      filter,
+      listFilter,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @get('/list-reactions/tree', {
+    operationId: 'findListReactionTree',
+    responses: {
+      '200': {
+        description:
+          'Array of ListReaction model instances without parents, with their descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(ListReaction, {
+                includeRelations: true,
+                exclude: [
+                  ...ALWAYS_HIDDEN_FIELDS,
+                  '_relationMetadata',
+                ] as (keyof ListReaction)[],
+              }),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
         },
       },
+    },
+  })
+  async findTree(
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(ListReaction))
+    filter?: Filter<ListReaction>,
+    @param.query.object('listSet') listSet?: Set,
+    @param.query.object('listFilter', getFilterSchemaFor(ListReaction))
+    listFilter?: Filter<ListReaction>,
+    @param.query.string('rootKind', {
+      description:
+        'Kind of the records at the top of the tree. All records without parents are at the top if not given.',
     })
-    listReaction: Omit<ListReaction, StrictlyInternalFields | '_parents'>,
-    @inject('active.transaction.options', { optional: true })
-    options: any = {},
-  ): Promise<ListReaction> {
-    return this.listReactionsRepository.createChild(id, listReaction, options);
+    rootKind?: string,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the top of the tree. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<ListReaction[]> {
+    if (set) {
+      filter = new SetFilterBuilder<ListReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (listSet) {
+      listFilter = new SetFilterBuilder<ListReaction>(listSet, {
+        filter: listFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(listFilter);
+
+    return this.listReactionsRepository.findTree(
+      filter,
+      listFilter,
+      rootKind,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @get('/list-reactions/{id}/tree', {
+    operationId: 'findListReactionTreeById',
+    responses: {
+      '200': {
+        description:
+          'ListReaction model instance with its descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(ListReaction, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof ListReaction)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'List reaction not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findTreeById(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(ListReaction))
+    filter?: Filter<ListReaction>,
+    @param.query.object('listSet') listSet?: Set,
+    @param.query.object('listFilter', getFilterSchemaFor(ListReaction))
+    listFilter?: Filter<ListReaction>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the record. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<ListReaction> {
+    if (set) {
+      filter = new SetFilterBuilder<ListReaction>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    if (listSet) {
+      listFilter = new SetFilterBuilder<ListReaction>(listSet, {
+        filter: listFilter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    sanitizeFilterFields(listFilter);
+
+    return this.listReactionsRepository.findTreeById(
+      id,
+      filter,
+      listFilter,
+      maxDepth,
+      { useMongoPipeline: true },
+    );
+  }
+
+  @transactional()
+  @post('/list-reactions/{id}/children', {
+    operationId: 'createChildListReaction',
+    responses: {
+      '200': {
+        description: 'ListReaction model instance',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(ListReaction, {
+              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof ListReaction)[],
+            }),
+          },
+        },
+      },
+      '429': {
+        description: 'List reaction limit is exceeded',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'List reaction already exists.',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'Parent list reaction not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async createChild(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: getModelSchemaRef(ListReaction, {
+            title: 'NewChildListReaction',
+            exclude: [
+              ...STRICTLY_INTERNAL_FIELDS,
+              '_parents',
+            ] as (keyof ListReaction)[],
+            includeRelations: false,
+          }),
+        },
+      },
+    })
+    listReaction: Omit<ListReaction, StrictlyInternalFields | '_parents'>,
+    @inject('active.transaction.options', { optional: true })
+    options: any = {},
+  ): Promise<ListReaction> {
+    return this.listReactionsRepository.createChild(id, listReaction, options);
+  }
+
+  @transactional()
+  @post('/list-reactions/{id}/move', {
+    operationId: 'moveListReaction',
+    responses: {
+      '200': {
+        description: 'List reaction moved to its new parent',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(ListReaction, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof ListReaction)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Neither a from nor a to parent is given',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'List reaction not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'The list reaction does not have the from parent, the to parent does not exist, or the new parents violate a lookup constraint or form a cycle',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async move(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            title: 'MoveListReaction',
+            properties: {
+              from: {
+                type: 'string',
+                description:
+                  'ID of the parent to detach the list reaction from',
+              },
+              to: {
+                type: 'string',
+                description: 'ID of the parent to attach the list reaction to',
+              },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+          },
+        },
+      },
+    })
+    body: { from?: string; to?: string },
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<ListReaction> {
+    return this.listReactionsRepository.move(id, body.from, body.to, options);
+  }
+
+  @get('/list-reactions/{id}/revisions', {
+    operationId: 'findListReactionRevisions',
+    responses: {
+      '200': {
+        description:
+          'Array of revisions of the list reaction, ordered by version',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(RecordRevision),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisions(
+    @param.path.string('id') id: string,
+    @param.query.object('filter', getFilterSchemaFor(RecordRevision))
+    filter?: Filter<RecordRevision>,
+  ): Promise<RecordRevision[]> {
+    sanitizeFilterFields(filter);
+
+    return this.listReactionsRepository.findRevisions(id, filter);
+  }
+
+  @get('/list-reactions/{id}/revisions/{version}', {
+    operationId: 'findListReactionRevisionByVersion',
+    responses: {
+      '200': {
+        description: 'Revision of the list reaction with the given version',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(RecordRevision),
+          },
+        },
+      },
+      '404': {
+        description: 'Revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisionByVersion(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+  ): Promise<RecordRevision> {
+    return this.listReactionsRepository.findRevisionByVersion(id, version);
+  }
+
+  @transactional()
+  @post('/list-reactions/{id}/revisions/{version}/restore', {
+    operationId: 'restoreListReactionRevision',
+    responses: {
+      '200': {
+        description: 'List reaction restored to the given revision',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(ListReaction, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof ListReaction)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'List reaction or revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Restored data violates a uniqueness constraint',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getModelSchemaRef(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async restoreRevision(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+    @param.header.string('If-Match') ifMatch?: string,
+    @inject('active.transaction.options', { optional: true })
+    options: any = {},
+  ): Promise<ListReaction> {
+    return this.listReactionsRepository.restoreRevision(
+      id,
+      version,
+      parseIfMatchVersion(ifMatch),
+      options,
+    );
   }
 }
@@ -1,6 +1,27 @@
+import { inject } from '@loopback/context';
 import { Filter, repository } from '@loopback/repository';
-import { get, getModelSchemaRef, param } from '@loopback/rest';
+import {
+  get,
+  getModelSchemaRef,
+  param,
+  Response,
+  RestBindings,
+} from '@loopback/rest';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
 import { List, ListToEntityRelation, HttpErrorResponse } from '../models';
 import { ALWAYS_HIDDEN_FIELDS } from '../models/base-types/unmodifiable-common-fields';
@@ -10,6 +31,8 @@ export class ListsThroughEntityController {
   constructor(
     @repository(EntityRepository)
     protected entityRepository: EntityRepository,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
   ) {}
 
   @get('/entities/{id}/lists', {
@@ -59,6 +82,17 @@ export class ListsThroughEntityController {
     @param.query.object('setThrough') setThrough?: Set,
     @param.query.object('filterThrough')
     filterThrough?: Filter<ListToEntityRelation>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<List[]> {
     if (set) {
       filter = new SetFilterBuilder<List>(set, {
@@ -77,6 +111,31 @@ export class ListsThroughEntityController {
 
     const repo = await this.entityRepository.lists(id);
 
-    return repo.find(filter, filterThrough);
+    const responseLimit = this.responseLimitConfigReader.getListResponseLimit();
+    const pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const lists = await repo.find(pageFilter, filterThrough);
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(lists, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = await repo.count(filter?.where, filterThrough?.where);
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return lists;
   }
 }
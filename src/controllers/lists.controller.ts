@@ -20,14 +20,59 @@ import {
   put,
   requestBody,
   Request,
+  Response,
   RestBindings,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
 import { Set, SetFilterBuilder } from '../extensions';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  SearchConfigBindings,
+  SearchConfigurationReader,
+} from '../extensions/config-helpers/search-config-helper';
 import { processIncludes } from '../extensions/types/sets-in-inclusions';
 import { processLookups } from '../extensions/types/sets-in-lookups';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
+import {
+  applyIfMatchVersion,
+  buildEtag,
+  parseIfMatchVersion,
+} from '../extensions/utils/etag-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
-import { List, HttpErrorResponse } from '../models';
+import { readImportLines } from '../extensions/utils/import-helper';
+import type { JsonPatchOperation } from '../extensions/utils/json-patch-helper';
+import {
+  NDJSON_CONTENT_TYPE,
+  writeNdjson,
+} from '../extensions/utils/ndjson-helper';
+import { extendOptions } from '../extensions/utils/options-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
+import {
+  applySearchPage,
+  countSearchMatches,
+  findSearchPage,
+  sortBySearchPage,
+} from '../extensions/utils/search-helper';
+import {
+  AggregateBucket,
+  BulkCreateResult,
+  BulkDeleteResult,
+  List,
+  HttpErrorResponse,
+  ImportResult,
+  RecordRevision,
+} from '../models';
 import {
   STRICTLY_INTERNAL_FIELDS,
   UPDATE_EXCLUDED_FIELDS,
@@ -36,7 +81,21 @@ import {
   ALWAYS_HIDDEN_FIELDS,
 } from '../models/base-types/unmodifiable-common-fields';
 import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { getImportRequestBodyContent } from '../openapi/import-schemas';
+import {
+  getJsonPatchSchema,
+  JSON_PATCH_CONTENT_TYPE,
+} from '../openapi/json-patch-schemas';
 import { ListRepository } from '../repositories';
+import { AggregateBindings } from '../services/aggregate.bindings';
+import { AggregateService } from '../services/aggregate.service';
+import { BulkCreateBindings } from '../services/bulk-create.bindings';
+import {
+  BulkCreateMode,
+  BulkCreateService,
+} from '../services/bulk-create.service';
+import { BulkDeleteBindings } from '../services/bulk-delete.bindings';
+import { BulkDeleteService } from '../services/bulk-delete.service';
 import { LoggingService } from '../services/logging.service';
 
 export class ListsController {
@@ -47,6 +106,16 @@ export class ListsController {
     private loggingService: LoggingService,
     @inject(RestBindings.Http.REQUEST)
     private request: Request,
+    @inject(BulkCreateBindings.SERVICE)
+    private bulkCreateService: BulkCreateService,
+    @inject(BulkDeleteBindings.SERVICE)
+    private bulkDeleteService: BulkDeleteService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
+    @inject(SearchConfigBindings.CONFIG_READER)
+    private searchConfigReader: SearchConfigurationReader,
+    @inject(AggregateBindings.SERVICE)
+    private aggregateService: AggregateService,
   ) {}
 
   @transactional()
@@ -144,6 +213,186 @@ export class ListsController {
     return this.listRepository.create(list, options);
   }
 
+  @transactional()
+  @post('/lists/bulk', {
+    operationId: 'createLists',
+    responses: {
+      '200': {
+        description:
+          'Result of each item, in the order of the items in the request body',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(BulkCreateResult),
+            },
+          },
+        },
+      },
+      '429': {
+        description: 'List limit is exceeded by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'List uniqueness is violated by an item, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'Unprocessable entity - an item is invalid, in atomic mode',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed request body or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async createBulk(
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'array',
+            maxItems: BulkCreateService.MAX_ITEMS,
+            items: getModelSchemaRef(List, {
+              title: 'NewList',
+              exclude: STRICTLY_INTERNAL_FIELDS as (keyof List)[],
+              includeRelations: false,
+            }),
+          },
+        },
+      },
+    })
+    lists: Omit<List, StrictlyInternalFields>[],
+    @param.query.string('mode', {
+      description:
+        'atomic: if an item cannot be created, none of the items are created. best-effort: the items that can be created are created, and the others are reported with their errors. Defaults to atomic.',
+      schema: {
+        type: 'string',
+        enum: ['atomic', 'best-effort'],
+      },
+    })
+    mode: BulkCreateMode = 'atomic',
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkCreateResult[]> {
+    return this.bulkCreateService.createAll(
+      lists,
+      mode,
+      (item, itemOptions) => this.listRepository.create(item, itemOptions),
+      options,
+    );
+  }
+
+  @post('/lists/import', {
+    operationId: 'importLists',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the result of each line, in the order of the lines in the import file',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(ImportResult),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed CSV header or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async import(
+    @requestBody({
+      description:
+        'The lists to create, either as newline-delimited JSON with one list on each line, or as CSV with a header row',
+      required: true,
+      content: getImportRequestBodyContent(),
+    })
+    body: Request,
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.boolean('dryRun', {
+      description:
+        'Checks each line as if the list was created, without creating any lists.',
+    })
+    dryRun?: boolean,
+  ): Promise<Response> {
+    const results = this.bulkCreateService.importAll(
+      readImportLines(body, body.headers['content-type']),
+      this.listRepository.entityClass,
+      (record, recordOptions) =>
+        this.listRepository.create(record, recordOptions),
+      dryRun,
+    );
+
+    return writeNdjson(response, results);
+  }
+
   @get('/lists/count', {
     operationId: 'countLists',
     responses: {
@@ -198,6 +447,86 @@ export class ListsController {
     return this.listRepository.count(filter.where);
   }
 
+  @get('/lists/aggregate', {
+    operationId: 'aggregateLists',
+    responses: {
+      '200': {
+        description:
+          'Buckets of the matching List model instances, with the requested metrics',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(AggregateBucket),
+            },
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed where, groupBy or metrics query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async aggregate(
+    @param.query.object('set') set?: Set,
+    @param.where(List) where?: Where<List>,
+    @param.query.string('groupBy', {
+      description:
+        'Comma separated fields to group the records by, e.g. `_kind,status`. A date field followed by an interval builds a date histogram, e.g. `_createdDateTime:month`.',
+    })
+    groupBy?: string,
+    @param.query.string('metrics', {
+      description:
+        'Comma separated metrics to compute for each bucket: `count`, or `sum`, `avg`, `min` and `max` of a field, e.g. `count,avg:price`. Defaults to `count`.',
+    })
+    metrics?: string,
+  ): Promise<AggregateBucket[]> {
+    const filterBuilder = new FilterBuilder<List>();
+
+    if (where) {
+      filterBuilder.where(where);
+    }
+
+    let filter = filterBuilder.build();
+
+    if (set) {
+      filter = new SetFilterBuilder<List>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return this.aggregateService.aggregate(
+      this.listRepository,
+      filter.where,
+      groupBy,
+      metrics,
+    );
+  }
+
   @get('/lists', {
     operationId: 'findLists',
     responses: {
@@ -245,6 +574,22 @@ export class ListsController {
     @param.query.object('set') set?: Set,
     @param.query.object('filter', getFilterSchemaFor(List))
     filter?: Filter<List>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @param.query.string('search', {
+      description:
+        'Full-text search on the fields configured for search. Matching records are ordered by relevance unless filter[order] is given.',
+    })
+    search?: string,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<List[]> {
     if (set) {
       filter = new SetFilterBuilder<List>(set, {
@@ -256,7 +601,123 @@ export class ListsController {
     processLookups<List>(filter);
     sanitizeFilterFields(filter);
 
-    return this.listRepository.find(filter);
+    const responseLimit = this.responseLimitConfigReader.getListResponseLimit();
+    let pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const searchPage = search
+      ? await findSearchPage(
+          this.listRepository,
+          this.searchConfigReader,
+          'list',
+          search,
+          pageFilter,
+          responseLimit,
+        )
+      : undefined;
+
+    if (searchPage) {
+      pageFilter = applySearchPage(pageFilter, searchPage);
+    }
+
+    const lists = sortBySearchPage(
+      await this.listRepository.find(pageFilter),
+      searchPage,
+    );
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(lists, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = search
+        ? await countSearchMatches(
+            this.listRepository,
+            this.searchConfigReader,
+            'list',
+            search,
+            filter?.where,
+          )
+        : await this.listRepository.count(filter?.where);
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return lists;
+  }
+
+  @get('/lists/export', {
+    operationId: 'exportLists',
+    responses: {
+      '200': {
+        description:
+          'Newline-delimited JSON stream of the matching List model instances, in ascending order of their ids',
+        content: {
+          [NDJSON_CONTENT_TYPE]: {
+            schema: getModelSchemaRef(List, {
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof List)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async export(
+    @inject(RestBindings.Http.RESPONSE) response: Response,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(List))
+    filter?: Filter<List>,
+    @param.query.string('after', {
+      description:
+        'Resumes an interrupted export after the list with this id. Use the _id of the last list received.',
+    })
+    after?: string,
+  ): Promise<Response> {
+    if (set) {
+      filter = new SetFilterBuilder<List>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+
+    return writeNdjson(response, this.listRepository.iterate(filter, after));
   }
 
   @transactional()
@@ -329,17 +790,113 @@ export class ListsController {
     return this.listRepository.updateAll(list, filter.where, options);
   }
 
-  @get('/lists/{id}', {
-    operationId: 'findListById',
+  @transactional()
+  @del('/lists', {
+    operationId: 'deleteLists',
     responses: {
       '200': {
-        description: 'List model instance',
+        description:
+          'Number and ids of the matched lists. Nothing is deleted in dry-run mode.',
         content: {
           'application/json': {
-            schema: getModelSchemaRef(List, {
-              includeRelations: true,
-              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof List)[],
-            }),
+            schema: getModelSchemaRef(BulkDeleteResult),
+          },
+        },
+      },
+      '400': {
+        description:
+          'Bad request - malformed filter or query parameter, or the delete is not confirmed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Filter matches more lists than the maximum batch size',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async deleteAll(
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(List))
+    filter?: Filter<List>,
+    @param.query.boolean('confirm', {
+      description:
+        'Must be true to delete the matched lists. Not required in dry-run mode.',
+    })
+    confirm?: boolean,
+    @param.query.boolean('dryRun', {
+      description:
+        'Returns the number and ids of the matched lists without deleting them.',
+    })
+    dryRun?: boolean,
+    @param.query.string('deletedBy', {
+      description:
+        'Id of the user deleting the lists. Kept in `_deletedBy` when the lists are moved to the trash.',
+    })
+    deletedBy?: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<BulkDeleteResult> {
+    const filterBuilder = new FilterBuilder<List>();
+
+    if (filter?.where) {
+      filterBuilder.where(filter.where);
+    }
+
+    let whereFilter = filterBuilder.build();
+
+    if (set) {
+      whereFilter = new SetFilterBuilder<List>(set, {
+        filter: whereFilter,
+      }).build();
+    }
+
+    return this.bulkDeleteService.deleteAll(
+      this.listRepository,
+      whereFilter.where,
+      { confirm, dryRun, deletedBy },
+      options,
+    );
+  }
+
+  @get('/lists/{id}', {
+    operationId: 'findListById',
+    responses: {
+      '200': {
+        description: 'List model instance',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(List, {
+              includeRelations: true,
+              exclude: [...ALWAYS_HIDDEN_FIELDS, '_relationMetadata'] as (keyof List)[],
+            }),
           },
         },
       },
@@ -385,6 +942,7 @@ export class ListsController {
     @param.path.string('id') id: string,
     @param.query.object('filter', getFilterSchemaFor(List))
     filter?: FilterExcludingWhere<List>,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<List> {
     // Process includes to handle relation-specific filtering:
     // 1. setThrough - Apply sets to filter the relation records themselves
@@ -397,7 +955,14 @@ export class ListsController {
     processLookups<List>(filter);
     sanitizeFilterFields(filter);
 
-    return this.listRepository.findById(id, filter);
+    const record = await this.listRepository.findById(id, filter);
+    const etag = buildEtag(record._version);
+
+    if (etag) {
+      response?.setHeader('ETag', etag);
+    }
+
+    return record;
   }
 
   @transactional()
@@ -407,6 +972,30 @@ export class ListsController {
       '204': {
         description: 'List PATCH success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Test operation of the JSON Patch failed',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'List not found',
         content: {
@@ -460,6 +1049,8 @@ export class ListsController {
   async updateById(
     @param.path.string('id') id: string,
     @requestBody({
+      description:
+        'Fields to update. Arrays and numbers can also be modified relative to their current value with the `$push`, `$addToSet`, `$pull` and `$inc` operators.',
       content: {
         'application/json': {
           schema: getModelSchemaRef(List, {
@@ -469,12 +1060,30 @@ export class ListsController {
             includeRelations: false,
           }),
         },
+        [JSON_PATCH_CONTENT_TYPE]: {
+          schema: getJsonPatchSchema(),
+        },
       },
     })
-    list: Omit<List, UpdateExcludedFields>,
+    list: Omit<List, UpdateExcludedFields> | JsonPatchOperation[],
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    // A JSON Patch document is the only array accepted as the body
+    if (Array.isArray(list)) {
+      await this.listRepository.patchById(
+        id,
+        list,
+        parseIfMatchVersion(ifMatch),
+        options,
+      );
+
+      return;
+    }
+
+    applyIfMatchVersion(list, ifMatch);
+
     await this.listRepository.updateById(id, list, options);
   }
 
@@ -485,6 +1094,18 @@ export class ListsController {
       '204': {
         description: 'List PUT success',
       },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
       '404': {
         description: 'List not found',
         content: {
@@ -549,9 +1170,12 @@ export class ListsController {
       },
     })
     list: Omit<List, UpdateExcludedFields>,
+    @param.header.string('If-Match') ifMatch?: string,
     @inject('active.transaction.options', { optional: true })
     options: Options = {},
   ): Promise<void> {
+    applyIfMatchVersion(list, ifMatch);
+
     await this.listRepository.replaceById(id, list, options);
   }
 
@@ -602,10 +1226,18 @@ export class ListsController {
   })
   async deleteById(
     @param.path.string('id') id: string,
+    @param.query.string('deletedBy', {
+      description:
+        'Id of the user deleting the list. Kept in `_deletedBy` when the list is moved to the trash.',
+    })
+    deletedBy?: string,
     @inject('active.transaction.options', { optional: true })
     options: any = {},
   ): Promise<void> {
-    await this.listRepository.deleteById(id, options);
+    await this.listRepository.deleteById(
+      id,
+      deletedBy ? extendOptions(options, { deletedBy }) : options,
+    );
   }
 
   @post('/lists/{id}/children', {
@@ -719,6 +1351,106 @@ export class ListsController {
     return this.listRepository.createChild(id, list, options);
   }
 
+  @transactional()
+  @post('/lists/{id}/move', {
+    operationId: 'moveList',
+    responses: {
+      '200': {
+        description: 'List moved to its new parent',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(List, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof List)[],
+            }),
+          },
+        },
+      },
+      '400': {
+        description: 'Neither a from nor a to parent is given',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'List not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description:
+          'The list does not have the from parent, the to parent does not exist, or the new parents violate a lookup constraint or form a cycle',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async move(
+    @param.path.string('id') id: string,
+    @requestBody({
+      content: {
+        'application/json': {
+          schema: {
+            type: 'object',
+            title: 'MoveList',
+            properties: {
+              from: {
+                type: 'string',
+                description: 'ID of the parent to detach the list from',
+              },
+              to: {
+                type: 'string',
+                description: 'ID of the parent to attach the list to',
+              },
+            },
+            minProperties: 1,
+            additionalProperties: false,
+          },
+        },
+      },
+    })
+    body: { from?: string; to?: string },
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<List> {
+    return this.listRepository.move(id, body.from, body.to, options);
+  }
+
   @get('/lists/{id}/parents', {
     operationId: 'findParentsByListId',
     responses: {
@@ -866,4 +1598,680 @@ export class ListsController {
 
     return this.listRepository.findChildren(id, filter);
   }
+
+  @get('/lists/{id}/ancestors', {
+    operationId: 'findAncestorsByListId',
+    responses: {
+      '200': {
+        description:
+          'Array of ancestor List model instances, annotated with their distance to the given record in _relativeDepth',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(List, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof List)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given List, 1 for its parents, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'List not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findAncestors(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(List))
+    filter?: Filter<List>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go up the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<List[]> {
+    if (set) {
+      filter = new SetFilterBuilder<List>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<List>(filter);
+    processLookups<List>(filter);
+
+    return this.listRepository.findAncestors(id, filter, maxDepth);
+  }
+
+  @get('/lists/{id}/descendants', {
+    operationId: 'findDescendantsByListId',
+    responses: {
+      '200': {
+        description:
+          'Array of descendant List model instances, annotated with their distance to the given record in _relativeDepth',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: {
+                allOf: [
+                  getModelSchemaRef(List, {
+                    includeRelations: true,
+                    exclude: [
+                      ...ALWAYS_HIDDEN_FIELDS,
+                      '_relationMetadata',
+                    ] as (keyof List)[],
+                  }),
+                  {
+                    type: 'object',
+                    properties: {
+                      _relativeDepth: {
+                        type: 'integer',
+                        description:
+                          'Distance to the given List, 1 for its children, 2 for theirs, and so on. Not to be confused with the _depth of the record in the whole hierarchy',
+                      },
+                    },
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+      '404': {
+        description: 'List not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findDescendants(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(List))
+    filter?: Filter<List>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to go down the hierarchy. All levels are traversed if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<List[]> {
+    if (set) {
+      filter = new SetFilterBuilder<List>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<List>(filter);
+    processLookups<List>(filter);
+
+    return this.listRepository.findDescendants(id, filter, maxDepth);
+  }
+
+  @get('/lists/tree', {
+    operationId: 'findListTree',
+    responses: {
+      '200': {
+        description:
+          'Array of List model instances without parents, with their descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(List, {
+                includeRelations: true,
+                exclude: [
+                  ...ALWAYS_HIDDEN_FIELDS,
+                  '_relationMetadata',
+                ] as (keyof List)[],
+              }),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findTree(
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(List))
+    filter?: Filter<List>,
+    @param.query.string('rootKind', {
+      description:
+        'Kind of the records at the top of the tree. All records without parents are at the top if not given.',
+    })
+    rootKind?: string,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the top of the tree. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<List[]> {
+    if (set) {
+      filter = new SetFilterBuilder<List>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<List>(filter);
+    processLookups<List>(filter);
+
+    return this.listRepository.findTree(filter, rootKind, maxDepth);
+  }
+
+  @get('/lists/{id}/tree', {
+    operationId: 'findListTreeById',
+    responses: {
+      '200': {
+        description:
+          'List model instance with its descendants nested in _children',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(List, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof List)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'List not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findTreeById(
+    @param.path.string('id') id: string,
+    @param.query.object('set') set?: Set,
+    @param.query.object('filter', getFilterSchemaFor(List))
+    filter?: Filter<List>,
+    @param.query.integer('maxDepth', {
+      description:
+        'Number of levels to load below the record. All levels are loaded if not given.',
+      schema: { type: 'integer', minimum: 1 },
+    })
+    maxDepth?: number,
+  ): Promise<List> {
+    if (set) {
+      filter = new SetFilterBuilder<List>(set, {
+        filter: filter,
+      }).build();
+    }
+
+    sanitizeFilterFields(filter);
+    processIncludes<List>(filter);
+    processLookups<List>(filter);
+
+    return this.listRepository.findTreeById(id, filter, maxDepth);
+  }
+
+  @get('/lists/{id}/revisions', {
+    operationId: 'findListRevisions',
+    responses: {
+      '200': {
+        description: 'Array of revisions of the list, ordered by version',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(RecordRevision),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisions(
+    @param.path.string('id') id: string,
+    @param.query.object('filter', getFilterSchemaFor(RecordRevision))
+    filter?: Filter<RecordRevision>,
+  ): Promise<RecordRevision[]> {
+    sanitizeFilterFields(filter);
+
+    return this.listRepository.findRevisions(id, filter);
+  }
+
+  @get('/lists/{id}/revisions/{version}', {
+    operationId: 'findListRevisionByVersion',
+    responses: {
+      '200': {
+        description: 'Revision of the list with the given version',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(RecordRevision),
+          },
+        },
+      },
+      '404': {
+        description: 'Revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findRevisionByVersion(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+  ): Promise<RecordRevision> {
+    return this.listRepository.findRevisionByVersion(id, version);
+  }
+
+  @transactional()
+  @post('/lists/{id}/revisions/{version}/restore', {
+    operationId: 'restoreListRevision',
+    responses: {
+      '200': {
+        description: 'List restored to the given revision',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(List, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof List)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'List or revision not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description: 'Restored data violates a uniqueness constraint',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '412': {
+        description: 'Precondition failed - version mismatch',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '422': {
+        description: 'Unprocessable entity',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async restoreRevision(
+    @param.path.string('id') id: string,
+    @param.path.number('version') version: number,
+    @param.header.string('If-Match') ifMatch?: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<List> {
+    return this.listRepository.restoreRevision(
+      id,
+      version,
+      parseIfMatchVersion(ifMatch),
+      options,
+    );
+  }
+
+  @transactional()
+  @post('/lists/{id}/restore', {
+    operationId: 'restoreList',
+    responses: {
+      '200': {
+        description: 'List taken out of the trash',
+        content: {
+          'application/json': {
+            schema: getModelSchemaRef(List, {
+              includeRelations: true,
+              exclude: [
+                ...ALWAYS_HIDDEN_FIELDS,
+                '_relationMetadata',
+              ] as (keyof List)[],
+            }),
+          },
+        },
+      },
+      '404': {
+        description: 'List not found',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '409': {
+        description:
+          'List is not in the trash or violates a uniqueness constraint',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async restore(
+    @param.path.string('id') id: string,
+    @inject('active.transaction.options', { optional: true })
+    options: Options = {},
+  ): Promise<List> {
+    return this.listRepository.restoreDeletedById(id, options);
+  }
+
+  @post('/lists/purge', {
+    operationId: 'purgeListTrash',
+    responses: {
+      '200': {
+        description: 'Number of lists permanently deleted from the trash',
+        content: { 'application/json': { schema: CountSchema } },
+      },
+      '400': {
+        description: 'Bad request - malformed query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async purge(
+    @param.query.number('retentionDays', {
+      description:
+        'Purge lists that have been in the trash for longer than this number of days. Defaults to the configured retention window.',
+      schema: { type: 'number', minimum: 0 },
+    })
+    retentionDays?: number,
+  ): Promise<Count> {
+    return this.listRepository.purgeDeleted(retentionDays);
+  }
+
+  @post('/lists/rebuild-reaction-counts', {
+    operationId: 'rebuildListReactionCounts',
+    responses: {
+      '200': {
+        description: 'Number of lists whose reaction counters were recomputed',
+        content: { 'application/json': { schema: CountSchema } },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async rebuildReactionCounts(): Promise<Count> {
+    return this.listRepository.rebuildReactionCounts();
+  }
 }
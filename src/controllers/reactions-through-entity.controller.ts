@@ -16,9 +16,25 @@ import {
   patch,
   post,
   requestBody,
+  Response,
+  RestBindings,
 } from '@loopback/rest';
 import { transactional } from '../decorators';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import {
+  applyCursor,
+  getNextCursor,
+  NEXT_CURSOR_HEADER,
+} from '../extensions/utils/cursor-helper';
 import { sanitizeFilterFields } from '../extensions/utils/filter-helper';
+import {
+  getAppliedLimit,
+  getSkip,
+  setPageInfoHeaders,
+} from '../extensions/utils/page-info-helper';
 import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
 import { EntityReaction, HttpErrorResponse } from '../models';
 import {
@@ -37,6 +53,8 @@ export class ReactionsThroughEntityController {
     protected reactionRepository: CustomReactionThroughEntityRepository,
     @inject('services.LoggingService')
     private logger: LoggingService,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
   ) {}
 
   @get('/entities/{id}/reactions', {
@@ -98,6 +116,17 @@ export class ReactionsThroughEntityController {
     @param.path.string('id') id: string,
     @param.query.object('set') set?: Set,
     @param.query.object('filter') filter?: Filter<EntityReaction>,
+    @param.query.string('cursor', {
+      description:
+        'Enables cursor pagination. Use `*` for the first page, then the value of the X-Next-Cursor response header for the next pages.',
+    })
+    cursor?: string,
+    @param.query.boolean('pageInfo', {
+      description:
+        'Adds the X-Total-Count, X-Applied-Limit and Link response headers, which describe the page and link to the next and previous pages.',
+    })
+    pageInfo?: boolean,
+    @inject(RestBindings.Http.RESPONSE) response?: Response,
   ): Promise<EntityReaction[]> {
     // Set the source entity ID in the repository
     this.reactionRepository.sourceEntityId = id;
@@ -110,7 +139,33 @@ export class ReactionsThroughEntityController {
 
     sanitizeFilterFields(filter);
 
-    return this.reactionRepository.find(filter);
+    const responseLimit =
+      this.responseLimitConfigReader.getEntityReactionResponseLimit();
+    const pageFilter =
+      cursor === undefined
+        ? filter
+        : applyCursor(filter, cursor, responseLimit);
+    const reactions = await this.reactionRepository.find(pageFilter);
+    const nextCursor =
+      cursor === undefined ? undefined : getNextCursor(reactions, pageFilter!);
+
+    if (nextCursor) {
+      response?.setHeader(NEXT_CURSOR_HEADER, nextCursor);
+    }
+
+    if (pageInfo && response) {
+      const { count } = await this.reactionRepository.count(filter?.where);
+
+      setPageInfoHeaders(response, {
+        appliedLimit: getAppliedLimit(filter, responseLimit),
+        totalCount: count,
+        skip: getSkip(filter),
+        cursorMode: cursor !== undefined,
+        nextCursor,
+      });
+    }
+
+    return reactions;
   }
 
   @transactional()
@@ -0,0 +1,112 @@
+import { inject } from '@loopback/context';
+import type { Filter } from '@loopback/repository';
+import { get, getJsonSchema, getModelSchemaRef, param } from '@loopback/rest';
+import {
+  HttpErrorResponse,
+  WebhookDeadLetter,
+  WebhookDelivery,
+} from '../models';
+import { getFilterSchemaFor } from '../openapi/filter-schemas';
+import { WebhookBindings } from '../services/webhook.bindings';
+import { WebhookService } from '../services/webhook.service';
+
+export class WebhooksController {
+  constructor(
+    @inject(WebhookBindings.SERVICE)
+    private webhookService: WebhookService,
+  ) {}
+
+  @get('/webhooks/deliveries', {
+    operationId: 'findWebhookDeliveries',
+    responses: {
+      '200': {
+        description: 'Array of queued and delivered webhook deliveries',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(WebhookDelivery),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findDeliveries(
+    @param.query.object('filter', getFilterSchemaFor(WebhookDelivery))
+    filter?: Filter<WebhookDelivery>,
+  ): Promise<WebhookDelivery[]> {
+    return this.webhookService.findDeliveries(filter);
+  }
+
+  @get('/webhooks/dead-letters', {
+    operationId: 'findWebhookDeadLetters',
+    responses: {
+      '200': {
+        description: 'Array of webhook deliveries that failed on every attempt',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'array',
+              items: getModelSchemaRef(WebhookDeadLetter),
+            },
+          },
+        },
+      },
+      '400': {
+        description: 'Bad request - malformed filter or query parameter',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+      '500': {
+        description: 'Internal server error',
+        content: {
+          'application/json': {
+            schema: {
+              properties: {
+                error: getJsonSchema(HttpErrorResponse),
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  async findDeadLetters(
+    @param.query.object('filter', getFilterSchemaFor(WebhookDeadLetter))
+    filter?: Filter<WebhookDeadLetter>,
+  ): Promise<WebhookDeadLetter[]> {
+    return this.webhookService.findDeadLetters(filter);
+  }
+}
@@ -40,4 +40,32 @@ export class CollectionConfigHelper {
       EnvConfigHelper.getInstance().COLLECTION_LIST_REACTIONS ?? 'ListReactions'
     );
   }
+
+  public getRevisionsCollectionName(): string {
+    return (
+      EnvConfigHelper.getInstance().COLLECTION_REVISIONS ?? 'RecordRevision'
+    );
+  }
+
+  public getChangesCollectionName(): string {
+    return EnvConfigHelper.getInstance().COLLECTION_CHANGES ?? 'ChangeEvent';
+  }
+
+  public getAuditCollectionName(): string {
+    return EnvConfigHelper.getInstance().COLLECTION_AUDIT ?? 'AuditEntry';
+  }
+
+  public getWebhookDeliveriesCollectionName(): string {
+    return (
+      EnvConfigHelper.getInstance().COLLECTION_WEBHOOK_DELIVERIES ??
+      'WebhookDelivery'
+    );
+  }
+
+  public getWebhookDeadLettersCollectionName(): string {
+    return (
+      EnvConfigHelper.getInstance().COLLECTION_WEBHOOK_DEAD_LETTERS ??
+      'WebhookDeadLetter'
+    );
+  }
 }
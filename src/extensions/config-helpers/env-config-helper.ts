@@ -69,6 +69,18 @@ export class EnvConfigHelper {
     this.envMap.set(key.toLowerCase(), value);
   }
 
+  /**
+   * Get all config keys starting with the given prefix, case-insensitive.
+   * Returned keys are lowercased.
+   */
+  public getKeysWithPrefix(prefix: string): string[] {
+    const lowerPrefix = prefix.toLowerCase();
+
+    return Array.from(this.envMap.keys()).filter((key) =>
+      key.startsWith(lowerPrefix),
+    );
+  }
+
   // Strongly-typed getters for known environment variables
   // Lookup constraint config getters
   get ENTITY_LOOKUP_CONSTRAINT(): string | undefined {
@@ -233,6 +245,27 @@ export class EnvConfigHelper {
       'collection_list_entity_rel',
     ]);
   }
+  get COLLECTION_REVISIONS(): string | undefined {
+    return this.get(['COLLECTION_REVISIONS', 'collection_revisions']);
+  }
+  get COLLECTION_CHANGES(): string | undefined {
+    return this.get(['COLLECTION_CHANGES', 'collection_changes']);
+  }
+  get COLLECTION_AUDIT(): string | undefined {
+    return this.get(['COLLECTION_AUDIT', 'collection_audit']);
+  }
+  get COLLECTION_WEBHOOK_DELIVERIES(): string | undefined {
+    return this.get([
+      'COLLECTION_WEBHOOK_DELIVERIES',
+      'collection_webhook_deliveries',
+    ]);
+  }
+  get COLLECTION_WEBHOOK_DEAD_LETTERS(): string | undefined {
+    return this.get([
+      'COLLECTION_WEBHOOK_DEAD_LETTERS',
+      'collection_webhook_dead_letters',
+    ]);
+  }
   get ENTITY_KINDS(): string[] {
     const val = this.get(['ENTITY_KINDS', 'entity_kinds']);
 
@@ -366,6 +399,11 @@ export class EnvConfigHelper {
 
     return val ? Number(val) : undefined;
   }
+  get RESPONSE_LIMIT_AUDIT(): number | undefined {
+    const val = this.get(['RESPONSE_LIMIT_AUDIT', 'response_limit_audit']);
+
+    return val ? Number(val) : undefined;
+  }
   get ENTITY_RECORD_LIMITS(): string | undefined {
     return this.get(['ENTITY_RECORD_LIMITS', 'entity_record_limits']);
   }
@@ -517,4 +555,288 @@ export class EnvConfigHelper {
       `visibility_list_reaction_for_${kind}`,
     ]);
   }
+  // Revision history config getters
+  get HISTORY_ENTITY(): boolean | undefined {
+    const val = this.get(['HISTORY_ENTITY', 'history_entity']);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  get HISTORY_LIST(): boolean | undefined {
+    const val = this.get(['HISTORY_LIST', 'history_list']);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  get HISTORY_ENTITY_REACTION(): boolean | undefined {
+    const val = this.get([
+      'HISTORY_ENTITY_REACTION',
+      'history_entity_reaction',
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  get HISTORY_LIST_REACTION(): boolean | undefined {
+    const val = this.get(['HISTORY_LIST_REACTION', 'history_list_reaction']);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  getHistoryEntityForKind(kind?: string): boolean | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    const val = this.get([
+      `HISTORY_ENTITY_FOR_${kind.toUpperCase()}`,
+      `history_entity_for_${kind}`,
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  getHistoryListForKind(kind?: string): boolean | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    const val = this.get([
+      `HISTORY_LIST_FOR_${kind.toUpperCase()}`,
+      `history_list_for_${kind}`,
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  getHistoryEntityReactionForKind(kind?: string): boolean | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    const val = this.get([
+      `HISTORY_ENTITY_REACTION_FOR_${kind.toUpperCase()}`,
+      `history_entity_reaction_for_${kind}`,
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  getHistoryListReactionForKind(kind?: string): boolean | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    const val = this.get([
+      `HISTORY_LIST_REACTION_FOR_${kind.toUpperCase()}`,
+      `history_list_reaction_for_${kind}`,
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+
+  // Soft delete config getters
+  get SOFT_DELETE_ENTITY(): boolean | undefined {
+    const val = this.get(['SOFT_DELETE_ENTITY', 'soft_delete_entity']);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  get SOFT_DELETE_LIST(): boolean | undefined {
+    const val = this.get(['SOFT_DELETE_LIST', 'soft_delete_list']);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  get SOFT_DELETE_RETENTION_DAYS(): number | undefined {
+    const val = this.get([
+      'SOFT_DELETE_RETENTION_DAYS',
+      'soft_delete_retention_days',
+    ]);
+
+    return val ? Number(val) : undefined;
+  }
+  // Webhook config getters
+  get WEBHOOKS(): string | undefined {
+    return this.get(['WEBHOOKS', 'webhooks']);
+  }
+  get WEBHOOK_MAX_ATTEMPTS(): number | undefined {
+    const val = this.get(['WEBHOOK_MAX_ATTEMPTS', 'webhook_max_attempts']);
+
+    return val ? Number(val) : undefined;
+  }
+  get WEBHOOK_RETRY_DELAY_MS(): number | undefined {
+    const val = this.get(['WEBHOOK_RETRY_DELAY_MS', 'webhook_retry_delay_ms']);
+
+    return val ? Number(val) : undefined;
+  }
+  get WEBHOOK_TIMEOUT_MS(): number | undefined {
+    const val = this.get(['WEBHOOK_TIMEOUT_MS', 'webhook_timeout_ms']);
+
+    return val ? Number(val) : undefined;
+  }
+  get WEBHOOK_DISPATCH_INTERVAL_MS(): number | undefined {
+    const val = this.get([
+      'WEBHOOK_DISPATCH_INTERVAL_MS',
+      'webhook_dispatch_interval_ms',
+    ]);
+
+    return val ? Number(val) : undefined;
+  }
+  // Change feed config getters
+  get CHANGE_FEED_READ_LAG_MS(): number | undefined {
+    const val = this.get([
+      'CHANGE_FEED_READ_LAG_MS',
+      'change_feed_read_lag_ms',
+    ]);
+
+    // A lag of 0 is valid, so only an unset or empty value falls back
+    return val !== undefined && val !== '' ? Number(val) : undefined;
+  }
+  // Bulk delete config getters
+  get BULK_DELETE_MAX_BATCH_SIZE(): number | undefined {
+    const val = this.get([
+      'BULK_DELETE_MAX_BATCH_SIZE',
+      'bulk_delete_max_batch_size',
+    ]);
+
+    return val ? Number(val) : undefined;
+  }
+  getSoftDeleteEntityForKind(kind?: string): boolean | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    const val = this.get([
+      `SOFT_DELETE_ENTITY_FOR_${kind.toUpperCase()}`,
+      `soft_delete_entity_for_${kind}`,
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  getSoftDeleteListForKind(kind?: string): boolean | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    const val = this.get([
+      `SOFT_DELETE_LIST_FOR_${kind.toUpperCase()}`,
+      `soft_delete_list_for_${kind}`,
+    ]);
+    if (val === undefined) {
+      return undefined;
+    }
+
+    return val === 'true';
+  }
+  // Search config getters
+  get ENTITY_SEARCH_FIELDS(): string | undefined {
+    return this.get(['ENTITY_SEARCH_FIELDS', 'entity_search_fields']);
+  }
+  get LIST_SEARCH_FIELDS(): string | undefined {
+    return this.get(['LIST_SEARCH_FIELDS', 'list_search_fields']);
+  }
+  get ENTITY_REACTION_SEARCH_FIELDS(): string | undefined {
+    return this.get([
+      'ENTITY_REACTION_SEARCH_FIELDS',
+      'entity_reaction_search_fields',
+    ]);
+  }
+  get LIST_REACTION_SEARCH_FIELDS(): string | undefined {
+    return this.get([
+      'LIST_REACTION_SEARCH_FIELDS',
+      'list_reaction_search_fields',
+    ]);
+  }
+  getEntitySearchFieldsForKind(kind?: string): string | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    return this.get([
+      `ENTITY_SEARCH_FIELDS_FOR_${kind.toUpperCase()}`,
+      `entity_search_fields_for_${kind}`,
+    ]);
+  }
+  getListSearchFieldsForKind(kind?: string): string | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    return this.get([
+      `LIST_SEARCH_FIELDS_FOR_${kind.toUpperCase()}`,
+      `list_search_fields_for_${kind}`,
+    ]);
+  }
+  getEntityReactionSearchFieldsForKind(kind?: string): string | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    return this.get([
+      `ENTITY_REACTION_SEARCH_FIELDS_FOR_${kind.toUpperCase()}`,
+      `entity_reaction_search_fields_for_${kind}`,
+    ]);
+  }
+  getListReactionSearchFieldsForKind(kind?: string): string | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    return this.get([
+      `LIST_REACTION_SEARCH_FIELDS_FOR_${kind.toUpperCase()}`,
+      `list_reaction_search_fields_for_${kind}`,
+    ]);
+  }
+  // Reaction stats config getters
+  get ENTITY_REACTION_STATS(): string | undefined {
+    return this.get(['ENTITY_REACTION_STATS', 'entity_reaction_stats']);
+  }
+  get LIST_REACTION_STATS(): string | undefined {
+    return this.get(['LIST_REACTION_STATS', 'list_reaction_stats']);
+  }
+  getEntityReactionStatsForKind(kind?: string): string | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    return this.get([
+      `ENTITY_REACTION_STATS_FOR_${kind.toUpperCase()}`,
+      `entity_reaction_stats_for_${kind}`,
+    ]);
+  }
+  getListReactionStatsForKind(kind?: string): string | undefined {
+    if (!kind) {
+      return undefined;
+    }
+
+    return this.get([
+      `LIST_REACTION_STATS_FOR_${kind.toUpperCase()}`,
+      `list_reaction_stats_for_${kind}`,
+    ]);
+  }
 }
@@ -0,0 +1,62 @@
+import { BindingKey } from '@loopback/core';
+
+import { EnvConfigHelper } from './env-config-helper';
+
+export const HistoryConfigBindings = {
+  CONFIG_READER: BindingKey.create<HistoryConfigurationReader>(
+    'extensions.history.configurationreader',
+  ),
+};
+
+/**
+ * Reads the revision history configuration.
+ *
+ * Revision history is opt-in. It can be enabled for a whole model
+ * (e.g. HISTORY_ENTITY=true) and overridden per kind
+ * (e.g. HISTORY_ENTITY_FOR_BOOK=false).
+ */
+export class HistoryConfigurationReader {
+  private env = EnvConfigHelper.getInstance();
+  defaultEntityHistory: boolean = false;
+  defaultListHistory: boolean = false;
+  defaultEntityReactionHistory: boolean = false;
+  defaultListReactionHistory: boolean = false;
+
+  public isHistoryEnabledForEntities(kind?: string): boolean {
+    const kindVal = this.env.getHistoryEntityForKind(kind);
+    if (kindVal !== undefined) {
+      return kindVal;
+    }
+
+    return this.env.HISTORY_ENTITY ?? this.defaultEntityHistory;
+  }
+
+  public isHistoryEnabledForLists(kind?: string): boolean {
+    const kindVal = this.env.getHistoryListForKind(kind);
+    if (kindVal !== undefined) {
+      return kindVal;
+    }
+
+    return this.env.HISTORY_LIST ?? this.defaultListHistory;
+  }
+
+  public isHistoryEnabledForEntityReactions(kind?: string): boolean {
+    const kindVal = this.env.getHistoryEntityReactionForKind(kind);
+    if (kindVal !== undefined) {
+      return kindVal;
+    }
+
+    return (
+      this.env.HISTORY_ENTITY_REACTION ?? this.defaultEntityReactionHistory
+    );
+  }
+
+  public isHistoryEnabledForListReactions(kind?: string): boolean {
+    const kindVal = this.env.getHistoryListReactionForKind(kind);
+    if (kindVal !== undefined) {
+      return kindVal;
+    }
+
+    return this.env.HISTORY_LIST_REACTION ?? this.defaultListReactionHistory;
+  }
+}
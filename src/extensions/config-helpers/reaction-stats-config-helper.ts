@@ -0,0 +1,124 @@
+import { BindingKey } from '@loopback/core';
+
+import { EnvConfigHelper } from './env-config-helper';
+import type { AggregateMetric } from '../utils/mongo-pipeline-helper';
+
+export const ReactionStatsConfigBindings = {
+  CONFIG_READER: BindingKey.create<ReactionStatsConfigurationReader>(
+    'extensions.reaction-stats.configurationreader',
+  ),
+};
+
+export type ReactionStatsModel = 'entity-reaction' | 'list-reaction';
+
+const METRIC_OPERATORS = ['sum', 'avg', 'min', 'max'];
+
+// Field names and dot separated paths, without MongoDB operators
+const FIELD_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+
+/**
+ * Reads the configuration of the reaction statistics included in entities and
+ * lists through the `_reactionStats` relation.
+ *
+ * Reactions are always counted by kind. Numeric metrics can be added for all
+ * reactions of a model (e.g. ENTITY_REACTION_STATS=avg:value) and per kind
+ * (e.g. ENTITY_REACTION_STATS_FOR_RATING=avg:value,max:value). The metrics of
+ * a kind replace the metrics of the model.
+ */
+export class ReactionStatsConfigurationReader {
+  private env = EnvConfigHelper.getInstance();
+
+  /**
+   * Returns the metrics computed for the reactions of the given kind, in
+   * addition to their count.
+   */
+  public getMetrics(
+    model: ReactionStatsModel,
+    kind?: string,
+  ): AggregateMetric[] {
+    return parseMetrics(
+      this.getKindMetrics(model, kind) ?? this.getModelMetrics(model),
+    );
+  }
+
+  /**
+   * Returns the metrics of the model and of all its kinds, without duplicates.
+   * These are the metrics to compute when reactions of any kind are queried.
+   */
+  public getAllMetrics(model: ReactionStatsModel): AggregateMetric[] {
+    const metrics = new Map<string, AggregateMetric>();
+
+    for (const kind of [undefined, ...this.getConfiguredKinds(model)]) {
+      for (const metric of this.getMetrics(model, kind)) {
+        metrics.set(getMetricKey(metric), metric);
+      }
+    }
+
+    return [...metrics.values()];
+  }
+
+  private getModelMetrics(model: ReactionStatsModel): string | undefined {
+    switch (model) {
+      case 'entity-reaction':
+        return this.env.ENTITY_REACTION_STATS;
+      case 'list-reaction':
+        return this.env.LIST_REACTION_STATS;
+    }
+  }
+
+  private getKindMetrics(
+    model: ReactionStatsModel,
+    kind?: string,
+  ): string | undefined {
+    switch (model) {
+      case 'entity-reaction':
+        return this.env.getEntityReactionStatsForKind(kind);
+      case 'list-reaction':
+        return this.env.getListReactionStatsForKind(kind);
+    }
+  }
+
+  private getConfiguredKinds(model: ReactionStatsModel): string[] {
+    const prefix = `${model.replace('-', '_')}_stats_for_`;
+
+    return this.env
+      .getKeysWithPrefix(prefix)
+      .map((key) => key.slice(prefix.length));
+  }
+}
+
+/**
+ * Returns the key of a metric in the reaction statistics, e.g. `avg:value`.
+ */
+export function getMetricKey(metric: AggregateMetric): string {
+  return metric.field ? `${metric.operator}:${metric.field}` : 'count';
+}
+
+/**
+ * Parses a comma separated list of metrics, e.g. `avg:value,max:value`.
+ */
+function parseMetrics(value?: string): AggregateMetric[] {
+  const metrics: AggregateMetric[] = [];
+
+  for (const entry of (value ?? '').split(',')) {
+    const [operator, field, ...rest] = entry.trim().split(':');
+
+    if (!operator) {
+      continue;
+    }
+
+    if (
+      !METRIC_OPERATORS.includes(operator) ||
+      !FIELD_PATTERN.test(field ?? '') ||
+      rest.length > 0
+    ) {
+      throw new Error(
+        `Invalid reaction stats configuration '${entry.trim()}'. Metrics are sum, avg, min and max of a field, e.g. avg:value.`,
+      );
+    }
+
+    metrics.push({ operator: operator as AggregateMetric['operator'], field });
+  }
+
+  return metrics;
+}
@@ -32,4 +32,8 @@ export class ResponseLimitConfigurationReader {
   public getListReactionResponseLimit(): number {
     return this.env.RESPONSE_LIMIT_LIST_REACTION ?? this.defaultResponseLimit;
   }
+
+  public getAuditResponseLimit(): number {
+    return this.env.RESPONSE_LIMIT_AUDIT ?? this.defaultResponseLimit;
+  }
 }
@@ -0,0 +1,133 @@
+import { BindingKey } from '@loopback/core';
+
+import { EnvConfigHelper } from './env-config-helper';
+
+export const SearchConfigBindings = {
+  CONFIG_READER: BindingKey.create<SearchConfigurationReader>(
+    'extensions.search.configurationreader',
+  ),
+};
+
+export type SearchModel =
+  'entity' | 'list' | 'entity-reaction' | 'list-reaction';
+
+/**
+ * Reads the full-text search configuration.
+ *
+ * Search is opt-in. The searched fields and their weights can be configured
+ * for a whole model (e.g. ENTITY_SEARCH_FIELDS=_name:10,description) and per
+ * kind (e.g. ENTITY_SEARCH_FIELDS_FOR_BOOK=_name:10,description:2). Fields
+ * without a weight have the weight 1. When only kinds are configured, only
+ * the records of these kinds are searched.
+ *
+ * MongoDB allows a single text index per collection, so the fields of all
+ * kinds of a model are indexed together. A field configured for several kinds
+ * is indexed with the highest of its weights.
+ */
+export class SearchConfigurationReader {
+  private env = EnvConfigHelper.getInstance();
+
+  /**
+   * Returns the weight of each field to index for the given model, merging
+   * the fields of the model and of all its kinds.
+   */
+  public getIndexWeights(model: SearchModel): Record<string, number> {
+    const weights: Record<string, number> = {};
+
+    for (const value of [
+      this.getModelFields(model),
+      ...this.getConfiguredKinds(model).map((kind) =>
+        this.getKindFields(model, kind),
+      ),
+    ]) {
+      for (const [field, weight] of Object.entries(parseFields(value))) {
+        weights[field] = Math.max(weights[field] ?? 0, weight);
+      }
+    }
+
+    return weights;
+  }
+
+  /**
+   * Returns the kinds whose records are searched, or undefined if the records
+   * of all kinds are searched.
+   */
+  public getSearchableKinds(model: SearchModel): string[] | undefined {
+    if (this.getModelFields(model) !== undefined) {
+      return undefined;
+    }
+
+    return this.getConfiguredKinds(model);
+  }
+
+  public isSearchConfigured(model: SearchModel): boolean {
+    return Object.keys(this.getIndexWeights(model)).length > 0;
+  }
+
+  private getModelFields(model: SearchModel): string | undefined {
+    switch (model) {
+      case 'entity':
+        return this.env.ENTITY_SEARCH_FIELDS;
+      case 'list':
+        return this.env.LIST_SEARCH_FIELDS;
+      case 'entity-reaction':
+        return this.env.ENTITY_REACTION_SEARCH_FIELDS;
+      case 'list-reaction':
+        return this.env.LIST_REACTION_SEARCH_FIELDS;
+    }
+  }
+
+  private getKindFields(model: SearchModel, kind: string): string | undefined {
+    switch (model) {
+      case 'entity':
+        return this.env.getEntitySearchFieldsForKind(kind);
+      case 'list':
+        return this.env.getListSearchFieldsForKind(kind);
+      case 'entity-reaction':
+        return this.env.getEntityReactionSearchFieldsForKind(kind);
+      case 'list-reaction':
+        return this.env.getListReactionSearchFieldsForKind(kind);
+    }
+  }
+
+  private getConfiguredKinds(model: SearchModel): string[] {
+    const prefix = `${model.replace('-', '_')}_search_fields_for_`;
+
+    return this.env
+      .getKeysWithPrefix(prefix)
+      .map((key) => key.slice(prefix.length));
+  }
+}
+
+/**
+ * Parses a comma separated list of fields with optional weights, e.g.
+ * `_name:10,description`.
+ */
+function parseFields(value?: string): Record<string, number> {
+  const weights: Record<string, number> = {};
+
+  for (const entry of (value ?? '').split(',')) {
+    const [field, weight = '1'] = entry.trim().split(':');
+
+    if (!field) {
+      continue;
+    }
+
+    const parsedWeight = Number(weight);
+
+    // MongoDB accepts integer weights from 1 to 99999
+    if (
+      !Number.isInteger(parsedWeight) ||
+      parsedWeight < 1 ||
+      parsedWeight > 99999
+    ) {
+      throw new Error(
+        `Invalid search field configuration '${entry.trim()}'. Weights must be integers from 1 to 99999.`,
+      );
+    }
+
+    weights[field] = parsedWeight;
+  }
+
+  return weights;
+}
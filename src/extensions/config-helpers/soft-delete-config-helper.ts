@@ -0,0 +1,93 @@
+import { BindingKey } from '@loopback/core';
+
+import { EnvConfigHelper } from './env-config-helper';
+
+export const SoftDeleteConfigBindings = {
+  CONFIG_READER: BindingKey.create<SoftDeleteConfigurationReader>(
+    'extensions.soft-delete.configurationreader',
+  ),
+};
+
+/**
+ * Reads the soft delete configuration.
+ *
+ * Soft delete is opt-in. It can be enabled for a whole model
+ * (e.g. SOFT_DELETE_ENTITY=true) and overridden per kind
+ * (e.g. SOFT_DELETE_ENTITY_FOR_BOOK=false). Soft deleted records stay in the
+ * trash until they are purged after the retention window.
+ */
+export class SoftDeleteConfigurationReader {
+  private env = EnvConfigHelper.getInstance();
+  defaultEntitySoftDelete: boolean = false;
+  defaultListSoftDelete: boolean = false;
+  defaultRetentionDays: number = 30;
+
+  public isSoftDeleteEnabledForEntities(kind?: string): boolean {
+    const kindVal = this.env.getSoftDeleteEntityForKind(kind);
+    if (kindVal !== undefined) {
+      return kindVal;
+    }
+
+    return this.env.SOFT_DELETE_ENTITY ?? this.defaultEntitySoftDelete;
+  }
+
+  public isSoftDeleteEnabledForLists(kind?: string): boolean {
+    const kindVal = this.env.getSoftDeleteListForKind(kind);
+    if (kindVal !== undefined) {
+      return kindVal;
+    }
+
+    return this.env.SOFT_DELETE_LIST ?? this.defaultListSoftDelete;
+  }
+
+  /**
+   * Returns true if soft delete may be enabled for at least one kind of
+   * entities. Soft deleted records are only filtered out of the queries when
+   * soft delete is in use.
+   */
+  public isSoftDeleteConfiguredForEntities(): boolean {
+    return this.isSoftDeleteConfigured(
+      this.isSoftDeleteEnabledForEntities(),
+      'soft_delete_entity_for_',
+    );
+  }
+
+  public isSoftDeleteConfiguredForLists(): boolean {
+    return this.isSoftDeleteConfigured(
+      this.isSoftDeleteEnabledForLists(),
+      'soft_delete_list_for_',
+    );
+  }
+
+  /**
+   * Returns true if soft delete may be enabled for entities or lists.
+   * Relations and reactions are soft deleted together with the records they
+   * belong to, so they use this to decide whether to filter out the trash.
+   */
+  public isSoftDeleteConfiguredForAny(): boolean {
+    return (
+      this.isSoftDeleteConfiguredForEntities() ||
+      this.isSoftDeleteConfiguredForLists()
+    );
+  }
+
+  /**
+   * Number of days a soft deleted record is kept before it can be purged.
+   */
+  public getRetentionDays(): number {
+    return this.env.SOFT_DELETE_RETENTION_DAYS ?? this.defaultRetentionDays;
+  }
+
+  private isSoftDeleteConfigured(
+    enabledForModel: boolean,
+    kindKeyPrefix: string,
+  ): boolean {
+    if (enabledForModel) {
+      return true;
+    }
+
+    return this.env
+      .getKeysWithPrefix(kindKeyPrefix)
+      .some((key) => this.env.get(key) === 'true');
+  }
+}
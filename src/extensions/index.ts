@@ -5,3 +5,7 @@ export * from './config-helpers/validfrom-config-helper';
 export * from './config-helpers/visibility-config-helper';
 export * from './types/inclusion-augmentation';
 export * from './config-helpers/kind-config-helper';
+export * from './config-helpers/history-config-helper';
+export * from './config-helpers/soft-delete-config-helper';
+export * from './config-helpers/search-config-helper';
+export * from './config-helpers/reaction-stats-config-helper';
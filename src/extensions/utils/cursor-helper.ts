@@ -0,0 +1,289 @@
+import type { Filter } from '@loopback/repository';
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import _ from 'lodash';
+import { getAppliedLimit } from './page-info-helper';
+import { HttpErrorResponse } from '../../models';
+
+/**
+ * Response header carrying the cursor of the next page.
+ */
+export const NEXT_CURSOR_HEADER = 'X-Next-Cursor';
+
+/**
+ * Cursor value requesting the first page of a cursor paginated query.
+ */
+export const FIRST_PAGE_CURSOR = '*';
+
+interface CursorOrderKey {
+  field: string;
+  descending: boolean;
+}
+
+interface CursorPayload {
+  order: string[];
+  values: unknown[];
+}
+
+/**
+ * Prepares the filter of a find request for keyset (cursor) pagination.
+ *
+ * The order of the filter is completed with `_id`, so that records with the
+ * same sort values have a stable position. If the cursor points to a page
+ * other than the first one, the where clause is narrowed down to the records
+ * sorted after the last record of the previous page. This way, pages do not
+ * shift when records are inserted or deleted while paginating, and reading a
+ * page does not require skipping the records before it.
+ *
+ * @param filter - The filter of the request
+ * @param cursor - The cursor of the requested page, `*` for the first page
+ * @param responseLimit - The maximum number of records a page can contain
+ * @returns The filter for the requested page
+ */
+export function applyCursor<T extends object>(
+  filter: Filter<T> | undefined,
+  cursor: string,
+  responseLimit: number,
+): Filter<T> {
+  if (filter?.skip !== undefined || filter?.offset !== undefined) {
+    throw createInvalidCursorError(
+      'filter[skip] and filter[offset] cannot be used together with a cursor.',
+    );
+  }
+
+  const orderKeys = getCursorOrderKeys(filter);
+  const order = orderKeys.map(formatOrderKey);
+
+  const result: AnyObject = {
+    ...filter,
+    order,
+    limit: getAppliedLimit(filter, responseLimit),
+    fields: includeOrderFields(filter?.fields, orderKeys),
+  };
+
+  if (result.fields === undefined) {
+    delete result.fields;
+  }
+
+  if (cursor !== FIRST_PAGE_CURSOR) {
+    const payload = decodeCursor(cursor);
+
+    if (!_.isEqual(payload.order, order)) {
+      throw createInvalidCursorError(
+        'Cursor was issued for a different order. Keep filter[order] the same while paginating.',
+      );
+    }
+
+    const afterCursor = buildWhereAfter(orderKeys, payload.values);
+
+    result.where = _.isEmpty(filter?.where)
+      ? afterCursor
+      : { and: [filter!.where, afterCursor] };
+  }
+
+  return result as Filter<T>;
+}
+
+/**
+ * Returns the cursor of the page after the given page, or undefined if the
+ * page is the last one.
+ *
+ * @param records - The records of the page
+ * @param filter - The filter the page was read with, as prepared by applyCursor
+ * @returns The cursor of the next page
+ */
+export function getNextCursor<T extends object>(
+  records: T[],
+  filter: Filter<T>,
+): string | undefined {
+  if (records.length === 0 || records.length < (filter.limit ?? Infinity)) {
+    return undefined;
+  }
+
+  const orderKeys = getCursorOrderKeys(filter);
+  const lastRecord = records[records.length - 1];
+
+  return encodeCursor({
+    order: orderKeys.map(formatOrderKey),
+    values: orderKeys.map((key) => toCursorValue(_.get(lastRecord, key.field))),
+  });
+}
+
+/**
+ * Parses the order of the filter into sort keys, ending with `_id`. Keys
+ * after `_id` are left out, as `_id` alone determines the position of a
+ * record.
+ */
+function getCursorOrderKeys<T extends object>(
+  filter?: Filter<T>,
+): CursorOrderKey[] {
+  const orderItems = _.flatMap(_.castArray(filter?.order ?? []), (item) =>
+    typeof item === 'string' ? item.split(',') : [item],
+  );
+  const keys: CursorOrderKey[] = [];
+
+  for (const item of orderItems) {
+    if (typeof item !== 'string') {
+      throw createInvalidCursorError(
+        'filter[order] must consist of field names optionally followed by ASC or DESC.',
+      );
+    }
+
+    const [field, direction, ...rest] = item.trim().split(/\s+/);
+
+    if (!field) {
+      continue;
+    }
+
+    if (rest.length > 0 || !/^(ASC|DESC)?$/i.test(direction ?? '')) {
+      throw createInvalidCursorError(
+        `Order '${item.trim()}' is not valid. Use a field name optionally followed by ASC or DESC.`,
+      );
+    }
+
+    if (keys.some((key) => key.field === field)) {
+      continue;
+    }
+
+    keys.push({ field, descending: direction?.toUpperCase() === 'DESC' });
+
+    if (field === '_id') {
+      return keys;
+    }
+  }
+
+  keys.push({ field: '_id', descending: false });
+
+  return keys;
+}
+
+function formatOrderKey(key: CursorOrderKey): string {
+  return `${key.field} ${key.descending ? 'DESC' : 'ASC'}`;
+}
+
+/**
+ * Builds the where clause matching the records sorted after the record with
+ * the given sort values. Records without a value are sorted as null, which
+ * comes before any other value.
+ */
+function buildWhereAfter(
+  orderKeys: CursorOrderKey[],
+  values: unknown[],
+): AnyObject {
+  const branches: AnyObject[] = [];
+
+  orderKeys.forEach((key, index) => {
+    const after = buildConditionAfter(key, values[index]);
+
+    if (!after) {
+      return;
+    }
+
+    const equalities = orderKeys
+      .slice(0, index)
+      .map((previousKey, previousIndex) =>
+        buildEquality(previousKey, values[previousIndex]),
+      );
+
+    branches.push(
+      equalities.length > 0 ? { and: [...equalities, after] } : after,
+    );
+  });
+
+  return { or: branches };
+}
+
+function buildEquality(key: CursorOrderKey, value: unknown): AnyObject {
+  return value === null
+    ? { [key.field]: null }
+    : { [key.field]: { eq: value } };
+}
+
+function buildConditionAfter(
+  key: CursorOrderKey,
+  value: unknown,
+): AnyObject | undefined {
+  if (value === null) {
+    // Nothing is sorted after null in descending order
+    return key.descending ? undefined : { [key.field]: { neq: null } };
+  }
+
+  if (key.descending) {
+    return { or: [{ [key.field]: { lt: value } }, { [key.field]: null }] };
+  }
+
+  return { [key.field]: { gt: value } };
+}
+
+/**
+ * Makes sure the fields the records are sorted by are returned, as the
+ * cursor of the next page is built from them.
+ */
+function includeOrderFields(
+  fields: Filter['fields'],
+  orderKeys: CursorOrderKey[],
+): Filter['fields'] {
+  if (!fields) {
+    return fields;
+  }
+
+  const orderFields = _.uniq(orderKeys.map((key) => key.field.split('.')[0]));
+
+  if (Array.isArray(fields)) {
+    return _.union(fields, orderFields);
+  }
+
+  const fieldValues = Object.values(fields);
+
+  if (fieldValues.includes(true)) {
+    return {
+      ...fields,
+      ..._.fromPairs(orderFields.map((field) => [field, true])),
+    };
+  }
+
+  return _.omit(fields, orderFields);
+}
+
+function toCursorValue(value: unknown): unknown {
+  if (value === undefined) {
+    return null;
+  }
+
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+  let payload: unknown;
+
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    payload = undefined;
+  }
+
+  if (
+    !_.isPlainObject(payload) ||
+    !Array.isArray((payload as AnyObject).order) ||
+    !Array.isArray((payload as AnyObject).values) ||
+    (payload as AnyObject).order.length !== (payload as AnyObject).values.length
+  ) {
+    throw createInvalidCursorError(
+      `Cursor '${cursor}' is not valid. Use the cursor returned in the ${NEXT_CURSOR_HEADER} header.`,
+    );
+  }
+
+  return payload as CursorPayload;
+}
+
+function createInvalidCursorError(message: string): HttpErrorResponse {
+  return new HttpErrorResponse({
+    statusCode: 400,
+    name: 'BadRequestError',
+    message,
+    code: 'INVALID-CURSOR',
+  });
+}
@@ -0,0 +1,60 @@
+import { HttpErrorResponse } from '../../models';
+
+/**
+ * Builds a strong ETag value from the `_version` of a record.
+ * Returns undefined if the record does not carry a version.
+ */
+export function buildEtag(version?: number | null): string | undefined {
+  if (version === undefined || version === null) {
+    return undefined;
+  }
+
+  return `"${version}"`;
+}
+
+/**
+ * Parses the value of an If-Match header into the record version the client
+ * expects to modify.
+ *
+ * Accepted formats:
+ * - Strong ETag: "3"
+ * - Weak ETag: W/"3"
+ * - Bare version number: 3
+ *
+ * Returns undefined when the header is missing or is the `*` wildcard, as both
+ * mean that any version of the record is acceptable.
+ */
+export function parseIfMatchVersion(ifMatch?: string): number | undefined {
+  const value = (ifMatch ?? '').trim();
+
+  if (value === '' || value === '*') {
+    return undefined;
+  }
+
+  const match = /^(?:W\/)?"?(\d+)"?$/.exec(value);
+
+  if (!match) {
+    throw new HttpErrorResponse({
+      statusCode: 400,
+      name: 'BadRequestError',
+      message: `If-Match header value '${value}' is not a valid version tag. Use the ETag value returned by the server.`,
+      code: 'INVALID-IF-MATCH-HEADER',
+    });
+  }
+
+  return parseInt(match[1], 10);
+}
+
+/**
+ * Copies the version given in the If-Match header to the `_version` field of
+ * the incoming data, so that repositories can apply the optimistic concurrency
+ * check regardless of how the client expressed the expected version.
+ * The header takes precedence over a `_version` given in the request body.
+ */
+export function applyIfMatchVersion(data: object, ifMatch?: string): void {
+  const expectedVersion = parseIfMatchVersion(ifMatch);
+
+  if (expectedVersion !== undefined) {
+    (data as { _version?: number })._version = expectedVersion;
+  }
+}
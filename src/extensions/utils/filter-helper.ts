@@ -6,6 +6,7 @@ import { isPlainObject, mapValues } from 'lodash';
  * 1. Converting string 'true'/'false' to boolean in fields
  * 2. Converting string 'null' to null in where clauses
  * 3. Converting types based on type hints in where/whereThrough clauses
+ * 4. Converting values of reaction counters to numbers in where clauses
  */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export function sanitizeFilterFields(filter?: any): void {
@@ -58,6 +59,9 @@ export function sanitizeFilterFields(filter?: any): void {
   });
 }
 
+// Counters of the reactions of each kind, e.g. _reactionCounts.like
+const REACTION_COUNT_FIELD_PATTERN = /^_reactionCounts\.[^.]+$/;
+
 /**
  * Processes where clauses by converting values based on type hints.
  * Examples:
@@ -73,6 +77,21 @@ function processWhereClause(where: any): void {
   Object.keys(where).forEach((fieldName) => {
     const value = where[fieldName];
 
+    // Reaction counters are numbers, so they are filtered without a type hint
+    if (REACTION_COUNT_FIELD_PATTERN.test(fieldName)) {
+      if (isPlainObject(value) && !value.type) {
+        value.type = 'number';
+      } else if (
+        typeof value === 'string' &&
+        value.trim() !== '' &&
+        !isNaN(Number(value))
+      ) {
+        where[fieldName] = Number(value);
+
+        return;
+      }
+    }
+
     // Convert string 'null' to actual null
     if (typeof value === 'string' && value === 'null') {
       where[fieldName] = null;
@@ -0,0 +1,341 @@
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import _ from 'lodash';
+import { createInterface } from 'readline';
+import type { Readable } from 'stream';
+import { HttpErrorResponse } from '../../models';
+
+/**
+ * Content type of comma-separated values with a header row.
+ */
+export const CSV_CONTENT_TYPE = 'text/csv';
+
+/**
+ * Types a CSV column can declare after its name, e.g. `pages:number`. Values
+ * of columns without a type are strings.
+ */
+export const CSV_COLUMN_TYPES = Object.freeze([
+  'string',
+  'number',
+  'boolean',
+  'json',
+]) as ReadonlyArray<string>;
+
+/**
+ * A record read from an import file, or the error which prevented reading it.
+ */
+export interface ImportLine {
+  /**
+   * Number of the line the record starts at, counting from 1.
+   */
+  line: number;
+  record?: AnyObject;
+  error?: HttpErrorResponse;
+}
+
+interface CsvColumn {
+  name: string;
+  type: string;
+}
+
+interface CsvRow {
+  line: number;
+  cells: string[];
+  unterminated?: boolean;
+}
+
+// Column names that would reach the prototype of the records
+const PROHIBITED_COLUMNS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Reads the records of an import file from the given stream, one at a time.
+ *
+ * NDJSON files have a JSON object on each line. CSV files have a header row
+ * naming the fields, and a record on each following row. Values of a column
+ * are strings, unless the column declares a type after its name:
+ * `pages:number`, `published:boolean` or `metadata:json`. Empty cells are
+ * left out of the record. Empty lines are skipped in both formats.
+ *
+ * A line which cannot be read is returned with its error, so that the lines
+ * after it can still be imported. A CSV header which cannot be read fails the
+ * whole import.
+ *
+ * @param body - The stream of the import file
+ * @param contentType - Content type of the file, NDJSON unless it is CSV
+ */
+export async function* readImportLines(
+  body: Readable,
+  contentType?: string,
+): AsyncGenerator<ImportLine> {
+  const mediaType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+
+  if (mediaType === CSV_CONTENT_TYPE) {
+    yield* readCsvLines(body);
+
+    return;
+  }
+
+  yield* readNdjsonLines(body);
+}
+
+async function* readNdjsonLines(body: Readable): AsyncGenerator<ImportLine> {
+  const lines = createInterface({ input: body, crlfDelay: Infinity });
+  let line = 0;
+
+  for await (const text of lines) {
+    line++;
+
+    if (text.trim() === '') {
+      continue;
+    }
+
+    let record: unknown;
+
+    try {
+      record = JSON.parse(text);
+    } catch {
+      yield {
+        line,
+        error: createInvalidLineError(`Line ${line} is not valid JSON.`),
+      };
+
+      continue;
+    }
+
+    if (!_.isPlainObject(record)) {
+      yield {
+        line,
+        error: createInvalidLineError(`Line ${line} is not a JSON object.`),
+      };
+
+      continue;
+    }
+
+    yield { line, record: record as AnyObject };
+  }
+}
+
+async function* readCsvLines(body: Readable): AsyncGenerator<ImportLine> {
+  let columns: CsvColumn[] | undefined;
+
+  for await (const row of readCsvRows(body)) {
+    if (!columns) {
+      columns = parseCsvHeader(row);
+
+      continue;
+    }
+
+    try {
+      yield { line: row.line, record: toRecord(row, columns) };
+    } catch (error) {
+      if (!(error instanceof HttpErrorResponse)) {
+        throw error;
+      }
+
+      yield { line: row.line, error };
+    }
+  }
+}
+
+function parseCsvHeader(row: CsvRow): CsvColumn[] {
+  const columns = row.cells.map((cell) => {
+    const [name, type = 'string', ...rest] = cell.trim().split(':');
+
+    if (
+      name === '' ||
+      rest.length > 0 ||
+      !CSV_COLUMN_TYPES.includes(type) ||
+      PROHIBITED_COLUMNS.includes(name)
+    ) {
+      throw createInvalidHeaderError(
+        `CSV column '${cell}' is not valid. Use a field name optionally followed by one of the types ${CSV_COLUMN_TYPES.map((t) => `:${t}`).join(', ')}.`,
+      );
+    }
+
+    return { name, type };
+  });
+
+  const duplicate = columns.find(
+    (column, index) =>
+      columns.findIndex((other) => other.name === column.name) !== index,
+  );
+
+  if (duplicate) {
+    throw createInvalidHeaderError(
+      `CSV column '${duplicate.name}' is given more than once.`,
+    );
+  }
+
+  if (row.unterminated) {
+    throw createInvalidHeaderError(
+      'CSV header has an unterminated quoted value.',
+    );
+  }
+
+  return columns;
+}
+
+function toRecord(row: CsvRow, columns: CsvColumn[]): AnyObject {
+  if (row.unterminated) {
+    throw createInvalidLineError(
+      `Line ${row.line} has an unterminated quoted value.`,
+    );
+  }
+
+  if (row.cells.length !== columns.length) {
+    throw createInvalidLineError(
+      `Line ${row.line} has ${row.cells.length} values, while the header has ${columns.length} columns.`,
+    );
+  }
+
+  const record: AnyObject = {};
+
+  columns.forEach((column, index) => {
+    const cell = row.cells[index];
+
+    if (cell !== '') {
+      record[column.name] = convertCell(cell, column, row.line);
+    }
+  });
+
+  return record;
+}
+
+function convertCell(cell: string, column: CsvColumn, line: number): unknown {
+  switch (column.type) {
+    case 'number': {
+      const value = Number(cell);
+
+      if (cell.trim() === '' || !Number.isFinite(value)) {
+        throw createInvalidLineError(
+          `Value of '${column.name}' on line ${line} is not a number.`,
+        );
+      }
+
+      return value;
+    }
+    case 'boolean':
+      if (!['true', 'false'].includes(cell.trim().toLowerCase())) {
+        throw createInvalidLineError(
+          `Value of '${column.name}' on line ${line} is not true or false.`,
+        );
+      }
+
+      return cell.trim().toLowerCase() === 'true';
+    case 'json':
+      try {
+        return JSON.parse(cell);
+      } catch {
+        throw createInvalidLineError(
+          `Value of '${column.name}' on line ${line} is not valid JSON.`,
+        );
+      }
+    default:
+      return cell;
+  }
+}
+
+/**
+ * Splits a CSV stream into rows of cells (RFC 4180). Quoted values may
+ * contain commas, line breaks and quotes escaped as `""`.
+ */
+async function* readCsvRows(body: Readable): AsyncGenerator<CsvRow> {
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let quotePending = false;
+  let line = 1;
+  let rowLine = 1;
+  let first = true;
+
+  const endRow = (): CsvRow | undefined => {
+    cells.push(cell);
+
+    const row = { line: rowLine, cells };
+
+    cells = [];
+    cell = '';
+
+    return row.cells.length === 1 && row.cells[0] === '' ? undefined : row;
+  };
+
+  body.setEncoding('utf8');
+
+  for await (let chunk of body as AsyncIterable<string>) {
+    if (first) {
+      // Leave out the byte order mark which spreadsheet tools write
+      chunk = chunk.replace(/^\uFEFF/, '');
+      first = false;
+    }
+
+    for (const char of chunk) {
+      if (quotePending) {
+        quotePending = false;
+
+        if (char === '"') {
+          cell += '"';
+
+          continue;
+        }
+
+        quoted = false;
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          cell += char;
+
+          if (char === '\n') {
+            line++;
+          }
+        }
+
+        continue;
+      }
+
+      if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === ',') {
+        cells.push(cell);
+        cell = '';
+      } else if (char === '\n') {
+        const row = endRow();
+
+        if (row) {
+          yield row;
+        }
+
+        line++;
+        rowLine = line;
+      } else if (char !== '\r') {
+        cell += char;
+      }
+    }
+  }
+
+  const unterminated = quoted && !quotePending;
+  const row = endRow();
+
+  if (row) {
+    yield { ...row, unterminated };
+  }
+}
+
+function createInvalidLineError(message: string): HttpErrorResponse {
+  return new HttpErrorResponse({
+    statusCode: 422,
+    name: 'InvalidImportLineError',
+    message,
+    code: 'INVALID-IMPORT-LINE',
+  });
+}
+
+function createInvalidHeaderError(message: string): HttpErrorResponse {
+  return new HttpErrorResponse({
+    statusCode: 400,
+    name: 'BadRequestError',
+    message,
+    code: 'INVALID-IMPORT-HEADER',
+  });
+}
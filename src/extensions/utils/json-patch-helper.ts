@@ -0,0 +1,320 @@
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import _ from 'lodash';
+import { HttpErrorResponse } from '../../models';
+
+/**
+ * A single operation of a JSON Patch (RFC 6902) document.
+ */
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace' | 'move' | 'copy' | 'test';
+  path: string;
+  from?: string;
+  value?: unknown;
+}
+
+export const JSON_PATCH_OPERATIONS = Object.freeze([
+  'add',
+  'remove',
+  'replace',
+  'move',
+  'copy',
+  'test',
+]) as ReadonlyArray<string>;
+
+// Tokens that would reach the prototype of the patched objects
+const PROHIBITED_TOKENS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Applies the operations of a JSON Patch document to a copy of the given
+ * document, in order. The document itself is not modified. If any of the
+ * operations fails, none of them are applied.
+ *
+ * @param document - The document to patch
+ * @param operations - The operations of the JSON Patch document
+ * @returns The patched copy of the document
+ */
+export function applyJsonPatch<T extends object>(
+  document: T,
+  operations: JsonPatchOperation[],
+): T {
+  if (!Array.isArray(operations)) {
+    throw createInvalidPatchError('A JSON Patch document must be an array.');
+  }
+
+  const patched = _.cloneDeep(document) as AnyObject;
+
+  operations.forEach((operation, index) => {
+    applyOperation(patched, operation, index);
+  });
+
+  return patched as T;
+}
+
+/**
+ * Returns the top level fields of the patched document which differ from the
+ * original document. Fields removed by the patch are returned as null, the
+ * same way a merge patch removes a value.
+ *
+ * @param original - The document before the patch
+ * @param patched - The document after the patch
+ * @returns The changed fields with their new values
+ */
+export function getPatchedFields(
+  original: AnyObject,
+  patched: AnyObject,
+): AnyObject {
+  const changes: AnyObject = {};
+
+  for (const [field, value] of Object.entries(patched)) {
+    if (!_.isEqual(value, original[field])) {
+      changes[field] = value;
+    }
+  }
+
+  for (const field of Object.keys(original)) {
+    if (!(field in patched) && original[field] !== null) {
+      changes[field] = null;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Parses a JSON Pointer (RFC 6901) into its reference tokens.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (typeof pointer !== 'string') {
+    throw createInvalidPatchError('A JSON Pointer must be a string.');
+  }
+
+  if (pointer === '') {
+    return [];
+  }
+
+  if (!pointer.startsWith('/')) {
+    throw createInvalidPatchError(
+      `JSON Pointer '${pointer}' must start with '/'.`,
+    );
+  }
+
+  return pointer
+    .substring(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function applyOperation(
+  document: AnyObject,
+  operation: JsonPatchOperation,
+  index: number,
+): void {
+  if (!_.isPlainObject(operation)) {
+    throw createInvalidPatchError(
+      `Operation at index ${index} is not an object.`,
+    );
+  }
+
+  if (!JSON_PATCH_OPERATIONS.includes(operation.op)) {
+    throw createInvalidPatchError(
+      `Operation at index ${index} has an unknown op '${operation.op}'. Valid ops are: ${JSON_PATCH_OPERATIONS.join(', ')}.`,
+    );
+  }
+
+  const path = parseJsonPointer(operation.path);
+
+  if (path.length === 0 && operation.op !== 'test') {
+    throw createInvalidPatchError(
+      `Operation at index ${index} targets the whole record. Use PUT to replace a record.`,
+    );
+  }
+
+  if (
+    ['add', 'replace', 'test'].includes(operation.op) &&
+    !('value' in operation)
+  ) {
+    throw createInvalidPatchError(
+      `Operation at index ${index} must have a value.`,
+    );
+  }
+
+  switch (operation.op) {
+    case 'add':
+      addValue(document, path, _.cloneDeep(operation.value), operation.path);
+      break;
+    case 'remove':
+      removeValue(document, path, operation.path);
+      break;
+    case 'replace':
+      removeValue(document, path, operation.path);
+      addValue(document, path, _.cloneDeep(operation.value), operation.path);
+      break;
+    case 'move': {
+      const from = parseFromPointer(operation, index);
+
+      if (
+        from.length < path.length &&
+        _.isEqual(from, path.slice(0, from.length))
+      ) {
+        throw createInvalidPatchError(
+          `Operation at index ${index} cannot move '${operation.from}' into one of its own children.`,
+        );
+      }
+
+      const value = getValue(document, from, operation.from!);
+      removeValue(document, from, operation.from!);
+      addValue(document, path, value, operation.path);
+      break;
+    }
+    case 'copy': {
+      const from = parseFromPointer(operation, index);
+      const value = getValue(document, from, operation.from!);
+      addValue(document, path, _.cloneDeep(value), operation.path);
+      break;
+    }
+    case 'test': {
+      const value = getValue(document, path, operation.path);
+
+      if (!_.isEqual(value, operation.value)) {
+        throw new HttpErrorResponse({
+          statusCode: 409,
+          name: 'JsonPatchTestFailedError',
+          message: `Test operation at index ${index} failed. The value at '${operation.path}' does not match.`,
+          code: 'JSON-PATCH-TEST-FAILED',
+        });
+      }
+
+      break;
+    }
+  }
+}
+
+function parseFromPointer(
+  operation: JsonPatchOperation,
+  index: number,
+): string[] {
+  if (operation.from === undefined) {
+    throw createInvalidPatchError(
+      `Operation at index ${index} must have a from pointer.`,
+    );
+  }
+
+  const from = parseJsonPointer(operation.from);
+
+  if (from.length === 0) {
+    throw createInvalidPatchError(
+      `Operation at index ${index} cannot take the whole record as from.`,
+    );
+  }
+
+  return from;
+}
+
+function getValue(
+  document: AnyObject,
+  path: string[],
+  pointer: string,
+): unknown {
+  let current: unknown = document;
+
+  for (const token of path) {
+    current = getChild(current, token, pointer);
+  }
+
+  return current;
+}
+
+function addValue(
+  document: AnyObject,
+  path: string[],
+  value: unknown,
+  pointer: string,
+): void {
+  const parent = getValue(document, path.slice(0, -1), pointer);
+  const token = path[path.length - 1];
+
+  if (Array.isArray(parent)) {
+    const position = token === '-' ? parent.length : parseArrayIndex(token);
+
+    if (position === undefined || position > parent.length) {
+      throw createPathNotFoundError(pointer);
+    }
+
+    parent.splice(position, 0, value);
+
+    return;
+  }
+
+  if (!_.isPlainObject(parent)) {
+    throw createPathNotFoundError(pointer);
+  }
+
+  checkToken(token, pointer);
+  (parent as AnyObject)[token] = value;
+}
+
+function removeValue(
+  document: AnyObject,
+  path: string[],
+  pointer: string,
+): void {
+  const parent = getValue(document, path.slice(0, -1), pointer);
+  const token = path[path.length - 1];
+
+  // Fails if there is no value at the path
+  getChild(parent, token, pointer);
+
+  if (Array.isArray(parent)) {
+    parent.splice(parseArrayIndex(token)!, 1);
+
+    return;
+  }
+
+  delete (parent as AnyObject)[token];
+}
+
+function getChild(parent: unknown, token: string, pointer: string): unknown {
+  if (Array.isArray(parent)) {
+    const position = parseArrayIndex(token);
+
+    if (position === undefined || position >= parent.length) {
+      throw createPathNotFoundError(pointer);
+    }
+
+    return parent[position];
+  }
+
+  if (
+    !_.isPlainObject(parent) ||
+    !Object.prototype.hasOwnProperty.call(parent, token)
+  ) {
+    throw createPathNotFoundError(pointer);
+  }
+
+  return (parent as AnyObject)[token];
+}
+
+function parseArrayIndex(token: string): number | undefined {
+  return /^(0|[1-9]\d*)$/.test(token) ? Number(token) : undefined;
+}
+
+function checkToken(token: string, pointer: string): void {
+  if (PROHIBITED_TOKENS.includes(token)) {
+    throw createInvalidPatchError(`JSON Pointer '${pointer}' is not allowed.`);
+  }
+}
+
+function createPathNotFoundError(pointer: string): HttpErrorResponse {
+  return createInvalidPatchError(
+    `JSON Pointer '${pointer}' does not point to a value of the record.`,
+  );
+}
+
+function createInvalidPatchError(message: string): HttpErrorResponse {
+  return new HttpErrorResponse({
+    statusCode: 422,
+    name: 'InvalidJsonPatchError',
+    message,
+    code: 'INVALID-JSON-PATCH',
+  });
+}
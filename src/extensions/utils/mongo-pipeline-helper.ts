@@ -55,6 +55,10 @@ export type CountStage = {
   $count: string;
 };
 
+export type GroupStage = {
+  $group: Record<string, any>;
+};
+
 export type PipelineStage =
   | LookupStage
   | UnwindStage
@@ -64,13 +68,28 @@ export type PipelineStage =
   | SortStage
   | SkipStage
   | AddFieldsStage
-  | CountStage;
+  | CountStage
+  | GroupStage;
+
+// Define types for the buckets and metrics of aggregations
+export type DateHistogramUnit =
+  'year' | 'quarter' | 'month' | 'week' | 'day' | 'hour';
+
+export type AggregateGroup = {
+  field: string;
+  unit?: DateHistogramUnit;
+};
+
+export type AggregateMetric = {
+  operator: 'count' | 'sum' | 'avg' | 'min' | 'max';
+  field?: string;
+};
 
 @injectable({ scope: BindingScope.TRANSIENT })
 export class MongoPipelineHelper {
   constructor(
-    @inject(RestBindings.Http.REQUEST)
-    private request: Request,
+    @inject(RestBindings.Http.REQUEST, { optional: true })
+    private request: Request | undefined,
   ) {}
 
   /**
@@ -537,6 +556,67 @@ export class MongoPipelineHelper {
     return pipeline;
   }
 
+  /**
+   * Build a MongoDB aggregation pipeline grouping the records matching the
+   * where filter into buckets, and computing the metrics of each bucket.
+   * Group values are returned as `_id.g<index>` and metric values as
+   * `m<index>`, in the order of the given groups and metrics. All buckets are
+   * returned if no maximum number of buckets is given.
+   */
+  buildAggregatePipeline(
+    where: Where<any> | undefined,
+    groups: AggregateGroup[],
+    metrics: AggregateMetric[],
+    maxBuckets?: number,
+  ): PipelineStage[] {
+    const pipeline: PipelineStage[] = [];
+
+    if (where) {
+      pipeline.push({
+        $match: this.buildMongoQuery(where),
+      });
+    }
+
+    // Group by the field values, or by the interval the date falls into
+    const groupId = groups.length
+      ? Object.fromEntries(
+          groups.map((group, index) => [
+            `g${index}`,
+            group.unit
+              ? { $dateTrunc: { date: `$${group.field}`, unit: group.unit } }
+              : `$${group.field}`,
+          ]),
+        )
+      : null;
+
+    const accumulators = Object.fromEntries(
+      metrics.map((metric, index) => [
+        `m${index}`,
+        metric.operator === 'count'
+          ? { $sum: 1 }
+          : { [`$${metric.operator}`]: `$${metric.field}` },
+      ]),
+    );
+
+    pipeline.push(
+      {
+        $group: { _id: groupId, ...accumulators },
+      },
+      // Buckets are sorted by their group values, in the order of the groups
+      {
+        $sort: { _id: 1 },
+      },
+    );
+
+    if (maxBuckets !== undefined) {
+      pipeline.push({
+        $limit: maxBuckets,
+      });
+    }
+
+    return pipeline;
+  }
+
   /**
    * Convert LoopBack where filter to MongoDB query format
    */
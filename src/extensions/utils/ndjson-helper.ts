@@ -0,0 +1,68 @@
+import type { Response } from '@loopback/rest';
+
+/**
+ * Content type of newline-delimited JSON, one record per line.
+ */
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+/**
+ * Streams the given records to the response as newline-delimited JSON.
+ *
+ * Records are written as they are read, waiting for the client to consume
+ * the written ones, so that any number of records can be streamed without
+ * holding them in memory. Reading stops when the client disconnects.
+ *
+ * An error raised before the first record is read is thrown, so that it is
+ * reported like the errors of any other request. An error raised later, when
+ * the response is already started, ends the response abruptly, which lets
+ * the client tell an interrupted stream from a complete one.
+ *
+ * @param response - The response to write the records to
+ * @param records - The records to write
+ * @returns The response, to be returned by the controller method as is
+ */
+export async function writeNdjson(
+  response: Response,
+  records: AsyncIterable<object>,
+): Promise<Response> {
+  const iterator = records[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  response.status(200);
+  response.setHeader('Content-Type', NDJSON_CONTENT_TYPE);
+
+  try {
+    while (!next.done) {
+      if (response.destroyed) {
+        break;
+      }
+
+      if (!response.write(JSON.stringify(next.value) + '\n')) {
+        await waitForDrain(response);
+      }
+
+      next = await iterator.next();
+    }
+
+    response.end();
+  } catch (error) {
+    response.destroy(error);
+  } finally {
+    await iterator.return?.();
+  }
+
+  return response;
+}
+
+function waitForDrain(response: Response): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      response.off('drain', done);
+      response.off('close', done);
+      resolve();
+    };
+
+    response.on('drain', done);
+    response.on('close', done);
+  });
+}
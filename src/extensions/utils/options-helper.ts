@@ -0,0 +1,27 @@
+import type { AnyObject, Options } from '@loopback/repository';
+
+/**
+ * Returns a copy of the options with the given fields added.
+ *
+ * The session of a transaction is bound as a non-enumerable property, so that
+ * it is kept out of the logs, and would be lost by a spread. It is copied over
+ * as a non-enumerable property too, so that the operations run with the copy
+ * stay in the transaction.
+ */
+export function extendOptions(
+  options: Options | undefined,
+  fields: AnyObject,
+): Options {
+  const extended: Options = { ...options, ...fields };
+
+  if (options?.session !== undefined) {
+    Object.defineProperty(extended, 'session', {
+      value: options.session,
+      enumerable: false,
+      configurable: true,
+      writable: true,
+    });
+  }
+
+  return extended;
+}
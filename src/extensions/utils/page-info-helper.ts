@@ -0,0 +1,158 @@
+import type { Filter } from '@loopback/repository';
+import type { Response } from '@loopback/rest';
+
+/**
+ * Response header carrying the number of records matching the query.
+ */
+export const TOTAL_COUNT_HEADER = 'X-Total-Count';
+
+/**
+ * Response header carrying the page size the response limit allowed.
+ */
+export const APPLIED_LIMIT_HEADER = 'X-Applied-Limit';
+
+export interface PageInfo {
+  /**
+   * The maximum number of records the page could contain, after the response
+   * limit is applied to the requested limit.
+   */
+  appliedLimit: number;
+
+  /**
+   * The number of records matching the query, on all pages.
+   */
+  totalCount: number;
+
+  /**
+   * The number of records skipped before the page.
+   */
+  skip: number;
+
+  /**
+   * Whether the page was read with cursor pagination.
+   */
+  cursorMode?: boolean;
+
+  /**
+   * The cursor of the next page, in cursor pagination.
+   */
+  nextCursor?: string;
+}
+
+/**
+ * Returns the number of records a page can contain, which is the requested
+ * limit capped by the response limit.
+ *
+ * @param filter - The filter of the request
+ * @param responseLimit - The response limit of the model
+ */
+export function getAppliedLimit<T extends object>(
+  filter: Filter<T> | undefined,
+  responseLimit: number,
+): number {
+  const limit = Number(filter?.limit ?? responseLimit);
+
+  return Math.min(Number.isNaN(limit) ? responseLimit : limit, responseLimit);
+}
+
+/**
+ * Returns the number of records skipped before the page.
+ */
+export function getSkip<T extends object>(filter?: Filter<T>): number {
+  const skip = Number(filter?.skip ?? filter?.offset ?? 0);
+
+  return Number.isNaN(skip) ? 0 : skip;
+}
+
+/**
+ * Describes the page in the `X-Total-Count`, `X-Applied-Limit` and `Link`
+ * (RFC 8288) response headers. The links to the next and previous pages keep
+ * the query parameters of the request and only change the position of the
+ * page: `filter[skip]`, or `cursor` in cursor pagination. Cursors only lead
+ * forward, so there is no previous page link in cursor pagination.
+ *
+ * @param response - The response of the request
+ * @param pageInfo - The position and size of the page
+ */
+export function setPageInfoHeaders(
+  response: Response,
+  pageInfo: PageInfo,
+): void {
+  const { appliedLimit, totalCount, skip, cursorMode, nextCursor } = pageInfo;
+  const links: string[] = [];
+
+  response.setHeader(TOTAL_COUNT_HEADER, String(totalCount));
+  response.setHeader(APPLIED_LIMIT_HEADER, String(appliedLimit));
+
+  if (cursorMode) {
+    if (nextCursor) {
+      links.push(buildLink(response, { cursor: nextCursor }, 'next'));
+    }
+  } else {
+    if (appliedLimit > 0 && skip + appliedLimit < totalCount) {
+      links.push(buildLink(response, { skip: skip + appliedLimit }, 'next'));
+    }
+
+    if (skip > 0) {
+      links.push(
+        buildLink(response, { skip: Math.max(skip - appliedLimit, 0) }, 'prev'),
+      );
+    }
+  }
+
+  if (links.length > 0) {
+    response.setHeader('Link', links.join(', '));
+  }
+}
+
+function buildLink(
+  response: Response,
+  position: { skip?: number; cursor?: string },
+  rel: string,
+): string {
+  const request = response.req;
+  const url = new URL(request.originalUrl ?? request.url, 'http://localhost');
+  const params = new URLSearchParams();
+
+  for (const [key, value] of url.searchParams) {
+    if (key === 'cursor') {
+      continue;
+    }
+
+    if (position.skip !== undefined) {
+      // The filter is either given as JSON or with the deep object notation
+      if (key === 'filter') {
+        params.append(key, withSkip(value, position.skip));
+        continue;
+      }
+
+      if (key === 'filter[skip]' || key === 'filter[offset]') {
+        continue;
+      }
+    }
+
+    params.append(key, value);
+  }
+
+  if (position.skip !== undefined && !url.searchParams.has('filter')) {
+    params.append('filter[skip]', String(position.skip));
+  }
+
+  if (position.cursor !== undefined) {
+    params.append('cursor', position.cursor);
+  }
+
+  return `<${url.pathname}?${params.toString()}>; rel="${rel}"`;
+}
+
+function withSkip(filterJson: string, skip: number): string {
+  try {
+    const filter = JSON.parse(filterJson);
+
+    delete filter.offset;
+
+    return JSON.stringify({ ...filter, skip });
+  } catch {
+    return filterJson;
+  }
+}
@@ -0,0 +1,195 @@
+import type { Count, Filter, Where } from '@loopback/repository';
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import _ from 'lodash';
+import { getAppliedLimit } from './page-info-helper';
+import { HttpErrorResponse } from '../../models';
+import type {
+  SearchConfigurationReader,
+  SearchModel,
+} from '../config-helpers/search-config-helper';
+
+/**
+ * The part of a repository a full-text search needs.
+ */
+export interface SearchableRepository<T extends object> {
+  findSearchPage(
+    search: string,
+    filter?: Filter<T>,
+    sourceWhere?: Where<T>,
+  ): Promise<string[]>;
+  countSearchMatches(
+    search: string,
+    where?: Where<T>,
+    sourceWhere?: Where<T>,
+  ): Promise<Count>;
+}
+
+/**
+ * Returns the ids of the page of records matching the full-text search of a
+ * find request, in the order of the page. Only the records matching the where
+ * clause of the request, and of the kinds search is configured for, are
+ * matched. The records are ordered by the order of the filter, or by
+ * relevance if the filter has no order.
+ *
+ * @param repository - Repository of the searched model
+ * @param searchConfigReader - The search configuration
+ * @param model - The searched model
+ * @param search - Words or quoted phrases to search for
+ * @param filter - The filter of the page, as prepared for cursor pagination
+ * if a cursor is given
+ * @param responseLimit - The maximum number of records a page can contain
+ * @param sourceWhere - The where clause of the records the searched records
+ * belong to, e.g. the entity filter of entity reactions
+ * @returns The ids of the records of the page
+ */
+export async function findSearchPage<T extends object>(
+  repository: SearchableRepository<T>,
+  searchConfigReader: SearchConfigurationReader,
+  model: SearchModel,
+  search: string,
+  filter: Filter<T> | undefined,
+  responseLimit: number,
+  sourceWhere?: Where<T>,
+): Promise<string[]> {
+  return repository.findSearchPage(
+    search,
+    {
+      ...filter,
+      where: getSearchWhere(searchConfigReader, model, filter?.where),
+      limit: getAppliedLimit(filter, responseLimit),
+    },
+    sourceWhere,
+  );
+}
+
+/**
+ * Counts the records matching the full-text search of a find request, for
+ * the page info of the request.
+ *
+ * @param repository - Repository of the searched model
+ * @param searchConfigReader - The search configuration
+ * @param model - The searched model
+ * @param search - Words or quoted phrases to search for
+ * @param where - The where clause of the request
+ * @param sourceWhere - The where clause of the records the searched records
+ * belong to, e.g. the entity filter of entity reactions
+ * @returns The number of matching records
+ */
+export async function countSearchMatches<T extends object>(
+  repository: SearchableRepository<T>,
+  searchConfigReader: SearchConfigurationReader,
+  model: SearchModel,
+  search: string,
+  where?: Where<T>,
+  sourceWhere?: Where<T>,
+): Promise<Count> {
+  return repository.countSearchMatches(
+    search,
+    getSearchWhere(searchConfigReader, model, where),
+    sourceWhere,
+  );
+}
+
+/**
+ * Restricts the filter of a find request to the records of the page found by
+ * findSearchPage. The page is already selected, so the filter does not skip
+ * any records.
+ *
+ * @param filter - The filter of the page
+ * @param page - The ids of the records of the page
+ * @returns The filter of the records of the page
+ */
+export function applySearchPage<T extends object>(
+  filter: Filter<T> | undefined,
+  page: string[],
+): Filter<T> {
+  return {
+    ..._.omit(filter, ['skip', 'offset']),
+    where: andWhere(filter?.where, { _id: { inq: page } }),
+  };
+}
+
+/**
+ * Sorts the records of a page in the order of the page found by
+ * findSearchPage, if a search is given.
+ *
+ * @param records - The records of the page
+ * @param page - The ids of the records of the page, if a search is given
+ * @returns The records in the order of the page
+ */
+export function sortBySearchPage<T extends { _id?: string }>(
+  records: T[],
+  page: string[] | undefined,
+): T[] {
+  if (page === undefined) {
+    return records;
+  }
+
+  const ranks = new Map(page.map((id, rank) => [id, rank]));
+
+  return _.sortBy(records, (record) => ranks.get(record._id!));
+}
+
+/**
+ * Converts the order of a filter to the sort of a MongoDB text search. The
+ * records are sorted by relevance if no order is given. Records with the same
+ * sort values are sorted by `_id`, so that pages are stable.
+ *
+ * @param order - The order of the filter
+ * @returns The sort of the text search
+ */
+export function buildSearchSort(order?: string | string[]): AnyObject {
+  const sort: AnyObject = {};
+
+  for (const item of _.flatMap(_.castArray(order ?? []), (orderItem) =>
+    String(orderItem).split(','),
+  )) {
+    const [field, direction] = item.trim().split(/\s+/);
+
+    if (field && !(field in sort)) {
+      sort[field] = direction?.toUpperCase() === 'DESC' ? -1 : 1;
+    }
+  }
+
+  if (_.isEmpty(sort)) {
+    sort.score = { $meta: 'textScore' };
+  }
+
+  if (!('_id' in sort)) {
+    sort._id = 1;
+  }
+
+  return sort;
+}
+
+/**
+ * Restricts the where clause of a search to the kinds search is configured
+ * for, and rejects the search if it is not configured for the model.
+ */
+function getSearchWhere<T extends object>(
+  searchConfigReader: SearchConfigurationReader,
+  model: SearchModel,
+  where?: Where<T>,
+): Where<T> | undefined {
+  if (!searchConfigReader.isSearchConfigured(model)) {
+    throw new HttpErrorResponse({
+      statusCode: 400,
+      name: 'BadRequestError',
+      message: `Search is not configured for ${model} records.`,
+      code: 'SEARCH-NOT-CONFIGURED',
+    });
+  }
+
+  const kinds = searchConfigReader.getSearchableKinds(model);
+
+  return kinds ? andWhere(where, { _kind: { inq: kinds } }) : where;
+}
+
+function andWhere<T extends object>(
+  where: Where<T> | undefined,
+  condition: AnyObject,
+): Where<T> {
+  return (
+    _.isEmpty(where) ? condition : { and: [where, condition] }
+  ) as Where<T>;
+}
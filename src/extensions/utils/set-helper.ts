@@ -66,6 +66,8 @@ export interface Condition {
   viewers?: UserAndGroupInfo;
   /** Selects root-level records (records with no parents) */
   roots?: string;
+  /** Selects soft deleted records, which are hidden from queries by default */
+  deleteds?: string;
   // expired30 removed in favor of dynamic-duration sets (e.g. expireds-30d)
 }
 
@@ -342,6 +344,8 @@ class SetToFilterTransformer {
           : {};
       case 'roots':
         return this.produceWhereClauseForRoots();
+      case 'deleteds':
+        return this.produceWhereClauseForDeleteds();
       default:
         return {};
     }
@@ -756,6 +760,14 @@ class SetToFilterTransformer {
     };
   }
 
+  produceWhereClauseForDeleteds(): Where<AnyObject> {
+    return {
+      _deletedDateTime: {
+        neq: null,
+      },
+    };
+  }
+
   // expired30 helper removed. Use dynamic-duration sets such as expireds-30d instead.
 
   /**
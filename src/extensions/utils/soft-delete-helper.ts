@@ -0,0 +1,50 @@
+import type { Where } from '@loopback/repository';
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import _ from 'lodash';
+
+/**
+ * Returns true if the where clause has a condition on `_deletedDateTime` at
+ * any level of its `and`/`or` clauses. Such queries (e.g. the `deleteds` set)
+ * explicitly ask for soft deleted records.
+ */
+export function referencesDeletedDateTime(where?: Where<AnyObject>): boolean {
+  if (!_.isPlainObject(where)) {
+    return false;
+  }
+
+  return Object.entries(where as AnyObject).some(([key, value]) => {
+    if (key === '_deletedDateTime') {
+      return true;
+    }
+
+    if ((key === 'and' || key === 'or') && Array.isArray(value)) {
+      return value.some((clause) => referencesDeletedDateTime(clause));
+    }
+
+    return false;
+  });
+}
+
+/**
+ * Adds the condition that leaves soft deleted records out to the where
+ * clause. The where clause is returned as is if it already has a condition
+ * on `_deletedDateTime`.
+ */
+export function excludeDeleted<T extends object>(where?: Where<T>): Where<T> {
+  if (referencesDeletedDateTime(where as Where<AnyObject>)) {
+    return where as Where<T>;
+  }
+
+  const notDeleted: AnyObject = { _deletedDateTime: null };
+
+  if (!where || _.isEmpty(where)) {
+    return notDeleted as Where<T>;
+  }
+
+  const andClause = (where as AnyObject).and;
+  if (Array.isArray(andClause) && Object.keys(where).length === 1) {
+    return { and: [...andClause, notDeleted] } as Where<T>;
+  }
+
+  return { and: [where, notDeleted] } as Where<T>;
+}
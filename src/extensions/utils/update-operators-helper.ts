@@ -0,0 +1,329 @@
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import _ from 'lodash';
+import { HttpErrorResponse } from '../../models';
+import { UPDATE_EXCLUDED_FIELDS } from '../../models/base-types/unmodifiable-common-fields';
+
+/**
+ * Operators an update can use to modify arrays and numbers relative to their
+ * current value, instead of sending the whole value of the field.
+ *
+ * - `$push`: appends values to an array. `{ $each: [...] }` appends many.
+ * - `$addToSet`: appends values which are not in the array yet.
+ * - `$pull`: removes all elements equal to a value. `{ $in: [...] }` removes
+ *   the elements equal to any of the values.
+ * - `$inc`: increments a number by the given amount.
+ */
+export const UPDATE_OPERATORS = Object.freeze([
+  '$push',
+  '$addToSet',
+  '$pull',
+  '$inc',
+]) as ReadonlyArray<string>;
+
+// Path segments that would reach the prototype of the record
+const PROHIBITED_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Returns true if the given update data uses any of the update operators.
+ */
+export function hasUpdateOperators(data?: object | null): boolean {
+  if (!data) {
+    return false;
+  }
+
+  return UPDATE_OPERATORS.some((operator) => operator in data);
+}
+
+/**
+ * Rejects update operators in updates of many records. Operators are resolved
+ * against the current state of a record, which only single record updates
+ * read.
+ */
+export function rejectUpdateOperators(data?: object | null): void {
+  if (hasUpdateOperators(data)) {
+    throw createInvalidOperatorError(
+      `Update operators (${UPDATE_OPERATORS.join(', ')}) are only supported when updating a single record.`,
+    );
+  }
+}
+
+/**
+ * Resolves the update operators of the given data against the current state
+ * of the record. The operators are replaced by the resulting values of the
+ * top level fields they modify, so that the data can be validated like any
+ * other update. The fields are then written with the native operators, see
+ * buildNativeUpdate.
+ *
+ * Field paths may use dot notation to modify nested values, e.g.
+ * `{ $inc: { 'stats.views': 1 } }`. Fields managed by the service cannot be
+ * modified with operators, and a field cannot be modified by more than one
+ * operator or by both an operator and a value in the same update.
+ *
+ * @param existingData - The current state of the record
+ * @param data - The incoming update data
+ * @returns The update data without operators
+ */
+export function applyUpdateOperators(
+  existingData: object,
+  data: AnyObject,
+): AnyObject {
+  if (!hasUpdateOperators(data)) {
+    return data;
+  }
+
+  const result: AnyObject = _.omit(data, UPDATE_OPERATORS);
+  const modifiedPaths: string[] = [];
+
+  for (const operator of UPDATE_OPERATORS) {
+    const fields = data[operator];
+
+    if (fields === undefined) {
+      continue;
+    }
+
+    if (!_.isPlainObject(fields)) {
+      throw createInvalidOperatorError(
+        `${operator} must be an object of field paths and values.`,
+      );
+    }
+
+    for (const [path, argument] of Object.entries(fields as AnyObject)) {
+      const segments = parsePath(path, operator);
+      const field = segments[0];
+
+      if (
+        field in result &&
+        !modifiedPaths.some((modified) => modified.split('.')[0] === field)
+      ) {
+        throw createInvalidOperatorError(
+          `Field '${field}' cannot be both set and modified with ${operator} in the same update.`,
+        );
+      }
+
+      if (modifiedPaths.some((modified) => isOverlapping(modified, path))) {
+        throw createInvalidOperatorError(
+          `Path '${path}' is modified by more than one operator.`,
+        );
+      }
+
+      // Modify a copy of the whole top level field, as the update replaces it
+      if (!(field in result)) {
+        result[field] = _.cloneDeep(_.get(existingData, field));
+      }
+
+      const current = _.get(result, segments);
+      _.set(result, segments, applyOperator(operator, path, current, argument));
+
+      modifiedPaths.push(path);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * The native MongoDB update the update operators of a request are written
+ * with, and the top level fields it modifies.
+ */
+export interface NativeUpdate {
+  update: AnyObject;
+  fields: string[];
+}
+
+/**
+ * Translates the update operators of the given data into a native MongoDB
+ * update, so that the fields they modify are changed relative to their value
+ * at the time of the write, and concurrent updates of the same field do not
+ * overwrite each other. The data must have been checked with
+ * applyUpdateOperators before.
+ *
+ * A field is left out if a value on the path of one of its operators is
+ * null, as MongoDB does not apply operators to null values. The value
+ * resolved by applyUpdateOperators is written for such fields instead.
+ *
+ * @param existingData - The current state of the record
+ * @param data - The incoming update data
+ * @returns The native update, or undefined if no field can be modified by
+ * native operators
+ */
+export function buildNativeUpdate(
+  existingData: object,
+  data: AnyObject,
+): NativeUpdate | undefined {
+  if (!hasUpdateOperators(data)) {
+    return undefined;
+  }
+
+  const operations: Array<{ field: string; operator: string; path: string }> =
+    [];
+  const nullFields = new Set<string>();
+  const update: AnyObject = {};
+
+  for (const operator of UPDATE_OPERATORS) {
+    for (const path of Object.keys(data[operator] ?? {})) {
+      const segments = path.split('.');
+
+      if (
+        segments.some(
+          (_segment, index) =>
+            _.get(existingData, segments.slice(0, index + 1)) === null,
+        )
+      ) {
+        nullFields.add(segments[0]);
+      }
+
+      operations.push({ field: segments[0], operator, path });
+    }
+  }
+
+  for (const { field, operator, path } of operations) {
+    if (nullFields.has(field)) {
+      continue;
+    }
+
+    const argument = data[operator][path];
+
+    switch (operator) {
+      case '$inc':
+        _.set(update, ['$inc', path], argument);
+        break;
+      case '$pull':
+        // $pullAll removes the elements equal to the values, as $pull does
+        // here, while a native $pull would treat an object as a condition
+        _.set(
+          update,
+          ['$pullAll', path],
+          getValues(argument, '$in', operator, path),
+        );
+        break;
+      default:
+        _.set(update, [operator, path], {
+          $each: getValues(argument, '$each', operator, path),
+        });
+    }
+  }
+
+  const fields = _.uniq(
+    operations
+      .map((operation) => operation.field)
+      .filter((field) => !nullFields.has(field)),
+  );
+
+  return fields.length > 0 ? { update, fields } : undefined;
+}
+
+function applyOperator(
+  operator: string,
+  path: string,
+  current: unknown,
+  argument: unknown,
+): unknown {
+  if (operator === '$inc') {
+    if (typeof argument !== 'number' || !Number.isFinite(argument)) {
+      throw createInvalidOperatorError(`$inc requires a number for '${path}'.`);
+    }
+
+    if (current !== undefined && current !== null && !_.isNumber(current)) {
+      throw createInvalidOperatorError(
+        `$inc cannot modify '${path}', as it is not a number.`,
+      );
+    }
+
+    return ((current as number | null | undefined) ?? 0) + argument;
+  }
+
+  if (current !== undefined && current !== null && !Array.isArray(current)) {
+    throw createInvalidOperatorError(
+      `${operator} cannot modify '${path}', as it is not an array.`,
+    );
+  }
+
+  const items = (current as unknown[] | null | undefined) ?? [];
+
+  switch (operator) {
+    case '$push':
+      return [...items, ...getValues(argument, '$each', operator, path)];
+    case '$addToSet': {
+      const result = [...items];
+
+      for (const value of getValues(argument, '$each', operator, path)) {
+        if (!result.some((item) => _.isEqual(item, value))) {
+          result.push(value);
+        }
+      }
+
+      return result;
+    }
+    default: {
+      const values = getValues(argument, '$in', operator, path);
+
+      return items.filter(
+        (item) => !values.some((value) => _.isEqual(item, value)),
+      );
+    }
+  }
+}
+
+/**
+ * Returns the values given to an array operator, either as a single value or
+ * as an array under the given modifier.
+ */
+function getValues(
+  argument: unknown,
+  modifier: string,
+  operator: string,
+  path: string,
+): unknown[] {
+  if (_.isPlainObject(argument) && modifier in (argument as AnyObject)) {
+    const values = (argument as AnyObject)[modifier];
+
+    if (!Array.isArray(values)) {
+      throw createInvalidOperatorError(
+        `${modifier} of ${operator} requires an array for '${path}'.`,
+      );
+    }
+
+    return _.cloneDeep(values);
+  }
+
+  return [_.cloneDeep(argument)];
+}
+
+function parsePath(path: string, operator: string): string[] {
+  const segments = path.split('.');
+
+  if (segments.some((segment) => segment === '')) {
+    throw createInvalidOperatorError(
+      `${operator} has an invalid field path '${path}'.`,
+    );
+  }
+
+  if (segments.some((segment) => PROHIBITED_SEGMENTS.includes(segment))) {
+    throw createInvalidOperatorError(`${operator} cannot modify '${path}'.`);
+  }
+
+  if (UPDATE_EXCLUDED_FIELDS.includes(segments[0])) {
+    throw createInvalidOperatorError(
+      `Field '${segments[0]}' is managed by the service and cannot be modified with ${operator}.`,
+    );
+  }
+
+  return segments;
+}
+
+function isOverlapping(path: string, otherPath: string): boolean {
+  return (
+    path === otherPath ||
+    path.startsWith(`${otherPath}.`) ||
+    otherPath.startsWith(`${path}.`)
+  );
+}
+
+function createInvalidOperatorError(message: string): HttpErrorResponse {
+  return new HttpErrorResponse({
+    statusCode: 422,
+    name: 'InvalidUpdateOperatorError',
+    message,
+    code: 'INVALID-UPDATE-OPERATOR',
+  });
+}
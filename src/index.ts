@@ -19,6 +19,14 @@ import {
   ResponseLimitConfigurationReader,
   KindBindings,
   KindConfigurationReader,
+  HistoryConfigBindings,
+  HistoryConfigurationReader,
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
+  SearchConfigBindings,
+  SearchConfigurationReader,
+  ReactionStatsConfigBindings,
+  ReactionStatsConfigurationReader,
 } from './extensions';
 import { LookupBindings, LookupHelper } from './extensions/utils/lookup-helper';
 import {
@@ -32,10 +40,26 @@ import {
   CustomReactionThroughListRepository,
   CustomRepositoriesBindings,
 } from './repositories';
+import { AggregateBindings } from './services/aggregate.bindings';
+import { AggregateService } from './services/aggregate.service';
+import { AuditLogBindings } from './services/audit-log.bindings';
+import { AuditLogService } from './services/audit-log.service';
+import { BatchBindings } from './services/batch.bindings';
+import { BatchService } from './services/batch.service';
+import { BulkCreateBindings } from './services/bulk-create.bindings';
+import { BulkCreateService } from './services/bulk-create.service';
+import { BulkDeleteBindings } from './services/bulk-delete.bindings';
+import { BulkDeleteService } from './services/bulk-delete.service';
+import { ChangeFeedBindings } from './services/change-feed.bindings';
+import { ChangeFeedService } from './services/change-feed.service';
 import { LookupConstraintBindings } from './services/lookup-constraint.bindings';
 import { LookupConstraintService } from './services/lookup-constraint.service';
 import { RecordLimitCheckerBindings } from './services/record-limit-checker.bindings';
 import { RecordLimitCheckerService } from './services/record-limit-checker.service';
+import { RevisionHistoryBindings } from './services/revision-history.bindings';
+import { RevisionHistoryService } from './services/revision-history.service';
+import { WebhookBindings } from './services/webhook.bindings';
+import { WebhookService } from './services/webhook.service';
 
 export * from './application';
 
@@ -91,6 +115,26 @@ export async function main(options: ApplicationConfig = {}) {
     .bind(ValidFromConfigBindings.CONFIG_READER)
     .toClass(ValidfromConfigurationReader);
 
+  // add revision history configuration reader to context
+  app
+    .bind(HistoryConfigBindings.CONFIG_READER)
+    .toClass(HistoryConfigurationReader);
+
+  // add soft delete configuration reader to context
+  app
+    .bind(SoftDeleteConfigBindings.CONFIG_READER)
+    .toClass(SoftDeleteConfigurationReader);
+
+  // add search configuration reader to context
+  app
+    .bind(SearchConfigBindings.CONFIG_READER)
+    .toClass(SearchConfigurationReader);
+
+  // add reaction stats configuration reader to context
+  app
+    .bind(ReactionStatsConfigBindings.CONFIG_READER)
+    .toClass(ReactionStatsConfigurationReader);
+
   // add response limit configuration reader to context
   app
     .bind(ResponseLimitConfigBindings.CONFIG_READER)
@@ -112,6 +156,30 @@ export async function main(options: ApplicationConfig = {}) {
   // add lookup constraint service to context
   app.bind(LookupConstraintBindings.SERVICE).toClass(LookupConstraintService);
 
+  // add revision history service to context
+  app.bind(RevisionHistoryBindings.SERVICE).toClass(RevisionHistoryService);
+
+  // add change feed service to context
+  app.bind(ChangeFeedBindings.SERVICE).toClass(ChangeFeedService);
+
+  // add webhook service to context
+  app.bind(WebhookBindings.SERVICE).toClass(WebhookService);
+
+  // add audit log service to context
+  app.bind(AuditLogBindings.SERVICE).toClass(AuditLogService);
+
+  // add bulk create service to context
+  app.bind(BulkCreateBindings.SERVICE).toClass(BulkCreateService);
+
+  // add bulk delete service to context
+  app.bind(BulkDeleteBindings.SERVICE).toClass(BulkDeleteService);
+
+  // add batch service to context
+  app.bind(BatchBindings.SERVICE).toClass(BatchService);
+
+  // add aggregate service to context
+  app.bind(AggregateBindings.SERVICE).toClass(AggregateService);
+
   // bind custom repositories with TRANSIENT scope to enable proxy wrapping for interceptors
   app
     .bind(CustomRepositoriesBindings.CUSTOM_ENTITY_THROUGH_LIST_REPOSITORY)
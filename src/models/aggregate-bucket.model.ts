@@ -0,0 +1,27 @@
+import { Model, model, property } from '@loopback/repository';
+
+/**
+ * A group of records of an aggregation, with the metrics computed on them.
+ */
+@model()
+export class AggregateBucket extends Model {
+  @property({
+    type: 'object',
+    required: true,
+    description:
+      'Value of each groupBy field shared by the records of the bucket, e.g. `{"_kind": "book"}`. Date histograms give the start of the interval. Records without the field are grouped under null.',
+  })
+  group: object;
+
+  @property({
+    type: 'object',
+    required: true,
+    description:
+      'Value of each requested metric, e.g. `{"count": 12, "avg:price": 23.5}`.',
+  })
+  metrics: object;
+
+  constructor(data?: Partial<AggregateBucket>) {
+    super(data);
+  }
+}
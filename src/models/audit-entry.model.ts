@@ -0,0 +1,97 @@
+import { Entity, model, property } from '@loopback/repository';
+import { CollectionConfigHelper } from '../extensions/config-helpers/collection-config-helper';
+
+/**
+ * A change of a single field of a record, as kept in an audit entry.
+ */
+export interface AuditFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * An entry of the audit log, appended on create, update, replace or delete of
+ * a record. Entries of all record types are kept in the same collection and
+ * are never modified after creation.
+ */
+@model({
+  settings: {
+    strict: false,
+    mongodb: {
+      collection: CollectionConfigHelper.getInstance().getAuditCollectionName(),
+    },
+  },
+})
+export class AuditEntry extends Entity {
+  @property({
+    type: 'string',
+    id: true,
+    generated: false,
+    defaultFn: 'uuidv4',
+  })
+  _id: string;
+
+  @property({
+    type: 'string',
+    description: 'Id of the request which performed the operation.',
+  })
+  _requestId?: string;
+
+  @property({
+    type: 'string',
+    description: 'Id of the user who performed the operation.',
+  })
+  _actor?: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    jsonSchema: {
+      enum: ['create', 'update', 'replace', 'delete'],
+    },
+  })
+  _operation: string;
+
+  @property({
+    type: 'string',
+    description: 'HTTP method and path of the request, e.g. PATCH /entities/1.',
+  })
+  _route?: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description:
+      'Type of the changed record (entity, list, relation, entityReaction, listReaction).',
+  })
+  _recordType: string;
+
+  @property({
+    type: 'string',
+  })
+  _kind?: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description: 'Id of the changed record.',
+  })
+  _recordId: string;
+
+  @property.array(Object, {
+    description:
+      'Fields changed by the operation, with their values before (from) and after (to) the operation.',
+  })
+  _changes?: AuditFieldChange[];
+
+  @property({
+    type: 'date',
+    required: true,
+  })
+  _auditDateTime: string;
+
+  constructor(data?: Partial<AuditEntry>) {
+    super(data);
+  }
+}
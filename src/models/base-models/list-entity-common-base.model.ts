@@ -9,7 +9,8 @@ import { RelationMetadataType } from '../base-types/relation-metadata-under-enti
  * _ownerUsers, _ownerGroups, _viewerUsers, _viewerGroups
  *
  *  Adds:
- * _name, _slug, _ownerUsersCount, _ownerGroupsCount, _viewerUsersCount, _viewerGroupsCount
+ * _name, _slug, _ownerUsersCount, _ownerGroupsCount, _viewerUsersCount, _viewerGroupsCount,
+ * _parentsCount, _ancestors, _depth, _hierarchyVersion, _reactionCounts
  */
 @model({
   settings: {
@@ -67,6 +68,35 @@ export class ListEntityCommonBase extends AccessControlBase {
   })
   _parentsCount?: number;
 
+  @property({
+    type: 'array',
+    itemType: 'string',
+    hidden: true,
+  })
+  _ancestors?: string[];
+
+  @property({
+    type: 'number',
+    default: 0,
+    hidden: true,
+  })
+  _depth?: number;
+
+  @property({
+    type: 'number',
+    hidden: true,
+  })
+  _hierarchyVersion?: number;
+
+  @property({
+    type: 'object',
+    description:
+      'Number of active reactions of each kind posted to the record, e.g. {"like": 42}. ' +
+      'Maintained by the service whenever the reactions change. ' +
+      'Can be filtered and sorted on, e.g. filter[order]=_reactionCounts.like DESC.',
+  })
+  _reactionCounts?: Record<string, number>;
+
   /**
    * Parent references as URIs. Each concrete model defines this with @property
    * and model-specific regex validation. This type-only definition ensures
@@ -9,7 +9,8 @@ import { SourceAndTargetMetadata } from '../base-types/source-and-target-metadat
  * _ownerUsers, _ownerGroups, _viewerUsers, _viewerGroups, _visibility
  *
  * Adds:
- * _ownerUsersCount, _ownerGroupsCount, _viewerUsersCount, _viewerGroupsCount, _parentsCount
+ * _ownerUsersCount, _ownerGroupsCount, _viewerUsersCount, _viewerGroupsCount, _parentsCount,
+ * _ancestors, _depth, _hierarchyVersion
  */
 @model({
   settings: {
@@ -52,6 +53,26 @@ export class ReactionsCommonBase extends AccessControlBase {
   })
   _parentsCount?: number;
 
+  @property({
+    type: 'array',
+    itemType: 'string',
+    hidden: true,
+  })
+  _ancestors?: string[];
+
+  @property({
+    type: 'number',
+    default: 0,
+    hidden: true,
+  })
+  _depth?: number;
+
+  @property({
+    type: 'number',
+    hidden: true,
+  })
+  _hierarchyVersion?: number;
+
   /**
    * Parent references as URIs. Each concrete model defines this with @property
    * and model-specific regex validation. This type-only definition ensures
@@ -5,7 +5,7 @@ import { Entity, model, property } from '@loopback/repository';
  * -
  *
  *  Adds:
- * _id, _kind, _validFromDateTime, _validUntilDateTime, _version, _createdDateTime, _createdBy, _lastUpdatedDateTime, _lastUpdatedBy, _idempotencyKey
+ * _id, _kind, _validFromDateTime, _validUntilDateTime, _version, _createdDateTime, _createdBy, _lastUpdatedDateTime, _lastUpdatedBy, _deletedDateTime, _deletedBy, _idempotencyKey
  */
 @model({
   settings: {
@@ -73,6 +73,21 @@ export class RecordsCommonBase extends Entity {
   })
   _lastUpdatedBy?: string;
 
+  @property({
+    type: 'date',
+    description:
+      'This field is filled by server when the record is moved to the trash ' +
+      'by a soft delete.',
+    jsonSchema: { nullable: true },
+  })
+  _deletedDateTime?: string | null;
+
+  @property({
+    required: false,
+    type: 'string',
+  })
+  _deletedBy?: string;
+
   @property({
     type: 'string',
     hidden: true,
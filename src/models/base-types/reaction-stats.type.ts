@@ -0,0 +1,6 @@
+/**
+ * Statistics of the reactions of an entity or list by reaction kind, included
+ * with the `_reactionStats` relation, e.g.
+ * `{"like": {"count": 42}, "rating": {"count": 10, "avg:value": 4.3}}`.
+ */
+export type ReactionStats = Record<string, Record<string, number | null>>;
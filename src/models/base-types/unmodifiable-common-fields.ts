@@ -6,12 +6,19 @@ export const STRICTLY_INTERNAL_FIELDS = Object.freeze([
   '_viewerUsersCount',
   '_viewerGroupsCount',
   '_parentsCount',
+  '_ancestors',
+  '_depth',
+  '_hierarchyVersion',
   '_fromMetadata',
   '_toMetadata',
   '_relationMetadata',
   '_reactions',
+  '_reactionStats',
+  '_reactionCounts',
   '_version',
   '_idempotencyKey',
+  '_deletedDateTime',
+  '_deletedBy',
 ]) as ReadonlyArray<string>;
 
 // Immutable after creation: allowed in POST (create) but not in PUT/PATCH (update/replace)
@@ -35,6 +42,9 @@ export const ALWAYS_HIDDEN_FIELDS = Object.freeze([
   '_viewerUsersCount',
   '_viewerGroupsCount',
   '_parentsCount',
+  '_ancestors',
+  '_depth',
+  '_hierarchyVersion',
 ] as ReadonlyArray<string>);
 
 // Create union types from the array elements
@@ -0,0 +1,64 @@
+import { Model, model, property } from '@loopback/repository';
+
+/**
+ * Models a batch operation can be applied to, by the path of their endpoints.
+ */
+export const BATCH_MODELS = Object.freeze([
+  'entities',
+  'lists',
+  'relations',
+  'entity-reactions',
+  'list-reactions',
+]) as ReadonlyArray<string>;
+
+export type BatchModel =
+  'entities' | 'lists' | 'relations' | 'entity-reactions' | 'list-reactions';
+
+export type BatchOp = 'create' | 'update' | 'replace' | 'delete';
+
+/**
+ * A single operation of a batch request. Strings of the form
+ * `$ref:<index>.<path>` in the id and the data are replaced with the value at
+ * the given path of the result of an earlier operation, e.g. `$ref:0._id`.
+ */
+@model()
+export class BatchOperation extends Model {
+  @property({
+    type: 'string',
+    required: true,
+    description: 'Model the operation is applied to.',
+    jsonSchema: {
+      enum: [...BATCH_MODELS],
+    },
+  })
+  model: BatchModel;
+
+  @property({
+    type: 'string',
+    required: true,
+    description:
+      'create, update (merge patch), replace or delete, as with the POST, PATCH, PUT and DELETE endpoints of the model.',
+    jsonSchema: {
+      enum: ['create', 'update', 'replace', 'delete'],
+    },
+  })
+  op: BatchOp;
+
+  @property({
+    type: 'string',
+    description:
+      'Id of the record to update, replace or delete. May refer to the result of an earlier operation, e.g. `$ref:0._id`.',
+  })
+  id?: string;
+
+  @property({
+    type: 'object',
+    description:
+      'Body of the create, update or replace, in the same shape as the body of the endpoint of the model.',
+  })
+  data?: object;
+
+  constructor(data?: Partial<BatchOperation>) {
+    super(data);
+  }
+}
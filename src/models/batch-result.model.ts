@@ -0,0 +1,32 @@
+import { Model, model, property } from '@loopback/repository';
+
+/**
+ * The outcome of a single operation of a batch request.
+ */
+@model()
+export class BatchResult extends Model {
+  @property({
+    type: 'number',
+    required: true,
+    description: 'Position of the operation in the request body.',
+  })
+  index: number;
+
+  @property({
+    type: 'number',
+    required: true,
+    description: '200 for operations returning the record, 204 for deletes.',
+  })
+  statusCode: number;
+
+  @property({
+    type: 'object',
+    description:
+      'The record as it is after a create, update or replace. Earlier results can be referred to by later operations.',
+  })
+  data?: object;
+
+  constructor(data?: Partial<BatchResult>) {
+    super(data);
+  }
+}
@@ -0,0 +1,42 @@
+import { Model, model, property } from '@loopback/repository';
+import { getJsonSchema } from '@loopback/rest';
+import { HttpErrorResponse } from './http-error-response.model';
+
+/**
+ * The outcome of creating a single item of a bulk create request. Either the
+ * created record or the error which prevented its creation is set.
+ */
+@model()
+export class BulkCreateResult extends Model {
+  @property({
+    type: 'number',
+    required: true,
+    description: 'Position of the item in the request body.',
+  })
+  index: number;
+
+  @property({
+    type: 'number',
+    required: true,
+    description:
+      'HTTP status the item would have received from the single create endpoint.',
+  })
+  statusCode: number;
+
+  @property({
+    type: 'object',
+    description: 'The created record.',
+  })
+  data?: object;
+
+  @property({
+    type: 'object',
+    description: 'The error which prevented the creation of the item.',
+    jsonSchema: getJsonSchema(HttpErrorResponse),
+  })
+  error?: Partial<HttpErrorResponse>;
+
+  constructor(data?: Partial<BulkCreateResult>) {
+    super(data);
+  }
+}
@@ -0,0 +1,31 @@
+import { Model, model, property } from '@loopback/repository';
+
+/**
+ * The outcome of a bulk delete request. In dry-run mode, the records are only
+ * matched and nothing is deleted.
+ */
+@model()
+export class BulkDeleteResult extends Model {
+  @property({
+    type: 'number',
+    required: true,
+    description: 'Number of records matched by the filter.',
+  })
+  count: number;
+
+  @property.array(String, {
+    required: true,
+    description: 'Ids of the records matched by the filter.',
+  })
+  ids: string[];
+
+  @property({
+    type: 'boolean',
+    description: 'Whether the request was a dry run.',
+  })
+  dryRun?: boolean;
+
+  constructor(data?: Partial<BulkDeleteResult>) {
+    super(data);
+  }
+}
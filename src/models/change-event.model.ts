@@ -0,0 +1,93 @@
+import { Entity, model, property } from '@loopback/repository';
+import { CollectionConfigHelper } from '../extensions/config-helpers/collection-config-helper';
+
+/**
+ * An event appended to the outbox on create, update, replace or delete of a
+ * record. Events of all record types are kept in the same collection and are
+ * served through the change feed in the order they were recorded.
+ */
+@model({
+  settings: {
+    strict: false,
+    mongodb: {
+      collection:
+        CollectionConfigHelper.getInstance().getChangesCollectionName(),
+    },
+  },
+})
+export class ChangeEvent extends Entity {
+  @property({
+    type: 'string',
+    id: true,
+    generated: false,
+    defaultFn: 'uuidv4',
+    description:
+      'Id of the event. Used as the cursor to resume the change feed after this event.',
+  })
+  _id: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description:
+      'Type of the changed record (entity, list, entityReaction, listReaction).',
+  })
+  _recordType: string;
+
+  @property({
+    type: 'string',
+  })
+  _kind?: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description: 'Id of the changed record.',
+  })
+  _recordId: string;
+
+  @property({
+    type: 'number',
+    description:
+      'Version of the record after the operation. For deletions, this is the last version of the record.',
+  })
+  _version?: number;
+
+  @property({
+    type: 'string',
+    required: true,
+    jsonSchema: {
+      enum: ['create', 'update', 'replace', 'delete'],
+    },
+  })
+  _operation: string;
+
+  @property.array(String, {
+    description: 'Names of the fields changed by the operation.',
+  })
+  _changedFields?: string[];
+
+  @property({
+    type: 'string',
+    description: 'Id of the user who performed the operation.',
+  })
+  _actor?: string;
+
+  @property({
+    type: 'date',
+    required: true,
+  })
+  _changeDateTime: string;
+
+  @property({
+    type: 'number',
+    required: true,
+    description:
+      'Position of the event in the change feed: the time the event was recorded, in microseconds. Events with the same position are ordered by their ids.',
+  })
+  _sequence: number;
+
+  constructor(data?: Partial<ChangeEvent>) {
+    super(data);
+  }
+}
@@ -64,20 +64,46 @@ export class HttpErrorResponse extends Model {
       examples: [
         // 400 Bad Request
         'MALFORMED-QUERY-FILTER',
+        'INVALID-IF-MATCH-HEADER',
+        'INVALID-CHANGE-CURSOR',
+        'INVALID-CURSOR',
+        'BULK-DELETE-NOT-CONFIRMED',
+        'INVALID-IMPORT-HEADER',
+        'SEARCH-NOT-CONFIGURED',
+        'INVALID-AGGREGATE-QUERY',
+        'TOO-MANY-AGGREGATE-BUCKETS',
         // 404 Not Found
         'ENTITY-NOT-FOUND',
         'LIST-NOT-FOUND',
         'RELATION-NOT-FOUND',
         'ENTITY-REACTION-NOT-FOUND',
         'LIST-REACTION-NOT-FOUND',
+        'ENTITY-REVISION-NOT-FOUND',
+        'LIST-REVISION-NOT-FOUND',
+        'ENTITY-REACTION-REVISION-NOT-FOUND',
+        'LIST-REACTION-REVISION-NOT-FOUND',
         // 409 Conflict
         'ENTITY-UNIQUENESS-VIOLATION',
         'LIST-UNIQUENESS-VIOLATION',
         'RELATION-UNIQUENESS-VIOLATION',
         'ENTITY-REACTION-UNIQUENESS-VIOLATION',
         'LIST-REACTION-UNIQUENESS-VIOLATION',
+        'ENTITY-NOT-DELETED',
+        'LIST-NOT-DELETED',
+        'JSON-PATCH-TEST-FAILED',
+        // 412 Precondition Failed
+        'ENTITY-VERSION-MISMATCH',
+        'LIST-VERSION-MISMATCH',
+        'RELATION-VERSION-MISMATCH',
+        'ENTITY-REACTION-VERSION-MISMATCH',
+        'LIST-REACTION-VERSION-MISMATCH',
         // 422 Unprocessable Entity
         'VALIDATION-FAILED',
+        'INVALID-JSON-PATCH',
+        'INVALID-UPDATE-OPERATOR',
+        'INVALID-IMPORT-LINE',
+        'INVALID-BATCH-OPERATION',
+        'INVALID-BATCH-REFERENCE',
         'INVALID-INCLUSION-FILTER',
         'INVALID-ENTITY-KIND',
         'INVALID-LIST-KIND',
@@ -109,6 +135,15 @@ export class HttpErrorResponse extends Model {
         'LIST-REACTION-INVALID-LOOKUP-KIND',
         'LIST-REACTION-INVALID-PARENT-ENTITY-ID',
         'LIST-REACTION-INVALID-PARENT-LIST-ID',
+        'ENTITY-HIERARCHY-CYCLE',
+        'LIST-HIERARCHY-CYCLE',
+        'ENTITY-REACTION-HIERARCHY-CYCLE',
+        'LIST-REACTION-HIERARCHY-CYCLE',
+        'ENTITY-INVALID-MOVE',
+        'LIST-INVALID-MOVE',
+        'ENTITY-REACTION-INVALID-MOVE',
+        'LIST-REACTION-INVALID-MOVE',
+        'BULK-DELETE-LIMIT-EXCEEDED',
         // 429 Too Many Requests
         'ENTITY-LIMIT-EXCEEDED',
         'LIST-LIMIT-EXCEEDED',
@@ -0,0 +1,44 @@
+import { Model, model, property } from '@loopback/repository';
+import { getJsonSchema } from '@loopback/rest';
+import { HttpErrorResponse } from './http-error-response.model';
+
+/**
+ * The outcome of importing a single line of an import file. Either the id of
+ * the created record or the error which prevented its creation is set.
+ */
+@model()
+export class ImportResult extends Model {
+  @property({
+    type: 'number',
+    required: true,
+    description:
+      'Number of the line the record starts at in the import file, counting from 1.',
+  })
+  line: number;
+
+  @property({
+    type: 'number',
+    required: true,
+    description:
+      'HTTP status the record would have received from the single create endpoint.',
+  })
+  statusCode: number;
+
+  @property({
+    type: 'string',
+    description:
+      'Id of the created record. Not set in dry-run mode, as nothing is created.',
+  })
+  _id?: string;
+
+  @property({
+    type: 'object',
+    description: 'The error which prevented the creation of the record.',
+    jsonSchema: getJsonSchema(HttpErrorResponse),
+  })
+  error?: Partial<HttpErrorResponse>;
+
+  constructor(data?: Partial<ImportResult>) {
+    super(data);
+  }
+}
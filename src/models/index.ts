@@ -6,3 +6,14 @@ export * from './list-reactions.model';
 export * from './entity-reactions.model';
 export * from './base-models/list-entity-common-base.model';
 export * from './base-models/reactions-common-base.model';
+export * from './record-revision.model';
+export * from './change-event.model';
+export * from './audit-entry.model';
+export * from './webhook-delivery.model';
+export * from './webhook-dead-letter.model';
+export * from './bulk-create-result.model';
+export * from './bulk-delete-result.model';
+export * from './import-result.model';
+export * from './batch-operation.model';
+export * from './batch-result.model';
+export * from './aggregate-bucket.model';
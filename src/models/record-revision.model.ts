@@ -0,0 +1,81 @@
+import { Entity, model, property } from '@loopback/repository';
+import { CollectionConfigHelper } from '../extensions/config-helpers/collection-config-helper';
+
+/**
+ * A snapshot of a record taken on create, update, replace or delete.
+ * Revisions of all record types are kept in the same collection and are
+ * distinguished by _recordType and _recordId.
+ */
+@model({
+  settings: {
+    strict: false,
+    mongodb: {
+      collection:
+        CollectionConfigHelper.getInstance().getRevisionsCollectionName(),
+    },
+  },
+})
+export class RecordRevision extends Entity {
+  @property({
+    type: 'string',
+    id: true,
+    generated: false,
+    defaultFn: 'uuidv4',
+  })
+  _id: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description: 'Id of the record this revision belongs to.',
+  })
+  _recordId: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description:
+      'Type of the record this revision belongs to (entity, list, entityReaction, listReaction).',
+  })
+  _recordType: string;
+
+  @property({
+    type: 'string',
+  })
+  _kind?: string;
+
+  @property({
+    type: 'number',
+    required: true,
+    description:
+      'Version of the record after the operation. For deletions, this is the last version plus one.',
+  })
+  _version: number;
+
+  @property({
+    type: 'string',
+    required: true,
+    jsonSchema: {
+      enum: ['create', 'update', 'replace', 'delete'],
+    },
+  })
+  _operation: string;
+
+  @property({
+    type: 'date',
+    required: true,
+  })
+  _revisionDateTime: string;
+
+  @property({
+    type: 'object',
+    description:
+      'Full state of the record as it was stored after the operation.',
+  })
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  _snapshot?: { [key: string]: any };
+
+  constructor(data?: Partial<RecordRevision>) {
+    super(data);
+  }
+}
@@ -0,0 +1,23 @@
+import { model } from '@loopback/repository';
+import { WebhookDelivery } from './webhook-delivery.model';
+import { CollectionConfigHelper } from '../extensions/config-helpers/collection-config-helper';
+
+/**
+ * A webhook delivery that failed on every attempt. Deliveries are moved to
+ * the dead-letter collection once the maximum number of attempts is reached,
+ * and are kept there for inspection.
+ */
+@model({
+  settings: {
+    strict: false,
+    mongodb: {
+      collection:
+        CollectionConfigHelper.getInstance().getWebhookDeadLettersCollectionName(),
+    },
+  },
+})
+export class WebhookDeadLetter extends WebhookDelivery {
+  constructor(data?: Partial<WebhookDeadLetter>) {
+    super(data);
+  }
+}
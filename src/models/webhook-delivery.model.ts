@@ -0,0 +1,138 @@
+import { Entity, model, property } from '@loopback/repository';
+import { CollectionConfigHelper } from '../extensions/config-helpers/collection-config-helper';
+
+/**
+ * A delivery of a change event to a webhook subscription. Deliveries are
+ * queued together with the change event and are sent to the subscriber by the
+ * webhook dispatcher, retrying failed attempts with an exponential backoff.
+ */
+@model({
+  settings: {
+    strict: false,
+    mongodb: {
+      collection:
+        CollectionConfigHelper.getInstance().getWebhookDeliveriesCollectionName(),
+    },
+  },
+})
+export class WebhookDelivery extends Entity {
+  @property({
+    type: 'string',
+    id: true,
+    generated: false,
+    defaultFn: 'uuidv4',
+    description:
+      'Id of the delivery. Sent to the subscriber in the X-Webhook-Delivery header.',
+  })
+  _id: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description: 'Id of the webhook subscription.',
+  })
+  _webhookId: string;
+
+  @property({
+    type: 'string',
+    required: true,
+  })
+  _url: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description: 'Id of the delivered change event.',
+  })
+  _eventId: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    description:
+      'Type of the changed record (entity, list, entityReaction, listReaction).',
+  })
+  _recordType: string;
+
+  @property({
+    type: 'string',
+  })
+  _kind?: string;
+
+  @property({
+    type: 'string',
+    required: true,
+  })
+  _recordId: string;
+
+  @property({
+    type: 'string',
+    required: true,
+    jsonSchema: {
+      enum: ['create', 'update', 'replace', 'delete'],
+    },
+  })
+  _operation: string;
+
+  @property({
+    type: 'object',
+    required: true,
+    description:
+      'Body of the request sent to the subscriber: the change event and the state of the record.',
+  })
+  _payload: object;
+
+  @property({
+    type: 'string',
+    required: true,
+    jsonSchema: {
+      enum: ['pending', 'delivered', 'failed'],
+    },
+  })
+  _status: string;
+
+  @property({
+    type: 'number',
+    default: 0,
+  })
+  _attempts: number;
+
+  @property({
+    type: 'date',
+    description: 'Time after which the next attempt will be made.',
+  })
+  _nextAttemptDateTime?: string;
+
+  @property({
+    type: 'date',
+  })
+  _lastAttemptDateTime?: string;
+
+  @property({
+    type: 'number',
+    description:
+      'HTTP status code returned by the subscriber on the last attempt.',
+  })
+  _lastResponseStatus?: number;
+
+  @property({
+    type: 'string',
+    description: 'Reason of the failure of the last attempt.',
+  })
+  _lastError?: string;
+
+  @property({
+    type: 'date',
+    required: true,
+  })
+  _createdDateTime: string;
+
+  @property({
+    type: 'date',
+  })
+  _deliveredDateTime?: string;
+
+  constructor(data?: Partial<WebhookDelivery>) {
+    super(data);
+  }
+}
@@ -0,0 +1,2 @@
+export * from './webhook-dispatcher.observer';
+export * from './search-index.observer';
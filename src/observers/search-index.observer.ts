@@ -0,0 +1,91 @@
+import type { Getter, LifeCycleObserver } from '@loopback/core';
+import { inject, lifeCycleObserver } from '@loopback/core';
+import { repository } from '@loopback/repository';
+import { EntityDbDataSource } from '../datasources/entity-db.datasource';
+import {
+  SearchConfigBindings,
+  SearchConfigurationReader,
+  SearchModel,
+} from '../extensions/config-helpers/search-config-helper';
+import {
+  EntityReactionsRepository,
+  EntityRepository,
+  ListReactionsRepository,
+  ListRepository,
+} from '../repositories';
+import { LoggingService } from '../services/logging.service';
+
+/**
+ * Brings the text indexes of the searchable collections in line with the
+ * search configuration when the application starts. Indexes are created for
+ * the models with search fields, rebuilt when their fields or weights change,
+ * and dropped when search is no longer configured.
+ */
+@lifeCycleObserver('search')
+export class SearchIndexObserver implements LifeCycleObserver {
+  constructor(
+    @inject('datasources.EntityDb')
+    private dataSource: EntityDbDataSource,
+    @repository.getter(EntityRepository)
+    private entityRepositoryGetter: Getter<EntityRepository>,
+    @repository.getter(ListRepository)
+    private listRepositoryGetter: Getter<ListRepository>,
+    @repository.getter(EntityReactionsRepository)
+    private entityReactionsRepositoryGetter: Getter<EntityReactionsRepository>,
+    @repository.getter(ListReactionsRepository)
+    private listReactionsRepositoryGetter: Getter<ListReactionsRepository>,
+    @inject(SearchConfigBindings.CONFIG_READER, { optional: true })
+    private searchConfigReader: SearchConfigurationReader | undefined,
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+  ) {}
+
+  async start(): Promise<void> {
+    const searchConfigReader = this.searchConfigReader;
+    if (!searchConfigReader) {
+      return;
+    }
+
+    const repositoryGetters: [
+      SearchModel,
+      Getter<Pick<EntityRepository, 'ensureSearchIndex'>>,
+    ][] = [
+      ['entity', this.entityRepositoryGetter],
+      ['list', this.listRepositoryGetter],
+      ['entity-reaction', this.entityReactionsRepositoryGetter],
+      ['list-reaction', this.listReactionsRepositoryGetter],
+    ];
+
+    try {
+      await this.dataSource.connect();
+    } catch (error) {
+      this.loggingService.error(
+        'SearchIndexObserver.start - Failed to update the search indexes:',
+        error,
+      );
+
+      return;
+    }
+
+    for (const [model, getRepository] of repositoryGetters) {
+      try {
+        const weights = searchConfigReader.getIndexWeights(model);
+        const searchRepository = await getRepository();
+
+        if (await searchRepository.ensureSearchIndex(weights)) {
+          this.loggingService.info(
+            `SearchIndexObserver.start - Updated the search index of ${model} records:`,
+            { weights },
+          );
+        }
+      } catch (error) {
+        // Searches fail with SEARCH-NOT-CONFIGURED until the index exists, the
+        // rest of the service, and the indexes of other models, keep working
+        this.loggingService.error(
+          `SearchIndexObserver.start - Failed to update the search index of ${model} records:`,
+          error,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import type { LifeCycleObserver } from '@loopback/core';
+import { inject, lifeCycleObserver } from '@loopback/core';
+import { LoggingService } from '../services/logging.service';
+import { WebhookBindings } from '../services/webhook.bindings';
+import { WebhookService } from '../services/webhook.service';
+
+/**
+ * Sends the queued webhook deliveries at a regular interval while the
+ * application is running. Nothing is scheduled when no webhook subscription
+ * is configured, or when the webhook service is not bound to the context.
+ */
+@lifeCycleObserver('webhooks')
+export class WebhookDispatcherObserver implements LifeCycleObserver {
+  private timer?: NodeJS.Timeout;
+  private dispatching = false;
+
+  constructor(
+    @inject(WebhookBindings.SERVICE, { optional: true })
+    private webhookService: WebhookService | undefined,
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+  ) {}
+
+  start(): void {
+    const webhookService = this.webhookService;
+    if (!webhookService?.hasSubscriptions()) {
+      return;
+    }
+
+    this.timer = setInterval(
+      () => this.dispatch(webhookService),
+      webhookService.getDispatchInterval(),
+    );
+
+    // Do not keep the process alive only for the dispatcher
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Runs the dispatcher, skipping the run if the previous one is still in
+   * progress.
+   */
+  private dispatch(webhookService: WebhookService): void {
+    if (this.dispatching) {
+      return;
+    }
+
+    this.dispatching = true;
+
+    webhookService
+      .dispatchPendingDeliveries()
+      .catch((error) => {
+        this.loggingService.error(
+          'WebhookDispatcherObserver.dispatch - Failed to dispatch webhook deliveries:',
+          error,
+        );
+      })
+      .finally(() => {
+        this.dispatching = false;
+      });
+  }
+}
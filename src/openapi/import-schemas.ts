@@ -0,0 +1,14 @@
+import type { ContentObject } from '@loopback/rest';
+import { CSV_CONTENT_TYPE } from '../extensions/utils/import-helper';
+import { NDJSON_CONTENT_TYPE } from '../extensions/utils/ndjson-helper';
+
+/**
+ * Content of the request body of the import endpoints. The body is passed to
+ * the endpoints as a stream, so that the file is read while it is imported.
+ */
+export function getImportRequestBodyContent(): ContentObject {
+  return {
+    [NDJSON_CONTENT_TYPE]: { 'x-parser': 'stream' },
+    [CSV_CONTENT_TYPE]: { 'x-parser': 'stream' },
+  };
+}
@@ -0,0 +1,36 @@
+import type { SchemaObject } from '@loopback/rest';
+import { JSON_PATCH_OPERATIONS } from '../extensions/utils/json-patch-helper';
+
+export const JSON_PATCH_CONTENT_TYPE = 'application/json-patch+json';
+
+/**
+ * Schema of a JSON Patch (RFC 6902) document, accepted by the PATCH endpoints
+ * of single records with the `application/json-patch+json` content type.
+ */
+export function getJsonPatchSchema(): SchemaObject {
+  return {
+    type: 'array' as const,
+    title: 'JsonPatch',
+    items: {
+      type: 'object' as const,
+      required: ['op', 'path'],
+      properties: {
+        op: {
+          type: 'string' as const,
+          enum: [...JSON_PATCH_OPERATIONS],
+        },
+        path: {
+          type: 'string' as const,
+          description: 'JSON Pointer to the target location',
+        },
+        from: {
+          type: 'string' as const,
+          description: 'JSON Pointer to the source location of move and copy',
+        },
+        value: {
+          description: 'Value to add, replace or test',
+        },
+      },
+    },
+  };
+}
@@ -1,6 +1,49 @@
-import type { DataObject, Entity, juggler } from '@loopback/repository';
+import type {
+  Count,
+  DataObject,
+  Entity,
+  Filter,
+  Options,
+  Where,
+  juggler,
+} from '@loopback/repository';
 import { DefaultTransactionalRepository } from '@loopback/repository';
+import type { AnyObject } from '@loopback/repository/dist/common-types';
 import _ from 'lodash';
+import type { JsonPatchOperation } from '../../extensions/utils/json-patch-helper';
+import {
+  applyJsonPatch,
+  getPatchedFields,
+} from '../../extensions/utils/json-patch-helper';
+import type { PipelineStage } from '../../extensions/utils/mongo-pipeline-helper';
+import { getSkip } from '../../extensions/utils/page-info-helper';
+import { buildSearchSort } from '../../extensions/utils/search-helper';
+import { excludeDeleted } from '../../extensions/utils/soft-delete-helper';
+import type { NativeUpdate } from '../../extensions/utils/update-operators-helper';
+import { HttpErrorResponse } from '../../models';
+import { STRICTLY_INTERNAL_FIELDS } from '../../models/base-types/unmodifiable-common-fields';
+
+// Name of the text index managed by ensureSearchIndex
+const SEARCH_INDEX_NAME = 'search';
+
+// Suffix of the views managed by ensureHierarchyView
+const HIERARCHY_VIEW_SUFFIX = '_hierarchy';
+
+// Creation of the views managed by ensureHierarchyView, by namespace, so
+// that each view is created once per process
+const hierarchyViews = new Map<string, Promise<void>>();
+
+export type HierarchyDirection = 'ancestors' | 'descendants';
+
+/**
+ * The materialized path of a record in its hierarchy: `_ancestors` holds the
+ * URIs of all of its ancestors and `_depth` the length of the longest path
+ * from a root down to the record, 0 for a root.
+ */
+export interface MaterializedPath {
+  _ancestors: string[];
+  _depth: number;
+}
 
 /**
  * EntityPersistenceBaseRepository - Universal Foundation for All Repositories
@@ -13,6 +56,10 @@ import _ from 'lodash';
  * - Virtual field injection (_recordType) for API responses
  * - Data sanitization to strip non-persistent fields before write operations
  * - Transaction options propagation throughout the CRUD operations
+ * - Applying JSON Patch documents through the update of the repository
+ * - Moving records to and out of the trash for soft delete
+ * - Traversing the ancestors and descendants of records with $graphLookup
+ * - Nesting the descendants of records into trees
  *
  * ## Architecture:
  * This is Level 1 of a three-tier repository hierarchy:
@@ -51,6 +98,8 @@ export abstract class EntityPersistenceBaseRepository<
     '_relationMetadata',
     '_fromMetadata',
     '_toMetadata',
+    '_relativeDepth',
+    '_children',
   ];
 
   constructor(
@@ -126,4 +175,1167 @@ export abstract class EntityPersistenceBaseRepository<
 
     return data;
   }
+
+  /**
+   * Leaves the fields managed by the service out of incoming data before write
+   * operations. The request bodies do not list these fields, but the models
+   * accept additional properties, so they have to be removed here for clients
+   * not to write e.g. `_deletedDateTime` or `_depth`.
+   *
+   * @param data - The incoming data
+   * @param keptFields - Managed fields to keep, e.g. the `_version` an update
+   * is based on
+   * @returns A new data object without the managed fields
+   */
+  protected omitManagedFields(
+    data: DataObject<E>,
+    ...keptFields: string[]
+  ): DataObject<E> {
+    return _.omit(
+      data,
+      STRICTLY_INTERNAL_FIELDS.filter((field) => !keptFields.includes(field)),
+    ) as DataObject<E>;
+  }
+
+  /**
+   * Applies a JSON Patch (RFC 6902) document to a record.
+   *
+   * The operations are applied to the record as it is returned by findById.
+   * The top level fields changed by the patch are then passed to updateById,
+   * so that the result goes through the same validation as a merge patch.
+   * A field removed by the patch is validated as null, and is then removed
+   * from the record together with the count field the service keeps for it.
+   *
+   * @param id - The ID of the record to patch
+   * @param operations - The operations of the JSON Patch document
+   * @param expectedVersion - Optional current version for optimistic concurrency
+   * @param options - Optional options for transaction support
+   */
+  async patchById(
+    id: IdType,
+    operations: JsonPatchOperation[],
+    expectedVersion?: number,
+    options?: Options,
+  ): Promise<void> {
+    const existingRecord = await this.findById(id, undefined, options);
+
+    // Patch the record in the shape the client sees it
+    const original = JSON.parse(JSON.stringify(existingRecord));
+    const patched = applyJsonPatch(original, operations);
+
+    const data: AnyObject = _.omit(
+      getPatchedFields(original, patched),
+      this.virtualFields,
+    );
+
+    const managedField = Object.keys(data).find((field) =>
+      STRICTLY_INTERNAL_FIELDS.includes(field),
+    );
+
+    if (managedField) {
+      throw new HttpErrorResponse({
+        statusCode: 422,
+        name: 'InvalidJsonPatchError',
+        message: `Field '${managedField}' is managed by the service and cannot be changed by a patch.`,
+        code: 'INVALID-JSON-PATCH',
+      });
+    }
+
+    if (expectedVersion !== undefined) {
+      data._version = expectedVersion;
+    }
+
+    await this.updateById(id, data as DataObject<E>, options);
+
+    const removedFields = Object.keys(original).filter(
+      (field) => !(field in patched) && !this.virtualFields.includes(field),
+    );
+
+    if (removedFields.length > 0) {
+      await this.unsetFields(id, removedFields, options);
+    }
+  }
+
+  /**
+   * Removes the given fields from a record, together with the count fields
+   * the service keeps for them, e.g. `_parentsCount` for `_parents`.
+   *
+   * @param id - The ID of the record
+   * @param fields - The top level fields to remove
+   * @param options - Optional options for transaction support
+   */
+  protected async unsetFields(
+    id: IdType,
+    fields: string[],
+    options?: Options,
+  ): Promise<void> {
+    const $unset: AnyObject = {};
+
+    for (const field of fields) {
+      $unset[field] = '';
+
+      if (STRICTLY_INTERNAL_FIELDS.includes(`${field}Count`)) {
+        $unset[`${field}Count`] = '';
+      }
+    }
+
+    await this.getNativeCollection().updateOne(
+      { _id: id },
+      { $unset },
+      { session: options?.session },
+    );
+  }
+
+  /**
+   * Iterates over the matching records in ascending order of their ids, reading
+   * them from a MongoDB cursor. Unlike find, the records are not capped by the
+   * response limit and are not loaded into memory at once, so that whole
+   * collections can be exported. Only the where clause, fields and limit of
+   * the filter are used.
+   *
+   * @param filter - Filter selecting the records
+   * @param afterId - Only records with a greater id are read, to resume an
+   * interrupted iteration from the id of the last record read
+   * @param options - Optional options for transaction support
+   */
+  async *iterate(
+    filter?: Filter<E>,
+    afterId?: string,
+    options?: Options,
+  ): AsyncGenerator<E> {
+    let where: AnyObject | undefined = this.whereExcludingDeleted(
+      filter?.where,
+    );
+
+    if (afterId !== undefined) {
+      const afterWhere = { _id: { gt: afterId } };
+      where = where ? { and: [where, afterWhere] } : afterWhere;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const connector = this.dataSource.connector as any;
+    const modelName = this.entityClass.modelName;
+
+    const cursor = this.getNativeCollection().find(
+      this.buildNativeQuery(where, options),
+      {
+        session: options?.session,
+        projection: buildProjection(filter?.fields),
+        sort: { _id: 1 },
+        limit: Number(filter?.limit) || 0,
+      },
+    );
+
+    try {
+      for await (const document of cursor) {
+        yield this.injectRecordType(
+          new this.entityClass(
+            connector.fromDatabase(modelName, document),
+          ) as E,
+        );
+      }
+    } finally {
+      await cursor.close();
+    }
+  }
+
+  /**
+   * Returns the ids of a page of the records matching the given full-text
+   * search and filter, in the order of the page. The search, the where clause
+   * and the paging run in a single aggregation, so that only the ids of the
+   * page are read. The records are ordered by the order of the filter, or by
+   * relevance if the filter has no order. The search runs on the text index
+   * of the collection, see ensureSearchIndex.
+   *
+   * @param search - Words or quoted phrases to search for, in the syntax of
+   * MongoDB text search
+   * @param filter - The where clause, order, skip and limit of the page
+   * @param sourceWhere - The where clause of the records the matching records
+   * belong to, see buildSearchSourceStages
+   * @param options - Optional options for transaction support
+   * @returns The ids of the records of the page
+   */
+  async findSearchPage(
+    search: string,
+    filter?: Filter<E>,
+    sourceWhere?: Where<E>,
+    options?: Options,
+  ): Promise<string[]> {
+    const skip = getSkip(filter);
+    const documents = await this.aggregateSearch(
+      search,
+      filter?.where,
+      sourceWhere,
+      [
+        { $sort: buildSearchSort(filter?.order) },
+        ...(skip > 0 ? [{ $skip: skip }] : []),
+        ...(filter?.limit ? [{ $limit: Number(filter.limit) }] : []),
+        { $project: { _id: 1 } },
+      ],
+      options,
+    );
+
+    return documents.map((document) => String(document._id));
+  }
+
+  /**
+   * Counts the records matching the given full-text search and where clause.
+   *
+   * @param search - Words or quoted phrases to search for, in the syntax of
+   * MongoDB text search
+   * @param where - The where clause the records must also match
+   * @param sourceWhere - The where clause of the records the matching records
+   * belong to, see buildSearchSourceStages
+   * @param options - Optional options for transaction support
+   * @returns The number of matching records
+   */
+  async countSearchMatches(
+    search: string,
+    where?: Where<E>,
+    sourceWhere?: Where<E>,
+    options?: Options,
+  ): Promise<Count> {
+    const documents = await this.aggregateSearch(
+      search,
+      where,
+      sourceWhere,
+      [{ $count: 'count' }],
+      options,
+    );
+
+    return { count: documents[0]?.count ?? 0 };
+  }
+
+  /**
+   * Returns the stages restricting a full-text search to the records whose
+   * source records, which they belong to, match the given where clause.
+   * Records of this repository do not belong to others, so the where clause
+   * is not used. Repositories of records belonging to others override this.
+   */
+  protected buildSearchSourceStages(_sourceWhere?: Where<E>): PipelineStage[] {
+    return [];
+  }
+
+  /**
+   * Runs the given stages on the records matching the given full-text search
+   * and where clause. Soft deleted records are left out, as in find.
+   */
+  private async aggregateSearch(
+    search: string,
+    where: Where<E> | undefined,
+    sourceWhere: Where<E> | undefined,
+    stages: AnyObject[],
+    options?: Options,
+  ): Promise<AnyObject[]> {
+    const pipeline = [
+      {
+        // $text must be in the first stage of the pipeline
+        $match: {
+          ...this.buildNativeQuery(this.whereExcludingDeleted(where), options),
+          $text: { $search: search },
+        },
+      },
+      ...this.buildSearchSourceStages(sourceWhere),
+      ...stages,
+    ];
+
+    try {
+      const documents: AnyObject[] = await this.getNativeCollection()
+        .aggregate(pipeline, { session: options?.session })
+        .toArray();
+
+      return documents;
+    } catch (error) {
+      // IndexNotFound, the collection has no text index to search on
+      if (error.code === 27) {
+        throw new HttpErrorResponse({
+          statusCode: 400,
+          name: 'BadRequestError',
+          message: `Search is not configured for ${this.entityClass.modelName} records.`,
+          code: 'SEARCH-NOT-CONFIGURED',
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Creates the text index of the collection with the given fields and
+   * weights, replacing the index if its fields or weights differ. The index
+   * is dropped if no fields are given. As MongoDB allows a single text index
+   * per collection, the index cannot be created if the collection has a text
+   * index created by other means. Such an index is left as it is.
+   *
+   * @param weights - Weight of each field to index
+   * @returns True if the index was created or dropped, false if it was
+   * already up to date
+   */
+  async ensureSearchIndex(weights: Record<string, number>): Promise<boolean> {
+    const collection = this.getNativeCollection();
+    const indexes: AnyObject[] = await collection
+      .indexes()
+      .catch((error: AnyObject) => {
+        // NamespaceNotFound, the collection is not created yet
+        if (error.code === 26) {
+          return [];
+        }
+
+        throw error;
+      });
+    const textIndex = indexes.find((index) =>
+      Object.values(index.key).includes('text'),
+    );
+
+    if (textIndex && textIndex.name !== SEARCH_INDEX_NAME) {
+      if (_.isEmpty(weights)) {
+        return false;
+      }
+
+      throw new Error(
+        `The ${this.entityClass.modelName} collection already has the text index '${textIndex.name}'. MongoDB allows a single text index per collection, drop it to enable search.`,
+      );
+    }
+
+    if (_.isEqual(textIndex?.weights, weights)) {
+      return false;
+    }
+
+    if (textIndex) {
+      await collection.dropIndex(textIndex.name);
+    }
+
+    if (_.isEmpty(weights)) {
+      return !!textIndex;
+    }
+
+    await collection.createIndex(
+      _.mapValues(weights, () => 'text'),
+      {
+        name: SEARCH_INDEX_NAME,
+        weights,
+      },
+    );
+
+    return true;
+  }
+
+  /**
+   * Runs an aggregation pipeline on the records matching the given where
+   * clause. Soft deleted records are left out of the where clause before the
+   * pipeline is built, as in find.
+   *
+   * @param where - The where clause selecting the records
+   * @param buildPipeline - Builds the pipeline for the resulting where clause
+   * @param options - Optional options for transaction support
+   * @returns The documents the pipeline results in
+   */
+  async aggregate(
+    where: Where<E> | undefined,
+    buildPipeline: (where?: Where<E>) => PipelineStage[],
+    options?: Options,
+  ): Promise<AnyObject[]> {
+    return this.getNativeCollection()
+      .aggregate(buildPipeline(this.whereExcludingDeleted(where)), {
+        session: options?.session,
+      })
+      .toArray();
+  }
+
+  /**
+   * Finds the ancestors or the descendants of a record in a single query, by
+   * following the `_parents` references recursively with $graphLookup.
+   *
+   * As the references are tapp:// URIs, the traversal runs on a view of the
+   * collection which adds the URI of each record and the ids of its parents,
+   * see ensureHierarchyView. Records in the trash are not traversed.
+   *
+   * @param id - The ID of the record to start from
+   * @param direction - Follow the references up to the ancestors or down to
+   * the descendants
+   * @param uriPrefix - The URI of the records of the collection, without the id
+   * @param maxDepth - Optional number of levels to traverse, all if not given
+   * @param options - Optional options for transaction support
+   * @returns The depth of each record found by its id, 1 for the parents or
+   * the children of the record
+   */
+  protected async findHierarchyDepths(
+    id: string,
+    direction: HierarchyDirection,
+    uriPrefix: string,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<Map<string, number>> {
+    const nodes = await this.traverseHierarchy(
+      id,
+      direction,
+      uriPrefix,
+      this.buildNativeQuery(this.whereExcludingDeleted({} as Where<E>)),
+      maxDepth,
+      options,
+    );
+
+    return new Map(
+      nodes
+        .filter((node) => node._id !== id)
+        .map((node) => [String(node._id), node.depth + 1]),
+    );
+  }
+
+  /**
+   * Finds whether making the given records children of the given parents
+   * would close a cycle in the hierarchy, i.e. whether any of the records is
+   * one of the parents or one of their ancestors. Records in the trash are
+   * traversed as well, as they can be restored. If there is no cycle, the
+   * parents and their ancestors are touched in the transaction of the
+   * options, see touchHierarchy.
+   *
+   * @param ids - The IDs of the records whose parents are set
+   * @param parents - The tapp:// URIs of the parents
+   * @param uriPrefix - The URI of the records of the collection, without the id
+   * @param options - Optional options for transaction support
+   * @returns The path of the cycle from a record back to itself, each record
+   * being a parent of the next one, or undefined if there is no cycle
+   */
+  protected async findHierarchyCycle(
+    ids: string[],
+    parents: string[],
+    uriPrefix: string,
+    options?: Options,
+  ): Promise<string[] | undefined> {
+    const traversedIds: string[] = [];
+
+    for (const parentUri of parents) {
+      if (!parentUri.startsWith(uriPrefix)) {
+        continue;
+      }
+
+      const parentId = parentUri.slice(uriPrefix.length);
+
+      if (ids.includes(parentId)) {
+        return [parentId, parentId];
+      }
+
+      const nodes = await this.traverseHierarchy(
+        parentId,
+        'ancestors',
+        uriPrefix,
+        {},
+        undefined,
+        options,
+      );
+      let node = _.minBy(
+        nodes.filter((ancestor) => ids.includes(String(ancestor._id))),
+        'depth',
+      );
+
+      if (!node) {
+        traversedIds.push(
+          parentId,
+          ...nodes.map((ancestor) => String(ancestor._id)),
+        );
+        continue;
+      }
+
+      // Walk down from the record to the parent, one level at a time
+      const path = [String(node._id)];
+
+      while (node.depth > 0) {
+        const current: AnyObject = node;
+        node = nodes.find(
+          (child) =>
+            child.depth === current.depth - 1 &&
+            child._parentIds.includes(String(current._id)),
+        )!;
+        path.push(String(node._id));
+      }
+
+      return [...path, parentId, path[0]];
+    }
+
+    await this.touchHierarchy(_.uniq(traversedIds), options);
+
+    return undefined;
+  }
+
+  /**
+   * Increments `_hierarchyVersion` of the given records in the transaction of
+   * the given options. findHierarchyCycle only reads the ancestors of the new
+   * parents, so two transactions each closing half of a cycle, e.g. one
+   * making a the parent of b and the other b the parent of a, would write
+   * different records and both commit. Writing the records read makes such
+   * transactions conflict, so that the one retried finds the cycle. Nothing
+   * is written outside of a transaction, where writes cannot conflict, so the
+   * race is only closed for updates in a transaction. Every route which sets
+   * `_parents` runs in one: the create, update, replace, move, restore and
+   * children routes of entities, lists and reactions, their bulk, batch and
+   * through-list or through-entity routes, and the import, which creates
+   * each line in its own transaction. Only direct calls of the repositories
+   * without a session, e.g. from scripts, are left open to the race.
+   */
+  private async touchHierarchy(
+    ids: string[],
+    options?: Options,
+  ): Promise<void> {
+    if (!options?.session || ids.length === 0) {
+      return;
+    }
+
+    await this.getNativeCollection().updateMany(
+      { _id: { $in: ids } },
+      { $inc: { _hierarchyVersion: 1 } },
+      { session: options.session },
+    );
+  }
+
+  /**
+   * Computes the materialized path of a record with the given parents, from
+   * the materialized paths of the parents.
+   *
+   * @param parents - The tapp:// URIs of the parents
+   * @param uriPrefix - The URI of the records of the collection, without the id
+   * @param options - Optional options for transaction support
+   */
+  protected async computeMaterializedPath(
+    parents: unknown,
+    uriPrefix: string,
+    options?: Options,
+  ): Promise<MaterializedPath> {
+    const parentUris = Array.isArray(parents)
+      ? parents.filter((parent) => String(parent).startsWith(uriPrefix))
+      : [];
+
+    if (parentUris.length === 0) {
+      return { _ancestors: [], _depth: 0 };
+    }
+
+    const parentRecords: AnyObject[] = await this.getNativeCollection()
+      .find(
+        { _id: { $in: parentUris.map((uri) => uri.slice(uriPrefix.length)) } },
+        {
+          session: options?.session,
+          projection: { _ancestors: 1, _depth: 1 },
+        },
+      )
+      .toArray();
+
+    return mergeMaterializedPaths(parentUris, parentRecords);
+  }
+
+  /**
+   * Recomputes the materialized paths of all descendants of the given
+   * records, once the paths of the records themselves have changed. The
+   * descendants are found by following their `_parents` references, so that
+   * descendants whose paths were never materialized are updated as well.
+   * Records in the trash are updated too, as they can be restored. Only the
+   * descendants whose paths differ from the stored ones are written.
+   *
+   * `_ancestors` and `_depth` are hidden fields derived from `_parents`, so
+   * they are not versioned: the descendants are written directly, without
+   * incrementing their `_version` and without a revision, change event or
+   * audit entry. All descendants are written in the transaction of the
+   * options, so the number of descendants whose paths change with a single
+   * update is bounded by the limits of a transaction.
+   *
+   * @param ids - The IDs of the records whose paths have changed
+   * @param uriPrefix - The URI of the records of the collection, without the id
+   * @param options - Optional options for transaction support
+   * @returns The number of descendants updated
+   */
+  protected async propagateMaterializedPaths(
+    ids: string[],
+    uriPrefix: string,
+    options?: Options,
+  ): Promise<number> {
+    // Parent ids of each descendant
+    const descendants = new Map<string, string[]>();
+
+    for (const id of ids) {
+      const nodes = await this.traverseHierarchy(
+        id,
+        'descendants',
+        uriPrefix,
+        {},
+        undefined,
+        options,
+      );
+
+      for (const node of nodes) {
+        descendants.set(String(node._id), node._parentIds);
+      }
+    }
+
+    if (descendants.size === 0) {
+      return 0;
+    }
+
+    // The paths of the parents which are not descendants are up to date
+    const collection = this.getNativeCollection();
+    const outerParentIds = _.difference(
+      _.uniq([...descendants.values()].flat()),
+      [...descendants.keys()],
+    );
+    const storedPaths = new Map<string, AnyObject>(
+      (
+        await collection
+          .find(
+            { _id: { $in: [...outerParentIds, ...descendants.keys()] } },
+            {
+              session: options?.session,
+              projection: { _ancestors: 1, _depth: 1 },
+            },
+          )
+          .toArray()
+      ).map((record: AnyObject) => [String(record._id), record]),
+    );
+    const paths = new Map<string, Partial<MaterializedPath>>(
+      outerParentIds
+        .filter((id) => storedPaths.has(id))
+        .map((id) => [id, storedPaths.get(id)!]),
+    );
+
+    // Compute the paths from the top down, parents before their children
+    const resolve = (id: string): Partial<MaterializedPath> => {
+      const parentIds = descendants.get(id);
+
+      if (parentIds && !paths.has(id)) {
+        paths.set(
+          id,
+          mergeMaterializedPaths(
+            parentIds.map((parentId) => `${uriPrefix}${parentId}`),
+            parentIds.map(resolve),
+          ),
+        );
+      }
+
+      return paths.get(id) ?? {};
+    };
+
+    const changedIds = [...descendants.keys()].filter((id) =>
+      this.isMaterializedPathChanged(storedPaths.get(id) ?? {}, resolve(id)),
+    );
+
+    if (changedIds.length === 0) {
+      return 0;
+    }
+
+    await collection.bulkWrite(
+      changedIds.map((id) => ({
+        updateOne: {
+          filter: { _id: id },
+          update: { $set: resolve(id) },
+        },
+      })),
+      { session: options?.session },
+    );
+
+    return changedIds.length;
+  }
+
+  /**
+   * Tells whether the materialized path stored on the given record differs
+   * from the given one, i.e. whether the descendants of the record need to
+   * be updated.
+   */
+  protected isMaterializedPathChanged(
+    record: AnyObject,
+    path: AnyObject,
+  ): boolean {
+    return (
+      record._depth !== path._depth ||
+      !_.isEqual(record._ancestors, path._ancestors)
+    );
+  }
+
+  /**
+   * Runs the $graphLookup traversal of findHierarchyDepths and returns the
+   * records found, with their `depth` as given by $graphLookup, 0 for the
+   * parents or the children of the record, and the ids of their parents.
+   */
+  private async traverseHierarchy(
+    id: string,
+    direction: HierarchyDirection,
+    uriPrefix: string,
+    restrictSearchWithMatch: AnyObject,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<AnyObject[]> {
+    const view = await this.ensureHierarchyView(uriPrefix);
+    const connection =
+      direction === 'ancestors'
+        ? { connectFromField: '_parentIds', connectToField: '_id' }
+        : { connectFromField: '_uri', connectToField: '_parents' };
+
+    const [record] = await view
+      .aggregate(
+        [
+          { $match: { _id: id } },
+          {
+            $graphLookup: {
+              from: view.collectionName,
+              startWith: `$${connection.connectFromField}`,
+              ...connection,
+              as: 'nodes',
+              depthField: 'depth',
+              ...(maxDepth !== undefined && { maxDepth: maxDepth - 1 }),
+              restrictSearchWithMatch,
+            },
+          },
+          {
+            $project: {
+              'nodes._id': 1,
+              'nodes.depth': 1,
+              'nodes._parentIds': 1,
+            },
+          },
+        ],
+        { session: options?.session },
+      )
+      .toArray();
+
+    return record?.nodes ?? [];
+  }
+
+  /**
+   * Annotates the records found in a hierarchy with their depth in
+   * `_relativeDepth`. The depth is relative to the record the traversal
+   * started from, so it is not kept in `_depth`, which holds the depth of the
+   * record from the roots of the hierarchy and is hidden from responses.
+   *
+   * @param records - The records found in the hierarchy
+   * @param depths - The depth of each record by its id, see findHierarchyDepths
+   * @param sortByDepth - Whether to sort the records by their depth, nearest
+   * first. The order of records at the same depth is kept.
+   */
+  protected annotateDepths<T extends E>(
+    records: T[],
+    depths: Map<string, number>,
+    sortByDepth: boolean,
+  ): T[] {
+    for (const record of records) {
+      (record as AnyObject)._relativeDepth = depths.get(
+        (record as AnyObject)._id as string,
+      );
+    }
+
+    return sortByDepth ? _.sortBy(records, '_relativeDepth') : records;
+  }
+
+  /**
+   * Nests the descendants of the given records into them, loading one level
+   * of the tree at a time. Each record of a loaded level gets its children in
+   * `_children`, so the records of the last level loaded have no `_children`.
+   * A record having several parents in the tree is nested under each of them.
+   * The children of a record are only loaded at the first level it appears
+   * at. A level reaching the level limit may be missing records, and it is
+   * not known which parents they belong to, so all records whose children
+   * are on that level get `_childrenTruncated`.
+   *
+   * @param roots - The records at the top of the tree
+   * @param findChildren - Finds the records of the next level, having any of
+   * the given URIs in their `_parents`
+   * @param uriPrefix - The URI of the records of the collection, without the id
+   * @param levelLimit - The number of records findChildren returns at most
+   * @param maxDepth - Optional number of levels to load below the roots, all
+   * if not given
+   * @returns The roots, with their descendants nested
+   */
+  protected async buildTree<T extends E>(
+    roots: T[],
+    findChildren: (parentUris: string[]) => Promise<T[]>,
+    uriPrefix: string,
+    levelLimit: number,
+    maxDepth?: number,
+  ): Promise<T[]> {
+    const loadedIds = new Set<string>();
+    let level: AnyObject[] = roots;
+
+    for (
+      let depth = 1;
+      level.length > 0 && (maxDepth === undefined || depth <= maxDepth);
+      depth++
+    ) {
+      const nodes = new Map<string, AnyObject>();
+
+      for (const record of level) {
+        loadedIds.add(String(record._id));
+        record._children = [];
+        nodes.set(`${uriPrefix}${record._id}`, record);
+      }
+
+      const children: AnyObject[] = await findChildren([...nodes.keys()]);
+
+      if (children.length >= levelLimit) {
+        for (const record of nodes.values()) {
+          record._childrenTruncated = true;
+        }
+      }
+
+      for (const child of children) {
+        for (const parentUri of child._parents ?? []) {
+          nodes.get(parentUri)?._children.push(child);
+        }
+      }
+
+      level = children.filter((child) => !loadedIds.has(String(child._id)));
+    }
+
+    return roots;
+  }
+
+  /**
+   * Returns the filter of a level of a tree, with the children of the given
+   * parents matching the filter of the tree. The skip of the filter only
+   * applies to the top of the tree, while its order and limit apply to each
+   * level.
+   *
+   * @param parentUris - The tapp:// URIs of the parents
+   * @param filter - The filter of the tree
+   * @param levelLimit - The number of records of the level
+   */
+  protected buildTreeLevelFilter(
+    parentUris: string[],
+    filter: Filter<E> | undefined,
+    levelLimit: number,
+  ): Filter<E> {
+    return {
+      ..._.omit(filter, ['skip', 'offset']),
+      where: {
+        and: [
+          { _parents: { inq: parentUris } },
+          ...(filter?.where ? [filter.where] : []),
+        ],
+      } as Where<E>,
+      limit: levelLimit,
+    };
+  }
+
+  /**
+   * Ensures that the fields a tree is built from, `_id` and `_parents`, are
+   * included in the records found with the given filter.
+   */
+  protected forceTreeFieldsInclusion<T extends Filter<E> | undefined>(
+    filter: T,
+  ): T {
+    const treeFields = ['_id', '_parents'];
+
+    if (!filter?.fields) {
+      return filter;
+    }
+
+    if (Array.isArray(filter.fields)) {
+      return { ...filter, fields: _.union(filter.fields, treeFields) };
+    }
+
+    const fields = filter.fields as Record<string, boolean>;
+
+    // Inclusion mode: add the tree fields, exclusion mode: keep them
+    return {
+      ...filter,
+      fields: Object.values(fields).some((value) => value === true)
+        ? { ...fields, ..._.fromPairs(treeFields.map((f) => [f, true])) }
+        : _.omit(fields, treeFields),
+    };
+  }
+
+  /**
+   * Returns the view on which the hierarchy of the collection is traversed,
+   * creating it on the first traversal of the process. $graphLookup can only
+   * match stored fields, so the view adds the URI of each record and the ids
+   * of its parents, which are taken from the last segment of their URIs.
+   *
+   * @param uriPrefix - The URI of the records of the collection, without the id
+   * @returns The native view
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected async ensureHierarchyView(uriPrefix: string): Promise<any> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const db = (this.dataSource.connector as any)?.db;
+    const collectionName = this.getNativeCollection().collectionName;
+    const viewName = `${collectionName}${HIERARCHY_VIEW_SUFFIX}`;
+    const namespace = `${db.databaseName}.${viewName}`;
+    let creation = hierarchyViews.get(namespace);
+
+    if (!creation) {
+      creation = this.createHierarchyView(
+        db,
+        viewName,
+        collectionName,
+        uriPrefix,
+      );
+      hierarchyViews.set(namespace, creation);
+    }
+
+    try {
+      await creation;
+    } catch (error) {
+      // Create the view again on the next traversal
+      if (hierarchyViews.get(namespace) === creation) {
+        hierarchyViews.delete(namespace);
+      }
+
+      throw error;
+    }
+
+    return db.collection(viewName);
+  }
+
+  /**
+   * Creates the hierarchy view of ensureHierarchyView. A view left by an
+   * earlier run of the service is redefined, as the URI prefix of the records
+   * may have changed since.
+   */
+  private async createHierarchyView(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    db: any,
+    viewName: string,
+    collectionName: string,
+    uriPrefix: string,
+  ): Promise<void> {
+    const definition = {
+      viewOn: collectionName,
+      pipeline: [
+        {
+          $project: {
+            _parents: 1,
+            _deletedDateTime: 1,
+            _uri: { $concat: [uriPrefix, '$_id'] },
+            _parentIds: {
+              $map: {
+                input: { $ifNull: ['$_parents', []] },
+                in: { $arrayElemAt: [{ $split: ['$$this', '/'] }, -1] },
+              },
+            },
+          },
+        },
+      ],
+    };
+
+    try {
+      await db.createCollection(viewName, definition);
+    } catch (error) {
+      // NamespaceExists, the view is already created
+      if (error.code !== 48) {
+        throw error;
+      }
+
+      await db.command({ collMod: viewName, ...definition });
+    }
+  }
+
+  /**
+   * Converts the given where clause to a native MongoDB query. Values are
+   * coerced to the types of their properties, as find does.
+   */
+  protected buildNativeQuery(where?: AnyObject, options?: Options): AnyObject {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const connector = this.dataSource.connector as any;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const coercedWhere = (this.modelClass as any)._coerce(
+      _.cloneDeep(where ?? {}),
+      options,
+    );
+
+    return connector.buildWhere(this.entityClass.modelName, coercedWhere);
+  }
+
+  /**
+   * Returns true if soft deleted records must be left out of the queries of
+   * this repository. Repositories of records that can be moved to the trash,
+   * directly or together with the records they belong to, override this.
+   */
+  protected isSoftDeleteInUse(): boolean {
+    return false;
+  }
+
+  /**
+   * Adds the condition that leaves soft deleted records out to the given where
+   * clause, if soft delete is in use. Queries that explicitly ask for soft
+   * deleted records (e.g. with the `deleteds` set) are kept as they are.
+   *
+   * @param where - The where clause to modify
+   * @returns The where clause leaving soft deleted records out
+   */
+  protected whereExcludingDeleted(where?: Where<E>): Where<E> | undefined {
+    if (!this.isSoftDeleteInUse()) {
+      return where;
+    }
+
+    return excludeDeleted(where);
+  }
+
+  /**
+   * Moves the records matching the given MongoDB query to the trash by stamping
+   * them with the deletion time and the user who deleted them. Records that are
+   * already in the trash keep their original stamps.
+   *
+   * @param query - Native MongoDB query selecting the records
+   * @param deletedAt - The deletion time shared by all records deleted together
+   * @param deletedBy - Optional id of the user deleting the records
+   * @param options - Optional options for transaction support
+   * @returns The number of records moved to the trash
+   */
+  async markAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    deletedBy?: string,
+    options?: Options,
+  ): Promise<Count> {
+    const result = await this.getNativeCollection().updateMany(
+      { ...query, _deletedDateTime: null },
+      {
+        $set: {
+          _deletedDateTime: deletedAt,
+          ...(deletedBy ? { _deletedBy: deletedBy } : {}),
+        },
+      },
+      { session: options?.session },
+    );
+
+    return { count: result.modifiedCount };
+  }
+
+  /**
+   * Takes the records matching the given MongoDB query out of the trash.
+   * Only the records deleted at the given time are restored, so that records
+   * deleted on their own before stay in the trash.
+   *
+   * @param query - Native MongoDB query selecting the records
+   * @param deletedAt - The deletion time of the records to restore
+   * @param options - Optional options for transaction support
+   * @returns The number of records taken out of the trash
+   */
+  async unmarkAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<Count> {
+    const result = await this.getNativeCollection().updateMany(
+      { ...query, _deletedDateTime: deletedAt },
+      { $unset: { _deletedDateTime: '', _deletedBy: '' } },
+      { session: options?.session },
+    );
+
+    return { count: result.modifiedCount };
+  }
+
+  /**
+   * Writes the update operators of a request to the given records with the
+   * native operators, and recomputes the count fields of the arrays they
+   * modify from the values after the update, in the same transaction.
+   *
+   * @param ids - IDs of the records to update
+   * @param nativeUpdate - The native update built from the update operators
+   * @param options - Optional options for transaction support
+   */
+  protected async applyNativeUpdate(
+    ids: string[],
+    nativeUpdate: NativeUpdate,
+    options?: Options,
+  ): Promise<void> {
+    const collection = this.getNativeCollection();
+    const query = { _id: { $in: ids } };
+
+    await collection.updateMany(query, nativeUpdate.update, {
+      session: options?.session,
+    });
+
+    const counts: AnyObject = {};
+
+    for (const field of nativeUpdate.fields) {
+      if (STRICTLY_INTERNAL_FIELDS.includes(`${field}Count`)) {
+        counts[`${field}Count`] = { $size: { $ifNull: [`$${field}`, []] } };
+      }
+    }
+
+    if (Object.keys(counts).length > 0) {
+      await collection.updateMany(query, [{ $set: counts }], {
+        session: options?.session,
+      });
+    }
+  }
+
+  /**
+   * Reads the records matching the given MongoDB query with the native driver,
+   * including the records in the trash.
+   *
+   * @param query - Native MongoDB query selecting the records
+   * @param options - Optional options for transaction support
+   * @returns The matching records as plain objects
+   */
+  protected async findNativeRecords(
+    query: AnyObject,
+    options?: Options,
+  ): Promise<AnyObject[]> {
+    return this.getNativeCollection()
+      .find(query, { session: options?.session })
+      .toArray();
+  }
+
+  /**
+   * Returns the native MongoDB collection of the model of this repository.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  protected getNativeCollection(): any {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const collection = (this.dataSource.connector as any)?.collection(
+      this.entityClass.modelName,
+    );
+
+    if (!collection) {
+      throw new Error('Required MongoDB collection not found');
+    }
+
+    return collection;
+  }
+}
+
+/**
+ * Converts the fields of a filter to a MongoDB projection. The id is always
+ * projected, as iterations are resumed from it.
+ */
+function buildProjection(fields?: Filter['fields']): AnyObject | undefined {
+  if (!fields) {
+    return undefined;
+  }
+
+  const entries: [string, boolean][] = Array.isArray(fields)
+    ? fields.map((field) => [field, true])
+    : Object.entries(fields).map(([field, value]) => [field, !!value]);
+
+  // Inclusions and exclusions cannot be mixed, inclusions take precedence
+  const included = entries.filter(([, value]) => value).map(([f]) => f);
+
+  if (included.length > 0) {
+    return _.fromPairs([...included, '_id'].map((field) => [field, 1]));
+  }
+
+  const excluded = entries.map(([field]) => field).filter((f) => f !== '_id');
+
+  return excluded.length > 0
+    ? _.fromPairs(excluded.map((field) => [field, 0]))
+    : undefined;
+}
+
+/**
+ * Builds the materialized path of a record from the URIs of its parents and
+ * their own materialized paths. A parent whose path is unknown counts as a
+ * root.
+ */
+function mergeMaterializedPaths(
+  parentUris: string[],
+  parentPaths: Partial<MaterializedPath>[],
+): MaterializedPath {
+  if (parentUris.length === 0) {
+    return { _ancestors: [], _depth: 0 };
+  }
+
+  return {
+    _ancestors: _.uniq([
+      ...parentUris,
+      ...parentPaths.flatMap((path) => path._ancestors ?? []),
+    ]),
+    _depth: 1 + (_.max(parentPaths.map((path) => path._depth ?? 0)) ?? 0),
+  };
 }
@@ -1,8 +1,11 @@
+import type { Getter } from '@loopback/core';
 import type {
+  AnyObject,
   DataObject,
   Entity,
   Filter,
   FilterExcludingWhere,
+  InclusionResolver,
   Options,
   Where,
   Count,
@@ -11,18 +14,55 @@ import type {
 import * as crypto from 'crypto';
 import _ from 'lodash';
 import slugify from 'slugify';
+import type { HierarchyDirection } from './entity-persistence-base.repository';
 import { EntityPersistenceBaseRepository } from './entity-persistence-base.repository';
 import type { IdempotencyConfigurationReader } from '../../extensions/config-helpers/idempotency-config-helper';
 import type { KindConfigurationReader } from '../../extensions/config-helpers/kind-config-helper';
 import type { ResponseLimitConfigurationReader } from '../../extensions/config-helpers/response-limit-config-helper';
+import type { SoftDeleteConfigurationReader } from '../../extensions/config-helpers/soft-delete-config-helper';
 import type { ValidfromConfigurationReader } from '../../extensions/config-helpers/validfrom-config-helper';
 import type { VisibilityConfigurationReader } from '../../extensions/config-helpers/visibility-config-helper';
 import type { LookupHelper } from '../../extensions/utils/lookup-helper';
-import type { ListEntityCommonBase } from '../../models';
+import { extendOptions } from '../../extensions/utils/options-helper';
+import {
+  applyUpdateOperators,
+  buildNativeUpdate,
+  rejectUpdateOperators,
+} from '../../extensions/utils/update-operators-helper';
+import type { NativeUpdate } from '../../extensions/utils/update-operators-helper';
+import type { ListEntityCommonBase, RecordRevision } from '../../models';
 import { HttpErrorResponse } from '../../models';
+import type { ReactionStats } from '../../models/base-types/reaction-stats.type';
+import type { AuditLogService } from '../../services/audit-log.service';
+import type { ChangeFeedService } from '../../services/change-feed.service';
 import type { LoggingService } from '../../services/logging.service';
 import type { LookupConstraintService } from '../../services/lookup-constraint.service';
 import type { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
+import type {
+  RevisionHistoryService,
+  RevisionOperation,
+} from '../../services/revision-history.service';
+
+// Number of records whose reaction counters are rebuilt together
+const REACTION_COUNTS_BATCH_SIZE = 500;
+
+// Number of records purged from the trash together
+const PURGE_BATCH_SIZE = 500;
+
+/**
+ * The part of a reactions repository the reaction stats and counters need.
+ */
+export interface ReactionStatsRepository {
+  findReactionStats(
+    sourceIds: string[],
+    where?: Where,
+    options?: Options,
+  ): Promise<Map<string, ReactionStats>>;
+  refreshReactionCounts(
+    sourceIds: (string | undefined)[],
+    options?: Options,
+  ): Promise<void>;
+}
 
 /**
  * EntityPersistenceBusinessRepository - Specialized Base for Business Entities
@@ -38,6 +78,12 @@ import type { RecordLimitCheckerService } from '../../services/record-limit-chec
  * - Lookup processing for related entities
  * - Kind format and value validation
  * - Uniqueness checking for create and update operations
+ * - Revision history recording and retrieval
+ * - Recording changes to the change feed outbox
+ * - Recording changes to the audit log
+ * - Soft delete, restore and purge of records in the trash
+ * - Reaction statistics included through the `_reactionStats` relation
+ * - Rebuilding the reaction counters of the records
  *
  * ## Architecture:
  * This is Level 2 of a three-tier repository hierarchy:
@@ -126,6 +172,30 @@ export abstract class EntityPersistenceBusinessRepository<
    */
   protected abstract readonly responseLimitConfigReader: ResponseLimitConfigurationReader;
 
+  /**
+   * RevisionHistoryService for keeping record snapshots.
+   * Must be injected by subclasses.
+   */
+  protected abstract readonly revisionHistoryService: RevisionHistoryService;
+
+  /**
+   * SoftDeleteConfigurationReader for soft delete settings.
+   * Must be injected by subclasses.
+   */
+  protected abstract readonly softDeleteConfigReader: SoftDeleteConfigurationReader;
+
+  /**
+   * ChangeFeedService for appending change events to the outbox.
+   * Must be injected by subclasses.
+   */
+  protected abstract readonly changeFeedService: ChangeFeedService;
+
+  /**
+   * AuditLogService for appending entries to the audit log.
+   * Must be injected by subclasses.
+   */
+  protected abstract readonly auditLogService: AuditLogService;
+
   constructor(
     entityClass: typeof Entity & { prototype: E },
     dataSource: juggler.DataSource,
@@ -177,6 +247,41 @@ export abstract class EntityPersistenceBusinessRepository<
    */
   protected abstract getAllowedKinds(): string[];
 
+  /**
+   * Returns whether records of the given kind are moved to the trash on delete.
+   * Subclasses override to use their specific config reader method.
+   */
+  protected abstract isSoftDeleteEnabled(kind?: string): boolean;
+
+  /**
+   * Moves the relations and reactions of the given records to the trash,
+   * stamping them with the same deletion time as the records.
+   * Subclasses override to cascade to their specific related records.
+   */
+  protected abstract softDeleteDependants(
+    ids: string[],
+    deletedAt: Date,
+    deletedBy: string | undefined,
+    options?: Options,
+  ): Promise<void>;
+
+  /**
+   * Takes the relations and reactions that were moved to the trash together
+   * with the given record out of the trash.
+   * Subclasses override to cascade to their specific related records.
+   */
+  protected abstract restoreDependants(
+    id: string,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<void>;
+
+  /**
+   * Returns the repository of the reactions posted to the records.
+   * Subclasses override to return their specific reactions repository.
+   */
+  protected abstract getReactionsRepository(): Promise<ReactionStatsRepository>;
+
   // STANDARD CRUD OPERATIONS
 
   /**
@@ -195,6 +300,12 @@ export abstract class EntityPersistenceBusinessRepository<
         limit: Math.min(limit, this.getResponseLimit()),
       };
 
+      // Leave soft deleted records out unless they are explicitly queried
+      const where = this.whereExcludingDeleted(filter.where);
+      if (where) {
+        filter.where = where;
+      }
+
       // Ensure _kind is always included
       filter = this.forceKindInclusion(filter);
 
@@ -230,6 +341,8 @@ export abstract class EntityPersistenceBusinessRepository<
     filter?: FilterExcludingWhere<E>,
     options?: Options,
   ): Promise<E & Relations> {
+    await this.checkNotDeleted(id, options);
+
     try {
       // Ensure _kind is always included (cast to Filter for the helper)
       const forcedFilter = this.forceKindInclusion(filter as Filter<E>);
@@ -268,8 +381,13 @@ export abstract class EntityPersistenceBusinessRepository<
    * Creates a new record with idempotency and validation.
    */
   async create(data: DataObject<E>, options?: Options): Promise<E> {
+    data = this.omitManagedFields(data);
+
     const idempotencyKey = this.calculateIdempotencyKey(data);
-    const foundIdempotent = await this.findIdempotentRecord(idempotencyKey);
+    const foundIdempotent = await this.findIdempotentRecord(
+      idempotencyKey,
+      options,
+    );
 
     if (foundIdempotent) {
       this.loggingService.info(
@@ -300,7 +418,11 @@ export abstract class EntityPersistenceBusinessRepository<
     data: DataObject<E>,
     options?: Options,
   ): Promise<void> {
-    const collection = await this.modifyDataForUpdates(String(id), data);
+    const collection = await this.modifyDataForUpdates(
+      String(id),
+      data,
+      options,
+    );
 
     // Calculate idempotencyKey and assign it if present
     const idempotencyKey = this.calculateIdempotencyKey(collection.data);
@@ -314,8 +436,52 @@ export abstract class EntityPersistenceBusinessRepository<
       collection.data,
       options,
     );
+    await this.setMaterializedPath(validEnrichedData, options);
+
+    const result = await super.replaceById(id, validEnrichedData, options);
+
+    if (
+      this.isMaterializedPathChanged(collection.existingData, validEnrichedData)
+    ) {
+      await this.propagateMaterializedPaths(
+        [String(id)],
+        this.buildParentUri(''),
+        options,
+      );
+    }
+
+    await this.recordUpdateRevision(
+      id,
+      'replace',
+      collection.existingData._kind,
+      options,
+    );
+    await this.changeFeedService.recordChange(
+      this.recordTypeName,
+      'replace',
+      { ...validEnrichedData, _id: id, _kind: collection.existingData._kind },
+      this.changeFeedService.getChangedFields(
+        collection.existingData,
+        validEnrichedData,
+        'replace',
+      ),
+      options,
+    );
+    await this.auditLogService.recordChange(
+      this.recordTypeName,
+      'replace',
+      {
+        before: collection.existingData,
+        after: {
+          ...validEnrichedData,
+          _id: id,
+          _kind: collection.existingData._kind,
+        },
+      },
+      options,
+    );
 
-    return super.replaceById(id, validEnrichedData, options);
+    return result;
   }
 
   /**
@@ -326,7 +492,11 @@ export abstract class EntityPersistenceBusinessRepository<
     data: DataObject<E>,
     options?: Options,
   ): Promise<void> {
-    const collection = await this.modifyDataForUpdates(String(id), data);
+    const collection = await this.modifyDataForUpdates(
+      String(id),
+      data,
+      options,
+    );
 
     // Merge incoming data with existing data to ensure completeness
     const mergedData = _.defaults({}, collection.data, collection.existingData);
@@ -347,23 +517,51 @@ export abstract class EntityPersistenceBusinessRepository<
       options,
     );
 
-    return super.updateById(id, validEnrichedData, options);
+    // The fields modified by update operators are written with the native
+    // operators by updateAll, which keeps the managed fields set here
+    const result = await super.updateById(
+      id,
+      validEnrichedData,
+      extendOptions(options, {
+        nativeUpdate: collection.nativeUpdate,
+        managedFieldsSet: true,
+      }),
+    );
+
+    await this.recordUpdateRevision(
+      id,
+      'update',
+      collection.existingData._kind,
+      options,
+    );
+
+    return result;
   }
 
   /**
    * Updates all matching records with immutability checks.
+   * Appends an update event for each record to the change feed. Single record
+   * updates also go through this method, as updateById delegates to it, and
+   * keep the version and idempotency key set by updateById. The other fields
+   * managed by the service are left out of the data.
    */
   async updateAll(
     data: DataObject<E>,
     where?: Where<E>,
     options?: Options,
   ): Promise<Count> {
+    data = options?.managedFieldsSet
+      ? this.omitManagedFields(data, '_version', '_idempotencyKey')
+      : this.omitManagedFields(data);
+
     // Check if user is trying to change the _kind field, which is immutable
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     if ((data as any)._kind !== undefined) {
       throw this.createImmutableKindError();
     }
 
+    rejectUpdateOperators(data);
+
     const now = new Date().toISOString();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     (data as any)._lastUpdatedDateTime = now;
@@ -380,7 +578,114 @@ export abstract class EntityPersistenceBusinessRepository<
       },
     );
 
-    return super.updateAll(data, where, options);
+    where = this.whereExcludingDeleted(where);
+
+    // Read the records before the update, as it may change which records match
+    const records = await super.find({ where }, options);
+
+    await this.checkHierarchyCycle(
+      records.map((record) => record._id),
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (data as any)._parents,
+      options,
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const parentsChanged = (data as any)._parents !== undefined;
+
+    if (parentsChanged) {
+      await this.setMaterializedPath(data, options);
+    }
+
+    // Fields modified by update operators are left to the native update
+    const nativeUpdate: NativeUpdate | undefined = options?.nativeUpdate;
+    const result = await super.updateAll(
+      nativeUpdate ? _.omit(data, nativeUpdate.fields) : data,
+      where,
+      options,
+    );
+
+    if (nativeUpdate) {
+      await this.applyNativeUpdate(
+        records.map((record) => record._id),
+        nativeUpdate,
+        options,
+      );
+    }
+
+    if (parentsChanged) {
+      await this.propagateMaterializedPaths(
+        records
+          .filter((record) => this.isMaterializedPathChanged(record, data))
+          .map((record) => record._id),
+        this.buildParentUri(''),
+        options,
+      );
+    }
+
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'update',
+      records.map((record) => ({ ...record.toJSON(), ...data })),
+      this.changeFeedService.getChangedFields(undefined, data, 'update'),
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'update',
+      records.map((record) => ({
+        before: record,
+        after: { ...record.toJSON(), ...data },
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  /**
+   * Counts matching records, leaving soft deleted records out unless they are
+   * explicitly queried.
+   */
+  async count(where?: Where<E>, options?: Options): Promise<Count> {
+    return super.count(this.whereExcludingDeleted(where), options);
+  }
+
+  /**
+   * Returns the ids of all matching records, leaving soft deleted records out
+   * unless they are explicitly queried. Unlike find, the result is not capped
+   * by the response limit.
+   */
+  async findIds(where?: Where<E>, options?: Options): Promise<string[]> {
+    const records = await super.find(
+      {
+        where: this.whereExcludingDeleted(where),
+        fields: { _id: true },
+      } as Filter<E>,
+      options,
+    );
+
+    return records.map((record) => record._id);
+  }
+
+  /**
+   * Deletes a record by ID, keeping its last state in the revision history.
+   */
+  async deleteById(id: IdType, options?: Options): Promise<void> {
+    await this.recordDeletions({ _id: id } as Where<E>, options);
+
+    return super.deleteById(id, options);
+  }
+
+  /**
+   * Deletes all matching records, keeping their last states in the revision history.
+   */
+  async deleteAll(where?: Where<E>, options?: Options): Promise<Count> {
+    where = this.whereExcludingDeleted(where);
+
+    await this.recordDeletions(where, options);
+
+    return super.deleteAll(where, options);
   }
 
   // LIFECYCLE FACADES
@@ -398,8 +703,29 @@ export abstract class EntityPersistenceBusinessRepository<
       enrichedData,
       options,
     );
+    await this.setMaterializedPath(validEnrichedData, options);
     const created = await super.create(validEnrichedData, options);
 
+    await this.revisionHistoryService.recordRevision(
+      this.recordTypeName,
+      'create',
+      created,
+      options,
+    );
+    await this.changeFeedService.recordChange(
+      this.recordTypeName,
+      'create',
+      created,
+      this.changeFeedService.getChangedFields(undefined, created, 'create'),
+      options,
+    );
+    await this.auditLogService.recordChange(
+      this.recordTypeName,
+      'create',
+      { after: created },
+      options,
+    );
+
     return this.injectRecordType(created);
   }
 
@@ -447,6 +773,9 @@ export abstract class EntityPersistenceBusinessRepository<
     // Set owners count to make searching easier
     this.setCountFields(data);
 
+    // Reaction counters are maintained by the reactions repository
+    businessData._reactionCounts = {};
+
     return data;
   }
 
@@ -476,6 +805,13 @@ export abstract class EntityPersistenceBusinessRepository<
         this.entityClass as any,
         options,
       ),
+      this.checkHierarchyCycle(
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        [(data as any)._id],
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (data as any)._parents,
+        options,
+      ),
     ]);
 
     return data;
@@ -489,9 +825,15 @@ export abstract class EntityPersistenceBusinessRepository<
     id: string,
     data: DataObject<E>,
     options?: Options,
-  ): Promise<{ data: DataObject<E>; existingData: E }> {
-    // Strip virtual fields before persisting
-    data = this.sanitizeRecordType(data);
+  ): Promise<{
+    data: DataObject<E>;
+    existingData: E;
+    nativeUpdate?: NativeUpdate;
+  }> {
+    // Work on a copy, as the data may be the request body, which is passed
+    // again when the transaction is retried. The version is kept, as it is the
+    // version the client based the update on
+    data = this.sanitizeRecordType(this.omitManagedFields(data, '_version'));
 
     const existingData = await this.findById(id as IdType, undefined, options);
 
@@ -499,6 +841,12 @@ export abstract class EntityPersistenceBusinessRepository<
       throw this.createNotFoundError(id);
     }
 
+    // Resolve update operators against the current state of the record, so
+    // that counts, uniqueness and limits are computed from the result
+    const resolvedData = applyUpdateOperators(existingData, data);
+    const nativeUpdate = buildNativeUpdate(existingData, data);
+    data = resolvedData as DataObject<E>;
+
     const now = new Date().toISOString();
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -506,6 +854,19 @@ export abstract class EntityPersistenceBusinessRepository<
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const existingBusinessData = existingData as any;
 
+    // Reject the update if the client based it on a stale version
+    const expectedVersion = businessData._version;
+    if (
+      expectedVersion !== undefined &&
+      Number(expectedVersion) !== (existingBusinessData._version ?? 1)
+    ) {
+      throw this.createVersionMismatchError(
+        id,
+        expectedVersion,
+        existingBusinessData._version ?? 1,
+      );
+    }
+
     // Set new version
     businessData._version = (existingBusinessData._version ?? 1) + 1;
 
@@ -516,9 +877,18 @@ export abstract class EntityPersistenceBusinessRepository<
     this.generateSlug(data);
     this.setCountFields(data);
 
+    // Reaction counters are maintained by the reactions repository, keep them
+    // as they are on replace
+    if (existingBusinessData._reactionCounts === undefined) {
+      delete businessData._reactionCounts;
+    } else {
+      businessData._reactionCounts = existingBusinessData._reactionCounts;
+    }
+
     return {
       data,
       existingData,
+      nativeUpdate,
     };
   }
 
@@ -531,7 +901,11 @@ export abstract class EntityPersistenceBusinessRepository<
     data: DataObject<E>,
     options?: Options,
   ): Promise<DataObject<E>> {
-    const existingRecord = await this.findById(id as IdType);
+    const existingRecord = await this.findById(
+      id as IdType,
+      undefined,
+      options,
+    );
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const dataKind = (data as any)._kind;
@@ -564,6 +938,12 @@ export abstract class EntityPersistenceBusinessRepository<
         this.entityClass as any,
         options,
       ),
+      this.checkHierarchyCycle(
+        [id],
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        (data as any)._parents,
+        options,
+      ),
     ]);
 
     return data;
@@ -835,22 +1215,27 @@ export abstract class EntityPersistenceBusinessRepository<
    * Searches for an existing record with the same idempotency key.
    *
    * @param idempotencyKey - The idempotency key to search for
+   * @param options - Optional options for transaction support
    * @returns The existing record if found, null otherwise
    */
   protected async findIdempotentRecord(
     idempotencyKey: string | undefined,
+    options?: Options,
   ): Promise<E | null> {
     if (_.isString(idempotencyKey) && !_.isEmpty(idempotencyKey)) {
-      const sameRecord = await this.findOne({
-        where: {
-          and: [
-            {
-              _idempotencyKey: idempotencyKey,
-            },
-          ],
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        } as any,
-      });
+      const sameRecord = await this.findOne(
+        {
+          where: this.whereExcludingDeleted({
+            and: [
+              {
+                _idempotencyKey: idempotencyKey,
+              },
+            ],
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          } as any),
+        },
+        options,
+      );
 
       return sameRecord;
     }
@@ -930,7 +1315,8 @@ export abstract class EntityPersistenceBusinessRepository<
     existingData?: E,
     options?: Options,
   ): Promise<void> {
-    const existing = existingData ?? (await this.findById(id));
+    const existing =
+      existingData ?? (await this.findById(id, undefined, options));
     const mergedData = _.assign(
       {},
       existing && _.pickBy(existing, (value) => value !== null),
@@ -944,100 +1330,864 @@ export abstract class EntityPersistenceBusinessRepository<
     );
   }
 
-  // ERROR HELPERS
+  // REACTION STATS
 
   /**
-   * Creates a standardized not found error for this entity type.
+   * Creates the inclusion resolver of the `_reactionStats` virtual relation.
+   * The stats of all records are computed in a single aggregation on their
+   * reactions. Only the reactions matching the scope of the inclusion are
+   * aggregated, e.g. the active ones with `set[actives]=true`.
    *
-   * @param id - The ID that was not found
-   * @returns HttpErrorResponse with appropriate status and message
+   * @param reactionsRepositoryGetter - Getter of the reactions repository
+   * @returns The inclusion resolver
    */
-  protected createNotFoundError(id: string): HttpErrorResponse {
-    return new HttpErrorResponse({
-      statusCode: 404,
-      name: 'NotFoundError',
-      message: `${this.entityTypeName} with id '${id}' could not be found.`,
-      code: `${this.errorCodePrefix}-NOT-FOUND`,
-    });
+  protected createReactionStatsInclusionResolver(
+    reactionsRepositoryGetter: Getter<ReactionStatsRepository>,
+  ): InclusionResolver<E, Entity> {
+    return async (records, inclusion, options) => {
+      const reactionsRepo = await reactionsRepositoryGetter();
+      const scope = typeof inclusion === 'object' ? inclusion.scope : undefined;
+
+      const statsById = await reactionsRepo.findReactionStats(
+        records.map((record) => record._id),
+        scope?.where,
+        options,
+      );
+
+      // Stats are plain objects rather than related model instances
+      return records.map((record) =>
+        statsById.get(record._id),
+      ) as unknown as Entity[];
+    };
   }
 
   /**
-   * Creates a standardized immutable kind error for this entity type.
+   * Recomputes the reaction counters of all records from their reactions, e.g.
+   * after reactions were written to the database directly. Records are
+   * processed in batches, each batch in a single aggregation and in a
+   * transaction of its own, so that rebuilding a large collection does not
+   * run in a single long transaction. Batches already processed stay
+   * committed if a later batch fails.
    *
-   * @param currentKind - The current kind value (optional)
-   * @returns HttpErrorResponse with appropriate status and message
+   * @returns The number of records whose counters were recomputed
    */
-  protected createImmutableKindError(currentKind?: string): HttpErrorResponse {
-    const message = currentKind
-      ? `${this.entityTypeName} kind cannot be changed after creation. Current kind is '${currentKind}'.`
-      : `${this.entityTypeName} kind cannot be changed after creation.`;
+  async rebuildReactionCounts(): Promise<Count> {
+    const reactionsRepo = await this.getReactionsRepository();
+    let count = 0;
+    let ids: string[] = [];
 
-    return new HttpErrorResponse({
-      statusCode: 422,
-      name: 'ImmutableKindError',
-      message,
-      code: `IMMUTABLE-${this.errorCodePrefix}-KIND`,
-    });
-  }
+    this.loggingService.info(
+      `${this.entityTypeName}Repository.rebuildReactionCounts - Rebuilding reaction counters`,
+    );
 
-  /**
-   * Creates a standardized invalid kind format error.
-   *
-   * @param suggestedKind - The suggested valid format for the kind
-   * @returns HttpErrorResponse with appropriate status and message
-   */
-  protected createInvalidKindFormatError(
-    suggestedKind: string,
-  ): HttpErrorResponse {
-    return new HttpErrorResponse({
-      statusCode: 422,
-      name: 'InvalidKindError',
-      message: `${this.entityTypeName} kind cannot contain special or uppercase characters. Use '${suggestedKind}' instead.`,
-      code: `INVALID-${this.errorCodePrefix}-KIND`,
-    });
+    for await (const record of this.iterate({
+      fields: { _id: true },
+    } as Filter<E>)) {
+      ids.push(record._id);
+
+      if (ids.length === REACTION_COUNTS_BATCH_SIZE) {
+        await this.runInTransaction((options) =>
+          reactionsRepo.refreshReactionCounts(ids, options),
+        );
+        count += ids.length;
+        ids = [];
+      }
+    }
+
+    if (ids.length > 0) {
+      await this.runInTransaction((options) =>
+        reactionsRepo.refreshReactionCounts(ids, options),
+      );
+      count += ids.length;
+    }
+
+    return { count };
   }
 
   /**
-   * Creates a standardized invalid kind value error.
-   *
-   * @param invalidKind - The invalid kind value provided
-   * @param validValues - Array of valid kind values
-   * @returns HttpErrorResponse with appropriate status and message
+   * Runs the given function in a transaction of its own, which is committed
+   * once the function succeeds and rolled back otherwise.
    */
-  protected createInvalidKindValueError(
-    invalidKind: string,
-    validValues: string[],
-  ): HttpErrorResponse {
-    return new HttpErrorResponse({
-      statusCode: 422,
-      name: 'InvalidKindError',
-      message: `${this.entityTypeName} kind '${invalidKind}' is not valid. Use any of these values instead: ${validValues.join(', ')}`,
-      code: `INVALID-${this.errorCodePrefix}-KIND`,
+  private async runInTransaction<T>(
+    fn: (options: Options) => Promise<T>,
+  ): Promise<T> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const client = (this.dataSource.connector as any).client;
+    const session = client.startSession();
+
+    // Keep the session out of the logs, as it cannot be serialized
+    const options = {};
+    Object.defineProperty(options, 'session', {
+      value: session,
+      enumerable: false,
     });
-  }
 
-  /**
-   * Constructs a parent URI for hierarchical relationships.
-   *
-   * @param parentId - The ID of the parent record
-   * @returns The full URI string for the parent reference
-   */
-  protected buildParentUri(parentId: string): string {
-    return `tapp://localhost/${this.uriPathSegment}/${parentId}`;
+    try {
+      session.startTransaction();
+
+      let result: T;
+      try {
+        result = await fn(options);
+      } catch (error) {
+        await session.abortTransaction();
+
+        throw error;
+      }
+
+      await session.commitTransaction();
+
+      return result;
+    } finally {
+      await session.endSession();
+    }
   }
 
-  // HIERARCHICAL RELATIONSHIPS
+  // REVISION HISTORY
 
   /**
-   * Finds all parent records of a given record.
-   * Extracts parent IDs from the _parents URI array and fetches the corresponding records.
+   * Finds the revisions of a record, ordered by version by default.
+   * Revisions of deleted records can still be retrieved.
    *
-   * @param id - The ID of the record whose parents to find
-   * @param filter - Optional filter to apply to the parent query
+   * @param id - The ID of the record whose revisions to find
+   * @param filter - Optional filter to apply to the revisions
    * @param options - Optional options for transaction support
-   * @returns Array of parent records with their relations
    */
-  async findParents(
+  async findRevisions(
+    id: string,
+    filter?: Filter<RecordRevision>,
+    options?: Options,
+  ): Promise<RecordRevision[]> {
+    const limit = filter?.limit ?? this.getResponseLimit();
+
+    return this.revisionHistoryService.findRevisions(
+      this.recordTypeName,
+      id,
+      {
+        ...filter,
+        limit: Math.min(limit, this.getResponseLimit()),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Finds a single revision of a record by its version.
+   *
+   * @param id - The ID of the record
+   * @param version - The version of the record to retrieve
+   * @param options - Optional options for transaction support
+   */
+  async findRevisionByVersion(
+    id: string,
+    version: number,
+    options?: Options,
+  ): Promise<RecordRevision> {
+    const revision = await this.revisionHistoryService.findRevision(
+      this.recordTypeName,
+      id,
+      version,
+      options,
+    );
+
+    if (!revision) {
+      throw this.createRevisionNotFoundError(id, version);
+    }
+
+    return revision;
+  }
+
+  /**
+   * Restores a record to the state kept in one of its revisions.
+   * The snapshot goes through the regular replace path, so kind immutability,
+   * uniqueness, record limits and lookup constraints are all checked and the
+   * record gets a new version.
+   *
+   * @param id - The ID of the record to restore
+   * @param version - The version of the revision to restore
+   * @param expectedVersion - Optional current version for optimistic concurrency
+   * @param options - Optional options for transaction support
+   * @returns The restored record
+   */
+  async restoreRevision(
+    id: string,
+    version: number,
+    expectedVersion?: number,
+    options?: Options,
+  ): Promise<E> {
+    const revision = await this.findRevisionByVersion(id, version, options);
+    const data = this.revisionHistoryService.toRestoreData(revision);
+
+    if (expectedVersion !== undefined) {
+      data._version = expectedVersion;
+    }
+
+    await this.replaceById(id as IdType, data as DataObject<E>, options);
+
+    return this.findById(id as IdType, undefined, options);
+  }
+
+  /**
+   * Keeps the state of a record after an update or replace operation,
+   * if history is enabled for its kind.
+   */
+  protected async recordUpdateRevision(
+    id: IdType,
+    operation: RevisionOperation,
+    kind: string | undefined,
+    options?: Options,
+  ): Promise<void> {
+    if (
+      !this.revisionHistoryService.isHistoryEnabled(this.recordTypeName, kind)
+    ) {
+      return;
+    }
+
+    const record = await super.findById(id, undefined, options);
+
+    await this.revisionHistoryService.recordRevision(
+      this.recordTypeName,
+      operation,
+      record,
+      options,
+    );
+  }
+
+  /**
+   * Keeps the last state of the records that are about to be deleted in the
+   * revision history, and appends their deletion to the change feed and to
+   * the audit log.
+   */
+  protected async recordDeletions(
+    where: Where<E> | undefined,
+    options?: Options,
+  ): Promise<void> {
+    const records = await super.find({ where }, options);
+
+    await this.revisionHistoryService.recordRevisions(
+      this.recordTypeName,
+      'delete',
+      records,
+      options,
+    );
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      records,
+      [],
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      records.map((record) => ({
+        before: record,
+        actor: options?.deletedBy,
+      })),
+      options,
+    );
+  }
+
+  // SOFT DELETE
+
+  /**
+   * Moves the record to the trash if soft delete is enabled for its kind.
+   * The user deleting the record is read from the `deletedBy` option.
+   *
+   * @param id - The ID of the record to delete
+   * @param options - Optional options for transaction support
+   * @returns false if the record must be deleted permanently instead
+   */
+  protected async softDeleteByIdIfEnabled(
+    id: IdType,
+    options?: Options,
+  ): Promise<boolean> {
+    if (!this.isSoftDeleteInUse()) {
+      return false;
+    }
+
+    const record = await this.findById(id, undefined, options);
+
+    if (!this.isSoftDeleteEnabled(record._kind)) {
+      return false;
+    }
+
+    await this.softDeleteRecords([String(id)], options);
+
+    return true;
+  }
+
+  /**
+   * Moves the matching records to the trash if soft delete is enabled for
+   * their kinds. Records of other kinds are left to be deleted permanently.
+   *
+   * @param where - The where clause selecting the records to delete
+   * @param options - Optional options for transaction support
+   * @returns The number of records moved to the trash
+   */
+  protected async softDeleteAllIfEnabled(
+    where: Where<E> | undefined,
+    options?: Options,
+  ): Promise<number> {
+    if (!this.isSoftDeleteInUse()) {
+      return 0;
+    }
+
+    const notDeleted = { _deletedDateTime: null };
+    const records = await super.find(
+      {
+        where: where ? { and: [where, notDeleted] } : notDeleted,
+        fields: ['_id', '_kind'],
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      } as any,
+      options,
+    );
+
+    const ids = records
+      .filter((record) => this.isSoftDeleteEnabled(record._kind))
+      .map((record) => record._id);
+
+    if (ids.length > 0) {
+      await this.softDeleteRecords(ids, options);
+    }
+
+    return ids.length;
+  }
+
+  /**
+   * Stamps the given records and their relations and reactions with the same
+   * deletion time, so that they can be restored together.
+   */
+  protected async softDeleteRecords(
+    ids: string[],
+    options?: Options,
+  ): Promise<void> {
+    const deletedAt = new Date();
+    const deletedBy = options?.deletedBy as string | undefined;
+
+    await this.markAsDeleted(
+      { _id: { $in: ids } },
+      deletedAt,
+      deletedBy,
+      options,
+    );
+    await this.softDeleteDependants(ids, deletedAt, deletedBy, options);
+  }
+
+  /**
+   * Takes a soft deleted record out of the trash, together with the relations
+   * and reactions that were moved to the trash with it. Uniqueness and record
+   * limits are checked again, as other records may have been created meanwhile.
+   *
+   * @param id - The ID of the record to restore
+   * @param options - Optional options for transaction support
+   * @returns The restored record
+   */
+  async restoreDeletedById(
+    id: IdType,
+    options?: Options,
+  ): Promise<E & Relations> {
+    let record: E;
+    try {
+      record = await super.findById(id, undefined, options);
+    } catch (error) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      if ((error as any).code === 'ENTITY_NOT_FOUND') {
+        throw this.createNotFoundError(String(id));
+      }
+
+      throw error;
+    }
+
+    if (!record._deletedDateTime) {
+      throw this.createNotDeletedError(String(id));
+    }
+
+    await this.checkUniquenessForUpdate(
+      this.entityClass,
+      id,
+      {},
+      record,
+      options,
+    );
+    await this.recordLimitChecker.checkLimits(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this.entityClass as any,
+      record,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      this as any,
+      options,
+    );
+
+    const deletedAt = new Date(record._deletedDateTime);
+
+    await this.unmarkAsDeleted({ _id: id }, deletedAt, options);
+    await this.restoreDependants(String(id), deletedAt, options);
+
+    return this.findById(id, undefined, options);
+  }
+
+  /**
+   * Moves the matching records to the trash and appends their deletion to the
+   * change feed and to the audit log.
+   *
+   * @param query - Native MongoDB query selecting the records
+   * @param deletedAt - The deletion time shared by all records deleted together
+   * @param deletedBy - Optional id of the user deleting the records
+   * @param options - Optional options for transaction support
+   * @returns The number of records moved to the trash
+   */
+  async markAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    deletedBy?: string,
+    options?: Options,
+  ): Promise<Count> {
+    const records = await this.findNativeRecords(
+      { ...query, _deletedDateTime: null },
+      options,
+    );
+
+    const result = await super.markAsDeleted(
+      query,
+      deletedAt,
+      deletedBy,
+      options,
+    );
+
+    // The user deleting the records is the actor of the change
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      records.map((record) => ({
+        ...record,
+        _deletedDateTime: deletedAt,
+        _deletedBy: deletedBy,
+        _lastUpdatedBy: deletedBy ?? record._lastUpdatedBy,
+      })),
+      ['_deletedDateTime', '_deletedBy'],
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      records.map((record) => ({
+        before: record,
+        after: {
+          ...record,
+          _deletedDateTime: deletedAt,
+          _deletedBy: deletedBy,
+        },
+        actor: deletedBy,
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  /**
+   * Takes the matching records out of the trash and appends their update to
+   * the change feed and to the audit log.
+   *
+   * @param query - Native MongoDB query selecting the records
+   * @param deletedAt - The deletion time of the records to restore
+   * @param options - Optional options for transaction support
+   * @returns The number of records taken out of the trash
+   */
+  async unmarkAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<Count> {
+    const records = await this.findNativeRecords(
+      { ...query, _deletedDateTime: deletedAt },
+      options,
+    );
+
+    const result = await super.unmarkAsDeleted(query, deletedAt, options);
+
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'update',
+      records.map((record) =>
+        _.omit(record, ['_deletedDateTime', '_deletedBy']),
+      ),
+      ['_deletedDateTime', '_deletedBy'],
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'update',
+      records.map((record) => ({
+        before: record,
+        after: _.omit(record, ['_deletedDateTime', '_deletedBy']),
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  /**
+   * Permanently deletes the records that have been in the trash for longer
+   * than the retention window, together with their relations and reactions.
+   * Records are purged in batches, each batch in a transaction of its own, so
+   * that purging a large trash does not load it at once or run in a single
+   * long transaction. Batches already purged stay committed if a later batch
+   * fails.
+   *
+   * @param retentionDays - Optional retention window overriding the configured one
+   * @returns The number of purged records
+   */
+  async purgeDeleted(retentionDays?: number): Promise<Count> {
+    const days =
+      retentionDays ?? this.softDeleteConfigReader.getRetentionDays();
+    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const expired = {
+      _deletedDateTime: { lt: cutoff.toISOString() },
+    } as Where<E>;
+    let count = 0;
+
+    this.loggingService.info(
+      `${this.entityTypeName}Repository.purgeDeleted - Purging records deleted before:`,
+      {
+        cutoff,
+      },
+    );
+
+    const findBatch = async () => {
+      const records = await super.find({
+        where: expired,
+        fields: { _id: true },
+        limit: PURGE_BATCH_SIZE,
+      } as Filter<E>);
+
+      return records.map((record) => record._id);
+    };
+
+    let ids = await findBatch();
+
+    while (ids.length > 0) {
+      // Records restored meanwhile are no longer expired and are left out
+      const batchIds = ids;
+      const result = await this.runInTransaction((options) =>
+        this.deleteAll(
+          { and: [{ _id: { inq: batchIds } }, expired] } as Where<E>,
+          options,
+        ),
+      );
+      count += result.count;
+
+      // Stop after the last batch, or if the batch could not be purged
+      ids =
+        ids.length === PURGE_BATCH_SIZE && result.count > 0
+          ? await findBatch()
+          : [];
+    }
+
+    return { count };
+  }
+
+  /**
+   * Throws a not found error if the record is in the trash.
+   */
+  protected async checkNotDeleted(
+    id: IdType,
+    options?: Options,
+  ): Promise<void> {
+    if (!this.isSoftDeleteInUse()) {
+      return;
+    }
+
+    const { count } = await super.count(
+      { _id: id, _deletedDateTime: { neq: null } } as Where<E>,
+      options,
+    );
+
+    if (count > 0) {
+      this.loggingService.warn(
+        `${this.entityTypeName} with id '${id}' is in the trash.`,
+      );
+      throw this.createNotFoundError(String(id));
+    }
+  }
+
+  // ERROR HELPERS
+
+  /**
+   * Creates a standardized not found error for this entity type.
+   *
+   * @param id - The ID that was not found
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createNotFoundError(id: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 404,
+      name: 'NotFoundError',
+      message: `${this.entityTypeName} with id '${id}' could not be found.`,
+      code: `${this.errorCodePrefix}-NOT-FOUND`,
+    });
+  }
+
+  /**
+   * Creates a standardized immutable kind error for this entity type.
+   *
+   * @param currentKind - The current kind value (optional)
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createImmutableKindError(currentKind?: string): HttpErrorResponse {
+    const message = currentKind
+      ? `${this.entityTypeName} kind cannot be changed after creation. Current kind is '${currentKind}'.`
+      : `${this.entityTypeName} kind cannot be changed after creation.`;
+
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'ImmutableKindError',
+      message,
+      code: `IMMUTABLE-${this.errorCodePrefix}-KIND`,
+    });
+  }
+
+  /**
+   * Creates a standardized version mismatch error for optimistic concurrency.
+   *
+   * @param id - The ID of the record being modified
+   * @param expectedVersion - The version the client based its changes on
+   * @param currentVersion - The version currently stored in the database
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createVersionMismatchError(
+    id: string,
+    expectedVersion: number,
+    currentVersion: number,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      message: `${this.entityTypeName} with id '${id}' has been modified by another request. Expected version is '${expectedVersion}' but current version is '${currentVersion}'.`,
+      code: `${this.errorCodePrefix}-VERSION-MISMATCH`,
+    });
+  }
+
+  /**
+   * Creates a standardized error for parents closing a cycle in the hierarchy.
+   *
+   * @param path - The path of the cycle, each record being a parent of the next one
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createHierarchyCycleError(path: string[]): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'HierarchyCycleError',
+      message: `${this.entityTypeName} with id '${path[0]}' cannot be its own ancestor. The parents would form the cycle: ${path.join(' > ')}.`,
+      code: `${this.errorCodePrefix}-HIERARCHY-CYCLE`,
+    });
+  }
+
+  /**
+   * Creates a standardized error for moving a record from a parent it does not
+   * have.
+   *
+   * @param id - The ID of the record being moved
+   * @param from - The ID of the parent the record is moved from
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createInvalidMoveError(
+    id: string,
+    from: string,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'InvalidMoveError',
+      message: `${this.entityTypeName} with id '${id}' cannot be moved from '${from}', as it is not one of its parents.`,
+      code: `${this.errorCodePrefix}-INVALID-MOVE`,
+    });
+  }
+
+  /**
+   * Creates a standardized error for moving a record to a parent that does
+   * not exist.
+   *
+   * @param id - The ID of the record being moved
+   * @param to - The ID of the parent the record is moved to
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createMoveTargetNotFoundError(
+    id: string,
+    to: string,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'InvalidMoveError',
+      message: `${this.entityTypeName} with id '${id}' cannot be moved to '${to}', as the parent could not be found.`,
+      code: `${this.errorCodePrefix}-MOVE-TARGET-NOT-FOUND`,
+    });
+  }
+
+  /**
+   * Creates a standardized error for a move with neither a `from` nor a `to`
+   * parent.
+   *
+   * @param id - The ID of the record being moved
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createEmptyMoveError(id: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 400,
+      name: 'BadRequestError',
+      message: `${this.entityTypeName} with id '${id}' cannot be moved without a 'from' or a 'to' parent.`,
+      code: `${this.errorCodePrefix}-EMPTY-MOVE`,
+    });
+  }
+
+  /**
+   * Creates a standardized error for restoring a record that is not in the trash.
+   *
+   * @param id - The ID of the record
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createNotDeletedError(id: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 409,
+      name: 'NotDeletedError',
+      message: `${this.entityTypeName} with id '${id}' is not in the trash.`,
+      code: `${this.errorCodePrefix}-NOT-DELETED`,
+    });
+  }
+
+  /**
+   * Creates a standardized revision not found error for this entity type.
+   *
+   * @param id - The ID of the record
+   * @param version - The version that was not found
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createRevisionNotFoundError(
+    id: string,
+    version: number,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 404,
+      name: 'NotFoundError',
+      message: `Revision '${version}' of ${this.entityTypeName.toLowerCase()} with id '${id}' could not be found.`,
+      code: `${this.errorCodePrefix}-REVISION-NOT-FOUND`,
+    });
+  }
+
+  /**
+   * Creates a standardized invalid kind format error.
+   *
+   * @param suggestedKind - The suggested valid format for the kind
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createInvalidKindFormatError(
+    suggestedKind: string,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'InvalidKindError',
+      message: `${this.entityTypeName} kind cannot contain special or uppercase characters. Use '${suggestedKind}' instead.`,
+      code: `INVALID-${this.errorCodePrefix}-KIND`,
+    });
+  }
+
+  /**
+   * Creates a standardized invalid kind value error.
+   *
+   * @param invalidKind - The invalid kind value provided
+   * @param validValues - Array of valid kind values
+   * @returns HttpErrorResponse with appropriate status and message
+   */
+  protected createInvalidKindValueError(
+    invalidKind: string,
+    validValues: string[],
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'InvalidKindError',
+      message: `${this.entityTypeName} kind '${invalidKind}' is not valid. Use any of these values instead: ${validValues.join(', ')}`,
+      code: `INVALID-${this.errorCodePrefix}-KIND`,
+    });
+  }
+
+  /**
+   * Constructs a parent URI for hierarchical relationships.
+   *
+   * @param parentId - The ID of the parent record
+   * @returns The full URI string for the parent reference
+   */
+  protected buildParentUri(parentId: string): string {
+    return `tapp://localhost/${this.uriPathSegment}/${parentId}`;
+  }
+
+  /**
+   * Rejects the given parents if setting them on the given records would
+   * close a cycle in the hierarchy, e.g. a record becoming a parent of its
+   * own parent.
+   *
+   * @param ids - The IDs of the records whose parents are set
+   * @param parents - The new value of the _parents field
+   * @param options - Optional options for transaction support
+   */
+  protected async checkHierarchyCycle(
+    ids: (string | undefined)[],
+    parents: unknown,
+    options?: Options,
+  ): Promise<void> {
+    const recordIds = _.compact(ids);
+
+    if (!Array.isArray(parents) || recordIds.length === 0) {
+      return;
+    }
+
+    const path = await this.findHierarchyCycle(
+      recordIds,
+      parents,
+      this.buildParentUri(''),
+      options,
+    );
+
+    if (path) {
+      throw this.createHierarchyCycleError(path);
+    }
+  }
+
+  /**
+   * Sets the materialized path of the record, `_ancestors` and `_depth`, from
+   * its parents. See computeMaterializedPath.
+   *
+   * @param data - The data of the record, with its new parents
+   * @param options - Optional options for transaction support
+   */
+  protected async setMaterializedPath(
+    data: DataObject<E>,
+    options?: Options,
+  ): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const businessData = data as any;
+
+    Object.assign(
+      businessData,
+      await this.computeMaterializedPath(
+        businessData._parents,
+        this.buildParentUri(''),
+        options,
+      ),
+    );
+  }
+
+  // HIERARCHICAL RELATIONSHIPS
+
+  /**
+   * Finds all parent records of a given record.
+   * Extracts parent IDs from the _parents URI array and fetches the corresponding records.
+   *
+   * @param id - The ID of the record whose parents to find
+   * @param filter - Optional filter to apply to the parent query
+   * @param options - Optional options for transaction support
+   * @returns Array of parent records with their relations
+   */
+  async findParents(
     id: string,
     filter?: Filter<E>,
     options?: Options,
@@ -1131,6 +2281,226 @@ export abstract class EntityPersistenceBusinessRepository<
     }
   }
 
+  /**
+   * Finds the ancestors of a given record up to the given depth, following
+   * the _parents references recursively in a single query.
+   * Each record is annotated with its distance to the given record in
+   * `_relativeDepth`, 1 for its parents. Unless the filter orders them, the
+   * records are sorted by their depth.
+   *
+   * @param id - The ID of the record whose ancestors to find
+   * @param filter - Optional filter to apply to the ancestors
+   * @param maxDepth - Optional number of levels to go up, all if not given
+   * @param options - Optional options for transaction support
+   * @returns Array of ancestor records with their relations
+   */
+  async findAncestors(
+    id: string,
+    filter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    return this.findHierarchy(id, 'ancestors', filter, maxDepth, options);
+  }
+
+  /**
+   * Finds the descendants of a given record down to the given depth,
+   * following the _parents references recursively in a single query.
+   * Each record is annotated with its distance to the given record in
+   * `_relativeDepth`, 1 for its children. Unless the filter orders them, the
+   * records are sorted by their depth.
+   *
+   * @param id - The ID of the record whose descendants to find
+   * @param filter - Optional filter to apply to the descendants
+   * @param maxDepth - Optional number of levels to go down, all if not given
+   * @param options - Optional options for transaction support
+   * @returns Array of descendant records with their relations
+   */
+  async findDescendants(
+    id: string,
+    filter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    return this.findHierarchy(id, 'descendants', filter, maxDepth, options);
+  }
+
+  private async findHierarchy(
+    id: string,
+    direction: HierarchyDirection,
+    filter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    try {
+      // Verify that the record exists
+      await this.findById(
+        id as IdType,
+        { fields: { _id: true } } as FilterExcludingWhere<E>,
+        options,
+      );
+
+      const depths = await this.findHierarchyDepths(
+        id,
+        direction,
+        this.buildParentUri(''),
+        maxDepth,
+        options,
+      );
+
+      if (depths.size === 0) {
+        return [];
+      }
+
+      const hierarchyFilter: Filter<E> = {
+        ...filter,
+        where: {
+          and: [
+            { _id: { inq: [...depths.keys()] } },
+            ...(filter?.where ? [filter.where] : []),
+          ],
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any,
+      };
+
+      this.loggingService.info(
+        `${this.entityTypeName}Repository.findHierarchy - ${_.upperFirst(direction)} filter:`,
+        { hierarchyFilter },
+      );
+
+      const records = await this.find(hierarchyFilter, options);
+
+      return this.annotateDepths(records, depths, !filter?.order);
+    } catch (error) {
+      this.loggingService.error(
+        `${this.entityTypeName}Repository.findHierarchy - Error:`,
+        { error, id, direction },
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Finds the records without parents with their descendants nested in
+   * `_children`, see buildTree. The filter applies to every level of the
+   * tree, except for its skip which only applies to the records without
+   * parents. Each level is limited by the limit of the filter, up to the
+   * response limit, and `_id` and `_parents` are always included in the
+   * records.
+   *
+   * @param filter - Optional filter to apply to the records of every level
+   * @param rootKind - Optional kind of the records at the top of the tree
+   * @param maxDepth - Optional number of levels to load below the top, all if
+   * not given
+   * @param options - Optional options for transaction support
+   * @returns The records at the top of the tree
+   */
+  async findTree(
+    filter?: Filter<E>,
+    rootKind?: string,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    const treeFilter = this.forceTreeFieldsInclusion(filter);
+    const roots = await this.find(
+      {
+        ...treeFilter,
+        where: {
+          and: [
+            { _parentsCount: 0 },
+            ...(rootKind ? [{ _kind: rootKind }] : []),
+            ...(filter?.where ? [filter.where] : []),
+          ],
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        } as any,
+      },
+      options,
+    );
+
+    const levelLimit = this.getTreeLevelLimit(filter);
+
+    return this.buildTree(
+      roots,
+      async (parentUris) =>
+        this.findTreeLevel(parentUris, treeFilter, levelLimit, options),
+      this.buildParentUri(''),
+      levelLimit,
+      maxDepth,
+    );
+  }
+
+  /**
+   * Finds a record with its descendants nested in `_children`, see findTree.
+   * Only the fields and the inclusions of the filter apply to the record
+   * itself.
+   *
+   * @param id - The ID of the record at the top of the tree
+   * @param filter - Optional filter to apply to the records of every level
+   * @param maxDepth - Optional number of levels to load below the record,
+   * all if not given
+   * @param options - Optional options for transaction support
+   * @returns The record with its descendants
+   */
+  async findTreeById(
+    id: string,
+    filter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<E & Relations> {
+    const treeFilter = this.forceTreeFieldsInclusion(filter);
+    const record = await this.findById(
+      id as IdType,
+      _.pick(treeFilter, ['fields', 'include']) as FilterExcludingWhere<E>,
+      options,
+    );
+
+    const levelLimit = this.getTreeLevelLimit(filter);
+    const [tree] = await this.buildTree(
+      [record],
+      async (parentUris) =>
+        this.findTreeLevel(parentUris, treeFilter, levelLimit, options),
+      this.buildParentUri(''),
+      levelLimit,
+      maxDepth,
+    );
+
+    return tree;
+  }
+
+  /**
+   * Finds the records of a level of a tree, see buildTreeLevelFilter.
+   */
+  private async findTreeLevel(
+    parentUris: string[],
+    filter: Filter<E> | undefined,
+    levelLimit: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    const levelFilter = this.buildTreeLevelFilter(
+      parentUris,
+      filter,
+      levelLimit,
+    );
+
+    this.loggingService.info(
+      `${this.entityTypeName}Repository.findTreeLevel - Level filter:`,
+      { levelFilter },
+    );
+
+    return this.find(levelFilter, options);
+  }
+
+  /**
+   * Returns the number of records of each level of a tree, the limit of the
+   * filter up to the response limit.
+   */
+  private getTreeLevelLimit(filter?: Filter<E>): number {
+    return Math.min(
+      filter?.limit ?? this.getResponseLimit(),
+      this.getResponseLimit(),
+    );
+  }
+
   /**
    * Creates a child record with a reference to the specified parent.
    * Verifies parent existence before creating the child.
@@ -1164,4 +2534,80 @@ export abstract class EntityPersistenceBusinessRepository<
       throw error;
     }
   }
+
+  /**
+   * Moves a record, with its descendants, from one parent to another. The
+   * record is detached from the `from` parent and attached to the `to`
+   * parent, its other parents are left in place. Either of them can be
+   * omitted to only attach or only detach the record, but not both.
+   * The new parents are set with updateById, so they are validated against
+   * the lookup constraints and hierarchy cycles, and the count fields and the
+   * materialized paths of the subtree are updated with them.
+   *
+   * @param id - The ID of the record to move
+   * @param from - Optional ID of the parent to detach the record from
+   * @param to - Optional ID of the parent to attach the record to
+   * @param options - Optional options for transaction support
+   * @returns The moved record
+   */
+  async move(
+    id: string,
+    from?: string,
+    to?: string,
+    options?: Options,
+  ): Promise<E & Relations> {
+    try {
+      if (from === undefined && to === undefined) {
+        throw this.createEmptyMoveError(id);
+      }
+
+      const record = await this.findById(
+        id as IdType,
+        { fields: { _id: true, _parents: true } } as FilterExcludingWhere<E>,
+        options,
+      );
+      let parents: string[] = record._parents ?? [];
+
+      if (from !== undefined) {
+        const fromUri = this.buildParentUri(from);
+
+        if (!parents.includes(fromUri)) {
+          throw this.createInvalidMoveError(id, from);
+        }
+
+        parents = parents.filter((parent) => parent !== fromUri);
+      }
+
+      if (to !== undefined) {
+        // Verify that the new parent exists
+        await this.findById(
+          to as IdType,
+          { fields: { _id: true } } as FilterExcludingWhere<E>,
+          options,
+        ).catch((error) => {
+          if (error.code === `${this.errorCodePrefix}-NOT-FOUND`) {
+            throw this.createMoveTargetNotFoundError(id, to);
+          }
+
+          throw error;
+        });
+
+        parents = _.uniq([...parents, this.buildParentUri(to)]);
+      }
+
+      await this.updateById(
+        id as IdType,
+        { _parents: parents } as DataObject<E>,
+        options,
+      );
+
+      return await this.findById(id as IdType, undefined, options);
+    } catch (error) {
+      this.loggingService.error(
+        `${this.entityTypeName}Repository.move - Error:`,
+        { error, id, from, to },
+      );
+      throw error;
+    }
+  }
 }
@@ -1,4 +1,5 @@
 import type {
+  AnyObject,
   Count,
   DataObject,
   Entity,
@@ -11,6 +12,7 @@ import type {
 import * as crypto from 'crypto';
 import _ from 'lodash';
 import slugify from 'slugify';
+import type { HierarchyDirection } from './entity-persistence-base.repository';
 import { EntityPersistenceBaseRepository } from './entity-persistence-base.repository';
 import type {
   KindConfigurationReader,
@@ -18,14 +20,34 @@ import type {
   VisibilityConfigurationReader,
   ValidfromConfigurationReader,
 } from '../../extensions';
+import type { ReactionStatsConfigurationReader } from '../../extensions/config-helpers/reaction-stats-config-helper';
+import { getMetricKey } from '../../extensions/config-helpers/reaction-stats-config-helper';
 import type { ResponseLimitConfigurationReader } from '../../extensions/config-helpers/response-limit-config-helper';
 import type { LookupHelper } from '../../extensions/utils/lookup-helper';
-import type { MongoPipelineHelper } from '../../extensions/utils/mongo-pipeline-helper';
-import type { ReactionsCommonBase } from '../../models';
+import type {
+  AggregateMetric,
+  MongoPipelineHelper,
+  PipelineStage,
+} from '../../extensions/utils/mongo-pipeline-helper';
+import { extendOptions } from '../../extensions/utils/options-helper';
+import {
+  applyUpdateOperators,
+  buildNativeUpdate,
+  rejectUpdateOperators,
+} from '../../extensions/utils/update-operators-helper';
+import type { NativeUpdate } from '../../extensions/utils/update-operators-helper';
+import type { ReactionsCommonBase, RecordRevision } from '../../models';
 import { HttpErrorResponse } from '../../models';
+import type { ReactionStats } from '../../models/base-types/reaction-stats.type';
+import type { AuditLogService } from '../../services/audit-log.service';
+import type { ChangeFeedService } from '../../services/change-feed.service';
 import type { LoggingService } from '../../services/logging.service';
 import type { LookupConstraintService } from '../../services/lookup-constraint.service';
 import type { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
+import type {
+  RevisionHistoryService,
+  RevisionOperation,
+} from '../../services/revision-history.service';
 
 /**
  * EntityPersistenceReactionRepository - Specialized Base for Reaction Entities
@@ -35,8 +57,15 @@ import type { RecordLimitCheckerService } from '../../services/record-limit-chec
  * - Lifecycle orchestration (Modify -> Validate -> Create)
  * - MongoDB pipeline aggregation for filtered reactions
  * - Idempotency management
- * - Hierarchical relationships (findParents, findChildren, createChild)
+ * - Hierarchical relationships (findParents, findChildren, findAncestors,
+ *   findDescendants, createChild)
  * - Immutability enforcement for _kind and source ID fields
+ * - Revision history recording and retrieval
+ * - Recording changes to the change feed outbox
+ * - Recording changes to the audit log
+ * - Hiding reactions moved to the trash together with their entity/list
+ * - Reaction statistics of entities/lists, by reaction kind
+ * - Maintaining the reaction counters stored on entities/lists
  *
  * ## Architecture:
  * This is Level 2 of a three-tier repository hierarchy:
@@ -92,6 +121,10 @@ export abstract class EntityPersistenceReactionRepository<
   protected abstract readonly recordLimitChecker: RecordLimitCheckerService;
   protected abstract readonly lookupConstraintService: LookupConstraintService;
   protected abstract readonly mongoPipelineHelper: MongoPipelineHelper;
+  protected abstract readonly revisionHistoryService: RevisionHistoryService;
+  protected abstract readonly changeFeedService: ChangeFeedService;
+  protected abstract readonly auditLogService: AuditLogService;
+  protected abstract readonly reactionStatsConfigReader: ReactionStatsConfigurationReader;
 
   // ABSTRACT HOOK METHODS - Configuration
   /**
@@ -129,6 +162,17 @@ export abstract class EntityPersistenceReactionRepository<
    */
   protected abstract getAllowedKinds(): string[];
 
+  /**
+   * Gets the metrics computed for the reactions of a given kind in the
+   * reaction stats, in addition to their count.
+   */
+  protected abstract getStatsMetrics(kind?: string): AggregateMetric[];
+
+  /**
+   * Gets the metrics of all kinds, computed when the reaction stats are queried.
+   */
+  protected abstract getAllStatsMetrics(): AggregateMetric[];
+
   // ABSTRACT HOOK METHODS - Target Existence
   /**
    * Checks if the target entity/list exists.
@@ -182,6 +226,12 @@ export abstract class EntityPersistenceReactionRepository<
       limit: Math.min(limit, this.getResponseLimit()),
     };
 
+    // Leave soft deleted reactions out unless they are explicitly queried
+    const where = this.whereExcludingDeleted(filter.where);
+    if (where) {
+      filter.where = where;
+    }
+
     // Ensure _kind is always included
     filter = this.forceKindInclusion(filter);
 
@@ -254,7 +304,7 @@ export abstract class EntityPersistenceReactionRepository<
         1,
         {
           ...filter,
-          where: { _id: id },
+          where: this.whereExcludingDeleted({ _id: id } as Where<E>),
         } as Filter<E>,
         undefined,
         this.sourceIdFieldName,
@@ -334,6 +384,7 @@ export abstract class EntityPersistenceReactionRepository<
     }
 
     try {
+      where = this.whereExcludingDeleted(where);
       const filter = where ? { where } : undefined;
       const sourceFilter = actualSourceWhere
         ? { where: actualSourceWhere }
@@ -376,6 +427,167 @@ export abstract class EntityPersistenceReactionRepository<
     }
   }
 
+  /**
+   * Restricts a full-text search to the reactions whose source records match
+   * the given where clause, as the source filter of find does.
+   */
+  protected buildSearchSourceStages(sourceWhere?: Where<E>): PipelineStage[] {
+    if (_.isEmpty(sourceWhere)) {
+      return [];
+    }
+
+    return this.mongoPipelineHelper.buildEntityReactionPipeline(
+      this.getSourceCollectionName(),
+      0,
+      undefined,
+      { where: sourceWhere } as Filter<E>,
+      this.sourceIdFieldName,
+    );
+  }
+
+  // ============================================================================
+  // REACTION STATS
+  // ============================================================================
+
+  /**
+   * Computes the statistics of the reactions of the given entities/lists in a
+   * single aggregation: the number of reactions of each kind, and the metrics
+   * configured for the kind.
+   *
+   * @param sourceIds - Ids of the entities/lists
+   * @param where - Optional where clause the reactions must match first
+   * @param options - Optional options for transaction support
+   * @returns The statistics of each entity/list by reaction kind. Entities/lists
+   * without reactions have empty statistics.
+   */
+  async findReactionStats(
+    sourceIds: string[],
+    where?: Where<E>,
+    options?: Options,
+  ): Promise<Map<string, ReactionStats>> {
+    const metrics: AggregateMetric[] = [
+      { operator: 'count' },
+      ...this.getAllStatsMetrics(),
+    ];
+    const sourceWhere = {
+      [this.sourceIdFieldName]: { inq: sourceIds },
+    } as Where<E>;
+
+    this.loggingService.info(
+      `${this.reactionTypeName}Repository.findReactionStats - Computing stats:`,
+      {
+        sourceIds,
+        where,
+        metrics,
+      },
+    );
+
+    const documents = await this.aggregate(
+      where ? ({ and: [sourceWhere, where] } as Where<E>) : sourceWhere,
+      (matchWhere) =>
+        this.mongoPipelineHelper.buildAggregatePipeline(
+          matchWhere,
+          [{ field: this.sourceIdFieldName }, { field: '_kind' }],
+          metrics,
+        ),
+      options,
+    );
+
+    const statsBySourceId = new Map<string, ReactionStats>(
+      sourceIds.map((sourceId) => [sourceId, {}]),
+    );
+
+    for (const document of documents) {
+      const stats = statsBySourceId.get(document._id.g0);
+      const kind = document._id.g1;
+
+      if (!stats || kind === undefined || kind === null) {
+        continue;
+      }
+
+      // Only the metrics configured for the kind are returned
+      const kindMetricKeys = [
+        'count',
+        ...this.getStatsMetrics(kind).map(getMetricKey),
+      ];
+
+      stats[kind] = Object.fromEntries(
+        metrics
+          .map((metric, index) => [
+            getMetricKey(metric),
+            document[`m${index}`] ?? null,
+          ])
+          .filter(([key]) => kindMetricKeys.includes(key)),
+      );
+    }
+
+    return statsBySourceId;
+  }
+
+  /**
+   * Recomputes the number of active reactions of each kind posted to the
+   * given entities/lists, and stores it in their `_reactionCounts` field, so
+   * that the counters can be filtered and sorted on. Called in the transaction
+   * of each change to the reactions.
+   *
+   * The counters follow the validity of the reactions as of the last change.
+   * Reactions becoming active or expiring later are counted when the reactions
+   * of the entity/list change again, or when the counters are rebuilt.
+   *
+   * @param sourceIds - Ids of the entities/lists
+   * @param options - Optional options for transaction support
+   */
+  async refreshReactionCounts(
+    sourceIds: (string | undefined)[],
+    options?: Options,
+  ): Promise<void> {
+    const ids = _.uniq(_.compact(sourceIds));
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const activesWhere = {
+      and: [
+        { _validFromDateTime: { lte: now } },
+        {
+          or: [
+            { _validUntilDateTime: null },
+            { _validUntilDateTime: { gt: now } },
+          ],
+        },
+      ],
+    } as Where<E>;
+
+    const stats = await this.findReactionStats(ids, activesWhere, options);
+
+    const collection = this.dataSource.connector?.collection(
+      this.getSourceCollectionName(),
+    );
+
+    if (!collection) {
+      throw new Error('Collection not found');
+    }
+
+    await collection.bulkWrite(
+      ids.map((id) => ({
+        updateOne: {
+          filter: { _id: id },
+          update: {
+            $set: {
+              _reactionCounts: _.mapValues(
+                stats.get(id),
+                (kindStats) => kindStats.count,
+              ),
+            },
+          },
+        },
+      })),
+      { session: options?.session },
+    );
+  }
+
   // ============================================================================
   // CRUD OPERATIONS - CREATE
   // ============================================================================
@@ -384,6 +596,8 @@ export abstract class EntityPersistenceReactionRepository<
    * Create a new reaction with idempotency support.
    */
   async create(data: DataObject<E>, options?: Options): Promise<E> {
+    data = this.omitManagedFields(data);
+
     const idempotencyKey = this.calculateIdempotencyKey(data);
     const foundIdempotent = await this.findIdempotentReaction(
       idempotencyKey,
@@ -418,8 +632,33 @@ export abstract class EntityPersistenceReactionRepository<
       modifiedData,
       options,
     );
+    await this.setMaterializedPath(validatedData, options);
     const created = await super.create(validatedData, options);
 
+    await this.refreshReactionCounts(
+      [created[this.sourceIdFieldName as keyof E] as string],
+      options,
+    );
+    await this.revisionHistoryService.recordRevision(
+      this.recordTypeName,
+      'create',
+      created,
+      options,
+    );
+    await this.changeFeedService.recordChange(
+      this.recordTypeName,
+      'create',
+      created,
+      this.changeFeedService.getChangedFields(undefined, created, 'create'),
+      options,
+    );
+    await this.auditLogService.recordChange(
+      this.recordTypeName,
+      'create',
+      { after: created },
+      options,
+    );
+
     return this.injectRecordType(created);
   }
 
@@ -495,6 +734,11 @@ export abstract class EntityPersistenceReactionRepository<
         this.entityClass as any,
         options,
       ),
+      this.checkHierarchyCycle(
+        [(data as any)._id],
+        (data as any)._parents,
+        options,
+      ),
     ]);
 
     return data;
@@ -512,11 +756,11 @@ export abstract class EntityPersistenceReactionRepository<
     data: DataObject<E>,
     options?: Options,
   ): Promise<void> {
-    const { data: modifiedData, existingData } = await this.modifyDataForUpdate(
-      id as string,
-      data,
-      options,
-    );
+    const {
+      data: modifiedData,
+      existingData,
+      nativeUpdate,
+    } = await this.modifyDataForUpdate(id as string, data, options);
 
     // Merge incoming data with existing reaction data
     const mergedData = _.defaults({}, modifiedData, existingData);
@@ -534,7 +778,17 @@ export abstract class EntityPersistenceReactionRepository<
       options,
     );
 
-    return super.updateById(id as IdType, validatedData, options);
+    // The fields modified by update operators are written with the native
+    // operators by updateAll, which keeps the managed fields set here
+    const result = await super.updateById(
+      id as IdType,
+      validatedData,
+      extendOptions(options, { nativeUpdate, managedFieldsSet: true }),
+    );
+
+    await this.recordUpdateRevision(id, 'update', existingData._kind, options);
+
+    return result;
   }
 
   /**
@@ -562,13 +816,56 @@ export abstract class EntityPersistenceReactionRepository<
       modifiedData,
       options,
     );
+    await this.setMaterializedPath(validatedData, options);
 
-    return super.replaceById(id as IdType, validatedData, options);
+    const result = await super.replaceById(
+      id as IdType,
+      validatedData,
+      options,
+    );
+
+    if (this.isMaterializedPathChanged(existingData, validatedData)) {
+      await this.propagateMaterializedPaths(
+        [id as string],
+        this.buildParentUri(''),
+        options,
+      );
+    }
+
+    await this.refreshReactionCounts(
+      [existingData[this.sourceIdFieldName as keyof E] as string],
+      options,
+    );
+    await this.recordUpdateRevision(id, 'replace', existingData._kind, options);
+    await this.changeFeedService.recordChange(
+      this.recordTypeName,
+      'replace',
+      { ...validatedData, _id: id, _kind: existingData._kind },
+      this.changeFeedService.getChangedFields(
+        existingData,
+        validatedData,
+        'replace',
+      ),
+      options,
+    );
+    await this.auditLogService.recordChange(
+      this.recordTypeName,
+      'replace',
+      {
+        before: existingData,
+        after: { ...validatedData, _id: id, _kind: existingData._kind },
+      },
+      options,
+    );
+
+    return result;
   }
 
   /**
    * Update all matching reactions.
    * Handles polymorphic parameter shifting from LoopBack's internal updateById calls.
+   * Appends an update event for each reaction to the change feed, for both
+   * bulk and single reaction updates.
    */
   async updateAll(
     data: DataObject<E>,
@@ -586,7 +883,8 @@ export abstract class EntityPersistenceReactionRepository<
     if (
       sourceWhereOrOptions &&
       (typeof (sourceWhereOrOptions as any).session === 'object' ||
-        (sourceWhereOrOptions as any).transaction)
+        (sourceWhereOrOptions as any).transaction ||
+        (sourceWhereOrOptions as any).managedFieldsSet)
     ) {
       // 3rd parameter is actually 'options' passed by internal LB4 calls
       actualOptions = sourceWhereOrOptions as Options;
@@ -597,8 +895,13 @@ export abstract class EntityPersistenceReactionRepository<
       actualOptions = options;
     }
 
-    // Clean virtual fields
-    data = this.sanitizeRecordType(data);
+    // Clean virtual fields. Single record updates keep the version and
+    // idempotency key set by updateById, the other managed fields are left out
+    data = this.sanitizeRecordType(
+      actualOptions?.managedFieldsSet
+        ? this.omitManagedFields(data, '_version', '_idempotencyKey')
+        : this.omitManagedFields(data),
+    );
 
     // Enforce immutability constraints
     if ((data as any)._kind !== undefined) {
@@ -609,6 +912,8 @@ export abstract class EntityPersistenceReactionRepository<
       throw this.createImmutableSourceIdError(this.sourceIdFieldName);
     }
 
+    rejectUpdateOperators(data);
+
     // Update timestamps and metadata
     const now = new Date().toISOString();
     data._lastUpdatedDateTime = now;
@@ -625,6 +930,7 @@ export abstract class EntityPersistenceReactionRepository<
     );
 
     // Build the pipeline using the correctly identified source filter
+    where = this.whereExcludingDeleted(where);
     const filter = where ? { where } : undefined;
     const sourceFilter = actualSourceWhere
       ? { where: actualSourceWhere }
@@ -639,7 +945,7 @@ export abstract class EntityPersistenceReactionRepository<
       this.sourceIdFieldName,
     );
 
-    pipeline.push({ $project: { _id: 1 } });
+    pipeline.push({ $project: { _relationMetadata: 0 } });
 
     const collection = this.dataSource.connector?.collection(
       this.entityClass.modelName ?? this.reactionTypeName,
@@ -664,21 +970,70 @@ export abstract class EntityPersistenceReactionRepository<
       return { count: 0 };
     }
 
+    await this.checkHierarchyCycle(
+      documentsToUpdate.map((doc: { _id: string }) => doc._id),
+      (data as any)._parents,
+      actualOptions,
+    );
+
+    const parentsChanged = (data as any)._parents !== undefined;
+
+    if (parentsChanged) {
+      await this.setMaterializedPath(data, actualOptions);
+    }
+
+    const ids = documentsToUpdate.map((doc: { _id: string }) => doc._id);
+    // Fields modified by update operators are left to the native update
+    const nativeUpdate: NativeUpdate | undefined = actualOptions?.nativeUpdate;
+
     /**
      * Perform bulk update using the correctly aligned options.
      * This ensures the write operation is part of the same transaction.
      */
     const updateResult = await collection.updateMany(
-      {
-        _id: { $in: documentsToUpdate.map((doc: { _id: string }) => doc._id) },
-      },
-      { $set: data },
+      { _id: { $in: ids } },
+      { $set: nativeUpdate ? _.omit(data, nativeUpdate.fields) : data },
       {
         session: actualOptions?.session,
         ...actualOptions,
       },
     );
 
+    if (nativeUpdate) {
+      await this.applyNativeUpdate(ids, nativeUpdate, actualOptions);
+    }
+
+    if (parentsChanged) {
+      await this.propagateMaterializedPaths(
+        documentsToUpdate
+          .filter((doc: AnyObject) => this.isMaterializedPathChanged(doc, data))
+          .map((doc: AnyObject) => doc._id),
+        this.buildParentUri(''),
+        actualOptions,
+      );
+    }
+
+    await this.refreshReactionCounts(
+      documentsToUpdate.map((doc: AnyObject) => doc[this.sourceIdFieldName]),
+      actualOptions,
+    );
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'update',
+      documentsToUpdate.map((doc: AnyObject) => ({ ...doc, ...data })),
+      this.changeFeedService.getChangedFields(undefined, data, 'update'),
+      actualOptions,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'update',
+      documentsToUpdate.map((doc: AnyObject) => ({
+        before: doc,
+        after: { ...doc, ...data },
+      })),
+      actualOptions,
+    );
+
     return { count: updateResult.modifiedCount };
   }
 
@@ -689,16 +1044,42 @@ export abstract class EntityPersistenceReactionRepository<
     id: string,
     data: DataObject<E>,
     options?: Options,
-  ): Promise<{ data: DataObject<E>; existingData: E }> {
-    data = this.sanitizeRecordType(data);
+  ): Promise<{
+    data: DataObject<E>;
+    existingData: E;
+    nativeUpdate?: NativeUpdate;
+  }> {
+    // Work on a copy, as the data may be the request body, which is passed
+    // again when the transaction is retried. The version is kept, as it is the
+    // version the client based the update on
+    data = this.sanitizeRecordType(this.omitManagedFields(data, '_version'));
 
     const existingData = await this.findByIdRaw(id, undefined, options);
     if (!existingData) {
       throw this.createNotFoundError(id);
     }
 
+    // Resolve update operators against the current state of the reaction, so
+    // that counts, uniqueness and limits are computed from the result
+    const resolvedData = applyUpdateOperators(existingData, data);
+    const nativeUpdate = buildNativeUpdate(existingData, data);
+    data = resolvedData as DataObject<E>;
+
     const now = new Date().toISOString();
 
+    // Reject the update if the client based it on a stale version
+    const expectedVersion = data._version;
+    if (
+      expectedVersion !== undefined &&
+      Number(expectedVersion) !== (existingData._version ?? 1)
+    ) {
+      throw this.createVersionMismatchError(
+        id,
+        Number(expectedVersion),
+        existingData._version ?? 1,
+      );
+    }
+
     // Increment version
     data._version = (existingData._version ?? 1) + 1;
 
@@ -708,7 +1089,7 @@ export abstract class EntityPersistenceReactionRepository<
     this.generateSlug(data);
     this.setCountFields(data);
 
-    return { data, existingData };
+    return { data, existingData, nativeUpdate };
   }
 
   /**
@@ -782,6 +1163,8 @@ export abstract class EntityPersistenceReactionRepository<
     data: DataObject<E>,
     options?: Options,
   ): Promise<DataObject<E>> {
+    await this.checkHierarchyCycle([id], (data as any)._parents, options);
+
     return this.validateDataForUpdate(id, existingData, data, options);
   }
 
@@ -794,13 +1177,21 @@ export abstract class EntityPersistenceReactionRepository<
    */
   async deleteById(id: IdType, options?: Options): Promise<void> {
     // Verify existence first
-    await this.findById(id, undefined, options);
+    const existingData = await this.findById(id, undefined, options);
 
-    return super.deleteById(id, options);
+    await this.recordDeletions({ _id: id } as Where<E>, options);
+
+    await super.deleteById(id, options);
+    await this.refreshReactionCounts(
+      [existingData[this.sourceIdFieldName as keyof E] as string],
+      options,
+    );
   }
 
   /**
    * Delete all matching reactions.
+   * Reactions in the trash are deleted too, so that purging soft deleted
+   * entities/lists also purges their reactions.
    */
   async deleteAll(where?: Where<E>, options?: Options): Promise<Count> {
     this.loggingService.info(
@@ -810,7 +1201,247 @@ export abstract class EntityPersistenceReactionRepository<
       },
     );
 
-    return super.deleteAll(where, options);
+    const reactions = await this.recordDeletions(where, options);
+
+    const result = await super.deleteAll(where, options);
+    await this.refreshReactionCounts(
+      reactions.map(
+        (reaction) => reaction[this.sourceIdFieldName as keyof E] as string,
+      ),
+      options,
+    );
+
+    return result;
+  }
+
+  // ============================================================================
+  // REVISION HISTORY
+  // ============================================================================
+
+  /**
+   * Find the revisions of a reaction, ordered by version by default.
+   * Revisions of deleted reactions can still be retrieved.
+   */
+  async findRevisions(
+    id: string,
+    filter?: Filter<RecordRevision>,
+    options?: Options,
+  ): Promise<RecordRevision[]> {
+    const limit = filter?.limit ?? this.getResponseLimit();
+
+    return this.revisionHistoryService.findRevisions(
+      this.recordTypeName,
+      id,
+      {
+        ...filter,
+        limit: Math.min(limit, this.getResponseLimit()),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Find a single revision of a reaction by its version.
+   */
+  async findRevisionByVersion(
+    id: string,
+    version: number,
+    options?: Options,
+  ): Promise<RecordRevision> {
+    const revision = await this.revisionHistoryService.findRevision(
+      this.recordTypeName,
+      id,
+      version,
+      options,
+    );
+
+    if (!revision) {
+      throw this.createRevisionNotFoundError(id, version);
+    }
+
+    return revision;
+  }
+
+  /**
+   * Restore a reaction to the state kept in one of its revisions.
+   * The snapshot goes through the regular replace path and the reaction gets
+   * a new version.
+   */
+  async restoreRevision(
+    id: string,
+    version: number,
+    expectedVersion?: number,
+    options?: Options,
+  ): Promise<E> {
+    const revision = await this.findRevisionByVersion(id, version, options);
+    const data = this.revisionHistoryService.toRestoreData(revision);
+
+    if (expectedVersion !== undefined) {
+      data._version = expectedVersion;
+    }
+
+    await this.replaceById(id as IdType, data as DataObject<E>, options);
+
+    return this.findById(id as IdType, undefined, options);
+  }
+
+  /**
+   * Keep the state of a reaction after an update or replace operation,
+   * if history is enabled for its kind.
+   */
+  protected async recordUpdateRevision(
+    id: IdType,
+    operation: RevisionOperation,
+    kind: string | undefined,
+    options?: Options,
+  ): Promise<void> {
+    if (
+      !this.revisionHistoryService.isHistoryEnabled(this.recordTypeName, kind)
+    ) {
+      return;
+    }
+
+    const record = await this.findByIdRaw(id as string, undefined, options);
+
+    await this.revisionHistoryService.recordRevision(
+      this.recordTypeName,
+      operation,
+      record,
+      options,
+    );
+  }
+
+  /**
+   * Keep the last state of the reactions that are about to be deleted in the
+   * revision history, and append their deletion to the change feed and to the
+   * audit log. Returns the reactions.
+   */
+  protected async recordDeletions(
+    where: Where<E> | undefined,
+    options?: Options,
+  ): Promise<E[]> {
+    const reactions = await super.find({ where }, options);
+
+    await this.revisionHistoryService.recordRevisions(
+      this.recordTypeName,
+      'delete',
+      reactions,
+      options,
+    );
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      reactions,
+      [],
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      reactions.map((reaction) => ({
+        before: reaction,
+        actor: options?.deletedBy,
+      })),
+      options,
+    );
+
+    return reactions;
+  }
+
+  // ============================================================================
+  // SOFT DELETE
+  // ============================================================================
+
+  /**
+   * Move the matching reactions to the trash together with their entity/list
+   * and append their deletion to the change feed and to the audit log.
+   */
+  async markAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    deletedBy?: string,
+    options?: Options,
+  ): Promise<Count> {
+    const reactions = await this.findNativeRecords(
+      { ...query, _deletedDateTime: null },
+      options,
+    );
+
+    const result = await super.markAsDeleted(
+      query,
+      deletedAt,
+      deletedBy,
+      options,
+    );
+
+    // The user deleting the entity/list is the actor of the change
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      reactions.map((reaction) => ({
+        ...reaction,
+        _deletedDateTime: deletedAt,
+        _deletedBy: deletedBy,
+        _lastUpdatedBy: deletedBy ?? reaction._lastUpdatedBy,
+      })),
+      ['_deletedDateTime', '_deletedBy'],
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      reactions.map((reaction) => ({
+        before: reaction,
+        after: {
+          ...reaction,
+          _deletedDateTime: deletedAt,
+          _deletedBy: deletedBy,
+        },
+        actor: deletedBy,
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  /**
+   * Take the matching reactions out of the trash together with their
+   * entity/list and append their update to the change feed and to the audit
+   * log.
+   */
+  async unmarkAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<Count> {
+    const reactions = await this.findNativeRecords(
+      { ...query, _deletedDateTime: deletedAt },
+      options,
+    );
+
+    const result = await super.unmarkAsDeleted(query, deletedAt, options);
+
+    await this.changeFeedService.recordChanges(
+      this.recordTypeName,
+      'update',
+      reactions.map((reaction) =>
+        _.omit(reaction, ['_deletedDateTime', '_deletedBy']),
+      ),
+      ['_deletedDateTime', '_deletedBy'],
+      options,
+    );
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'update',
+      reactions.map((reaction) => ({
+        before: reaction,
+        after: _.omit(reaction, ['_deletedDateTime', '_deletedBy']),
+      })),
+      options,
+    );
+
+    return result;
   }
 
   // ============================================================================
@@ -903,6 +1534,228 @@ export abstract class EntityPersistenceReactionRepository<
     });
   }
 
+  /**
+   * Find the ancestor reactions of a given reaction up to the given depth,
+   * annotated with their distance to the reaction in `_relativeDepth`.
+   */
+  async findAncestors(
+    reactionId: string,
+    filter?: Filter<E>,
+    sourceFilter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    return this.findHierarchy(
+      reactionId,
+      'ancestors',
+      filter,
+      sourceFilter,
+      maxDepth,
+      options,
+    );
+  }
+
+  /**
+   * Find the descendant reactions of a given reaction down to the given depth,
+   * annotated with their distance to the reaction in `_relativeDepth`.
+   */
+  async findDescendants(
+    reactionId: string,
+    filter?: Filter<E>,
+    sourceFilter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    return this.findHierarchy(
+      reactionId,
+      'descendants',
+      filter,
+      sourceFilter,
+      maxDepth,
+      options,
+    );
+  }
+
+  /**
+   * Find the reactions without parents with their descendants nested in
+   * `_children`, see buildTree. The filter applies to every level of the
+   * tree, except for its skip which only applies to the reactions without
+   * parents, and `_id` and `_parents` are always included in the reactions.
+   */
+  async findTree(
+    filter?: Filter<E>,
+    sourceFilter?: Filter<E>,
+    rootKind?: string,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    const treeFilter = this.forceTreeFieldsInclusion(filter);
+    const roots = await this.find(
+      {
+        ...treeFilter,
+        where: {
+          and: [
+            { _parentsCount: 0 },
+            ...(rootKind ? [{ _kind: rootKind }] : []),
+            ...(filter?.where ? [filter.where] : []),
+          ],
+        } as Where<E>,
+      },
+      sourceFilter,
+      {
+        useMongoPipeline: false,
+        ...options,
+      },
+    );
+
+    const levelLimit = this.getTreeLevelLimit(filter);
+
+    return this.buildTree(
+      roots,
+      async (parentUris) =>
+        this.findTreeLevel(
+          parentUris,
+          treeFilter,
+          sourceFilter,
+          levelLimit,
+          options,
+        ),
+      this.buildParentUri(''),
+      levelLimit,
+      maxDepth,
+    );
+  }
+
+  /**
+   * Find a reaction with its descendants nested in `_children`, see findTree.
+   * Only the fields and the inclusions of the filter apply to the reaction
+   * itself.
+   */
+  async findTreeById(
+    reactionId: string,
+    filter?: Filter<E>,
+    sourceFilter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<E & Relations> {
+    const treeFilter = this.forceTreeFieldsInclusion(filter);
+    const reaction = await this.findById(
+      reactionId as IdType,
+      _.pick(treeFilter, ['fields', 'include']) as FilterExcludingWhere<E>,
+      options,
+    );
+
+    const levelLimit = this.getTreeLevelLimit(filter);
+    const [tree] = await this.buildTree(
+      [reaction],
+      async (parentUris) =>
+        this.findTreeLevel(
+          parentUris,
+          treeFilter,
+          sourceFilter,
+          levelLimit,
+          options,
+        ),
+      this.buildParentUri(''),
+      levelLimit,
+      maxDepth,
+    );
+
+    return tree;
+  }
+
+  /**
+   * Find the reactions of a level of a tree, see buildTreeLevelFilter.
+   */
+  private async findTreeLevel(
+    parentUris: string[],
+    filter: Filter<E> | undefined,
+    sourceFilter: Filter<E> | undefined,
+    levelLimit: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    const levelFilter = this.buildTreeLevelFilter(
+      parentUris,
+      filter,
+      levelLimit,
+    );
+
+    this.loggingService.info(
+      `${this.reactionTypeName}Repository.findTreeLevel - Level filter:`,
+      {
+        levelFilter,
+      },
+    );
+
+    return this.find(levelFilter, sourceFilter, {
+      useMongoPipeline: false,
+      ...options,
+    });
+  }
+
+  /**
+   * Get the number of reactions of each level of a tree, the limit of the
+   * filter up to the response limit.
+   */
+  private getTreeLevelLimit(filter?: Filter<E>): number {
+    return Math.min(
+      filter?.limit ?? this.getResponseLimit(),
+      this.getResponseLimit(),
+    );
+  }
+
+  private async findHierarchy(
+    reactionId: string,
+    direction: HierarchyDirection,
+    filter?: Filter<E>,
+    sourceFilter?: Filter<E>,
+    maxDepth?: number,
+    options?: Options,
+  ): Promise<(E & Relations)[]> {
+    // Verify reaction exists
+    await this.findById(
+      reactionId as IdType,
+      { fields: { _id: true } } as FilterExcludingWhere<E>,
+      options,
+    );
+
+    const depths = await this.findHierarchyDepths(
+      reactionId,
+      direction,
+      this.buildParentUri(''),
+      maxDepth,
+      options,
+    );
+
+    if (depths.size === 0) {
+      return [];
+    }
+
+    const hierarchyFilter: Filter<E> = {
+      ...filter,
+      where: {
+        and: [
+          { _id: { inq: [...depths.keys()] } },
+          ...(filter?.where ? [filter.where] : []),
+        ],
+      } as Where<E>,
+    };
+
+    this.loggingService.info(
+      `${this.reactionTypeName}Repository.findHierarchy - ${_.upperFirst(direction)} filter:`,
+      {
+        hierarchyFilter,
+      },
+    );
+
+    const reactions = await this.find(hierarchyFilter, sourceFilter, {
+      useMongoPipeline: false,
+      ...options,
+    });
+
+    return this.annotateDepths(reactions, depths, !filter?.order);
+  }
+
   /**
    * Create a child reaction under a parent.
    */
@@ -954,6 +1807,79 @@ export abstract class EntityPersistenceReactionRepository<
     }
   }
 
+  /**
+   * Move a reaction, with its replies, from one parent to another. The new
+   * parents are set with updateById, so they are validated by the lookup
+   * constraints, including the parents belonging to the same source record,
+   * and against hierarchy cycles. Either parent can be omitted to only attach
+   * or only detach the reaction, but not both.
+   */
+  async move(
+    id: string,
+    from?: string,
+    to?: string,
+    options?: Options,
+  ): Promise<E & Relations> {
+    try {
+      if (from === undefined && to === undefined) {
+        throw this.createEmptyMoveError(id);
+      }
+
+      const reaction = await this.findByIdRaw(
+        id,
+        { fields: { _id: true, _parents: true } } as FilterExcludingWhere<E>,
+        options,
+      );
+      let parents: string[] = reaction._parents ?? [];
+
+      if (from !== undefined) {
+        const fromUri = this.buildParentUri(from);
+
+        if (!parents.includes(fromUri)) {
+          throw this.createInvalidMoveError(id, from);
+        }
+
+        parents = parents.filter((parent) => parent !== fromUri);
+      }
+
+      if (to !== undefined) {
+        // Verify the new parent exists
+        await this.findByIdRaw(
+          to,
+          { fields: { _id: true } } as FilterExcludingWhere<E>,
+          options,
+        ).catch((error) => {
+          if (error.code === `${this.errorCodePrefix}-NOT-FOUND`) {
+            throw this.createMoveTargetNotFoundError(id, to);
+          }
+
+          throw error;
+        });
+
+        parents = _.uniq([...parents, this.buildParentUri(to)]);
+      }
+
+      await this.updateById(
+        id as IdType,
+        { _parents: parents } as DataObject<E>,
+        options,
+      );
+
+      return await this.findById(id as IdType, undefined, options);
+    } catch (error) {
+      this.loggingService.error(
+        `${this.reactionTypeName}Repository.move - Error:`,
+        {
+          error,
+          id,
+          from,
+          to,
+        },
+      );
+      throw error;
+    }
+  }
+
   // ============================================================================
   // HELPER METHODS
   // ============================================================================
@@ -1110,9 +2036,9 @@ export abstract class EntityPersistenceReactionRepository<
     if (_.isString(idempotencyKey) && !_.isEmpty(idempotencyKey)) {
       return this.findOne(
         {
-          where: {
+          where: this.whereExcludingDeleted({
             and: [{ _idempotencyKey: idempotencyKey }],
-          } as Where<E>,
+          } as Where<E>),
         },
         options,
       );
@@ -1218,6 +2144,73 @@ export abstract class EntityPersistenceReactionRepository<
     });
   }
 
+  protected createVersionMismatchError(
+    id: string,
+    expectedVersion: number,
+    currentVersion: number,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 412,
+      name: 'PreconditionFailedError',
+      message: `${this.reactionTypeName} with id '${id}' has been modified by another request. Expected version is '${expectedVersion}' but current version is '${currentVersion}'.`,
+      code: `${this.errorCodePrefix}-VERSION-MISMATCH`,
+    });
+  }
+
+  protected createHierarchyCycleError(path: string[]): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'HierarchyCycleError',
+      message: `${this.reactionTypeName} with id '${path[0]}' cannot be its own ancestor. The parents would form the cycle: ${path.join(' > ')}.`,
+      code: `${this.errorCodePrefix}-HIERARCHY-CYCLE`,
+    });
+  }
+
+  protected createInvalidMoveError(
+    id: string,
+    from: string,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'InvalidMoveError',
+      message: `${this.reactionTypeName} with id '${id}' cannot be moved from '${from}', as it is not one of its parents.`,
+      code: `${this.errorCodePrefix}-INVALID-MOVE`,
+    });
+  }
+
+  protected createMoveTargetNotFoundError(
+    id: string,
+    to: string,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 422,
+      name: 'InvalidMoveError',
+      message: `${this.reactionTypeName} with id '${id}' cannot be moved to '${to}', as the parent could not be found.`,
+      code: `${this.errorCodePrefix}-MOVE-TARGET-NOT-FOUND`,
+    });
+  }
+
+  protected createEmptyMoveError(id: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 400,
+      name: 'BadRequestError',
+      message: `${this.reactionTypeName} with id '${id}' cannot be moved without a 'from' or a 'to' parent.`,
+      code: `${this.errorCodePrefix}-EMPTY-MOVE`,
+    });
+  }
+
+  protected createRevisionNotFoundError(
+    id: string,
+    version: number,
+  ): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 404,
+      name: 'NotFoundError',
+      message: `Revision '${version}' of ${this.reactionTypeName.toLowerCase()} with id '${id}' could not be found.`,
+      code: `${this.errorCodePrefix}-REVISION-NOT-FOUND`,
+    });
+  }
+
   protected createInvalidKindFormatError(
     suggestedKind: string,
   ): HttpErrorResponse {
@@ -1247,4 +2240,49 @@ export abstract class EntityPersistenceReactionRepository<
   protected buildParentUri(parentId: string): string {
     return `tapp://localhost/${this.uriPathSegment}/${parentId}`;
   }
+
+  /**
+   * Reject parents closing a cycle in the hierarchy of the given reactions,
+   * e.g. a reaction becoming a parent of its own parent.
+   */
+  protected async checkHierarchyCycle(
+    ids: (string | undefined)[],
+    parents: unknown,
+    options?: Options,
+  ): Promise<void> {
+    const reactionIds = _.compact(ids);
+
+    if (!Array.isArray(parents) || reactionIds.length === 0) {
+      return;
+    }
+
+    const path = await this.findHierarchyCycle(
+      reactionIds,
+      parents,
+      this.buildParentUri(''),
+      options,
+    );
+
+    if (path) {
+      throw this.createHierarchyCycleError(path);
+    }
+  }
+
+  /**
+   * Set the materialized path of the reaction, `_ancestors` and `_depth`,
+   * from its parents.
+   */
+  protected async setMaterializedPath(
+    data: DataObject<E>,
+    options?: Options,
+  ): Promise<void> {
+    Object.assign(
+      data,
+      await this.computeMaterializedPath(
+        (data as any)._parents,
+        this.buildParentUri(''),
+        options,
+      ),
+    );
+  }
 }
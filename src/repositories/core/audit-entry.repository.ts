@@ -0,0 +1,21 @@
+import { inject } from '@loopback/core';
+import { DefaultTransactionalRepository } from '@loopback/repository';
+import { EntityDbDataSource } from '../../datasources';
+import { AuditEntry } from '../../models';
+
+/**
+ * AuditEntryRepository - Plain repository for the audit log collection.
+ * Entries are written by the AuditLogService and are never modified after
+ * creation.
+ */
+export class AuditEntryRepository extends DefaultTransactionalRepository<
+  AuditEntry,
+  typeof AuditEntry.prototype._id
+> {
+  constructor(
+    @inject('datasources.EntityDb')
+    dataSource: EntityDbDataSource,
+  ) {
+    super(AuditEntry, dataSource);
+  }
+}
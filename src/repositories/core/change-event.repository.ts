@@ -0,0 +1,21 @@
+import { inject } from '@loopback/core';
+import { DefaultTransactionalRepository } from '@loopback/repository';
+import { EntityDbDataSource } from '../../datasources';
+import { ChangeEvent } from '../../models';
+
+/**
+ * ChangeEventRepository - Plain repository for the outbox collection.
+ * Events are written by the ChangeFeedService and are never modified after
+ * creation.
+ */
+export class ChangeEventRepository extends DefaultTransactionalRepository<
+  ChangeEvent,
+  typeof ChangeEvent.prototype._id
+> {
+  constructor(
+    @inject('datasources.EntityDb')
+    dataSource: EntityDbDataSource,
+  ) {
+    super(ChangeEvent, dataSource);
+  }
+}
@@ -7,6 +7,10 @@ import {
   ValidfromConfigurationReader,
   VisibilityConfigurationReader,
   IdempotencyConfigurationReader,
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
+  ReactionStatsConfigBindings,
+  ReactionStatsConfigurationReader,
 } from '../../extensions';
 import { CollectionConfigHelper } from '../../extensions/config-helpers/collection-config-helper';
 import { ResponseLimitConfigurationReader } from '../../extensions/config-helpers/response-limit-config-helper';
@@ -15,15 +19,22 @@ import {
   LookupBindings,
 } from '../../extensions/utils/lookup-helper';
 import {
+  AggregateMetric,
   MongoPipelineHelper,
   MongoPipelineHelperBindings,
 } from '../../extensions/utils/mongo-pipeline-helper';
 import { EntityReaction, HttpErrorResponse } from '../../models';
+import { AuditLogBindings } from '../../services/audit-log.bindings';
+import { AuditLogService } from '../../services/audit-log.service';
+import { ChangeFeedBindings } from '../../services/change-feed.bindings';
+import { ChangeFeedService } from '../../services/change-feed.service';
 import { LoggingService } from '../../services/logging.service';
 import { LookupConstraintBindings } from '../../services/lookup-constraint.bindings';
 import { LookupConstraintService } from '../../services/lookup-constraint.service';
 import { RecordLimitCheckerBindings } from '../../services/record-limit-checker.bindings';
 import { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
+import { RevisionHistoryBindings } from '../../services/revision-history.bindings';
+import { RevisionHistoryService } from '../../services/revision-history.service';
 import { EntityPersistenceReactionRepository } from '../base/entity-persistence-reaction.repository';
 
 /**
@@ -40,7 +51,7 @@ import { EntityPersistenceReactionRepository } from '../base/entity-persistence-
  *
  * ## Inherited from Base:
  * - find, findById, count, create, updateById, replaceById, updateAll, deleteById, deleteAll
- * - findParents, findChildren, createChild
+ * - findParents, findChildren, findAncestors, findDescendants, createChild
  * - Idempotency, validation, slug generation, count fields
  * - MongoDB pipeline aggregation
  */
@@ -91,6 +102,21 @@ export class EntityReactionsRepository extends EntityPersistenceReactionReposito
 
     @repository.getter('EntityRepository')
     protected entityRepositoryGetter: Getter<EntityRepository>,
+
+    @inject(RevisionHistoryBindings.SERVICE)
+    protected readonly revisionHistoryService: RevisionHistoryService,
+
+    @inject(SoftDeleteConfigBindings.CONFIG_READER)
+    protected readonly softDeleteConfigReader: SoftDeleteConfigurationReader,
+
+    @inject(ChangeFeedBindings.SERVICE)
+    protected readonly changeFeedService: ChangeFeedService,
+
+    @inject(AuditLogBindings.SERVICE)
+    protected readonly auditLogService: AuditLogService,
+
+    @inject(ReactionStatsConfigBindings.CONFIG_READER)
+    protected readonly reactionStatsConfigReader: ReactionStatsConfigurationReader,
   ) {
     super(EntityReaction, dataSource);
   }
@@ -124,6 +150,21 @@ export class EntityReactionsRepository extends EntityPersistenceReactionReposito
     return this.kindConfigReader.allowedKindsForEntityReactions;
   }
 
+  protected getStatsMetrics(kind?: string): AggregateMetric[] {
+    return this.reactionStatsConfigReader.getMetrics('entity-reaction', kind);
+  }
+
+  protected getAllStatsMetrics(): AggregateMetric[] {
+    return this.reactionStatsConfigReader.getAllMetrics('entity-reaction');
+  }
+
+  /**
+   * Reactions are moved to the trash together with their entity.
+   */
+  protected isSoftDeleteInUse(): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteConfiguredForEntities();
+  }
+
   // ABSTRACT HOOK METHOD IMPLEMENTATIONS - Target Existence
   /**
    * Check if the referenced Entity exists before creating/updating a reaction.
@@ -14,6 +14,8 @@ import { EntityDbDataSource } from '../../datasources';
 import {
   IdempotencyConfigurationReader,
   KindConfigurationReader,
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
   ValidfromConfigurationReader,
   VisibilityConfigurationReader,
 } from '../../extensions';
@@ -28,11 +30,20 @@ import {
   GenericEntityRelations,
   EntityReaction,
 } from '../../models';
+import { AuditLogBindings } from '../../services/audit-log.bindings';
+import { AuditLogService } from '../../services/audit-log.service';
+import { ChangeFeedBindings } from '../../services/change-feed.bindings';
+import { ChangeFeedService } from '../../services/change-feed.service';
 import { LoggingService } from '../../services/logging.service';
 import { LookupConstraintBindings } from '../../services/lookup-constraint.bindings';
 import { LookupConstraintService } from '../../services/lookup-constraint.service';
 import { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
-import { EntityPersistenceBusinessRepository } from '../base/entity-persistence-business.repository';
+import { RevisionHistoryBindings } from '../../services/revision-history.bindings';
+import { RevisionHistoryService } from '../../services/revision-history.service';
+import {
+  EntityPersistenceBusinessRepository,
+  ReactionStatsRepository,
+} from '../base/entity-persistence-business.repository';
 import {
   CustomListThroughEntityRepository,
   CustomRepositoriesBindings,
@@ -46,9 +57,10 @@ import {
  * lifecycle management) is inherited from the base class.
  *
  * ## Entity-Specific Features:
- * - Relations: lists (through pivot table), reactions (hasMany)
+ * - Relations: lists (through pivot table), reactions (hasMany), reaction stats (virtual)
  * - Parent/child entity relationships via _parents field
  * - Cascading deletes for relations and reactions
+ * - Cascading soft deletes and restores for relations and reactions
  *
  * ## Inherited from Base:
  * - find, findById, create, replaceById, updateById, updateAll
@@ -120,6 +132,18 @@ export class EntityRepository extends EntityPersistenceBusinessRepository<
 
     @inject(LookupConstraintBindings.SERVICE)
     protected readonly lookupConstraintService: LookupConstraintService,
+
+    @inject(RevisionHistoryBindings.SERVICE)
+    protected readonly revisionHistoryService: RevisionHistoryService,
+
+    @inject(SoftDeleteConfigBindings.CONFIG_READER)
+    protected readonly softDeleteConfigReader: SoftDeleteConfigurationReader,
+
+    @inject(ChangeFeedBindings.SERVICE)
+    protected readonly changeFeedService: ChangeFeedService,
+
+    @inject(AuditLogBindings.SERVICE)
+    protected readonly auditLogService: AuditLogService,
   ) {
     super(GenericEntity, dataSource);
 
@@ -133,6 +157,12 @@ export class EntityRepository extends EntityPersistenceBusinessRepository<
       this.reactions.inclusionResolver,
     );
 
+    // Register reaction stats virtual relation
+    this.registerInclusionResolver(
+      '_reactionStats',
+      this.createReactionStatsInclusionResolver(reactionsRepositoryGetter),
+    );
+
     // Setup lists relation (through pivot table)
     this.lists = async (entityId: typeof GenericEntity.prototype._id) => {
       const repo = await this.customListThroughEntityRepositoryGetter();
@@ -172,8 +202,21 @@ export class EntityRepository extends EntityPersistenceBusinessRepository<
     return this.kindConfigReader.allowedKindsForEntities;
   }
 
+  protected isSoftDeleteInUse(): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteConfiguredForEntities();
+  }
+
+  protected isSoftDeleteEnabled(kind?: string): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteEnabledForEntities(kind);
+  }
+
   // ENTITY-SPECIFIC: CASCADE DELETE OPERATIONS
   async deleteById(id: string, options?: Options): Promise<void> {
+    // Move the entity to the trash instead, if soft delete is enabled for its kind
+    if (await this.softDeleteByIdIfEnabled(id, options)) {
+      return;
+    }
+
     const listEntityRelationRepo =
       await this.listEntityRelationRepositoryGetter();
     const reactionsRepo = await this.reactionsRepositoryGetter();
@@ -199,10 +242,11 @@ export class EntityRepository extends EntityPersistenceBusinessRepository<
       where,
     });
 
+    // Move the entities of kinds with soft delete enabled to the trash first
+    const softDeletedCount = await this.softDeleteAllIfEnabled(where, options);
+
     // Get IDs of entities to delete
-    const idsToDelete = (
-      await this.find({ where, fields: ['_id'] }, options)
-    ).map((entity) => entity._id);
+    const idsToDelete = await this.findIds(where, options);
 
     // Delete all relations by matching _entityId
     await listEntityRelationRepo.deleteAll(
@@ -213,6 +257,57 @@ export class EntityRepository extends EntityPersistenceBusinessRepository<
     // Delete all reactions associated with the entities
     await reactionsRepo.deleteAll({ _entityId: { inq: idsToDelete } }, options);
 
-    return super.deleteAll(where, options);
+    const result = await super.deleteAll(where, options);
+
+    return { count: result.count + softDeletedCount };
+  }
+
+  protected async softDeleteDependants(
+    ids: string[],
+    deletedAt: Date,
+    deletedBy: string | undefined,
+    options?: Options,
+  ): Promise<void> {
+    const listEntityRelationRepo =
+      await this.listEntityRelationRepositoryGetter();
+    const reactionsRepo = await this.reactionsRepositoryGetter();
+
+    // Move all relations associated with the entities to the trash
+    await listEntityRelationRepo.markAsDeleted(
+      { _entityId: { $in: ids } },
+      deletedAt,
+      deletedBy,
+      options,
+    );
+
+    // Move all reactions associated with the entities to the trash
+    await reactionsRepo.markAsDeleted(
+      { _entityId: { $in: ids } },
+      deletedAt,
+      deletedBy,
+      options,
+    );
+  }
+
+  protected async restoreDependants(
+    id: string,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<void> {
+    const listEntityRelationRepo =
+      await this.listEntityRelationRepositoryGetter();
+    const reactionsRepo = await this.reactionsRepositoryGetter();
+
+    // Restore the relations and reactions deleted together with the entity
+    await listEntityRelationRepo.unmarkAsDeleted(
+      { _entityId: id },
+      deletedAt,
+      options,
+    );
+    await reactionsRepo.unmarkAsDeleted({ _entityId: id }, deletedAt, options);
+  }
+
+  protected async getReactionsRepository(): Promise<ReactionStatsRepository> {
+    return this.reactionsRepositoryGetter();
   }
 }
@@ -3,4 +3,9 @@ export * from './list.repository';
 export * from './entity-reactions.repository';
 export * from './list-reactions.repository';
 export * from './list-entity-relation.repository';
+export * from './record-revision.repository';
+export * from './change-event.repository';
+export * from './audit-entry.repository';
+export * from './webhook-delivery.repository';
+export * from './webhook-dead-letter.repository';
 export * from './system-info.repository';
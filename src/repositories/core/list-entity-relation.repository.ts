@@ -1,5 +1,6 @@
 import { Getter, inject } from '@loopback/core';
 import {
+  AnyObject,
   DataObject,
   Filter,
   FilterExcludingWhere,
@@ -17,17 +18,22 @@ import { EntityDbDataSource } from '../../datasources';
 import {
   IdempotencyConfigurationReader,
   KindConfigurationReader,
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
   ValidfromConfigurationReader,
 } from '../../extensions';
 import { CollectionConfigHelper } from '../../extensions/config-helpers/collection-config-helper';
 import { ResponseLimitConfigurationReader } from '../../extensions/config-helpers/response-limit-config-helper';
 import { MongoPipelineHelper } from '../../extensions/utils/mongo-pipeline-helper';
+import { extendOptions } from '../../extensions/utils/options-helper';
 import {
   ListEntityRelationRelations,
   ListToEntityRelation,
   HttpErrorResponse,
   List,
 } from '../../models';
+import { AuditLogBindings } from '../../services/audit-log.bindings';
+import { AuditLogService } from '../../services/audit-log.service';
 import { LoggingService } from '../../services/logging.service';
 import { RecordLimitCheckerBindings } from '../../services/record-limit-checker.bindings';
 import { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
@@ -76,10 +82,23 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
 
     @inject(RecordLimitCheckerBindings.SERVICE)
     private recordLimitChecker: RecordLimitCheckerService,
+
+    @inject(SoftDeleteConfigBindings.CONFIG_READER)
+    private softDeleteConfigReader: SoftDeleteConfigurationReader,
+
+    @inject(AuditLogBindings.SERVICE)
+    private auditLogService: AuditLogService,
   ) {
     super(ListToEntityRelation, dataSource);
   }
 
+  /**
+   * Relations are moved to the trash together with their list or entity.
+   */
+  protected isSoftDeleteInUse(): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteConfiguredForAny();
+  }
+
   private forceKindInclusion(
     filter: Filter<ListToEntityRelation> | undefined,
   ): Filter<ListToEntityRelation> | undefined {
@@ -139,6 +158,12 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     // Ensure _kind is always included
     filter = this.forceKindInclusion(filter);
 
+    // Leave soft deleted relations out unless they are explicitly queried
+    const where = this.whereExcludingDeleted(filter?.where);
+    if (where) {
+      filter = { ...filter, where };
+    }
+
     // Get collection names from configuration
     const listCollectionName =
       CollectionConfigHelper.getInstance().getListCollectionName();
@@ -239,6 +264,7 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     }
 
     // Convert where to filter for pipeline generation
+    where = this.whereExcludingDeleted(where);
     const filter = where ? { where } : undefined;
     const listFilter = actualListWhere ? { where: actualListWhere } : undefined;
     const entityFilter = actualEntityWhere
@@ -307,7 +333,7 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     // Fetch a single raw relation from the database
     const rawRelation = await super.findById(id, typedFilter, options);
 
-    if (!rawRelation) {
+    if (!rawRelation || (await this.isDeleted(id, options))) {
       throw new HttpErrorResponse({
         statusCode: 404,
         name: 'NotFoundError',
@@ -321,8 +347,12 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     const entityRepo = await this.entityRepositoryGetter();
 
     const [listMetadata, entityMetadata] = await Promise.all([
-      listRepo.findById(rawRelation._listId).catch(() => null),
-      entityRepo.findById(rawRelation._entityId).catch(() => null),
+      listRepo
+        .findById(rawRelation._listId, undefined, options)
+        .catch(() => null),
+      entityRepo
+        .findById(rawRelation._entityId, undefined, options)
+        .catch(() => null),
     ]);
 
     // Enrich the raw relation with metadata
@@ -363,9 +393,14 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
    * Create a new relation ensuring idempotency and validation.
    */
   async create(data: DataObject<ListToEntityRelation>, options?: Options) {
+    data = this.omitManagedFields(data);
+
     const idempotencyKey = this.calculateIdempotencyKey(data);
 
-    const foundIdempotent = await this.findIdempotentRelation(idempotencyKey);
+    const foundIdempotent = await this.findIdempotentRelation(
+      idempotencyKey,
+      options,
+    );
     if (foundIdempotent) {
       return this.injectRecordType(foundIdempotent);
     }
@@ -380,7 +415,11 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     data: DataObject<ListToEntityRelation>,
     options?: Options,
   ) {
-    const collection = await this.enrichIncomingRelForUpdates(id, data);
+    const collection = await this.enrichIncomingRelForUpdates(
+      id,
+      data,
+      options,
+    );
 
     // calculate idempotencyKey
     const idempotencyKey = this.calculateIdempotencyKey(collection.data);
@@ -394,7 +433,21 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
       options,
     );
 
-    return super.replaceById(id, validEnrichedData, options);
+    await super.replaceById(id, validEnrichedData, options);
+
+    await this.auditLogService.recordChange(
+      this.recordTypeName,
+      'replace',
+      {
+        before: collection.existingData,
+        after: {
+          ...validEnrichedData,
+          _id: id,
+          _kind: collection.existingData._kind,
+        },
+      },
+      options,
+    );
   }
 
   async updateById(
@@ -402,7 +455,11 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     data: DataObject<ListToEntityRelation>,
     options?: Options,
   ) {
-    const collection = await this.enrichIncomingRelForUpdates(id, data);
+    const collection = await this.enrichIncomingRelForUpdates(
+      id,
+      data,
+      options,
+    );
 
     const mergedData = {
       ...data,
@@ -423,7 +480,12 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
       options,
     );
 
-    return super.updateById(id, validEnrichedData, options);
+    // updateAll keeps the managed fields set here
+    return super.updateById(
+      id,
+      validEnrichedData,
+      extendOptions(options, { managedFieldsSet: true }),
+    );
   }
 
   async updateAll(
@@ -431,7 +493,13 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     where?: Where<ListToEntityRelation>,
     options?: Options,
   ) {
-    data = this.sanitizeRecordType(data);
+    // Single relation updates keep the version and idempotency key set by
+    // updateById, the other managed fields are left out
+    data = this.sanitizeRecordType(
+      options?.managedFieldsSet
+        ? this.omitManagedFields(data, '_version', '_idempotencyKey')
+        : this.omitManagedFields(data),
+    );
 
     if (data._kind) {
       throw new HttpErrorResponse({
@@ -445,7 +513,145 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     const now = new Date().toISOString();
     data._lastUpdatedDateTime = now;
 
-    return super.updateAll(data, where, options);
+    where = this.whereExcludingDeleted(where);
+
+    // Read the relations before the update, as it may change which ones match
+    const relations = await super.find({ where }, options);
+
+    const result = await super.updateAll(data, where, options);
+
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'update',
+      relations.map((relation) => ({
+        before: relation,
+        after: { ...relation.toJSON(), ...data },
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  async deleteById(id: string, options?: Options): Promise<void> {
+    await this.recordDeletions({ _id: id }, options);
+
+    return super.deleteById(id, options);
+  }
+
+  async deleteAll(
+    where?: Where<ListToEntityRelation>,
+    options?: Options,
+  ): Promise<Count> {
+    await this.recordDeletions(where, options);
+
+    return super.deleteAll(where, options);
+  }
+
+  /**
+   * Moves the matching relations to the trash together with their list or
+   * entity and appends their deletion to the audit log.
+   */
+  async markAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    deletedBy?: string,
+    options?: Options,
+  ): Promise<Count> {
+    const relations = await this.findNativeRecords(
+      { ...query, _deletedDateTime: null },
+      options,
+    );
+
+    const result = await super.markAsDeleted(
+      query,
+      deletedAt,
+      deletedBy,
+      options,
+    );
+
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      relations.map((relation) => ({
+        before: relation,
+        after: {
+          ...relation,
+          _deletedDateTime: deletedAt,
+          _deletedBy: deletedBy,
+        },
+        actor: deletedBy,
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  /**
+   * Takes the matching relations out of the trash together with their list or
+   * entity and appends their update to the audit log.
+   */
+  async unmarkAsDeleted(
+    query: AnyObject,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<Count> {
+    const relations = await this.findNativeRecords(
+      { ...query, _deletedDateTime: deletedAt },
+      options,
+    );
+
+    const result = await super.unmarkAsDeleted(query, deletedAt, options);
+
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'update',
+      relations.map((relation) => ({
+        before: relation,
+        after: _.omit(relation, ['_deletedDateTime', '_deletedBy']),
+      })),
+      options,
+    );
+
+    return result;
+  }
+
+  /**
+   * Appends the deletion of the relations that are about to be deleted to the
+   * audit log.
+   */
+  private async recordDeletions(
+    where: Where<ListToEntityRelation> | undefined,
+    options?: Options,
+  ): Promise<void> {
+    const relations = await super.find({ where }, options);
+
+    await this.auditLogService.recordChanges(
+      this.recordTypeName,
+      'delete',
+      relations.map((relation) => ({
+        before: relation,
+        actor: options?.deletedBy,
+      })),
+      options,
+    );
+  }
+
+  /**
+   * Returns true if the relation is in the trash and soft delete is in use.
+   */
+  private async isDeleted(id: string, options?: Options): Promise<boolean> {
+    if (!this.isSoftDeleteInUse()) {
+      return false;
+    }
+
+    const { count } = await super.count(
+      { _id: id, _deletedDateTime: { neq: null } },
+      options,
+    );
+
+    return count > 0;
   }
 
   /**
@@ -464,6 +670,13 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
 
     const created = await super.create(validEnrichedData, options);
 
+    await this.auditLogService.recordChange(
+      this.recordTypeName,
+      'create',
+      { after: created },
+      options,
+    );
+
     return this.injectRecordType(created);
   }
 
@@ -493,11 +706,14 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
   async enrichIncomingRelForUpdates(
     id: string,
     data: DataObject<ListToEntityRelation>,
+    options?: Options,
   ) {
-    // Strip virtual fields before persisting
-    data = this.sanitizeRecordType(data);
+    // Strip virtual and managed fields before persisting. Work on a copy, as
+    // the data may be the request body, which is passed again when the
+    // transaction is retried. The version the update is based on is kept
+    data = this.sanitizeRecordType(this.omitManagedFields(data, '_version'));
 
-    const existingData = await this.findById(id);
+    const existingData = await this.findById(id, undefined, options);
 
     // check if we have this record in db
     if (!existingData) {
@@ -511,6 +727,20 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
 
     const now = new Date().toISOString();
 
+    // reject the update if the client based it on a stale version
+    const expectedVersion = data._version;
+    if (
+      expectedVersion !== undefined &&
+      Number(expectedVersion) !== (existingData._version ?? 1)
+    ) {
+      throw new HttpErrorResponse({
+        statusCode: 412,
+        name: 'PreconditionFailedError',
+        message: `Relation with id '${id}' has been modified by another request. Expected version is '${expectedVersion}' but current version is '${existingData._version ?? 1}'.`,
+        code: 'RELATION-VERSION-MISMATCH',
+      });
+    }
+
     // set new version
     data._version = (existingData._version ?? 1) + 1;
 
@@ -554,6 +784,7 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
           _entityId: string;
           _listId: string;
         },
+        options,
       ),
     ]).then(() => data);
   }
@@ -563,7 +794,7 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     data: DataObject<ListToEntityRelation>,
     options?: Options,
   ) {
-    const existingData = await this.findById(id);
+    const existingData = await this.findById(id, undefined, options);
 
     // Check if kind is being changed
     if (data._kind && data._kind !== existingData._kind) {
@@ -581,6 +812,7 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
           _entityId: string;
           _listId: string;
         },
+        options,
       ),
       this.checkUniquenessForUpdate(id, data, options),
     ]).then(() => data);
@@ -715,7 +947,9 @@ export class ListEntityRelationRepository extends EntityPersistenceBaseRepositor
     if (_.isString(idempotencyKey) && !_.isEmpty(idempotencyKey)) {
       return this.findOne(
         {
-          where: { _idempotencyKey: idempotencyKey },
+          where: this.whereExcludingDeleted({
+            _idempotencyKey: idempotencyKey,
+          }),
         },
         options,
       );
@@ -15,6 +15,8 @@ import { EntityDbDataSource } from '../../datasources';
 import {
   IdempotencyConfigurationReader,
   KindConfigurationReader,
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
   ValidfromConfigurationReader,
   VisibilityConfigurationReader,
 } from '../../extensions';
@@ -30,12 +32,21 @@ import {
   ListReaction,
   ListRelations,
 } from '../../models';
+import { AuditLogBindings } from '../../services/audit-log.bindings';
+import { AuditLogService } from '../../services/audit-log.service';
+import { ChangeFeedBindings } from '../../services/change-feed.bindings';
+import { ChangeFeedService } from '../../services/change-feed.service';
 import { LoggingService } from '../../services/logging.service';
 import { LookupConstraintBindings } from '../../services/lookup-constraint.bindings';
 import { LookupConstraintService } from '../../services/lookup-constraint.service';
 import { RecordLimitCheckerBindings } from '../../services/record-limit-checker.bindings';
 import { RecordLimitCheckerService } from '../../services/record-limit-checker.service';
-import { EntityPersistenceBusinessRepository } from '../base/entity-persistence-business.repository';
+import { RevisionHistoryBindings } from '../../services/revision-history.bindings';
+import { RevisionHistoryService } from '../../services/revision-history.service';
+import {
+  EntityPersistenceBusinessRepository,
+  ReactionStatsRepository,
+} from '../base/entity-persistence-business.repository';
 import {
   CustomEntityThroughListRepository,
   CustomRepositoriesBindings,
@@ -49,15 +60,17 @@ import {
  * lifecycle management) is inherited from the base class.
  *
  * ## List-Specific Features:
- * - Relations: entities (through pivot table), reactions (hasMany)
+ * - Relations: entities (through pivot table), reactions (hasMany), reaction stats (virtual)
  * - Parent/child list relationships via _parents field
  * - Cascading deletes for relations and reactions
+ * - Cascading soft deletes and restores for relations and reactions
  * - Custom entities inclusion resolver with whereThrough support
  *
  * ## Inherited from Base:
  * - find, findById, create, replaceById, updateById, updateAll
  * - Validation, idempotency, slug generation, count fields
- * - Kind validation, lookup processing, findParents, findChildren, createChild
+ * - Kind validation, lookup processing
+ * - findParents, findChildren, findAncestors, findDescendants, createChild
  */
 export class ListRepository extends EntityPersistenceBusinessRepository<
   List,
@@ -127,6 +140,18 @@ export class ListRepository extends EntityPersistenceBusinessRepository<
 
     @inject(LookupConstraintBindings.SERVICE)
     protected readonly lookupConstraintService: LookupConstraintService,
+
+    @inject(RevisionHistoryBindings.SERVICE)
+    protected readonly revisionHistoryService: RevisionHistoryService,
+
+    @inject(SoftDeleteConfigBindings.CONFIG_READER)
+    protected readonly softDeleteConfigReader: SoftDeleteConfigurationReader,
+
+    @inject(ChangeFeedBindings.SERVICE)
+    protected readonly changeFeedService: ChangeFeedService,
+
+    @inject(AuditLogBindings.SERVICE)
+    protected readonly auditLogService: AuditLogService,
   ) {
     super(List, dataSource);
 
@@ -140,6 +165,12 @@ export class ListRepository extends EntityPersistenceBusinessRepository<
       this.reactions.inclusionResolver,
     );
 
+    // Register reaction stats virtual relation
+    this.registerInclusionResolver(
+      '_reactionStats',
+      this.createReactionStatsInclusionResolver(reactionsRepositoryGetter),
+    );
+
     // Define the entities method (through pivot table)
     this.entities = async (listId: typeof List.prototype._id) => {
       // First verify that the list exists - this will throw 404 if not found
@@ -193,8 +224,21 @@ export class ListRepository extends EntityPersistenceBusinessRepository<
     return this.kindConfigReader.allowedKindsForLists;
   }
 
+  protected isSoftDeleteInUse(): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteConfiguredForLists();
+  }
+
+  protected isSoftDeleteEnabled(kind?: string): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteEnabledForLists(kind);
+  }
+
   // LIST-SPECIFIC: CASCADE DELETE OPERATIONS
   async deleteById(id: string, options?: Options): Promise<void> {
+    // Move the list to the trash instead, if soft delete is enabled for its kind
+    if (await this.softDeleteByIdIfEnabled(id, options)) {
+      return;
+    }
+
     const listEntityRelationRepo =
       await this.listEntityRelationRepositoryGetter();
     const reactionsRepo = await this.reactionsRepositoryGetter();
@@ -217,10 +261,11 @@ export class ListRepository extends EntityPersistenceBusinessRepository<
       where,
     });
 
+    // Move the lists of kinds with soft delete enabled to the trash first
+    const softDeletedCount = await this.softDeleteAllIfEnabled(where, options);
+
     // Get IDs of lists to delete
-    const idsToDelete = (
-      await this.find({ where, fields: ['_id'] }, options)
-    ).map((list) => list._id);
+    const idsToDelete = await this.findIds(where, options);
 
     // Delete all relations by matching _listId
     await listEntityRelationRepo.deleteAll(
@@ -231,7 +276,58 @@ export class ListRepository extends EntityPersistenceBusinessRepository<
     // Delete all reactions associated with the lists
     await reactionsRepo.deleteAll({ _listId: { inq: idsToDelete } }, options);
 
-    return super.deleteAll(where, options);
+    const result = await super.deleteAll(where, options);
+
+    return { count: result.count + softDeletedCount };
+  }
+
+  protected async softDeleteDependants(
+    ids: string[],
+    deletedAt: Date,
+    deletedBy: string | undefined,
+    options?: Options,
+  ): Promise<void> {
+    const listEntityRelationRepo =
+      await this.listEntityRelationRepositoryGetter();
+    const reactionsRepo = await this.reactionsRepositoryGetter();
+
+    // Move all relations associated with the lists to the trash
+    await listEntityRelationRepo.markAsDeleted(
+      { _listId: { $in: ids } },
+      deletedAt,
+      deletedBy,
+      options,
+    );
+
+    // Move all reactions associated with the lists to the trash
+    await reactionsRepo.markAsDeleted(
+      { _listId: { $in: ids } },
+      deletedAt,
+      deletedBy,
+      options,
+    );
+  }
+
+  protected async restoreDependants(
+    id: string,
+    deletedAt: Date,
+    options?: Options,
+  ): Promise<void> {
+    const listEntityRelationRepo =
+      await this.listEntityRelationRepositoryGetter();
+    const reactionsRepo = await this.reactionsRepositoryGetter();
+
+    // Restore the relations and reactions deleted together with the list
+    await listEntityRelationRepo.unmarkAsDeleted(
+      { _listId: id },
+      deletedAt,
+      options,
+    );
+    await reactionsRepo.unmarkAsDeleted({ _listId: id }, deletedAt, options);
+  }
+
+  protected async getReactionsRepository(): Promise<ReactionStatsRepository> {
+    return this.reactionsRepositoryGetter();
   }
 
   // LIST-SPECIFIC: CUSTOM INCLUSION RESOLVER
@@ -0,0 +1,21 @@
+import { inject } from '@loopback/core';
+import { DefaultTransactionalRepository } from '@loopback/repository';
+import { EntityDbDataSource } from '../../datasources';
+import { RecordRevision } from '../../models';
+
+/**
+ * RecordRevisionRepository - Plain repository for the revision history
+ * collection. Revisions are written by the RevisionHistoryService and are
+ * never modified after creation.
+ */
+export class RecordRevisionRepository extends DefaultTransactionalRepository<
+  RecordRevision,
+  typeof RecordRevision.prototype._id
+> {
+  constructor(
+    @inject('datasources.EntityDb')
+    dataSource: EntityDbDataSource,
+  ) {
+    super(RecordRevision, dataSource);
+  }
+}
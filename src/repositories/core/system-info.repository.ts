@@ -39,6 +39,11 @@ export interface SystemConfiguration {
     entityReactions?: string;
     listReactions?: string;
     listEntityRel?: string;
+    revisions?: string;
+    changes?: string;
+    audit?: string;
+    webhookDeliveries?: string;
+    webhookDeadLetters?: string;
   };
 
   // Lookup Constraints
@@ -85,6 +90,21 @@ export interface SystemConfiguration {
     listEntityRelations?: boolean;
   };
 
+  // Revision History Settings
+  history: {
+    entity: boolean;
+    list: boolean;
+    entityReaction: boolean;
+    listReaction: boolean;
+  };
+
+  // Soft Delete Settings
+  softDelete: {
+    entity: boolean;
+    list: boolean;
+    retentionDays?: string;
+  };
+
   // Visibility Settings
   visibility: {
     entity?: string;
@@ -213,6 +233,11 @@ export class SystemInfoRepository {
         entityReactions: process.env.COLLECTION_ENTITY_REACTIONS,
         listReactions: process.env.COLLECTION_LIST_REACTIONS,
         listEntityRel: process.env.COLLECTION_LIST_ENTITY_REL,
+        revisions: process.env.COLLECTION_REVISIONS,
+        changes: process.env.COLLECTION_CHANGES,
+        audit: process.env.COLLECTION_AUDIT,
+        webhookDeliveries: process.env.COLLECTION_WEBHOOK_DELIVERIES,
+        webhookDeadLetters: process.env.COLLECTION_WEBHOOK_DEAD_LETTERS,
       },
 
       lookupConstraints: {
@@ -255,6 +280,19 @@ export class SystemInfoRepository {
           process.env.AUTOAPPROVE_LIST_ENTITY_RELATIONS === 'true',
       },
 
+      history: {
+        entity: process.env.HISTORY_ENTITY === 'true',
+        list: process.env.HISTORY_LIST === 'true',
+        entityReaction: process.env.HISTORY_ENTITY_REACTION === 'true',
+        listReaction: process.env.HISTORY_LIST_REACTION === 'true',
+      },
+
+      softDelete: {
+        entity: process.env.SOFT_DELETE_ENTITY === 'true',
+        list: process.env.SOFT_DELETE_LIST === 'true',
+        retentionDays: process.env.SOFT_DELETE_RETENTION_DAYS,
+      },
+
       visibility: {
         entity: process.env.VISIBILITY_ENTITY,
         list: process.env.VISIBILITY_LIST,
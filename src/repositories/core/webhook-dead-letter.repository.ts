@@ -0,0 +1,20 @@
+import { inject } from '@loopback/core';
+import { DefaultTransactionalRepository } from '@loopback/repository';
+import { EntityDbDataSource } from '../../datasources';
+import { WebhookDeadLetter } from '../../models';
+
+/**
+ * WebhookDeadLetterRepository - Plain repository for the webhook deliveries
+ * that failed on every attempt.
+ */
+export class WebhookDeadLetterRepository extends DefaultTransactionalRepository<
+  WebhookDeadLetter,
+  typeof WebhookDeadLetter.prototype._id
+> {
+  constructor(
+    @inject('datasources.EntityDb')
+    dataSource: EntityDbDataSource,
+  ) {
+    super(WebhookDeadLetter, dataSource);
+  }
+}
@@ -0,0 +1,20 @@
+import { inject } from '@loopback/core';
+import { DefaultTransactionalRepository } from '@loopback/repository';
+import { EntityDbDataSource } from '../../datasources';
+import { WebhookDelivery } from '../../models';
+
+/**
+ * WebhookDeliveryRepository - Plain repository for the queued and delivered
+ * webhook deliveries. Deliveries are written by the WebhookService.
+ */
+export class WebhookDeliveryRepository extends DefaultTransactionalRepository<
+  WebhookDelivery,
+  typeof WebhookDelivery.prototype._id
+> {
+  constructor(
+    @inject('datasources.EntityDb')
+    dataSource: EntityDbDataSource,
+  ) {
+    super(WebhookDelivery, dataSource);
+  }
+}
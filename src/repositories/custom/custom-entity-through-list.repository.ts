@@ -17,6 +17,10 @@ import {
 } from '@loopback/repository';
 import _ from 'lodash';
 import { EntityDbDataSource } from '../../datasources';
+import {
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
+} from '../../extensions';
 
 import {
   GenericEntity,
@@ -44,10 +48,17 @@ export class CustomEntityThroughListRepository extends EntityPersistenceBaseRepo
 
     @repository.getter('ListEntityRelationRepository')
     protected listEntityRepoGetter: Getter<ListEntityRelationRepository>,
+
+    @inject(SoftDeleteConfigBindings.CONFIG_READER)
+    protected softDeleteConfigReader: SoftDeleteConfigurationReader,
   ) {
     super(GenericEntity, dataSource);
   }
 
+  protected isSoftDeleteInUse(): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteConfiguredForEntities();
+  }
+
   async find(
     filter?: Filter<GenericEntity>,
     filterThrough?: Filter<ListToEntityRelation>,
@@ -112,7 +123,10 @@ export class CustomEntityThroughListRepository extends EntityPersistenceBaseRepo
     // Update the filter to only include entities matching the IDs
     const updatedFilter = {
       ...filter,
-      where: { ...filter?.where, _id: { inq: entityIds } },
+      where: this.whereExcludingDeleted({
+        ...filter?.where,
+        _id: { inq: entityIds },
+      }),
     };
 
     // Fetch entities matching the updated filter
@@ -140,6 +154,38 @@ export class CustomEntityThroughListRepository extends EntityPersistenceBaseRepo
     return this.injectRecordTypeArray(entitiesWithMetadata);
   }
 
+  /**
+   * Counts the entities of the source list matching the given where clause,
+   * the same way find selects them.
+   */
+  async count(
+    where?: Where<GenericEntity>,
+    whereThrough?: Where<ListToEntityRelation>,
+    options?: Options,
+  ): Promise<Count> {
+    const listEntityRelationRepo = await this.listEntityRepoGetter();
+
+    const relations = await listEntityRelationRepo.find(
+      {
+        where: {
+          _listId: this.sourceListId,
+          ...whereThrough,
+        },
+      },
+      undefined,
+      undefined,
+      options,
+    );
+    const entityIds = relations.map(
+      (rel: ListToEntityRelation) => rel._entityId,
+    );
+
+    return super.count(
+      this.whereExcludingDeleted({ ...where, _id: { inq: entityIds } }),
+      options,
+    );
+  }
+
   async create(
     data: DataObject<GenericEntity>,
     options: Options = {},
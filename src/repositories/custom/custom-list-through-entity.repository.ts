@@ -1,13 +1,19 @@
 import { inject } from '@loopback/context';
 import {
+  Count,
   Fields,
   Filter,
   Getter,
   Options,
   repository,
+  Where,
 } from '@loopback/repository';
 import _ from 'lodash';
 import { EntityDbDataSource } from '../../datasources';
+import {
+  SoftDeleteConfigBindings,
+  SoftDeleteConfigurationReader,
+} from '../../extensions';
 import {
   GenericEntity,
   List,
@@ -32,10 +38,16 @@ export class CustomListThroughEntityRepository extends EntityPersistenceBaseRepo
     protected listRepositoryGetter: Getter<ListRepository>,
     @repository.getter('ListEntityRelationRepository')
     protected listEntityRepositoryGetter: Getter<ListEntityRelationRepository>,
+    @inject(SoftDeleteConfigBindings.CONFIG_READER)
+    protected softDeleteConfigReader: SoftDeleteConfigurationReader,
   ) {
     super(List, dataSource);
   }
 
+  protected isSoftDeleteInUse(): boolean {
+    return this.softDeleteConfigReader.isSoftDeleteConfiguredForLists();
+  }
+
   public async find(
     filter?: Filter<List>,
     filterThrough?: Filter<ListToEntityRelation>,
@@ -93,7 +105,10 @@ export class CustomListThroughEntityRepository extends EntityPersistenceBaseRepo
     // Update the filter to only include lists matching the IDs
     const updatedFilter = {
       ...filter,
-      where: { ...filter?.where, _id: { inq: listIds } },
+      where: this.whereExcludingDeleted({
+        ...filter?.where,
+        _id: { inq: listIds },
+      }),
     };
 
     // Fetch lists matching the updated filter
@@ -118,4 +133,26 @@ export class CustomListThroughEntityRepository extends EntityPersistenceBaseRepo
 
     return this.injectRecordTypeArray(listsWithMetadata);
   }
+
+  /**
+   * Counts the lists of the source entity matching the given where clause,
+   * the same way find selects them.
+   */
+  async count(
+    where?: Where<List>,
+    whereThrough?: Where<ListToEntityRelation>,
+    options?: Options,
+  ): Promise<Count> {
+    const listEntityRelationRepo = await this.listEntityRepositoryGetter();
+
+    const relations = await listEntityRelationRepo.find({
+      where: { _entityId: this.sourceEntityId, ...whereThrough },
+    });
+    const listIds = relations.map((rel: ListToEntityRelation) => rel._listId);
+
+    return super.count(
+      this.whereExcludingDeleted({ ...where, _id: { inq: listIds } }),
+      options,
+    );
+  }
 }
@@ -44,6 +44,21 @@ export class CustomReactionThroughEntityRepository extends EntityPersistenceBase
     return entityReactionsRepo.find(updatedFilter, options);
   }
 
+  async count(
+    where?: Where<EntityReaction>,
+    options?: Options,
+  ): Promise<Count> {
+    const entityReactionsRepo = await this.entityReactionsRepositoryGetter();
+
+    // Update the where clause to only include reactions matching the entity ID
+    const updatedWhere = {
+      ...where,
+      _entityId: this.sourceEntityId,
+    };
+
+    return entityReactionsRepo.count(updatedWhere, undefined, options);
+  }
+
   @transactional()
   async create(
     data: DataObject<EntityReaction>,
@@ -45,6 +45,18 @@ export class CustomReactionThroughListRepository extends EntityPersistenceBaseRe
     return listReactionsRepo.find(updatedFilter, undefined, options);
   }
 
+  async count(where?: Where<ListReaction>, options?: Options): Promise<Count> {
+    const listReactionsRepo = await this.listReactionsRepositoryGetter();
+
+    // Update the where clause to only include reactions matching the list ID
+    const updatedWhere = {
+      ...where,
+      _listId: this.sourceListId,
+    };
+
+    return listReactionsRepo.count(updatedWhere, undefined, options);
+  }
+
   @transactional()
   async create(
     data: DataObject<ListReaction>,
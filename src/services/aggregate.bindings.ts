@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { AggregateService } from './aggregate.service';
+
+export const AggregateBindings = {
+  SERVICE: BindingKey.create<AggregateService>('services.aggregate'),
+} as const;
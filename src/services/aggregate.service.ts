@@ -0,0 +1,211 @@
+import { inject, injectable } from '@loopback/core';
+import type { Options, Where } from '@loopback/repository';
+import type { AnyObject } from '@loopback/repository/dist/common-types';
+import { LoggingService } from './logging.service';
+import type {
+  AggregateGroup,
+  AggregateMetric,
+  DateHistogramUnit,
+  PipelineStage,
+} from '../extensions/utils/mongo-pipeline-helper';
+import {
+  MongoPipelineHelper,
+  MongoPipelineHelperBindings,
+} from '../extensions/utils/mongo-pipeline-helper';
+import { AggregateBucket, HttpErrorResponse } from '../models';
+
+/**
+ * The part of a repository an aggregation needs.
+ */
+export interface AggregatableRepository {
+  aggregate(
+    where: Where | undefined,
+    buildPipeline: (where?: Where) => PipelineStage[],
+    options?: Options,
+  ): Promise<AnyObject[]>;
+}
+
+const DATE_HISTOGRAM_UNITS: DateHistogramUnit[] = [
+  'year',
+  'quarter',
+  'month',
+  'week',
+  'day',
+  'hour',
+];
+
+// Date histograms are only built on the dates managed by the service
+const DATE_HISTOGRAM_FIELDS = [
+  '_createdDateTime',
+  '_lastUpdatedDateTime',
+  '_validFromDateTime',
+  '_validUntilDateTime',
+];
+
+const METRIC_OPERATORS = ['sum', 'avg', 'min', 'max'];
+
+// Field names and dot separated paths, without MongoDB operators
+const FIELD_PATTERN = /^[\w-]+(\.[\w-]+)*$/;
+
+/**
+ * Groups the records matching a where clause into buckets and computes
+ * metrics on each bucket, for dashboards which need more than the single
+ * number of the count routes.
+ *
+ * Records are grouped by the values of the `groupBy` fields, or by the
+ * interval their date falls into for date histograms such as
+ * `_createdDateTime:month`. The metrics are `count`, and `sum`, `avg`, `min`
+ * and `max` of a numeric field, such as `avg:price`.
+ */
+@injectable()
+export class AggregateService {
+  static readonly MAX_BUCKETS = 1000;
+
+  constructor(
+    @inject(MongoPipelineHelperBindings.HELPER)
+    private mongoPipelineHelper: MongoPipelineHelper,
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+  ) {}
+
+  /**
+   * Aggregates the records matching the given where clause through the given
+   * repository.
+   *
+   * @param repository - Repository of the records to aggregate
+   * @param where - Where clause matching the records to aggregate
+   * @param groupBy - Comma separated fields to group by, e.g. `_kind,status`
+   * or `_createdDateTime:month`. All records form a single bucket if omitted.
+   * @param metrics - Comma separated metrics, e.g. `count,avg:price`.
+   * Defaults to `count`.
+   * @param options - Transaction options of the request
+   * @returns The buckets, sorted by their group values
+   */
+  async aggregate(
+    repository: AggregatableRepository,
+    where: Where | undefined,
+    groupBy?: string,
+    metrics?: string,
+    options: Options = {},
+  ): Promise<AggregateBucket[]> {
+    const groups = this.parseGroupBy(groupBy);
+    const parsedMetrics = this.parseMetrics(metrics);
+
+    this.loggingService.info('AggregateService.aggregate - Aggregating:', {
+      groupBy: groups,
+      metrics: parsedMetrics,
+    });
+
+    // Read one more bucket than allowed to detect a truncated result
+    const documents = await repository.aggregate(
+      where,
+      (matchWhere) =>
+        this.mongoPipelineHelper.buildAggregatePipeline(
+          matchWhere,
+          groups,
+          parsedMetrics,
+          AggregateService.MAX_BUCKETS + 1,
+        ),
+      options,
+    );
+
+    if (documents.length > AggregateService.MAX_BUCKETS) {
+      throw new HttpErrorResponse({
+        statusCode: 400,
+        name: 'BadRequestError',
+        message: `The aggregation results in more than ${AggregateService.MAX_BUCKETS} buckets. Narrow down the where clause, or group by fewer fields or a larger interval.`,
+        code: 'TOO-MANY-AGGREGATE-BUCKETS',
+      });
+    }
+
+    return documents.map(
+      (document) =>
+        new AggregateBucket({
+          group: Object.fromEntries(
+            groups.map((group, index) => [
+              group.unit ? `${group.field}:${group.unit}` : group.field,
+              document._id?.[`g${index}`] ?? null,
+            ]),
+          ),
+          metrics: Object.fromEntries(
+            parsedMetrics.map((metric, index) => [
+              metric.field ? `${metric.operator}:${metric.field}` : 'count',
+              document[`m${index}`] ?? null,
+            ]),
+          ),
+        }),
+    );
+  }
+
+  private parseGroupBy(groupBy?: string): AggregateGroup[] {
+    return this.splitList(groupBy).map((entry) => {
+      const [field, unit, ...rest] = entry.split(':');
+
+      if (!FIELD_PATTERN.test(field) || rest.length > 0) {
+        throw this.invalidQuery(`Invalid groupBy field '${entry}'.`);
+      }
+
+      if (unit === undefined) {
+        return { field };
+      }
+
+      if (!DATE_HISTOGRAM_FIELDS.includes(field)) {
+        throw this.invalidQuery(
+          `Date histograms are only supported on ${DATE_HISTOGRAM_FIELDS.join(', ')}.`,
+        );
+      }
+
+      if (!DATE_HISTOGRAM_UNITS.includes(unit as DateHistogramUnit)) {
+        throw this.invalidQuery(
+          `Invalid date histogram interval '${unit}'. Supported intervals are ${DATE_HISTOGRAM_UNITS.join(', ')}.`,
+        );
+      }
+
+      return { field, unit: unit as DateHistogramUnit };
+    });
+  }
+
+  private parseMetrics(metrics?: string): AggregateMetric[] {
+    const entries = this.splitList(metrics);
+
+    return (entries.length ? entries : ['count']).map((entry) => {
+      if (entry === 'count') {
+        return { operator: 'count' };
+      }
+
+      const [operator, field, ...rest] = entry.split(':');
+
+      if (
+        !METRIC_OPERATORS.includes(operator) ||
+        !FIELD_PATTERN.test(field ?? '') ||
+        rest.length > 0
+      ) {
+        throw this.invalidQuery(
+          `Invalid metric '${entry}'. Metrics are count, or sum, avg, min and max of a field, e.g. avg:price.`,
+        );
+      }
+
+      return { operator: operator as AggregateMetric['operator'], field };
+    });
+  }
+
+  private splitList(value?: string): string[] {
+    return [
+      ...new Set(
+        (value ?? '')
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter((entry) => entry !== ''),
+      ),
+    ];
+  }
+
+  private invalidQuery(message: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 400,
+      name: 'BadRequestError',
+      message,
+      code: 'INVALID-AGGREGATE-QUERY',
+    });
+  }
+}
@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { AuditLogService } from './audit-log.service';
+
+export const AuditLogBindings = {
+  SERVICE: BindingKey.create<AuditLogService>('services.audit-log'),
+} as const;
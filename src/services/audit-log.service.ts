@@ -0,0 +1,231 @@
+import { inject, injectable } from '@loopback/core';
+import type { AnyObject, Filter, Options, Where } from '@loopback/repository';
+import { repository } from '@loopback/repository';
+import type { Request } from '@loopback/rest';
+import { RestBindings } from '@loopback/rest';
+import _ from 'lodash';
+import { LoggingService } from './logging.service';
+import {
+  ResponseLimitConfigBindings,
+  ResponseLimitConfigurationReader,
+} from '../extensions/config-helpers/response-limit-config-helper';
+import { AuditEntry, AuditFieldChange } from '../models';
+import type { RequestContext } from '../providers/request-context.provider';
+import { AuditEntryRepository } from '../repositories/core/audit-entry.repository';
+
+export type AuditOperation = 'create' | 'update' | 'replace' | 'delete';
+
+/**
+ * The states of a record before and after an operation. `before` is omitted
+ * for creations and `after` is omitted for deletions.
+ */
+export interface AuditedChange {
+  before?: AnyObject;
+  after?: AnyObject;
+  /** Id of the user who performed the operation, if not the `_lastUpdatedBy` of the record */
+  actor?: string;
+}
+
+/**
+ * Criteria for reading the audit log, in addition to the standard filter.
+ */
+export interface AuditQuery {
+  /** Id of the changed record */
+  recordId?: string;
+  /** Id of the user who performed the operation */
+  actor?: string;
+  /** Only return the entries recorded at or after this time */
+  from?: string;
+  /** Only return the entries recorded at or before this time */
+  to?: string;
+}
+
+/**
+ * Appends entries to the audit log and serves them for compliance queries.
+ *
+ * Repositories of all five models call this service after every create,
+ * update, replace and delete. Each entry keeps the id of the request and the
+ * route which performed the operation, the actor and the field-level diff of
+ * the record. Entries are written with the same options as the originating
+ * operation, so that they are committed or rolled back together with it.
+ */
+@injectable()
+export class AuditLogService {
+  /**
+   * Fields that are never part of a diff: response-only virtual fields and
+   * the internal idempotency key, which is never exposed to clients.
+   */
+  private readonly excludedFields = [
+    '_id',
+    '_recordType',
+    '_relationMetadata',
+    '_fromMetadata',
+    '_toMetadata',
+    '_idempotencyKey',
+  ];
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+    @repository(AuditEntryRepository)
+    private auditEntryRepository: AuditEntryRepository,
+    @inject(ResponseLimitConfigBindings.CONFIG_READER)
+    private responseLimitConfigReader: ResponseLimitConfigurationReader,
+    @inject('request.context', { optional: true })
+    private requestContext?: RequestContext,
+    @inject(RestBindings.Http.REQUEST, { optional: true })
+    private request?: Request,
+  ) {}
+
+  /**
+   * Appends an entry for the given change of a record to the audit log.
+   */
+  async recordChange(
+    recordType: string,
+    operation: AuditOperation,
+    change: AuditedChange,
+    options?: Options,
+  ): Promise<void> {
+    return this.recordChanges(recordType, operation, [change], options);
+  }
+
+  /**
+   * Appends an entry for each given change to the audit log.
+   *
+   * Unless given with the change, the actor is taken from the
+   * `_lastUpdatedBy` field of the record after the operation, or of its last
+   * state for deletions.
+   */
+  async recordChanges(
+    recordType: string,
+    operation: AuditOperation,
+    changes: AuditedChange[],
+    options?: Options,
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const requestId = this.getRequestId();
+    const route = this.request
+      ? `${this.request.method} ${this.request.path}`
+      : undefined;
+
+    const entries = changes.map((change) => {
+      const before = change.before ? this.toComparable(change.before) : {};
+      const after = change.after ? this.toComparable(change.after) : {};
+      const record = change.after ? after : before;
+
+      return {
+        _requestId: requestId,
+        _actor: change.actor ?? record._lastUpdatedBy,
+        _operation: operation,
+        _route: route,
+        _recordType: recordType,
+        _kind: record._kind,
+        _recordId: record._id,
+        _changes: this.getFieldChanges(before, after),
+        _auditDateTime: now,
+      };
+    });
+
+    this.loggingService.debug(
+      `AuditLogService.recordChanges - Recording ${entries.length} audit entry(ies):`,
+      {
+        recordType,
+        operation,
+        recordIds: entries.map((entry) => entry._recordId),
+      },
+    );
+
+    await this.auditEntryRepository.createAll(entries, options);
+  }
+
+  /**
+   * Returns the fields whose values differ between the two states of a
+   * record, with their values in both states.
+   */
+  getFieldChanges(before: AnyObject, after: AnyObject): AuditFieldChange[] {
+    const previous = this.toComparable(before);
+    const current = this.toComparable(after);
+
+    return _.union(Object.keys(previous), Object.keys(current))
+      .filter(
+        (field) =>
+          !this.excludedFields.includes(field) &&
+          !_.isEqual(previous[field], current[field]),
+      )
+      .map((field) => ({
+        field,
+        from: previous[field],
+        to: current[field],
+      }));
+  }
+
+  /**
+   * Reads the audit log. Entries are ordered by the time they were recorded
+   * unless the filter specifies another order. The number of entries returned
+   * is capped by the response limit of the audit log.
+   */
+  async findEntries(
+    query: AuditQuery,
+    filter?: Filter<AuditEntry>,
+    options?: Options,
+  ): Promise<AuditEntry[]> {
+    const conditions: Where<AuditEntry>[] = [];
+
+    if (query.recordId) {
+      conditions.push({ _recordId: query.recordId });
+    }
+
+    if (query.actor) {
+      conditions.push({ _actor: query.actor });
+    }
+
+    if (query.from) {
+      conditions.push({ _auditDateTime: { gte: query.from } });
+    }
+
+    if (query.to) {
+      conditions.push({ _auditDateTime: { lte: query.to } });
+    }
+
+    if (filter?.where) {
+      conditions.push(filter.where);
+    }
+
+    const responseLimit =
+      this.responseLimitConfigReader.getAuditResponseLimit();
+
+    return this.auditEntryRepository.find(
+      {
+        ...filter,
+        where: conditions.length > 0 ? { and: conditions } : undefined,
+        order: filter?.order ?? ['_auditDateTime ASC', '_id ASC'],
+        limit: Math.min(filter?.limit ?? responseLimit, responseLimit),
+      },
+      options,
+    );
+  }
+
+  private getRequestId(): string | undefined {
+    return (
+      this.requestContext?.requestId ??
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (this.request as any)?.requestId
+    );
+  }
+
+  /**
+   * Converts a record to its JSON representation, so that dates given as
+   * strings and as Date objects compare as equal, and fields set to undefined
+   * are left out.
+   */
+  private toComparable(record: AnyObject): AnyObject {
+    const plain =
+      typeof record.toJSON === 'function' ? record.toJSON() : record;
+
+    return JSON.parse(JSON.stringify(plain));
+  }
+}
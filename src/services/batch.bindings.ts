@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { BatchService } from './batch.service';
+
+export const BatchBindings = {
+  SERVICE: BindingKey.create<BatchService>('services.batch'),
+} as const;
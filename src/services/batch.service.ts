@@ -0,0 +1,234 @@
+import { inject, injectable } from '@loopback/core';
+import type { AnyObject, Options } from '@loopback/repository';
+import _ from 'lodash';
+import { LoggingService } from './logging.service';
+import type { BatchModel, BatchOperation } from '../models';
+import { BatchResult, HttpErrorResponse, SingleError } from '../models';
+import { STRICTLY_INTERNAL_FIELDS } from '../models/base-types/unmodifiable-common-fields';
+
+/**
+ * The part of a repository a batch operation needs.
+ */
+export interface BatchRepository {
+  create(data: AnyObject, options?: Options): Promise<AnyObject>;
+  findById(
+    id: string,
+    filter?: undefined,
+    options?: Options,
+  ): Promise<AnyObject>;
+  updateById(id: string, data: AnyObject, options?: Options): Promise<void>;
+  replaceById(id: string, data: AnyObject, options?: Options): Promise<void>;
+  deleteById(id: string, options?: Options): Promise<void>;
+}
+
+// Matches `$ref:<index>.<path>`, e.g. `$ref:0._id` or `$ref:2.tags[0]`
+const REFERENCE_PATTERN = /^\$ref:(\d+)\.(.+)$/;
+
+/**
+ * Applies the operations of a batch request one after the other, through the
+ * repositories of their models, so that each operation goes through the same
+ * checks as the single endpoint it corresponds to.
+ *
+ * All operations run in the transaction of the request. Later operations see
+ * the records written by the earlier ones, and can refer to their results.
+ * The first operation that fails is reported as the error of the request,
+ * which rolls back all the operations applied before it.
+ */
+@injectable()
+export class BatchService {
+  static readonly MAX_OPERATIONS = 100;
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+  ) {}
+
+  /**
+   * Applies the given operations in order and returns the outcome of each
+   * operation, in the order of the operations.
+   *
+   * @param operations - The operations to apply
+   * @param repositories - Repository of each model an operation can apply to
+   * @param options - Transaction options of the request
+   * @returns The outcome of each operation
+   */
+  async executeAll(
+    operations: BatchOperation[],
+    repositories: Record<BatchModel, BatchRepository>,
+    options: Options = {},
+  ): Promise<BatchResult[]> {
+    this.loggingService.info(
+      `BatchService.executeAll - Applying ${operations.length} operation(s):`,
+      { operations: operations.map((o) => `${o.op} ${o.model}`) },
+    );
+
+    const results: BatchResult[] = [];
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        results.push(
+          await this.execute(
+            index,
+            operation,
+            repositories[operation.model],
+            results,
+            options,
+          ),
+        );
+      } catch (error) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const err = error as any;
+        const statusCode = err?.statusCode ?? err?.status;
+
+        // Internal and transient errors are left to the transactional
+        // interceptor, which retries write conflicts
+        if (!statusCode || statusCode >= 500) {
+          throw error;
+        }
+
+        // LoopBack reports model validation errors with an underscored code
+        const code =
+          err.code === 'VALIDATION_FAILED' ? 'VALIDATION-FAILED' : err.code;
+
+        throw new HttpErrorResponse({
+          statusCode,
+          name: err.name,
+          message: `Operation at index ${index} failed, so none of the operations were applied. ${err.message}`,
+          code,
+          details: [
+            new SingleError({
+              path: `/${index}`,
+              code,
+              message: err.message,
+              info: {},
+            }),
+          ],
+        });
+      }
+    }
+
+    return results;
+  }
+
+  private async execute(
+    index: number,
+    operation: BatchOperation,
+    repository: BatchRepository,
+    results: BatchResult[],
+    options: Options,
+  ): Promise<BatchResult> {
+    this.checkManagedFields(operation);
+
+    const data = this.resolveReferences(
+      operation.data ?? {},
+      results,
+    ) as AnyObject;
+
+    if (operation.op === 'create') {
+      const created = await repository.create(data, options);
+
+      return new BatchResult({
+        index,
+        statusCode: 200,
+        data: this.toData(created),
+      });
+    }
+
+    if (operation.id === undefined) {
+      throw new HttpErrorResponse({
+        statusCode: 422,
+        name: 'UnprocessableEntityError',
+        message: `The id of the record to ${operation.op} is required.`,
+        code: 'INVALID-BATCH-OPERATION',
+      });
+    }
+
+    const id = String(this.resolveReferences(operation.id, results));
+
+    if (operation.op === 'delete') {
+      await repository.deleteById(id, options);
+
+      return new BatchResult({ index, statusCode: 204 });
+    }
+
+    if (operation.op === 'replace') {
+      await repository.replaceById(id, data, options);
+    } else {
+      await repository.updateById(id, data, options);
+    }
+
+    // Read the record back, so that later operations can refer to its fields
+    const record = await repository.findById(id, undefined, options);
+
+    return new BatchResult({
+      index,
+      statusCode: 200,
+      data: this.toData(record),
+    });
+  }
+
+  /**
+   * Rejects data setting fields managed by the service, which the endpoints
+   * of the models leave out of the request bodies. Updates and replaces may
+   * carry the version the client based them on, as with `If-Match`.
+   */
+  private checkManagedFields(operation: BatchOperation): void {
+    const managedField = Object.keys(operation.data ?? {}).find(
+      (field) =>
+        STRICTLY_INTERNAL_FIELDS.includes(field) &&
+        !(field === '_version' && operation.op !== 'create'),
+    );
+
+    if (managedField !== undefined) {
+      throw new HttpErrorResponse({
+        statusCode: 422,
+        name: 'UnprocessableEntityError',
+        message: `Field '${managedField}' is managed by the service and cannot be set by a batch operation.`,
+        code: 'INVALID-BATCH-OPERATION',
+      });
+    }
+  }
+
+  /**
+   * Replaces the references to the results of earlier operations in the
+   * given value, at any depth.
+   */
+  private resolveReferences(value: unknown, results: BatchResult[]): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveReferences(item, results));
+    }
+
+    if (_.isPlainObject(value)) {
+      return _.mapValues(value as AnyObject, (item) =>
+        this.resolveReferences(item, results),
+      );
+    }
+
+    const match =
+      typeof value === 'string' ? REFERENCE_PATTERN.exec(value) : null;
+
+    if (!match) {
+      return value;
+    }
+
+    const [, refIndex, path] = match;
+
+    // Results are only available for the operations before this one
+    const resolved = _.get(results[Number(refIndex)]?.data, path);
+
+    if (resolved === undefined) {
+      throw new HttpErrorResponse({
+        statusCode: 422,
+        name: 'UnprocessableEntityError',
+        message: `Reference '${value}' cannot be resolved. References must point to a field of the result of an earlier operation.`,
+        code: 'INVALID-BATCH-REFERENCE',
+      });
+    }
+
+    return resolved;
+  }
+
+  private toData(record: AnyObject): AnyObject {
+    return typeof record.toJSON === 'function' ? record.toJSON() : record;
+  }
+}
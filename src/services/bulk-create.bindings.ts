@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { BulkCreateService } from './bulk-create.service';
+
+export const BulkCreateBindings = {
+  SERVICE: BindingKey.create<BulkCreateService>('services.bulk-create'),
+} as const;
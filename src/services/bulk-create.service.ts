@@ -0,0 +1,457 @@
+import { inject, injectable } from '@loopback/core';
+import type { AnyObject, Options } from '@loopback/repository';
+import type { Request } from '@loopback/rest';
+import { RestBindings } from '@loopback/rest';
+import _ from 'lodash';
+import { LoggingService } from './logging.service';
+import { RecordLimitCheckerBindings } from './record-limit-checker.bindings';
+import type {
+  EntityModelClass,
+  RecordLimitCheckerService,
+} from './record-limit-checker.service';
+import { EntityDbDataSource } from '../datasources/entity-db.datasource';
+import type { ImportLine } from '../extensions/utils/import-helper';
+import {
+  BulkCreateResult,
+  HttpErrorResponse,
+  ImportResult,
+  SingleError,
+} from '../models';
+import { STRICTLY_INTERNAL_FIELDS } from '../models/base-types/unmodifiable-common-fields';
+
+/**
+ * - `atomic`: all items are created in the transaction of the request. If an
+ *   item fails, none of the items are created.
+ * - `best-effort`: each item is created in its own transaction. Failed items
+ *   are reported and the remaining items are still created.
+ */
+export type BulkCreateMode = 'atomic' | 'best-effort';
+
+/**
+ * Keys of the records checked by a dry-run import, kept across its chunks.
+ */
+interface DryRunKeys {
+  /** Id of the record each uniqueness key was checked with */
+  uniqueness: Map<string, string>;
+  idempotency: Set<string>;
+}
+
+/**
+ * Creates the items of a bulk create request one after the other through the
+ * repository of the model, so that each item goes through the same
+ * idempotency, uniqueness, record limit and lookup checks as a single create.
+ *
+ * Items are created sequentially and every check reads with the session the
+ * item is created in. In atomic mode, this is the session of the request, in
+ * which the items created before are already visible. In best-effort mode,
+ * the items created before are already committed. Either way, the checks of
+ * an item account for the other items of the same batch.
+ */
+@injectable()
+export class BulkCreateService {
+  static readonly MAX_ITEMS = 1000;
+  static readonly DRY_RUN_CHUNK_SIZE = 1000;
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+    @inject('datasources.EntityDb')
+    private dataSource: EntityDbDataSource,
+    @inject(RecordLimitCheckerBindings.SERVICE)
+    private recordLimitChecker: RecordLimitCheckerService,
+    @inject(RestBindings.Http.REQUEST, { optional: true })
+    private request?: Request,
+  ) {}
+
+  /**
+   * Creates the given items with the given create function and returns the
+   * outcome of each item, in the order of the items.
+   *
+   * @param items - The items to create
+   * @param mode - Whether the items are created all-or-nothing or best-effort
+   * @param create - Creates a single item with the given options
+   * @param options - Transaction options of the request, used in atomic mode
+   * @returns The outcome of each item
+   */
+  async createAll<T>(
+    items: T[],
+    mode: BulkCreateMode,
+    create: (item: T, options: Options) => Promise<AnyObject>,
+    options: Options = {},
+  ): Promise<BulkCreateResult[]> {
+    this.loggingService.info(
+      `BulkCreateService.createAll - Creating ${items.length} item(s):`,
+      { mode },
+    );
+
+    if (mode === 'best-effort') {
+      return this.createEachInOwnTransaction(items, create);
+    }
+
+    return this.createAllOrNothing(items, create, options);
+  }
+
+  /**
+   * Creates the records of an import file one after the other, each in its
+   * own transaction, and yields the outcome of each line as soon as it is
+   * known. Lines are read as they are needed, so that files of any size can be
+   * imported without holding them in memory. Lines which could not be read are
+   * reported with their error. The fields managed by the service, such as
+   * the `_id` and `_version` of an exported record, are left out of each
+   * record, as the repositories leave them out for the single create endpoint.
+   *
+   * In dry-run mode, the records are created in chunks of up to
+   * DRY_RUN_CHUNK_SIZE records, each in a transaction which is rolled back
+   * once its records are checked, so that every check of the creation runs
+   * without writing anything and no transaction grows with the file. Each
+   * line goes through all checks against the existing records and the
+   * earlier lines of its chunk. The uniqueness and idempotency keys of the
+   * lines are also kept for the whole file, so that each line is checked
+   * against the uniqueness of the lines of the earlier chunks as well, even
+   * when an internal error aborted the transaction, which is then started
+   * over with a new chunk. Record limits are only counted within a chunk.
+   *
+   * @param lines - The lines of the import file
+   * @param modelClass - The model the records are created in
+   * @param create - Creates a single record with the given options
+   * @param dryRun - Only check the records, without creating them
+   */
+  async *importAll(
+    lines: AsyncIterable<ImportLine>,
+    modelClass: EntityModelClass,
+    create: (record: AnyObject, options: Options) => Promise<AnyObject>,
+    dryRun = false,
+  ): AsyncGenerator<ImportResult> {
+    this.loggingService.info('BulkCreateService.importAll - Importing:', {
+      dryRun,
+    });
+
+    const dryRunTransaction = dryRun ? this.startTransaction() : undefined;
+    let checkedInChunk = 0;
+    const dryRunKeys: DryRunKeys = {
+      uniqueness: new Map(),
+      idempotency: new Set(),
+    };
+
+    try {
+      for await (const { line, record, error } of lines) {
+        if (error) {
+          yield new ImportResult({
+            line,
+            statusCode: error.statusCode,
+            error: this.toErrorResponse(error),
+          });
+
+          continue;
+        }
+
+        const data = _.omit(record, STRICTLY_INTERNAL_FIELDS);
+
+        if (
+          dryRunTransaction &&
+          checkedInChunk === BulkCreateService.DRY_RUN_CHUNK_SIZE
+        ) {
+          await this.startOver(dryRunTransaction.session);
+          checkedInChunk = 0;
+        }
+
+        checkedInChunk++;
+
+        try {
+          const created = dryRunTransaction
+            ? await create(data, dryRunTransaction.options)
+            : await this.runInTransaction((options) => create(data, options));
+
+          if (dryRunTransaction) {
+            this.checkAgainstEarlierLines(created, modelClass, dryRunKeys);
+          }
+
+          yield new ImportResult({
+            line,
+            statusCode: 200,
+            _id: dryRun ? undefined : created._id,
+          });
+        } catch (createError) {
+          const lineError = this.toErrorResponse(createError);
+
+          if (lineError.statusCode >= 500) {
+            this.loggingService.error(
+              `BulkCreateService.importAll - Line ${line} failed:`,
+              {
+                error:
+                  createError instanceof Error
+                    ? createError.message
+                    : createError,
+              },
+            );
+
+            if (dryRunTransaction) {
+              await this.startOver(dryRunTransaction.session);
+              checkedInChunk = 0;
+            }
+          }
+
+          yield new ImportResult({
+            line,
+            statusCode: lineError.statusCode,
+            error: lineError,
+          });
+        }
+      }
+    } finally {
+      if (dryRunTransaction) {
+        await this.abortQuietly(dryRunTransaction.session);
+        await dryRunTransaction.session.endSession();
+      }
+    }
+  }
+
+  /**
+   * Checks a record created by a dry-run import against the uniqueness keys
+   * of the earlier lines, whose chunks may have been rolled back already, and
+   * keeps its keys for the lines after it. A record with the idempotency key
+   * of an earlier line is not created by the import, so it is not checked.
+   * Throws the uniqueness violation the import would have failed with.
+   */
+  private checkAgainstEarlierLines(
+    created: AnyObject,
+    modelClass: EntityModelClass,
+    keys: DryRunKeys,
+  ): void {
+    const record =
+      typeof created.toJSON === 'function' ? created.toJSON() : created;
+    const idempotencyKey: string | undefined = record._idempotencyKey;
+
+    if (idempotencyKey && keys.idempotency.has(idempotencyKey)) {
+      return;
+    }
+
+    const uniquenessKeys = this.recordLimitChecker.getUniquenessKeys(
+      modelClass,
+      record,
+    );
+    const conflict = uniquenessKeys.find((key) => {
+      const checkedId = keys.uniqueness.get(key);
+
+      return checkedId !== undefined && checkedId !== record._id;
+    });
+
+    if (conflict !== undefined) {
+      throw this.recordLimitChecker.createUniquenessViolationError(
+        modelClass.modelName,
+        conflict,
+      );
+    }
+
+    for (const key of uniquenessKeys) {
+      keys.uniqueness.set(key, record._id);
+    }
+
+    if (idempotencyKey) {
+      keys.idempotency.add(idempotencyKey);
+    }
+  }
+
+  /**
+   * Creates the items in the transaction of the request. The first item that
+   * fails is reported as the error of the request, which rolls back the items
+   * created before it.
+   */
+  private async createAllOrNothing<T>(
+    items: T[],
+    create: (item: T, options: Options) => Promise<AnyObject>,
+    options: Options,
+  ): Promise<BulkCreateResult[]> {
+    const results: BulkCreateResult[] = [];
+
+    for (const [index, item] of items.entries()) {
+      try {
+        const created = await create(item, options);
+
+        results.push(this.toCreatedResult(index, created));
+      } catch (error) {
+        const itemError = this.toErrorResponse(error);
+
+        // Internal and transient errors are left to the transactional
+        // interceptor, which retries write conflicts
+        if (itemError.statusCode >= 500) {
+          throw error;
+        }
+
+        throw new HttpErrorResponse({
+          statusCode: itemError.statusCode,
+          name: itemError.name,
+          message: `Item at index ${index} could not be created, so none of the items were created. ${itemError.message}`,
+          code: itemError.code,
+          details: [
+            new SingleError({
+              path: `/${index}`,
+              code: itemError.code,
+              message: itemError.message,
+              info: {},
+            }),
+          ],
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Creates each item in its own transaction, so that a failed item leaves
+   * no trace and does not affect the other items.
+   */
+  private async createEachInOwnTransaction<T>(
+    items: T[],
+    create: (item: T, options: Options) => Promise<AnyObject>,
+  ): Promise<BulkCreateResult[]> {
+    const results: BulkCreateResult[] = [];
+
+    for (const [index, item] of items.entries()) {
+      try {
+        const created = await this.runInTransaction((options) =>
+          create(item, options),
+        );
+
+        results.push(this.toCreatedResult(index, created));
+      } catch (error) {
+        const itemError = this.toErrorResponse(error);
+
+        if (itemError.statusCode >= 500) {
+          this.loggingService.error(
+            `BulkCreateService.createAll - Item at index ${index} failed:`,
+            { error: error instanceof Error ? error.message : error },
+          );
+        }
+
+        results.push(
+          new BulkCreateResult({
+            index,
+            statusCode: itemError.statusCode,
+            error: itemError,
+          }),
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Runs the given function in a transaction of its own, which is committed
+   * once the function succeeds.
+   */
+  private async runInTransaction<R>(
+    fn: (options: Options) => Promise<R>,
+  ): Promise<R> {
+    const { session, options } = this.startTransaction();
+
+    try {
+      let result: R;
+
+      try {
+        result = await fn(options);
+      } catch (error) {
+        await this.abortQuietly(session);
+
+        throw error;
+      }
+
+      // A failed commit is not followed by an abort, which would fail as
+      // well and hide the error of the commit
+      await session.commitTransaction();
+
+      return result;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  /**
+   * Starts a session with a transaction, and returns it with the options
+   * to pass to the repositories to run in the transaction.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private startTransaction(): { session: any; options: Options } {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const client = (this.dataSource.connector as any).client;
+    const session = client.startSession();
+    session.startTransaction();
+
+    // Keep the session out of the logs, as it cannot be serialized
+    const options = {};
+    Object.defineProperty(options, 'session', {
+      value: session,
+      enumerable: false,
+    });
+
+    return { session, options };
+  }
+
+  /**
+   * Rolls back the transaction of the given session after a failure. An error
+   * of the rollback is only logged, so that the original failure is reported.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async abortQuietly(session: any): Promise<void> {
+    try {
+      await session.abortTransaction();
+    } catch (error) {
+      this.loggingService.warn(
+        'BulkCreateService.abortQuietly - Transaction could not be rolled back:',
+        { error: error instanceof Error ? error.message : error },
+      );
+    }
+  }
+
+  /**
+   * Rolls back the transaction of the given session and starts a new one in
+   * the same session.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async startOver(session: any): Promise<void> {
+    await this.abortQuietly(session);
+    session.startTransaction();
+  }
+
+  private toCreatedResult(index: number, created: AnyObject): BulkCreateResult {
+    return new BulkCreateResult({
+      index,
+      statusCode: 200,
+      data: typeof created.toJSON === 'function' ? created.toJSON() : created,
+    });
+  }
+
+  /**
+   * Converts the error of an item to the response the single create endpoint
+   * would have returned. Internal errors are masked, as in the sequence.
+   */
+  private toErrorResponse(error: unknown): HttpErrorResponse {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const err = error as any;
+    const statusCode = err?.statusCode ?? err?.status;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const requestId = (this.request as any)?.requestId;
+
+    if (!statusCode || statusCode >= 500) {
+      return new HttpErrorResponse({
+        statusCode: 500,
+        name: 'InternalServerError',
+        message: 'An internal error occurred.',
+        code: 'INTERNAL-SERVER-ERROR',
+        requestId,
+      });
+    }
+
+    return new HttpErrorResponse({
+      statusCode,
+      name: err.name,
+      message: err.message,
+      // LoopBack reports model validation errors with an underscored code
+      code: err.code === 'VALIDATION_FAILED' ? 'VALIDATION-FAILED' : err.code,
+      requestId,
+      details: err.details,
+    });
+  }
+}
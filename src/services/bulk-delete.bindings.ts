@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { BulkDeleteService } from './bulk-delete.service';
+
+export const BulkDeleteBindings = {
+  SERVICE: BindingKey.create<BulkDeleteService>('services.bulk-delete'),
+} as const;
@@ -0,0 +1,130 @@
+import { inject, injectable } from '@loopback/core';
+import type { Count, Options, Where } from '@loopback/repository';
+import { LoggingService } from './logging.service';
+import { EnvConfigHelper } from '../extensions/config-helpers/env-config-helper';
+import { extendOptions } from '../extensions/utils/options-helper';
+import { BulkDeleteResult, HttpErrorResponse } from '../models';
+
+/**
+ * The part of a repository a bulk delete needs.
+ */
+export interface BulkDeletableRepository {
+  count(where?: Where, options?: Options): Promise<Count>;
+  findIds(where?: Where, options?: Options): Promise<string[]>;
+  deleteAll(where?: Where, options?: Options): Promise<Count>;
+}
+
+export interface BulkDeleteOptions {
+  /**
+   * The caller confirms that all matching records are to be deleted.
+   */
+  confirm?: boolean;
+
+  /**
+   * Only match the records, without deleting them.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Id of the user deleting the records.
+   */
+  deletedBy?: string;
+}
+
+/**
+ * Deletes the records matching a filter, with the safeguards a delete of many
+ * records at once requires. The request must be explicitly confirmed, unless
+ * it is a dry run, and the number of matching records must not exceed the
+ * maximum batch size.
+ *
+ * The matching records are counted before they are resolved, so that a filter
+ * matching too many records is rejected without loading their ids. The
+ * matching records are resolved once, and exactly these records are deleted,
+ * so that the result reports the records that were deleted. Records in the
+ * trash are never matched, not even by a filter explicitly querying them, as
+ * deleting them again would not delete them.
+ */
+@injectable()
+export class BulkDeleteService {
+  static readonly DEFAULT_MAX_BATCH_SIZE = 1000;
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+  ) {}
+
+  /**
+   * Deletes the records matching the given where clause through the given
+   * repository, so that the soft delete, revision, change feed and audit
+   * behaviour of a single delete applies to each record.
+   *
+   * @param repository - Repository of the records to delete
+   * @param where - Where clause matching the records to delete
+   * @param bulkDeleteOptions - Confirmation, dry-run and actor of the request
+   * @param options - Transaction options of the request
+   * @returns The ids of the matched records, with the number of records
+   * deleted, or matched in a dry run
+   */
+  async deleteAll(
+    repository: BulkDeletableRepository,
+    where: Where | undefined,
+    bulkDeleteOptions: BulkDeleteOptions,
+    options: Options = {},
+  ): Promise<BulkDeleteResult> {
+    const { confirm, dryRun, deletedBy } = bulkDeleteOptions;
+
+    if (!dryRun && !confirm) {
+      throw new HttpErrorResponse({
+        statusCode: 400,
+        name: 'BadRequestError',
+        message:
+          'Deleting records by filter must be confirmed with the confirm=true query parameter. Use dryRun=true to see the records that would be deleted.',
+        code: 'BULK-DELETE-NOT-CONFIRMED',
+      });
+    }
+
+    const notInTrash: Where = { _deletedDateTime: null };
+    where = where ? { and: [where, notInTrash] } : notInTrash;
+
+    const { count } = await repository.count(where, options);
+    const maxBatchSize = this.getMaxBatchSize();
+
+    if (count > maxBatchSize) {
+      throw new HttpErrorResponse({
+        statusCode: 422,
+        name: 'BulkDeleteLimitExceededError',
+        message: `Filter matches ${count} records, which exceeds the maximum batch size of ${maxBatchSize}. Narrow down the filter.`,
+        code: 'BULK-DELETE-LIMIT-EXCEEDED',
+      });
+    }
+
+    const ids = await repository.findIds(where, options);
+
+    this.loggingService.info(
+      `BulkDeleteService.deleteAll - Matched ${ids.length} record(s):`,
+      { dryRun: !!dryRun },
+    );
+
+    if (dryRun) {
+      return new BulkDeleteResult({ count: ids.length, ids, dryRun: true });
+    }
+
+    if (ids.length === 0) {
+      return new BulkDeleteResult({ count: 0, ids });
+    }
+
+    const deleted = await repository.deleteAll(
+      { _id: { inq: ids } },
+      deletedBy ? extendOptions(options, { deletedBy }) : options,
+    );
+
+    return new BulkDeleteResult({ count: deleted.count, ids });
+  }
+
+  private getMaxBatchSize(): number {
+    return (
+      EnvConfigHelper.getInstance().BULK_DELETE_MAX_BATCH_SIZE ??
+      BulkDeleteService.DEFAULT_MAX_BATCH_SIZE
+    );
+  }
+}
@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { ChangeFeedService } from './change-feed.service';
+
+export const ChangeFeedBindings = {
+  SERVICE: BindingKey.create<ChangeFeedService>('services.change-feed'),
+} as const;
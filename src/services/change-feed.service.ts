@@ -0,0 +1,297 @@
+import { inject, injectable } from '@loopback/core';
+import type { AnyObject, Options, Where } from '@loopback/repository';
+import { repository } from '@loopback/repository';
+import _ from 'lodash';
+import { LoggingService } from './logging.service';
+import { WebhookBindings } from './webhook.bindings';
+import { WebhookService } from './webhook.service';
+import { EnvConfigHelper } from '../extensions/config-helpers/env-config-helper';
+import { ChangeEvent, HttpErrorResponse } from '../models';
+import { ChangeEventRepository } from '../repositories/core/change-event.repository';
+
+export type ChangeOperation = 'create' | 'update' | 'replace' | 'delete';
+
+/**
+ * Criteria for reading the change feed.
+ */
+export interface ChangeFeedQuery {
+  /**
+   * Id of the last event the caller has processed. Only the events recorded
+   * after it are returned.
+   */
+  after?: string;
+  /** Record type of the events (entity, list, entityReaction, listReaction) */
+  model?: string;
+  /** Kind of the changed records */
+  kind?: string;
+  /** Maximum number of events to return */
+  limit?: number;
+}
+
+/**
+ * Appends change events to the outbox collection and serves them as a feed.
+ *
+ * Repositories call this service after every create, update and replace, and
+ * before every delete. Events are written with the same options as the
+ * originating operation, so that they are committed or rolled back together
+ * with it. Each event is positioned in `_sequence` by the time it was
+ * recorded, and the feed only serves the events recorded longer ago than the
+ * read lag, so that the transactions still open when a consumer reads the
+ * feed are committed before their events are reached. The position is not
+ * the commit time of the event: the default read lag covers the longest a
+ * MongoDB transaction may stay open, with a margin for the differences
+ * between the clocks of the instances. An event whose transaction commits
+ * later than the read lag after recording it, which is only possible with a
+ * lower read lag, a longer transaction lifetime on the server or clocks
+ * further apart, is placed before events a consumer may already have read,
+ * and is missed by that consumer. Consumers read the feed
+ * in this order and resume it with the id of the last event they have
+ * processed. Recorded events are also handed to the WebhookService, which
+ * queues their delivery to the matching webhook subscriptions.
+ */
+@injectable()
+export class ChangeFeedService {
+  static readonly DEFAULT_LIMIT = 100;
+  static readonly MAX_LIMIT = 1000;
+  // Default `transactionLifetimeLimitSeconds` of MongoDB, after which open
+  // transactions are aborted
+  static readonly MAX_TRANSACTION_LIFETIME_MS = 60000;
+  // Allowance for the commit itself and the clock differences of the instances
+  static readonly CLOCK_SKEW_MARGIN_MS = 5000;
+  static readonly DEFAULT_READ_LAG_MS =
+    ChangeFeedService.MAX_TRANSACTION_LIFETIME_MS +
+    ChangeFeedService.CLOCK_SKEW_MARGIN_MS;
+
+  // Last position given to an event by this instance
+  private static lastSequence = 0;
+
+  /**
+   * Fields that are never reported as changed: response-only virtual fields
+   * and the internal idempotency key, which is never exposed to clients.
+   */
+  private readonly excludedFields = [
+    '_id',
+    '_recordType',
+    '_relationMetadata',
+    '_fromMetadata',
+    '_toMetadata',
+    '_idempotencyKey',
+  ];
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+    @repository(ChangeEventRepository)
+    private changeEventRepository: ChangeEventRepository,
+    @inject(WebhookBindings.SERVICE)
+    private webhookService: WebhookService,
+  ) {}
+
+  /**
+   * Appends an event for the given record to the outbox.
+   */
+  async recordChange(
+    recordType: string,
+    operation: ChangeOperation,
+    record: AnyObject,
+    changedFields: string[],
+    options?: Options,
+  ): Promise<void> {
+    return this.recordChanges(
+      recordType,
+      operation,
+      [record],
+      changedFields,
+      options,
+    );
+  }
+
+  /**
+   * Appends an event for each given record to the outbox.
+   *
+   * Records must be given in their state after the operation, or in their
+   * last state for deletions. The actor of the change is taken from the
+   * `_lastUpdatedBy` field of the record, and the scopes of the webhook
+   * subscriptions are evaluated against the given state.
+   */
+  async recordChanges(
+    recordType: string,
+    operation: ChangeOperation,
+    records: AnyObject[],
+    changedFields: string[],
+    options?: Options,
+  ): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const plainRecords = records.map((record) => this.toPlainObject(record));
+    const firstSequence = this.allocateSequence(plainRecords.length);
+
+    const events = plainRecords.map((record, index) => ({
+      _recordType: recordType,
+      _kind: record._kind,
+      _recordId: record._id,
+      _version: record._version,
+      _operation: operation,
+      _changedFields: changedFields,
+      _actor: record._lastUpdatedBy,
+      _changeDateTime: now,
+      _sequence: firstSequence + index,
+    }));
+
+    this.loggingService.debug(
+      `ChangeFeedService.recordChanges - Recording ${events.length} change(s):`,
+      {
+        recordType,
+        operation,
+        recordIds: events.map((event) => event._recordId),
+      },
+    );
+
+    const createdEvents = await this.changeEventRepository.createAll(
+      events,
+      options,
+    );
+
+    await this.webhookService.enqueueDeliveries(
+      createdEvents,
+      plainRecords,
+      options,
+    );
+  }
+
+  /**
+   * Returns the names of the fields whose values differ between the two
+   * states of a record. For create and update operations only the fields in
+   * the new state are compared, as the other fields are left as they are.
+   * For replace operations the fields removed from the record are included.
+   */
+  getChangedFields(
+    before: AnyObject | undefined,
+    after: AnyObject,
+    operation: ChangeOperation,
+  ): string[] {
+    const previous = this.toComparable(before ?? {});
+    const current = this.toComparable(after);
+
+    const fields =
+      operation === 'replace'
+        ? _.union(Object.keys(previous), Object.keys(current))
+        : Object.keys(current);
+
+    return fields.filter(
+      (field) =>
+        !this.excludedFields.includes(field) &&
+        !_.isEqual(previous[field], current[field]),
+    );
+  }
+
+  /**
+   * Reads the events recorded after the given cursor, in the order they were
+   * recorded. Events recorded within the read lag are left for a later read.
+   */
+  async findChanges(
+    query: ChangeFeedQuery,
+    options?: Options,
+  ): Promise<ChangeEvent[]> {
+    const conditions: Where<ChangeEvent>[] = [];
+
+    if (query.model) {
+      conditions.push({ _recordType: query.model });
+    }
+
+    if (query.kind) {
+      conditions.push({ _kind: query.kind });
+    }
+
+    if (query.after) {
+      const cursor = await this.changeEventRepository.findOne(
+        { where: { _id: query.after } },
+        options,
+      );
+
+      if (!cursor) {
+        throw this.createInvalidCursorError(query.after);
+      }
+
+      conditions.push({
+        or: [
+          { _sequence: { gt: cursor._sequence } },
+          { _sequence: cursor._sequence, _id: { gt: cursor._id } },
+        ],
+      });
+    }
+
+    conditions.push({
+      _sequence: { lte: (Date.now() - this.getReadLag()) * 1000 },
+    });
+
+    const limit = Math.min(
+      query.limit ?? ChangeFeedService.DEFAULT_LIMIT,
+      ChangeFeedService.MAX_LIMIT,
+    );
+
+    return this.changeEventRepository.find(
+      {
+        where: { and: conditions },
+        order: ['_sequence ASC', '_id ASC'],
+        limit,
+      },
+      options,
+    );
+  }
+
+  /**
+   * Returns the time in milliseconds an event is held back from the feed
+   * after it was recorded.
+   */
+  private getReadLag(): number {
+    return (
+      EnvConfigHelper.getInstance().CHANGE_FEED_READ_LAG_MS ??
+      ChangeFeedService.DEFAULT_READ_LAG_MS
+    );
+  }
+
+  /**
+   * Reserves the given number of consecutive positions in the change feed and
+   * returns the first of them.
+   *
+   * Positions are the current time in microseconds, raised above the last
+   * position given by this instance, so that the events recorded one after
+   * the other by an instance keep their order even within a millisecond.
+   * Events recorded by different instances with the same position are
+   * ordered by their ids.
+   */
+  private allocateSequence(count: number): number {
+    const first = Math.max(
+      Date.now() * 1000,
+      ChangeFeedService.lastSequence + 1,
+    );
+    ChangeFeedService.lastSequence = first + count - 1;
+
+    return first;
+  }
+
+  private createInvalidCursorError(cursor: string): HttpErrorResponse {
+    return new HttpErrorResponse({
+      statusCode: 400,
+      name: 'InvalidCursorError',
+      message: `Change event with id '${cursor}' could not be found. The cursor must be the id of a change event.`,
+      code: 'INVALID-CHANGE-CURSOR',
+    });
+  }
+
+  /**
+   * Converts a record to its JSON representation, so that dates given as
+   * strings and as Date objects compare as equal.
+   */
+  private toComparable(record: AnyObject): AnyObject {
+    return JSON.parse(JSON.stringify(this.toPlainObject(record)));
+  }
+
+  private toPlainObject(record: AnyObject): AnyObject {
+    return typeof record.toJSON === 'function' ? record.toJSON() : record;
+  }
+}
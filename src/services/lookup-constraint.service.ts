@@ -253,8 +253,15 @@ export class LookupConstraintService {
       }
     }
 
-    // Only validate target kinds if targetKind is specified
-    if (constraint.targetKind) {
+    // Parent reactions must belong to the same entity or list as the
+    // reaction, which is validated even if no targetKind is specified
+    const validatesParentSource =
+      constraint.propertyPath === '_parents' &&
+      constraint.record === recordType &&
+      (recordType === 'entity-reaction' || recordType === 'list-reaction');
+
+    // Only fetch the referenced records if there is something to validate on them
+    if (constraint.targetKind !== undefined || validatesParentSource) {
       const extractedIds = ids.map((id) => this.extractIdFromReference(id));
 
       // Get the appropriate repository based on the record type
@@ -280,7 +287,9 @@ export class LookupConstraintService {
 
       const allValidKind = every(
         items,
-        (target) => target._kind === constraint.targetKind,
+        (target) =>
+          constraint.targetKind === undefined ||
+          target._kind === constraint.targetKind,
       );
       if (!allValidKind) {
         throw new HttpErrorResponse({
@@ -690,26 +690,61 @@ export class RecordLimitCheckerService {
       }
 
       if (count.count > 0) {
-        const errorCodePrefix = this.getErrorCodePrefix(modelName);
-        const errorCode = `${errorCodePrefix}-UNIQUENESS-VIOLATION`;
-        const friendlyName = this.getFriendlyModelName(modelName);
-
-        throw new HttpErrorResponse({
-          statusCode: 409,
-          name: 'UniquenessViolationError',
-          message: `${friendlyName.charAt(0).toUpperCase() + friendlyName.slice(1)} already exists`,
-          code: errorCode,
-          details: [
-            new SingleError({
-              code: errorCode,
-              message: `${friendlyName.charAt(0).toUpperCase() + friendlyName.slice(1)} already exists`,
-              info: {
-                scope: interpolatedScope,
-              },
-            }),
-          ],
-        });
+        throw this.createUniquenessViolationError(modelName, interpolatedScope);
       }
     }
   }
+
+  /**
+   * Returns the uniqueness scopes of the model the given record falls in,
+   * interpolated with the values of the record. Two records sharing a key
+   * violate the uniqueness of the model.
+   */
+  getUniquenessKeys<T extends Entity>(
+    modelClass: EntityModelClass,
+    record: DataObject<T>,
+  ): string[] {
+    const uniquenessScopes = this.getUniquenessScopes(modelClass.modelName);
+
+    if (!uniquenessScopes) {
+      return [];
+    }
+
+    return uniquenessScopes
+      .map((scope) => this.interpolateScope(scope, record))
+      .filter((interpolatedScope) =>
+        this.recordMatchesFilter(
+          record,
+          this.scopeToFilter(interpolatedScope).filter,
+        ),
+      );
+  }
+
+  /**
+   * Creates the error of a record violating the given uniqueness scope.
+   */
+  createUniquenessViolationError(
+    modelName: string,
+    interpolatedScope: string,
+  ): HttpErrorResponse {
+    const errorCodePrefix = this.getErrorCodePrefix(modelName);
+    const errorCode = `${errorCodePrefix}-UNIQUENESS-VIOLATION`;
+    const friendlyName = this.getFriendlyModelName(modelName);
+
+    return new HttpErrorResponse({
+      statusCode: 409,
+      name: 'UniquenessViolationError',
+      message: `${friendlyName.charAt(0).toUpperCase() + friendlyName.slice(1)} already exists`,
+      code: errorCode,
+      details: [
+        new SingleError({
+          code: errorCode,
+          message: `${friendlyName.charAt(0).toUpperCase() + friendlyName.slice(1)} already exists`,
+          info: {
+            scope: interpolatedScope,
+          },
+        }),
+      ],
+    });
+  }
 }
@@ -0,0 +1,8 @@
+import { BindingKey } from '@loopback/core';
+import type { RevisionHistoryService } from './revision-history.service';
+
+export const RevisionHistoryBindings = {
+  SERVICE: BindingKey.create<RevisionHistoryService>(
+    'services.revision-history',
+  ),
+} as const;
@@ -0,0 +1,190 @@
+import { inject, injectable } from '@loopback/core';
+import type { AnyObject, Filter, Options } from '@loopback/repository';
+import { repository } from '@loopback/repository';
+import _ from 'lodash';
+import { LoggingService } from './logging.service';
+import {
+  HistoryConfigBindings,
+  HistoryConfigurationReader,
+} from '../extensions/config-helpers/history-config-helper';
+import { STRICTLY_INTERNAL_FIELDS } from '../models/base-types/unmodifiable-common-fields';
+import { RecordRevision } from '../models/record-revision.model';
+import { RecordRevisionRepository } from '../repositories/core/record-revision.repository';
+
+export type RevisionOperation = 'create' | 'update' | 'replace' | 'delete';
+
+/**
+ * Writes and reads record snapshots in the revision history collection.
+ *
+ * Repositories call this service after every create, update and replace, and
+ * before every delete. The service decides, based on the record type and the
+ * `_kind` of the record, whether a revision must be kept. Revisions are
+ * written with the same options as the originating operation, so that they
+ * take part in the same transaction.
+ */
+@injectable()
+export class RevisionHistoryService {
+  /**
+   * Fields that are never part of a snapshot: response-only virtual fields and
+   * the internal idempotency key, which is never exposed to clients.
+   */
+  private readonly excludedFields = [
+    '_recordType',
+    '_relationMetadata',
+    '_fromMetadata',
+    '_toMetadata',
+    '_idempotencyKey',
+  ];
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+    @inject(HistoryConfigBindings.CONFIG_READER)
+    private historyConfigReader: HistoryConfigurationReader,
+    @repository(RecordRevisionRepository)
+    private recordRevisionRepository: RecordRevisionRepository,
+  ) {}
+
+  /**
+   * Returns true if revisions must be kept for records of the given type and kind.
+   */
+  isHistoryEnabled(recordType: string, kind?: string): boolean {
+    switch (recordType) {
+      case 'entity':
+        return this.historyConfigReader.isHistoryEnabledForEntities(kind);
+      case 'list':
+        return this.historyConfigReader.isHistoryEnabledForLists(kind);
+      case 'entityReaction':
+        return this.historyConfigReader.isHistoryEnabledForEntityReactions(
+          kind,
+        );
+      case 'listReaction':
+        return this.historyConfigReader.isHistoryEnabledForListReactions(kind);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Keeps a snapshot of the given record if history is enabled for its kind.
+   */
+  async recordRevision(
+    recordType: string,
+    operation: RevisionOperation,
+    record: AnyObject,
+    options?: Options,
+  ): Promise<void> {
+    return this.recordRevisions(recordType, operation, [record], options);
+  }
+
+  /**
+   * Keeps a snapshot of each given record for which history is enabled.
+   *
+   * For create, update and replace operations the record must be given in
+   * its state after the operation. For delete operations the record must be
+   * given in its last state before deletion; the revision is then numbered as
+   * the version following the last one.
+   */
+  async recordRevisions(
+    recordType: string,
+    operation: RevisionOperation,
+    records: AnyObject[],
+    options?: Options,
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    const revisions = records
+      .map((record) => this.toPlainObject(record))
+      .filter((record) => this.isHistoryEnabled(recordType, record._kind))
+      .map((record) => {
+        const version = record._version ?? 1;
+
+        return {
+          _recordId: record._id,
+          _recordType: recordType,
+          _kind: record._kind,
+          _version: operation === 'delete' ? version + 1 : version,
+          _operation: operation,
+          _revisionDateTime: now,
+          _snapshot: _.omit(record, this.excludedFields),
+        };
+      });
+
+    if (revisions.length === 0) {
+      return;
+    }
+
+    this.loggingService.debug(
+      `RevisionHistoryService.recordRevisions - Recording ${revisions.length} revision(s):`,
+      {
+        recordType,
+        operation,
+        recordIds: revisions.map((revision) => revision._recordId),
+      },
+    );
+
+    await this.recordRevisionRepository.createAll(revisions, options);
+  }
+
+  /**
+   * Finds the revisions of a record. Revisions are ordered by version
+   * unless the filter specifies another order.
+   */
+  async findRevisions(
+    recordType: string,
+    recordId: string,
+    filter?: Filter<RecordRevision>,
+    options?: Options,
+  ): Promise<RecordRevision[]> {
+    const recordWhere = { _recordType: recordType, _recordId: recordId };
+
+    return this.recordRevisionRepository.find(
+      {
+        ...filter,
+        where: filter?.where
+          ? { and: [recordWhere, filter.where] }
+          : recordWhere,
+        order: filter?.order ?? ['_version ASC'],
+      },
+      options,
+    );
+  }
+
+  /**
+   * Finds a single revision of a record by its version.
+   * Returns null if there is no such revision.
+   */
+  async findRevision(
+    recordType: string,
+    recordId: string,
+    version: number,
+    options?: Options,
+  ): Promise<RecordRevision | null> {
+    return this.recordRevisionRepository.findOne(
+      {
+        where: {
+          _recordType: recordType,
+          _recordId: recordId,
+          _version: version,
+        },
+      },
+      options,
+    );
+  }
+
+  /**
+   * Builds the payload that replaces a record with the state kept in the given
+   * revision. Server managed fields are left out, so that the replace path
+   * sets them again and the restored record gets a new version.
+   */
+  toRestoreData(revision: RecordRevision): AnyObject {
+    return _.omit(revision._snapshot ?? {}, [
+      ...STRICTLY_INTERNAL_FIELDS,
+      '_lastUpdatedDateTime',
+    ]);
+  }
+
+  private toPlainObject(record: AnyObject): AnyObject {
+    return typeof record.toJSON === 'function' ? record.toJSON() : record;
+  }
+}
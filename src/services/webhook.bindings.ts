@@ -0,0 +1,6 @@
+import { BindingKey } from '@loopback/core';
+import type { WebhookService } from './webhook.service';
+
+export const WebhookBindings = {
+  SERVICE: BindingKey.create<WebhookService>('services.webhook'),
+} as const;
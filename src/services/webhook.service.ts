@@ -0,0 +1,486 @@
+import { inject, injectable } from '@loopback/core';
+import type { AnyObject, Filter, Options, Where } from '@loopback/repository';
+import { FilterBuilder, repository } from '@loopback/repository';
+import * as crypto from 'crypto';
+import _ from 'lodash';
+import { parse } from 'qs';
+import type { ChangeOperation } from './change-feed.service';
+import { LoggingService } from './logging.service';
+import { EnvConfigHelper } from '../extensions/config-helpers/env-config-helper';
+import { FilterMatcher } from '../extensions/utils/filter-matcher';
+import { Set, SetFilterBuilder } from '../extensions/utils/set-helper';
+import { ChangeEvent, WebhookDeadLetter, WebhookDelivery } from '../models';
+import { WebhookDeadLetterRepository } from '../repositories/core/webhook-dead-letter.repository';
+import { WebhookDeliveryRepository } from '../repositories/core/webhook-delivery.repository';
+
+/**
+ * A webhook subscription, as configured in the `WEBHOOKS` environment variable.
+ */
+export interface WebhookSubscription {
+  /** Unique id of the subscription */
+  id: string;
+  /** URL the change events are posted to */
+  url: string;
+  /** Secret used to sign the requests */
+  secret: string;
+  /** Record types to deliver (entity, list, entityReaction, listReaction). All if omitted. */
+  models?: string[];
+  /** Kinds of the records to deliver. All if omitted. */
+  kinds?: string[];
+  /** Operations to deliver (create, update, replace, delete). All if omitted. */
+  operations?: ChangeOperation[];
+  /** Optional `set` and `where` query the record must match, e.g. `set[publics]=true` */
+  scope?: string;
+}
+
+/**
+ * Queues, sends and retries the deliveries of change events to the webhook
+ * subscriptions.
+ *
+ * The ChangeFeedService hands every recorded change event to this service,
+ * which queues a delivery for each matching subscription in the same
+ * transaction as the event. Queued deliveries are sent by the webhook
+ * dispatcher once the transaction is committed. Failed attempts are retried
+ * with an exponential backoff, and deliveries failing on every attempt are
+ * moved to the dead-letter collection.
+ */
+@injectable()
+export class WebhookService {
+  static readonly SIGNATURE_HEADER = 'X-Webhook-Signature';
+  static readonly DEFAULT_MAX_ATTEMPTS = 5;
+  static readonly DEFAULT_RETRY_DELAY_MS = 1000;
+  static readonly DEFAULT_TIMEOUT_MS = 10000;
+  static readonly DEFAULT_DISPATCH_INTERVAL_MS = 1000;
+  static readonly DISPATCH_BATCH_SIZE = 100;
+
+  /**
+   * Fields that are never sent to the subscribers: response-only virtual
+   * fields and the internal idempotency key, which is never exposed to
+   * clients.
+   */
+  private readonly excludedFields = [
+    '_recordType',
+    '_relationMetadata',
+    '_fromMetadata',
+    '_toMetadata',
+    '_idempotencyKey',
+  ];
+
+  private subscriptions: WebhookSubscription[];
+
+  constructor(
+    @inject('services.LoggingService')
+    private loggingService: LoggingService,
+    @repository(WebhookDeliveryRepository)
+    private webhookDeliveryRepository: WebhookDeliveryRepository,
+    @repository(WebhookDeadLetterRepository)
+    private webhookDeadLetterRepository: WebhookDeadLetterRepository,
+  ) {
+    this.initializeConfig();
+  }
+
+  /**
+   * Returns true if at least one webhook subscription is configured.
+   */
+  hasSubscriptions(): boolean {
+    return this.subscriptions.length > 0;
+  }
+
+  /**
+   * Returns the interval in milliseconds between two runs of the dispatcher.
+   */
+  getDispatchInterval(): number {
+    return (
+      EnvConfigHelper.getInstance().WEBHOOK_DISPATCH_INTERVAL_MS ??
+      WebhookService.DEFAULT_DISPATCH_INTERVAL_MS
+    );
+  }
+
+  /**
+   * Queues a delivery of each change event to each subscription it matches.
+   *
+   * Records must be given in the same order as the events, in their state
+   * after the operation, or in their last state for deletions. The scope of a
+   * subscription is evaluated against this state.
+   */
+  async enqueueDeliveries(
+    events: ChangeEvent[],
+    records: AnyObject[],
+    options?: Options,
+  ): Promise<void> {
+    if (!this.hasSubscriptions()) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const deliveries: Partial<WebhookDelivery>[] = [];
+
+    events.forEach((event, index) => {
+      const record = _.omit(records[index], this.excludedFields);
+
+      for (const subscription of this.subscriptions) {
+        if (!this.matches(subscription, event, record)) {
+          continue;
+        }
+
+        deliveries.push({
+          _webhookId: subscription.id,
+          _url: subscription.url,
+          _eventId: event._id,
+          _recordType: event._recordType,
+          _kind: event._kind,
+          _recordId: event._recordId,
+          _operation: event._operation,
+          _payload: JSON.parse(
+            JSON.stringify({ event: event.toJSON(), record }),
+          ),
+          _status: 'pending',
+          _attempts: 0,
+          _nextAttemptDateTime: now,
+          _createdDateTime: now,
+        });
+      }
+    });
+
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    this.loggingService.debug(
+      `WebhookService.enqueueDeliveries - Queueing ${deliveries.length} delivery(ies):`,
+      {
+        webhookIds: _.uniq(deliveries.map((delivery) => delivery._webhookId)),
+      },
+    );
+
+    await this.webhookDeliveryRepository.createAll(deliveries, options);
+  }
+
+  /**
+   * Sends the pending deliveries whose next attempt is due.
+   *
+   * Each delivery is claimed right before it is sent, by moving its next
+   * attempt forward, so that the same delivery is not sent by two service
+   * instances at the same time. The lease is taken from the time of the claim,
+   * as the deliveries before it may have taken up to their timeout each.
+   *
+   * @returns The number of deliveries attempted
+   */
+  async dispatchPendingDeliveries(): Promise<number> {
+    const now = new Date();
+    const deliveries = await this.webhookDeliveryRepository.find({
+      where: {
+        _status: 'pending',
+        _nextAttemptDateTime: { lte: now.toISOString() },
+      },
+      order: ['_nextAttemptDateTime ASC'],
+      limit: WebhookService.DISPATCH_BATCH_SIZE,
+    });
+
+    let attempted = 0;
+
+    for (const delivery of deliveries) {
+      const leaseUntil = new Date(Date.now() + this.getTimeout() * 2);
+      const claimed = await this.webhookDeliveryRepository.updateAll(
+        { _nextAttemptDateTime: leaseUntil.toISOString() },
+        {
+          _id: delivery._id,
+          _status: 'pending',
+          _nextAttemptDateTime: delivery._nextAttemptDateTime,
+        },
+      );
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await this.deliver(delivery);
+      attempted++;
+    }
+
+    return attempted;
+  }
+
+  /**
+   * Reads the queued and delivered deliveries.
+   */
+  async findDeliveries(
+    filter?: Filter<WebhookDelivery>,
+  ): Promise<WebhookDelivery[]> {
+    return this.webhookDeliveryRepository.find(filter);
+  }
+
+  /**
+   * Reads the deliveries that failed on every attempt.
+   */
+  async findDeadLetters(
+    filter?: Filter<WebhookDeadLetter>,
+  ): Promise<WebhookDeadLetter[]> {
+    return this.webhookDeadLetterRepository.find(filter);
+  }
+
+  /**
+   * Computes the value of the signature header for the given request body.
+   * Subscribers verify the request by computing the HMAC-SHA256 of the raw
+   * body with their secret.
+   */
+  sign(body: string, secret: string): string {
+    const digest = crypto
+      .createHmac('sha256', secret)
+      .update(body)
+      .digest('hex');
+
+    return `sha256=${digest}`;
+  }
+
+  /**
+   * Returns the delay before the given attempt is retried. The delay doubles
+   * with each failed attempt.
+   */
+  getRetryDelay(attempts: number): number {
+    const baseDelay =
+      EnvConfigHelper.getInstance().WEBHOOK_RETRY_DELAY_MS ??
+      WebhookService.DEFAULT_RETRY_DELAY_MS;
+
+    return baseDelay * 2 ** Math.max(attempts - 1, 0);
+  }
+
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    const subscription = this.subscriptions.find(
+      (s) => s.id === delivery._webhookId,
+    );
+
+    if (!subscription) {
+      await this.recordFailure(
+        delivery,
+        `Webhook subscription '${delivery._webhookId}' is no longer configured`,
+        undefined,
+        true,
+      );
+
+      return;
+    }
+
+    const body = JSON.stringify(delivery._payload);
+
+    try {
+      const response = await fetch(delivery._url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': subscription.id,
+          'X-Webhook-Delivery': delivery._id,
+          [WebhookService.SIGNATURE_HEADER]: this.sign(
+            body,
+            subscription.secret,
+          ),
+        },
+        body,
+        signal: AbortSignal.timeout(this.getTimeout()),
+      });
+
+      if (!response.ok) {
+        await this.recordFailure(
+          delivery,
+          `Subscriber responded with status ${response.status}`,
+          response.status,
+        );
+
+        return;
+      }
+
+      await this.webhookDeliveryRepository.updateById(delivery._id, {
+        _status: 'delivered',
+        _attempts: delivery._attempts + 1,
+        _lastAttemptDateTime: new Date().toISOString(),
+        _lastResponseStatus: response.status,
+        _deliveredDateTime: new Date().toISOString(),
+      });
+    } catch (error) {
+      await this.recordFailure(delivery, error.message, undefined);
+    }
+  }
+
+  /**
+   * Schedules the next attempt of a failed delivery, or moves it to the
+   * dead-letter collection once the maximum number of attempts is reached.
+   */
+  private async recordFailure(
+    delivery: WebhookDelivery,
+    reason: string,
+    responseStatus: number | undefined,
+    final = false,
+  ): Promise<void> {
+    const attempts = delivery._attempts + 1;
+    const now = new Date();
+
+    this.loggingService.warn(
+      `WebhookService.deliver - Delivery ${delivery._id} to webhook '${delivery._webhookId}' failed on attempt ${attempts}: ${reason}`,
+    );
+
+    if (final || attempts >= this.getMaxAttempts()) {
+      await this.webhookDeadLetterRepository.create({
+        ...delivery.toJSON(),
+        _status: 'failed',
+        _attempts: attempts,
+        _nextAttemptDateTime: undefined,
+        _lastAttemptDateTime: now.toISOString(),
+        _lastResponseStatus: responseStatus,
+        _lastError: reason,
+      });
+      await this.webhookDeliveryRepository.deleteById(delivery._id);
+
+      return;
+    }
+
+    await this.webhookDeliveryRepository.updateById(delivery._id, {
+      _attempts: attempts,
+      _nextAttemptDateTime: new Date(
+        now.getTime() + this.getRetryDelay(attempts),
+      ).toISOString(),
+      _lastAttemptDateTime: now.toISOString(),
+      _lastResponseStatus: responseStatus,
+      _lastError: reason,
+    });
+  }
+
+  /**
+   * Checks if the change event and the record match the model, kind,
+   * operation and scope of the subscription.
+   */
+  private matches(
+    subscription: WebhookSubscription,
+    event: ChangeEvent,
+    record: AnyObject,
+  ): boolean {
+    if (
+      subscription.models &&
+      !subscription.models.includes(event._recordType)
+    ) {
+      return false;
+    }
+
+    if (
+      subscription.kinds &&
+      !subscription.kinds.includes(event._kind as string)
+    ) {
+      return false;
+    }
+
+    if (
+      subscription.operations &&
+      !subscription.operations.includes(event._operation as ChangeOperation)
+    ) {
+      return false;
+    }
+
+    if (!subscription.scope) {
+      return true;
+    }
+
+    return FilterMatcher.matches(
+      record,
+      this.scopeToFilter(subscription.scope).where,
+    );
+  }
+
+  /**
+   * Convert scope string to a Filter object
+   */
+  private scopeToFilter(scope: string): Filter<AnyObject> {
+    const parsed = parse(scope);
+    const parsedSet = parsed.set as Set;
+    const parsedWhere = parsed.where as Where<AnyObject>;
+
+    const filterBuilder = new FilterBuilder<AnyObject>();
+    if (parsedWhere) {
+      filterBuilder.where(parsedWhere);
+    }
+
+    let filter = filterBuilder.build();
+    if (parsedSet) {
+      filter = new SetFilterBuilder<AnyObject>(parsedSet, {
+        filter: filter,
+      }).build();
+    }
+
+    return filter;
+  }
+
+  private getMaxAttempts(): number {
+    return (
+      EnvConfigHelper.getInstance().WEBHOOK_MAX_ATTEMPTS ??
+      WebhookService.DEFAULT_MAX_ATTEMPTS
+    );
+  }
+
+  private getTimeout(): number {
+    return (
+      EnvConfigHelper.getInstance().WEBHOOK_TIMEOUT_MS ??
+      WebhookService.DEFAULT_TIMEOUT_MS
+    );
+  }
+
+  /**
+   * Initialize the subscriptions by parsing the `WEBHOOKS` environment variable
+   */
+  private initializeConfig(): void {
+    this.subscriptions = [];
+
+    const env = EnvConfigHelper.getInstance();
+    if (!env.WEBHOOKS) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env.WEBHOOKS);
+    } catch (error) {
+      this.loggingService.error('Failed to parse configuration:', error);
+      throw new Error('Invalid configuration');
+    }
+
+    if (!Array.isArray(parsed)) {
+      this.loggingService.warn(
+        `Invalid WEBHOOKS value: expected JSON array, got ${typeof parsed}`,
+      );
+
+      return;
+    }
+
+    for (const item of parsed) {
+      if (
+        !item ||
+        typeof item.id !== 'string' ||
+        typeof item.url !== 'string' ||
+        typeof item.secret !== 'string'
+      ) {
+        this.loggingService.warn(
+          'Skipping invalid webhook subscription in WEBHOOKS: id, url and secret are required',
+        );
+        continue;
+      }
+
+      if (this.subscriptions.some((s) => s.id === item.id)) {
+        this.loggingService.warn(
+          `Skipping duplicate webhook subscription '${item.id}' in WEBHOOKS`,
+        );
+        continue;
+      }
+
+      this.subscriptions.push({
+        id: item.id,
+        url: item.url,
+        secret: item.secret,
+        models: item.models,
+        kinds: item.kinds,
+        operations: item.operations,
+        scope: item.scope,
+      });
+    }
+
+    this.loggingService.debug('Webhook subscriptions initialized:', {
+      webhookIds: this.subscriptions.map((s) => s.id),
+    });
+  }
+}